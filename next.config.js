@@ -10,7 +10,7 @@ const nextConfig = {
   // Ensure CSS is always bundled properly
   experimental: {
     optimizeCss: false,
-    serverComponentsExternalPackages: ['unpdf'],
+    serverComponentsExternalPackages: ['unpdf', '@huggingface/transformers', 'onnxruntime-node'],
   },
   webpack: (config, { isServer }) => {
     if (isServer) {
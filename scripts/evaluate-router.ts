@@ -0,0 +1,85 @@
+/**
+ * Intent router evaluation
+ *
+ * Runs every query in scripts/routing-queries.json through the regex rules
+ * and, when a chat provider is configured (and --rules-only is not passed), the
+ * LLM router, then reports exact-match routing accuracy, per-expert precision
+ * and recall, and the misrouted queries. The knowledge expert always runs, so
+ * labels only list the extra experts (search, youtube, summarize, table).
+ *
+ * Usage: NVIDIA_API_KEY=... npm run eval:router -- [--rules-only]
+ * (any chat provider works, e.g. CHAT_PROVIDER=openai OPENAI_CHAT_BASE_URL=...)
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import '../src/lib/experts'; // registers the built-in experts the router chooses from
+import { isChatConfigured } from '../src/lib/llm';
+import { routeByRules, routeQuery, type RoutingDecision } from '../src/lib/intent-router';
+
+interface LabeledQuery {
+  query: string;
+  experts: string[];
+}
+
+const EXPERTS = ['search', 'youtube', 'summarize', 'table'];
+
+const labeled: LabeledQuery[] = JSON.parse(
+  readFileSync(path.join(__dirname, 'routing-queries.json'), 'utf-8')
+);
+
+function extraExperts(decision: RoutingDecision): string[] {
+  return decision.experts.filter((e) => EXPERTS.includes(e)).sort();
+}
+
+async function evaluate(name: string, route: (query: string) => Promise<RoutingDecision>) {
+  let correct = 0;
+  let fellBack = 0;
+  const counts = Object.fromEntries(EXPERTS.map((e) => [e, { tp: 0, fp: 0, fn: 0 }]));
+  const misses: string[] = [];
+
+  for (const item of labeled) {
+    const decision = await route(item.query);
+    if (name === 'llm' && decision.method !== 'llm') fellBack++;
+
+    const predicted = extraExperts(decision);
+    const expected = item.experts.slice().sort();
+    if (predicted.join(',') === expected.join(',')) correct++;
+    else misses.push(`  "${item.query}" → [${predicted.join(', ')}], expected [${expected.join(', ')}]`);
+
+    for (const expert of EXPERTS) {
+      const p = predicted.includes(expert);
+      const e = expected.includes(expert);
+      if (p && e) counts[expert].tp++;
+      else if (p) counts[expert].fp++;
+      else if (e) counts[expert].fn++;
+    }
+  }
+
+  console.log(`\n── ${name} router ──`);
+  console.log(`Accuracy: ${correct}/${labeled.length} (${((correct / labeled.length) * 100).toFixed(1)}%)`);
+  if (fellBack > 0) console.log(`Fell back to rules on ${fellBack} queries`);
+  for (const expert of EXPERTS) {
+    const { tp, fp, fn } = counts[expert];
+    const precision = tp + fp ? tp / (tp + fp) : 1;
+    const recall = tp + fn ? tp / (tp + fn) : 1;
+    console.log(`  ${expert.padEnd(10)} precision ${(precision * 100).toFixed(0)}%, recall ${(recall * 100).toFixed(0)}%`);
+  }
+  if (misses.length > 0) console.log(`Misrouted:\n${misses.join('\n')}`);
+}
+
+async function main() {
+  await evaluate('rules', async (query) => routeByRules(query));
+
+  if (process.argv.includes('--rules-only')) return;
+  if (!isChatConfigured()) {
+    console.log('\nNo chat provider is configured — skipping the LLM router');
+    return;
+  }
+  await evaluate('llm', routeQuery);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
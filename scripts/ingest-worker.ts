@@ -0,0 +1,25 @@
+/**
+ * Ingest worker
+ *
+ * Dedicated process that runs queued IngestJobs (text extraction, Whisper
+ * transcription, AI enrichment, indexing) so long uploads are not bound by the
+ * web server's request limits. Run it next to the app with
+ * INGEST_WORKER=external set for the web server, so only this process drains
+ * the queue.
+ *
+ * Usage: npm run worker:ingest
+ */
+
+import { runIngestWorker } from '../src/lib/ingest-jobs';
+
+const controller = new AbortController();
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => controller.abort());
+}
+
+runIngestWorker(controller.signal)
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
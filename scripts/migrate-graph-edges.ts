@@ -0,0 +1,64 @@
+/**
+ * Knowledge graph edge migration
+ *
+ * Converts the legacy `connections` JSON on KnowledgeNode into KnowledgeEdge
+ * rows: "mentions" from a document node to whatever it was connected to,
+ * "co_occurs" between any other pair. The old connections carried no
+ * evidence, so the edges start at weight 1 and gain evidence as documents
+ * are re-processed. Migrated nodes have their connections cleared, so the
+ * script can be run again safely.
+ *
+ * Usage: npm run graph:migrate-edges
+ */
+
+import prisma from '../src/lib/prisma';
+import { upsertEdges, type EdgeInput } from '../src/lib/graph';
+
+async function migrate() {
+  const nodes = await prisma.knowledgeNode.findMany({
+    where: { connections: { not: null } },
+    select: { id: true, userId: true, type: true, connections: true },
+  });
+  const types = new Map(
+    (await prisma.knowledgeNode.findMany({ select: { id: true, type: true } })).map((n) => [n.id, n.type])
+  );
+
+  let created = 0;
+  let skipped = 0;
+  for (const node of nodes) {
+    let targets: string[] = [];
+    try {
+      const parsed = JSON.parse(node.connections || '[]');
+      targets = Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {}
+
+    const edges: EdgeInput[] = [];
+    for (const targetId of targets) {
+      const targetType = types.get(targetId);
+      // Connections to deleted nodes
+      if (!targetType) {
+        skipped++;
+        continue;
+      }
+      if (node.type === 'document') {
+        edges.push({ sourceId: node.id, targetId, relation: 'mentions' });
+      } else if (targetType === 'document') {
+        edges.push({ sourceId: targetId, targetId: node.id, relation: 'mentions' });
+      } else {
+        edges.push({ sourceId: node.id, targetId, relation: 'co_occurs' });
+      }
+    }
+
+    created += await upsertEdges(node.userId, edges);
+    await prisma.knowledgeNode.update({ where: { id: node.id }, data: { connections: null } });
+  }
+
+  console.log(`[Graph] Migrated ${nodes.length} nodes: ${created} edges created, ${skipped} dangling connections dropped`);
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -2,15 +2,35 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, Bot, User, Sparkles, Loader2, Plus, MessageSquare, Trash2, Paperclip, FileText, X, Upload, Check, Copy, RotateCcw } from 'lucide-react';
+import { Send, Bot, User, Sparkles, Loader2, Plus, MessageSquare, Trash2, Paperclip, FileText, X, Upload, Check, Copy, RotateCcw, Wrench, XCircle } from 'lucide-react';
 import ChatMarkdown from '@/components/shared/ChatMarkdown';
 import toast from 'react-hot-toast';
+import { formatTimestamp } from '@/lib/utils';
+
+interface Source {
+  id: string;
+  title: string;
+  url?: string;
+  page?: number;
+  timestamp?: number;
+  relevance?: number;
+  reranker?: string;
+}
+
+interface AgentStep {
+  step: number;
+  tool: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'done' | 'error';
+  summary?: string;
+}
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  sources?: { id: string; title: string }[];
+  sources?: Source[];
+  steps?: AgentStep[];
   createdAt: Date;
 }
 
@@ -29,6 +49,7 @@ export default function ConversePage() {
   const [isUploading, setIsUploading] = useState(false);
   const [showUploadPanel, setShowUploadPanel] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [agentMode, setAgentMode] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -62,6 +83,7 @@ export default function ConversePage() {
           role: m.role as 'user' | 'assistant',
           content: m.content,
           sources: m.sources ? JSON.parse(m.sources) : undefined,
+          steps: m.metadata ? JSON.parse(m.metadata).steps : undefined,
           createdAt: new Date(m.createdAt),
         }))
       );
@@ -193,6 +215,7 @@ export default function ConversePage() {
           message: userMessage.content,
           conversationId: currentConversationId,
           stream: true,
+          ...(agentMode ? { agentic: true } : {}),
         }),
       });
 
@@ -203,7 +226,7 @@ export default function ConversePage() {
         const reader = res.body.getReader();
         const decoder = new TextDecoder();
         let fullContent = '';
-        let sources: { id: string; title: string }[] = [];
+        let sources: Source[] = [];
         let newConvId: string | null = null;
 
         while (true) {
@@ -219,6 +242,17 @@ export default function ConversePage() {
               if (data === '[DONE]') continue;
               try {
                 const parsed = JSON.parse(data);
+                if (parsed.step) {
+                  // Tool steps arrive twice: when they start and when they finish
+                  const step: AgentStep = parsed.step;
+                  setMessages((prev) =>
+                    prev.map((m) =>
+                      m.id === assistantId
+                        ? { ...m, steps: [...(m.steps || []).filter((s) => s.step !== step.step), step] }
+                        : m
+                    )
+                  );
+                }
                 if (parsed.content) {
                   fullContent += parsed.content;
                   setMessages((prev) =>
@@ -399,6 +433,26 @@ export default function ConversePage() {
                 >
                   {msg.role === 'assistant' ? (
                     <>
+                      {msg.steps && msg.steps.length > 0 && (
+                        <div className="mb-2 space-y-1">
+                          {msg.steps.map((step) => (
+                            <div key={step.step} className="flex items-center gap-1.5 text-xs text-text-secondary">
+                              {step.status === 'running' ? (
+                                <Loader2 className="w-3 h-3 animate-spin text-neon-blue shrink-0" />
+                              ) : step.status === 'error' ? (
+                                <XCircle className="w-3 h-3 text-red-400 shrink-0" />
+                              ) : (
+                                <Wrench className="w-3 h-3 text-neon-green shrink-0" />
+                              )}
+                              <span className="font-mono text-neon-blue/80">{step.tool}</span>
+                              <span className="truncate">
+                                {Object.values(step.args).map(String).join(', ')}
+                                {step.summary ? ` → ${step.summary}` : ''}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                       {msg.content ? (
                         <ChatMarkdown content={msg.content} />
                       ) : (
@@ -431,15 +485,26 @@ export default function ConversePage() {
                     <div className="mt-3 pt-2.5 border-t border-white/10">
                       <p className="text-[11px] text-text-secondary mb-1.5 font-medium uppercase tracking-wider">Sources</p>
                       <div className="flex flex-wrap gap-1.5">
-                        {msg.sources.map((source, i) => (
-                          <span
-                            key={i}
-                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs bg-neon-blue/10 text-neon-blue border border-neon-blue/15"
-                          >
-                            <FileText className="w-3 h-3" />
-                            {source.title}
-                          </span>
-                        ))}
+                        {msg.sources.map((source, i) => {
+                          const SourceTag = source.url ? 'a' : 'span';
+                          return (
+                            <SourceTag
+                              key={i}
+                              {...(source.url ? { href: source.url, target: '_blank', rel: 'noopener noreferrer' } : {})}
+                              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs bg-neon-blue/10 text-neon-blue border border-neon-blue/15${source.url ? ' hover:bg-neon-blue/20 transition-colors' : ''}`}
+                              title={source.relevance !== undefined ? `Relevance ${Math.round(source.relevance * 100)}% (${source.reranker})` : undefined}
+                            >
+                              <FileText className="w-3 h-3" />
+                              {source.page !== undefined ? `${source.title}, p. ${source.page}` : source.title}
+                              {source.timestamp !== undefined && (
+                                <span className="text-text-secondary">at {formatTimestamp(source.timestamp)}</span>
+                              )}
+                              {source.relevance !== undefined && (
+                                <span className="text-text-secondary">· {Math.round(source.relevance * 100)}%</span>
+                              )}
+                            </SourceTag>
+                          );
+                        })}
                       </div>
                     </div>
                   )}
@@ -522,6 +587,17 @@ export default function ConversePage() {
             >
               <Plus className="w-5 h-5" />
             </button>
+            <button
+              onClick={() => setAgentMode(!agentMode)}
+              className={`p-3 rounded-xl border transition-all shrink-0 ${
+                agentMode
+                  ? 'bg-neon-purple/20 border-neon-purple/40 text-neon-purple'
+                  : 'border-white/10 text-text-secondary hover:text-white hover:border-white/20 hover:bg-white/5'
+              }`}
+              title={agentMode ? 'Agent mode on: the AI searches with tools step by step' : 'Agent mode off'}
+            >
+              <Wrench className="w-5 h-5" />
+            </button>
             <textarea
               ref={inputRef}
               value={input}
@@ -1,27 +1,83 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { motion } from 'framer-motion';
 import { User, Bell, Shield, Palette, Save, Check, Brain, Zap } from 'lucide-react';
 import Image from 'next/image';
 import toast from 'react-hot-toast';
 
+interface Settings {
+  theme: string;
+  density: string;
+  notifications: boolean;
+  aiProcessing: boolean;
+  privacyLevel: 'cloud' | 'local';
+  chatModel: string | null;
+}
+
+interface ProviderInfo {
+  id: string;
+  models: string[];
+  local: boolean;
+  available: boolean;
+}
+
+const PROVIDER_NAMES: Record<string, string> = {
+  nvidia: 'NVIDIA NIM API',
+  huggingface: 'HuggingFace Inference API',
+  openai: 'OpenAI-compatible endpoint',
+  mock: 'Mock provider (offline)',
+};
+
 export default function SettingsPage() {
   const { data: session } = useSession();
   const [saved, setSaved] = useState(false);
-  const [settings, setSettings] = useState({
+  const [saving, setSaving] = useState(false);
+  const [provider, setProvider] = useState<ProviderInfo | null>(null);
+  const [settings, setSettings] = useState<Settings>({
     theme: 'dark',
     density: 'comfortable',
     notifications: true,
     aiProcessing: true,
-    privacyLevel: 'local',
+    privacyLevel: 'cloud',
+    chatModel: null,
   });
 
-  const handleSave = () => {
-    setSaved(true);
-    toast.success('Settings saved');
-    setTimeout(() => setSaved(false), 2000);
+  useEffect(() => {
+    fetch('/api/settings')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setSettings(data.settings);
+        setProvider(data.provider);
+      })
+      .catch((error) => console.error('Failed to load settings:', error));
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save settings');
+        return;
+      }
+      setSettings(data.settings);
+      setProvider(data.provider);
+      setSaved(true);
+      toast.success('Settings saved');
+      setTimeout(() => setSaved(false), 2000);
+    } catch {
+      toast.error('Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
   };
 
   return (
@@ -101,8 +157,30 @@ export default function SettingsPage() {
               <Zap className="w-4 h-4 text-neon-blue" />
               <span className="text-sm font-medium">AI Model</span>
             </div>
-            <p className="text-text-secondary text-sm">NVIDIA Llama 3.3 70B (via NIM API)</p>
-            <p className="text-xs text-neon-green mt-1">&#x2713; Connected</p>
+            <p className="text-text-secondary text-sm">
+              {provider ? PROVIDER_NAMES[provider.id] || provider.id : 'Loading…'}
+              {provider?.local && ' · on-prem'}
+            </p>
+            {provider && (
+              <p className={`text-xs mt-1 ${provider.available ? 'text-neon-green' : 'text-yellow-400'}`}>
+                {provider.available ? '\u2713 Connected' : 'Not configured for this privacy level'}
+              </p>
+            )}
+            <select
+              value={settings.chatModel || ''}
+              onChange={(e) => setSettings({ ...settings, chatModel: e.target.value || null })}
+              className="mt-3 w-full px-3 py-2 rounded-lg bg-bg-tertiary text-sm border border-white/5 focus:outline-none focus:border-neon-blue/40"
+            >
+              <option value="">Default ({provider?.models[0] || 'provider default'})</option>
+              {(provider?.models || []).map((model) => (
+                <option key={model} value={model}>
+                  {model}
+                </option>
+              ))}
+              {settings.chatModel && !provider?.models.includes(settings.chatModel) && (
+                <option value={settings.chatModel}>{settings.chatModel}</option>
+              )}
+            </select>
           </div>
         </div>
       </motion.div>
@@ -202,12 +280,39 @@ export default function SettingsPage() {
           <Shield className="w-5 h-5 text-neon-green" />
           <h2 className="text-lg font-semibold">Privacy &amp; Security</h2>
         </div>
-        <div className="p-4 rounded-xl bg-neon-green/5 border border-neon-green/20">
-          <p className="text-sm font-medium text-neon-green mb-1">Local-First Architecture</p>
-          <p className="text-text-secondary text-xs">
-            All your data is stored locally in SQLite. Your documents and conversations never leave
-            your machine. Only AI queries are sent to NVIDIA&apos;s API for processing.
-          </p>
+        <div className="space-y-3">
+          {([
+            {
+              level: 'cloud',
+              label: 'Cloud AI',
+              description: 'Use hosted models, web & YouTube search, HuggingFace fact-checking and reranking.',
+            },
+            {
+              level: 'local',
+              label: 'Local only',
+              description:
+                'Queries and documents never leave your infrastructure: no web or YouTube search, and only on-prem chat and embedding models.',
+            },
+          ] as const).map((option) => (
+            <button
+              key={option.level}
+              onClick={() => setSettings({ ...settings, privacyLevel: option.level })}
+              className={`w-full text-left p-4 rounded-xl transition-all ${
+                settings.privacyLevel === option.level
+                  ? 'bg-neon-green/5 border border-neon-green/20'
+                  : 'bg-bg-secondary border border-transparent hover:border-white/10'
+              }`}
+            >
+              <p
+                className={`text-sm font-medium mb-1 ${
+                  settings.privacyLevel === option.level ? 'text-neon-green' : 'text-white'
+                }`}
+              >
+                {option.label}
+              </p>
+              <p className="text-text-secondary text-xs">{option.description}</p>
+            </button>
+          ))}
         </div>
       </motion.div>
 
@@ -220,7 +325,8 @@ export default function SettingsPage() {
       >
         <button
           onClick={handleSave}
-          className="btn-primary flex items-center gap-2"
+          disabled={saving}
+          className="btn-primary flex items-center gap-2 disabled:opacity-60"
         >
           {saved ? <Check className="w-5 h-5" /> : <Save className="w-5 h-5" />}
           {saved ? 'Saved!' : 'Save Settings'}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Network, Maximize2, RefreshCw, X, Link2, Zap, Tag, Loader2, Search } from 'lucide-react';
+import { Network, Maximize2, RefreshCw, X, Link2, Zap, Tag, Loader2, Search, GitMerge, ArrowLeftRight, Check, Sparkles, Route, FileText } from 'lucide-react';
 import dynamic from 'next/dynamic';
 import toast from 'react-hot-toast';
 
@@ -20,6 +20,7 @@ interface GraphNode {
   label: string;
   type: string;
   strength: number;
+  aliases?: string[];
   val?: number;
   color?: string;
   x?: number;
@@ -31,7 +32,9 @@ interface GraphNode {
 interface GraphLink {
   source: string | GraphNode;
   target: string | GraphNode;
-  strength: number;
+  relation: string;
+  weight: number;
+  directed?: boolean;
   _bridge?: boolean; // invisible link to keep disconnected clusters nearby
 }
 
@@ -40,6 +43,45 @@ interface GraphData {
   links: GraphLink[];
 }
 
+interface MergeNode {
+  id: string;
+  label: string;
+  type: string;
+  strength: number;
+  aliases: string[];
+  edgeCount: number;
+}
+
+interface MergeSuggestion {
+  id: string;
+  reason: 'normalized' | 'alias' | 'embedding';
+  score: number;
+  confirmed: boolean;
+  node: MergeNode;
+  duplicate: MergeNode;
+}
+
+interface PathLink {
+  source: string;
+  target: string;
+  relation: string;
+  weight: number;
+  directed: boolean;
+  documents: { id: string; title: string }[];
+}
+
+interface PathResult {
+  path: string[];
+  nodes: GraphNode[];
+  links: PathLink[];
+}
+
+const mergeReasons: Record<MergeSuggestion['reason'], string> = {
+  normalized: 'Same name',
+  alias: 'Alias',
+  embedding: 'Similar',
+};
+
 const typeColors: Record<string, string> = {
   concept: '#00f0ff',
   entity: '#b829f7',
@@ -51,6 +93,48 @@ const typeColors: Record<string, string> = {
   organization: '#4ecdc4',
 };
 
+const relationColors: Record<string, string> = {
+  uses: '#00aaff',
+  part_of: '#4ecdc4',
+  depends_on: '#ffaa00',
+  causes: '#ff6b6b',
+  supports: '#00ff88',
+  contradicts: '#ff3355',
+  created_by: '#ffd166',
+  works_for: '#f4a261',
+  located_in: '#90be6d',
+  instance_of: '#b829f7',
+  related_to: '#c0c0ff',
+  links_to: '#ff0080',
+  participant_in: '#ffaa00',
+  mentions: '#8a8aa0',
+  co_occurs: '#8a8aa0',
+};
+
+const styleNode = (n: GraphNode): GraphNode => ({
+  ...n,
+  val: Math.max((n.strength || 1) * 2.5, 3),
+  color: typeColors[n.type?.toLowerCase()] || '#ffffff',
+});
+
+// Too common to label on the canvas; their color and the tooltip say enough
+const UNLABELLED_RELATIONS = new Set(['mentions', 'co_occurs']);
+
+const linkEnds = (link: any): [string, string] => [
+  typeof link.source === 'string' ? link.source : link.source?.id,
+  typeof link.target === 'string' ? link.target : link.target?.id,
+];
+
+// Either way round, for matching links to the hops of a path
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/** "uses →" / "← part of" as read from the node on the `fromSource` end */
+function relationText(link: GraphLink, fromSource: boolean): string {
+  const words = link.relation.replace(/_/g, ' ');
+  if (!link.directed) return words;
+  return fromSource ? `${words} →` : `← ${words}`;
+}
+
 export default function StudioPage() {
   const [graphData, setGraphData] = useState<GraphData>({ nodes: [], links: [] });
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
@@ -60,12 +144,23 @@ export default function StudioPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<GraphNode[]>([]);
   const [highlightedNodeId, setHighlightedNodeId] = useState<string | null>(null);
+  const [showMerges, setShowMerges] = useState(false);
+  const [mergeSuggestions, setMergeSuggestions] = useState<MergeSuggestion[]>([]);
+  const [scanningMerges, setScanningMerges] = useState(false);
+  const [confirmMerges, setConfirmMerges] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [showPath, setShowPath] = useState(false);
+  const [pathFrom, setPathFrom] = useState('');
+  const [pathTo, setPathTo] = useState('');
+  const [findingPath, setFindingPath] = useState(false);
+  const [pathResult, setPathResult] = useState<PathResult | null>(null);
   const graphRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     fetchGraphData();
+    fetchMergeSuggestions();
   }, []);
 
   useEffect(() => {
@@ -131,11 +226,7 @@ export default function StudioPage() {
       const res = await fetch('/api/brain/graph');
       const data = await res.json();
 
-      const allNodes = (data.nodes || []).map((n: GraphNode) => ({
-        ...n,
-        val: Math.max((n.strength || 1) * 2.5, 3),
-        color: typeColors[n.type?.toLowerCase()] || '#ffffff',
-      }));
+      const allNodes = (data.nodes || []).map(styleNode);
 
       // Keep up to 80 nodes: all concepts/documents/ideas, strongest entities
       const MAX_TOTAL_NODES = 80;
@@ -153,7 +244,7 @@ export default function StudioPage() {
       const MAX_LINKS_PER_NODE = 6;
 
       const sortedLinks = [...allLinks].sort(
-        (a: any, b: any) => (b.strength || 0) - (a.strength || 0)
+        (a: any, b: any) => (b.weight || 0) - (a.weight || 0)
       );
 
       const filteredLinks = sortedLinks.filter((link: any) => {
@@ -215,7 +306,8 @@ export default function StudioPage() {
           filteredLinks.push({
             source: bridgeSource,
             target: mainNodeId,
-            strength: 0.1,
+            relation: 'bridge',
+            weight: 0.1,
             _bridge: true,
           } as GraphLink);
         }
@@ -229,20 +321,152 @@ export default function StudioPage() {
     }
   };
 
-  // Find all nodes connected to the selected node
-  const connectedNodes = useMemo(() => {
-    if (!selectedNode || !graphData.links.length) return [];
+  const fetchMergeSuggestions = async () => {
+    try {
+      const res = await fetch('/api/brain/graph/merges');
+      const data = await res.json();
+      if (res.ok) setMergeSuggestions(data.suggestions || []);
+    } catch (error) {
+      console.error('Failed to fetch merge suggestions:', error);
+    }
+  };
+
+  const findDuplicates = async () => {
+    setScanningMerges(true);
+    try {
+      const res = await fetch('/api/brain/graph/merges', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirm: confirmMerges }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMergeSuggestions(data.suggestions || []);
+        toast.success(data.proposed > 0 ? `Found ${data.proposed} possible duplicates` : 'No new duplicates found');
+      } else {
+        toast.error(data.error || 'Failed to look for duplicates');
+      }
+    } catch (error) {
+      toast.error('Failed to look for duplicates');
+    } finally {
+      setScanningMerges(false);
+    }
+  };
+
+  const resolveSuggestion = async (suggestion: MergeSuggestion, action: 'accept' | 'reject', keepId?: string) => {
+    setResolvingId(suggestion.id);
+    try {
+      const res = await fetch(`/api/brain/graph/merges?id=${suggestion.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, keepId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to update suggestion');
+        return;
+      }
+      if (action === 'reject') {
+        setMergeSuggestions((current) => current.filter((s) => s.id !== suggestion.id));
+        return;
+      }
+      toast.success(`Merged into "${data.node.label}"`);
+      // Suggestions involving the merged-away node are gone with it
+      await fetchMergeSuggestions();
+      setSelectedNode(null);
+      setHighlightedNodeId(null);
+      await fetchGraphData();
+    } catch (error) {
+      toast.error('Failed to update suggestion');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const findPath = async () => {
+    const from = pathFrom.trim();
+    const to = pathTo.trim();
+    if (!from || !to) return;
+    setFindingPath(true);
+    try {
+      const params = new URLSearchParams({ mode: 'path', from, to });
+      const res = await fetch(`/api/brain/graph/query?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to find a path');
+        return;
+      }
+      if (!data.path) {
+        setPathResult(null);
+        toast(`"${from}" and "${to}" are not connected`);
+        return;
+      }
+
+      // The view only shows the strongest nodes; add whatever the path needs
+      setGraphData((current) => {
+        const shownNodes = new Set(current.nodes.map((n) => n.id));
+        const shownLinks = new Set(current.links.map((l) => `${linkEnds(l).join('|')}|${l.relation}`));
+        return {
+          nodes: [...current.nodes, ...(data.nodes as GraphNode[]).filter((n) => !shownNodes.has(n.id)).map(styleNode)],
+          links: [
+            ...current.links,
+            ...(data.links as PathLink[]).filter((l) => !shownLinks.has(`${l.source}|${l.target}|${l.relation}`)),
+          ],
+        };
+      });
+      setPathResult(data);
+      setSelectedNode(null);
+      setHighlightedNodeId(null);
+      // Once nodes new to the view have been placed
+      setTimeout(() => graphRef.current?.zoomToFit(600, 80, (node: any) => data.path.includes(node.id)), 400);
+    } catch (error) {
+      toast.error('Failed to find a path');
+    } finally {
+      setFindingPath(false);
+    }
+  };
+
+  const closePath = () => {
+    setShowPath(false);
+    setPathResult(null);
+  };
+
+  // Nodes on the path found, and the node pairs of its hops
+  const pathNodeIds = useMemo(() => new Set(pathResult?.path || []), [pathResult]);
+  const pathHops = useMemo(() => {
+    const hops = new Set<string>();
+    pathResult?.path.slice(1).forEach((id, i) => hops.add(pairKey(pathResult.path[i], id)));
+    return hops;
+  }, [pathResult]);
+
+  // How each node connected to the selected node relates to it, e.g. "uses →"
+  const connectedRelations = useMemo(() => {
+    const relations = new Map<string, string[]>();
+    if (!selectedNode) return relations;
 
-    const connectedIds = new Set<string>();
     for (const link of graphData.links) {
-      const sourceId = typeof link.source === 'string' ? link.source : link.source?.id;
-      const targetId = typeof link.target === 'string' ? link.target : link.target?.id;
-      if (sourceId === selectedNode.id) connectedIds.add(targetId);
-      if (targetId === selectedNode.id) connectedIds.add(sourceId);
+      if (link._bridge) continue;
+      const [sourceId, targetId] = linkEnds(link);
+      if (sourceId !== selectedNode.id && targetId !== selectedNode.id) continue;
+      const otherId = sourceId === selectedNode.id ? targetId : sourceId;
+      relations.set(otherId, [...(relations.get(otherId) || []), relationText(link, sourceId === selectedNode.id)]);
     }
+    return relations;
+  }, [selectedNode, graphData.links]);
 
-    return graphData.nodes.filter((n) => connectedIds.has(n.id));
-  }, [selectedNode, graphData]);
+  // Find all nodes connected to the selected node
+  const connectedNodes = useMemo(() => {
+    return graphData.nodes.filter((n) => connectedRelations.has(n.id));
+  }, [connectedRelations, graphData.nodes]);
+
+  // Relation types on screen, most common first, for the legend
+  const relationCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    graphData.links.forEach((link) => {
+      if (!link._bridge) counts[link.relation] = (counts[link.relation] || 0) + 1;
+    });
+    return Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  }, [graphData.links]);
 
   // Set of connected node IDs for highlighting
   const connectedNodeIds = useMemo(() => {
@@ -265,7 +489,7 @@ export default function StudioPage() {
       const res = await fetch('/api/brain/graph', { method: 'POST' });
       const data = await res.json();
       if (res.ok) {
-        toast.success(`Graph rebuilt: ${data.nodesCreated} new nodes, ${data.connectionsCreated} new connections`);
+        toast.success(`Graph rebuilt: ${data.documentsProcessed} documents updated, ${data.documentsUnchanged} unchanged, ${data.nodesCreated} new nodes, ${data.edgesCreated} new edges`);
         await fetchGraphData();
       } else {
         toast.error('Failed to rebuild graph');
@@ -292,7 +516,8 @@ export default function StudioPage() {
       const color = node.color || '#ffffff';
       const isSelected = selectedNode?.id === node.id;
       const isConnected = selectedNode && connectedNodeIds.has(node.id);
-      const isDimmed = selectedNode && !connectedNodeIds.has(node.id);
+      const isOnPath = pathNodeIds.has(node.id);
+      const isDimmed = selectedNode ? !connectedNodeIds.has(node.id) : pathNodeIds.size > 0 && !isOnPath;
       const isHighlighted = highlightedNodeId === node.id;
       const isSearchMatch = searchQuery && searchMatchIds.has(node.id);
       const isSearchDimmed = searchQuery && searchResults.length > 0 && !searchMatchIds.has(node.id);
@@ -343,6 +568,15 @@ export default function StudioPage() {
         ctx.stroke();
       }
 
+      // Path ring
+      if (isOnPath && !isSelected && !isHighlighted) {
+        ctx.beginPath();
+        ctx.arc(node.x, node.y, size + 4, 0, 2 * Math.PI);
+        ctx.strokeStyle = '#00ff88';
+        ctx.lineWidth = 2 / globalScale;
+        ctx.stroke();
+      }
+
       // Node body
       ctx.beginPath();
       ctx.arc(node.x, node.y, size, 0, 2 * Math.PI);
@@ -359,7 +593,7 @@ export default function StudioPage() {
 
       // Label logic: always show for selected/highlighted/search match, zoom-based for others
       const shouldShowLabel =
-        isSelected || isHighlighted || isSearchMatch || isConnected || globalScale > 1.8;
+        isSelected || isHighlighted || isSearchMatch || isConnected || isOnPath || globalScale > 1.8;
 
       if (shouldShowLabel) {
         const fontSize = Math.max(
@@ -401,7 +635,7 @@ export default function StudioPage() {
         }
       }
     },
-    [selectedNode, connectedNodeIds, highlightedNodeId, searchQuery, searchMatchIds, searchResults.length]
+    [selectedNode, connectedNodeIds, highlightedNodeId, searchQuery, searchMatchIds, searchResults.length, pathNodeIds]
   );
 
   // Link color
@@ -411,6 +645,12 @@ export default function StudioPage() {
       if (link._bridge) return 'rgba(0, 0, 0, 0)';
 
       if (!selectedNode) {
+        if (pathHops.size > 0) {
+          const [sourceId, targetId] = linkEnds(link);
+          return pathHops.has(pairKey(sourceId, targetId))
+            ? (relationColors[link.relation] || '#00ff88') + 'EE'
+            : 'rgba(255, 255, 255, 0.04)';
+        }
         // If searching, dim non-matching links
         if (searchQuery && searchResults.length > 0) {
           const sourceId = typeof link.source === 'string' ? link.source : link.source?.id;
@@ -420,19 +660,16 @@ export default function StudioPage() {
           }
           return 'rgba(255, 255, 255, 0.04)';
         }
-        return 'rgba(255, 255, 255, 0.15)';
+        return (relationColors[link.relation] || '#ffffff') + (UNLABELLED_RELATIONS.has(link.relation) ? '26' : '66');
       }
       const sourceId = typeof link.source === 'string' ? link.source : link.source?.id;
       const targetId = typeof link.target === 'string' ? link.target : link.target?.id;
       if (sourceId === selectedNode.id || targetId === selectedNode.id) {
-        const connectedNode = graphData.nodes.find(
-          (n) => n.id === (sourceId === selectedNode.id ? targetId : sourceId)
-        );
-        return (connectedNode?.color || '#00f0ff') + 'CC';
+        return (relationColors[link.relation] || '#00f0ff') + 'CC';
       }
       return 'rgba(255, 255, 255, 0.04)';
     },
-    [selectedNode, graphData.nodes, searchQuery, searchResults.length, searchMatchIds]
+    [selectedNode, searchQuery, searchResults.length, searchMatchIds, pathHops]
   );
 
   // Link width
@@ -442,6 +679,10 @@ export default function StudioPage() {
       if (link._bridge) return 0;
 
       if (!selectedNode) {
+        if (pathHops.size > 0) {
+          const [sourceId, targetId] = linkEnds(link);
+          return pathHops.has(pairKey(sourceId, targetId)) ? 3 : 0.2;
+        }
         if (searchQuery && searchResults.length > 0) {
           const sourceId = typeof link.source === 'string' ? link.source : link.source?.id;
           const targetId = typeof link.target === 'string' ? link.target : link.target?.id;
@@ -453,11 +694,51 @@ export default function StudioPage() {
       const sourceId = typeof link.source === 'string' ? link.source : link.source?.id;
       const targetId = typeof link.target === 'string' ? link.target : link.target?.id;
       if (sourceId === selectedNode.id || targetId === selectedNode.id) {
-        return Math.max((link.strength || 1) * 2, 2);
+        return Math.min(Math.max((link.weight || 1) * 1.5, 2), 6);
       }
       return 0.2;
     },
-    [selectedNode, searchQuery, searchResults.length, searchMatchIds]
+    [selectedNode, searchQuery, searchResults.length, searchMatchIds, pathHops]
+  );
+
+  // Relation labels along links: for the selected node's links, or everywhere once zoomed in
+  const paintLinkLabel = useCallback(
+    (link: any, ctx: CanvasRenderingContext2D, globalScale: number) => {
+      if (link._bridge || typeof link.source !== 'object' || typeof link.target !== 'object') return;
+      const touchesSelected = selectedNode && (link.source.id === selectedNode.id || link.target.id === selectedNode.id);
+      const onPath = !selectedNode && pathHops.has(pairKey(link.source.id, link.target.id));
+      if (selectedNode && !touchesSelected) return;
+      if (!selectedNode && pathHops.size > 0 && !onPath) return;
+      if (!touchesSelected && !onPath && (globalScale < 2.5 || UNLABELLED_RELATIONS.has(link.relation))) return;
+
+      // Midpoint of the curved link (quadratic bezier, see linkCurvature)
+      const { x: x1, y: y1 } = link.source;
+      const { x: x2, y: y2 } = link.target;
+      const length = Math.hypot(x2 - x1, y2 - y1);
+      if (length < 1) return;
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const offset = (length * 0.15) / 2;
+      const x = (x1 + x2) / 2 + offset * Math.cos(angle - Math.PI / 2);
+      const y = (y1 + y2) / 2 + offset * Math.sin(angle - Math.PI / 2);
+
+      const text = link.relation.replace(/_/g, ' ');
+      const fontSize = Math.max(9 / globalScale, 1.5);
+      ctx.font = `${fontSize}px Inter, system-ui, sans-serif`;
+      const textWidth = ctx.measureText(text).width;
+
+      ctx.save();
+      ctx.translate(x, y);
+      // Keep the text upright whichever way the link points
+      ctx.rotate(angle > Math.PI / 2 || angle < -Math.PI / 2 ? angle + Math.PI : angle);
+      ctx.fillStyle = 'rgba(10, 10, 15, 0.8)';
+      ctx.fillRect(-textWidth / 2 - 1.5 / globalScale, -fontSize / 2 - 1 / globalScale, textWidth + 3 / globalScale, fontSize + 2 / globalScale);
+      ctx.fillStyle = relationColors[link.relation] || '#ffffff';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(text, 0, 0);
+      ctx.restore();
+    },
+    [selectedNode, pathHops]
   );
 
   // Count types for legend
@@ -507,6 +788,40 @@ export default function StudioPage() {
               </button>
             )}
           </div>
+          <button
+            onClick={() => {
+              if (showPath) closePath();
+              else {
+                setShowPath(true);
+                setShowMerges(false);
+              }
+            }}
+            className={`px-3 py-2 rounded-xl glass hover:bg-white/10 transition-colors flex items-center gap-2 text-xs ${
+              showPath ? 'bg-white/10' : ''
+            }`}
+            title="How are two concepts connected?"
+          >
+            <Route className="w-4 h-4 text-neon-green" />
+            <span className="hidden sm:inline">Connect</span>
+          </button>
+          <button
+            onClick={() => {
+              setShowMerges((open) => !open);
+              closePath();
+            }}
+            className={`relative px-3 py-2 rounded-xl glass hover:bg-white/10 transition-colors flex items-center gap-2 text-xs ${
+              showMerges ? 'bg-white/10' : ''
+            }`}
+            title="Review duplicate entities"
+          >
+            <GitMerge className="w-4 h-4 text-neon-purple" />
+            <span className="hidden sm:inline">Merges</span>
+            {mergeSuggestions.length > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-neon-purple text-[10px] font-semibold text-white flex items-center justify-center">
+                {mergeSuggestions.length}
+              </span>
+            )}
+          </button>
           <button
             onClick={rebuildGraph}
             disabled={rebuilding}
@@ -524,6 +839,7 @@ export default function StudioPage() {
             onClick={() => {
               setSelectedNode(null);
               setHighlightedNodeId(null);
+              setPathResult(null);
               fetchGraphData();
             }}
             className="p-2 rounded-xl glass hover:bg-white/10 transition-colors"
@@ -617,6 +933,21 @@ export default function StudioPage() {
         </div>
       </div>
 
+      {/* Relation Legend */}
+      {relationCounts.length > 0 && (
+        <div className="absolute bottom-4 right-4 z-10 p-3 rounded-xl glass max-w-xs">
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1.5 text-xs">
+            {relationCounts.map(([relation, count]) => (
+              <span key={relation} className="flex items-center gap-1.5">
+                <span className="w-3 h-0.5 rounded-full" style={{ backgroundColor: relationColors[relation] || '#fff' }} />
+                <span className="text-text-secondary">{relation.replace(/_/g, ' ')}</span>
+                <span className="text-text-secondary/60">({count})</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Graph */}
       <div ref={containerRef} className="w-full h-full rounded-2xl overflow-hidden bg-bg-primary">
         {loading ? (
@@ -653,11 +984,19 @@ export default function StudioPage() {
             linkColor={linkColor}
             linkWidth={linkWidth}
             linkCurvature={0.15}
+            linkLabel={(link: any) =>
+              link._bridge ? '' : `${link.source.label} — ${link.relation.replace(/_/g, ' ')} — ${link.target.label} (${link.weight})`
+            }
+            linkCanvasObjectMode={() => 'after'}
+            linkCanvasObject={paintLinkLabel}
+            linkDirectionalArrowLength={(link: any) => (link._bridge || !link.directed ? 0 : 3)}
+            linkDirectionalArrowRelPos={0.85}
+            linkDirectionalArrowColor={linkColor}
             linkDirectionalParticles={(link: any) => {
               if (link._bridge) return 0; // no particles on invisible bridges
-              if (!selectedNode) return 0;
               const sourceId = typeof link.source === 'string' ? link.source : link.source?.id;
               const targetId = typeof link.target === 'string' ? link.target : link.target?.id;
+              if (!selectedNode) return pathHops.has(pairKey(sourceId, targetId)) ? 2 : 0;
               return sourceId === selectedNode.id || targetId === selectedNode.id ? 2 : 0;
             }}
             linkDirectionalParticleWidth={1.5}
@@ -682,6 +1021,230 @@ export default function StudioPage() {
         )}
       </div>
 
+      {/* Merge Review Panel */}
+      <AnimatePresence>
+        {showMerges && (
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -20 }}
+            className="absolute top-20 left-4 w-96 max-w-[calc(100%-2rem)] rounded-2xl glass-strong neon-glow z-20 overflow-hidden"
+          >
+            <div className="p-4 border-b border-white/10">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <GitMerge className="w-4 h-4 text-neon-purple" />
+                  Duplicate entities
+                </h3>
+                <button onClick={() => setShowMerges(false)} className="p-1 rounded hover:bg-white/10">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex items-center justify-between gap-3 mt-3">
+                <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={confirmMerges}
+                    onChange={(e) => setConfirmMerges(e.target.checked)}
+                    className="accent-neon-purple"
+                  />
+                  Confirm similar names with AI
+                </label>
+                <button
+                  onClick={findDuplicates}
+                  disabled={scanningMerges}
+                  className="px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 transition-colors flex items-center gap-1.5 text-xs shrink-0"
+                >
+                  {scanningMerges ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Search className="w-3.5 h-3.5" />}
+                  {scanningMerges ? 'Scanning...' : 'Find duplicates'}
+                </button>
+              </div>
+            </div>
+
+            <div className="p-3 max-h-[55vh] overflow-y-auto space-y-2">
+              {mergeSuggestions.length === 0 ? (
+                <p className="text-xs text-text-secondary italic p-2">
+                  No suggestions to review. Run &ldquo;Find duplicates&rdquo; to check the graph.
+                </p>
+              ) : (
+                mergeSuggestions.map((suggestion) => {
+                  const busy = resolvingId === suggestion.id;
+                  return (
+                    <div key={suggestion.id} className="p-3 rounded-xl bg-white/5 space-y-2">
+                      <div className="flex items-center gap-2 text-[10px] text-text-secondary">
+                        <span className="px-1.5 py-0.5 rounded bg-white/10">{mergeReasons[suggestion.reason]}</span>
+                        {suggestion.reason === 'embedding' && <span>{Math.round(suggestion.score * 100)}% similar</span>}
+                        {suggestion.confirmed && (
+                          <span className="flex items-center gap-0.5 text-neon-green">
+                            <Sparkles className="w-3 h-3" />
+                            AI confirmed
+                          </span>
+                        )}
+                      </div>
+                      {[suggestion.duplicate, suggestion.node].map((node, i) => (
+                        <div key={node.id} className="flex items-center gap-2">
+                          <div
+                            className="w-2.5 h-2.5 rounded-full shrink-0"
+                            style={{ backgroundColor: typeColors[node.type] || '#fff' }}
+                          />
+                          <div className="min-w-0 flex-1">
+                            <p className={`text-sm truncate ${i === 1 ? 'font-medium' : 'text-text-secondary'}`}>
+                              {i === 1 && <span className="text-text-secondary font-normal">into </span>}
+                              {node.label}
+                            </p>
+                            <p className="text-[10px] text-text-secondary">
+                              <span className="capitalize">{node.type}</span> &bull; {node.edgeCount} edges
+                              {node.aliases.length > 0 && <> &bull; aka {node.aliases.slice(0, 3).join(', ')}</>}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                      <div className="flex items-center gap-1.5 pt-1">
+                        <button
+                          onClick={() => resolveSuggestion(suggestion, 'accept')}
+                          disabled={busy}
+                          className="flex-1 px-2 py-1.5 rounded-lg bg-neon-purple/20 hover:bg-neon-purple/30 transition-colors flex items-center justify-center gap-1 text-xs"
+                        >
+                          {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                          Merge
+                        </button>
+                        <button
+                          onClick={() => resolveSuggestion(suggestion, 'accept', suggestion.duplicate.id)}
+                          disabled={busy}
+                          className="px-2 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 transition-colors flex items-center gap-1 text-xs"
+                          title={`Keep "${suggestion.duplicate.label}" instead`}
+                        >
+                          <ArrowLeftRight className="w-3.5 h-3.5" />
+                          Keep other
+                        </button>
+                        <button
+                          onClick={() => resolveSuggestion(suggestion, 'reject')}
+                          disabled={busy}
+                          className="px-2 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 transition-colors flex items-center gap-1 text-xs"
+                          title="Not the same — don't suggest again"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Path Panel */}
+      <AnimatePresence>
+        {showPath && (
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -20 }}
+            className="absolute top-20 left-4 w-96 max-w-[calc(100%-2rem)] rounded-2xl glass-strong neon-glow z-20 overflow-hidden"
+          >
+            <div className="p-4 border-b border-white/10">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Route className="w-4 h-4 text-neon-green" />
+                  How are they connected?
+                </h3>
+                <button onClick={closePath} className="p-1 rounded hover:bg-white/10">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  findPath();
+                }}
+                className="mt-3 space-y-2"
+              >
+                {[
+                  { value: pathFrom, onChange: setPathFrom, placeholder: 'From, e.g. React' },
+                  { value: pathTo, onChange: setPathTo, placeholder: 'To, e.g. PostgreSQL' },
+                ].map((field) => (
+                  <input
+                    key={field.placeholder}
+                    type="text"
+                    list="studio-node-labels"
+                    value={field.value}
+                    onChange={(e) => field.onChange(e.target.value)}
+                    placeholder={field.placeholder}
+                    className="w-full px-3 py-2 rounded-lg text-sm bg-white/5 border border-white/10 focus:border-neon-green/50 focus:outline-none placeholder:text-text-secondary/60"
+                  />
+                ))}
+                <datalist id="studio-node-labels">
+                  {graphData.nodes.map((node) => (
+                    <option key={node.id} value={node.label} />
+                  ))}
+                </datalist>
+                <button
+                  type="submit"
+                  disabled={findingPath || !pathFrom.trim() || !pathTo.trim()}
+                  className="w-full px-3 py-1.5 rounded-lg bg-neon-green/20 hover:bg-neon-green/30 disabled:opacity-50 transition-colors flex items-center justify-center gap-1.5 text-xs"
+                >
+                  {findingPath ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Search className="w-3.5 h-3.5" />}
+                  {findingPath ? 'Searching...' : 'Find path'}
+                </button>
+              </form>
+            </div>
+
+            <div className="p-3 max-h-[50vh] overflow-y-auto">
+              {!pathResult ? (
+                <p className="text-xs text-text-secondary italic p-2">
+                  Name two concepts to see the shortest chain of relations between them and the documents behind each step.
+                </p>
+              ) : (
+                pathResult.path.map((id, i) => {
+                  const node = pathResult.nodes.find((n) => n.id === id);
+                  const next = pathResult.path[i + 1];
+                  const hop = next ? pathResult.links.filter((l) => pairKey(l.source, l.target) === pairKey(id, next)) : [];
+                  return (
+                    <div key={id}>
+                      <button
+                        onClick={() => {
+                          const fullNode = graphData.nodes.find((n) => n.id === id);
+                          if (fullNode) focusOnNode(fullNode);
+                        }}
+                        className="w-full flex items-center gap-2.5 px-3 py-2 rounded-lg hover:bg-white/8 transition-colors text-left"
+                      >
+                        <div
+                          className="w-2.5 h-2.5 rounded-full shrink-0"
+                          style={{ backgroundColor: typeColors[node?.type || ''] || '#fff' }}
+                        />
+                        <p className="text-sm font-medium truncate">{node?.label || id}</p>
+                        <span className="text-[10px] text-text-secondary capitalize ml-auto">{node?.type}</span>
+                      </button>
+                      {hop.length > 0 && (
+                        <div className="ml-[1.05rem] pl-4 border-l border-neon-green/30 py-1 space-y-1.5">
+                          {hop.map((link) => (
+                            <div key={`${link.source}|${link.target}|${link.relation}`}>
+                              <p className="text-xs" style={{ color: relationColors[link.relation] || '#fff' }}>
+                                {relationText(link, link.source === id)}
+                                <span className="text-text-secondary/60"> ({link.weight})</span>
+                              </p>
+                              {link.documents.map((doc) => (
+                                <p key={doc.id} className="text-[10px] text-text-secondary flex items-center gap-1 truncate" title={doc.title}>
+                                  <FileText className="w-3 h-3 shrink-0" />
+                                  {doc.title}
+                                </p>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Node Detail Panel */}
       <AnimatePresence>
         {selectedNode && (
@@ -725,6 +1288,11 @@ export default function StudioPage() {
                   {connectedNodes.length}
                 </span>
               </div>
+              {selectedNode.aliases && selectedNode.aliases.length > 0 && (
+                <p className="mt-2 text-xs text-text-secondary truncate" title={selectedNode.aliases.join(', ')}>
+                  Also known as {selectedNode.aliases.join(', ')}
+                </p>
+              )}
             </div>
 
             {/* Connected Nodes */}
@@ -755,8 +1323,9 @@ export default function StudioPage() {
                         <p className="text-sm truncate group-hover:text-white transition-colors">
                           {node.label}
                         </p>
-                        <p className="text-[10px] text-text-secondary capitalize">
-                          {node.type} &bull; strength {(node.strength || 1).toFixed(1)}
+                        <p className="text-[10px] text-text-secondary">
+                          {(connectedRelations.get(node.id) || []).join(', ')} &bull;{' '}
+                          <span className="capitalize">{node.type}</span>
                         </p>
                       </div>
                     </button>
@@ -1,13 +1,14 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useDropzone } from 'react-dropzone';
 import {
-  Upload, FileText, Trash2, Clock, Search, X, Eye, Brain, Loader2, ImageIcon,
+  Upload, FileText, Trash2, Clock, Search, X, Eye, Brain, Loader2, ImageIcon, Globe, Folder,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { formatRelativeDate } from '@/lib/utils';
+import { formatRelativeDate, formatTimestamp } from '@/lib/utils';
+import TranscriptPlayer from '@/components/shared/TranscriptPlayer';
 
 interface Doc {
   id: string;
@@ -15,9 +16,12 @@ interface Doc {
   content: string;
   summary: string | null;
   tags: string | null;
+  collection: string | null;
   keyPoints: string | null;
   entities: string | null;
   contentType: string;
+  ocr: boolean;
+  ocrPages: string | null;
   domain: string;
   createdAt: string;
   accessCount: number;
@@ -26,16 +30,143 @@ interface Doc {
   fileSize: number | null;
 }
 
+interface OcrPageInfo {
+  page: number;
+  confidence: number | null;
+  engine: 'vision' | 'tesseract';
+  error?: string;
+}
+
+const LOW_OCR_CONFIDENCE = 60;
+
+interface SearchHit {
+  documentId: string;
+  score: number;
+  pageNumber: number | null;
+  startSeconds: number | null;
+  snippet: string;
+}
+
+interface IngestJob {
+  id: string;
+  documentId: string;
+  status: 'queued' | 'extracting' | 'enriching' | 'indexing' | 'done' | 'failed';
+  progress: number;
+  message: string | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  updatedAt: string;
+}
+
+const STAGE_LABELS: Record<IngestJob['status'], string> = {
+  queued: 'Queued',
+  extracting: 'Extracting text',
+  enriching: 'Summarizing & mapping entities',
+  indexing: 'Indexing for search',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+interface ImportReport {
+  imported: number;
+  skipped: number;
+  failed: number;
+  links: number;
+  files: { path: string; status: 'imported' | 'skipped' | 'failed'; message?: string }[];
+}
+
+const isActiveJob = (job?: IngestJob) => Boolean(job && job.status !== 'done' && job.status !== 'failed');
+
 export default function VaultPage() {
   const [documents, setDocuments] = useState<Doc[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [pageUrl, setPageUrl] = useState('');
+  const [savingUrl, setSavingUrl] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<SearchHit[] | null>(null);
   const [selectedDoc, setSelectedDoc] = useState<Doc | null>(null);
-  const [processing, setProcessing] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<Record<string, IngestJob>>({});
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const streamRef = useRef<EventSource | null>(null);
+
+  // Live job progress over SSE; the server closes with { idle } once nothing is running
+  const openJobStream = useCallback(() => {
+    if (streamRef.current) return;
+    const source = new EventSource('/api/ingest/jobs/stream');
+    streamRef.current = source;
+
+    source.onmessage = (event) => {
+      const data = JSON.parse(event.data);
+      if (data.idle) {
+        source.close();
+        streamRef.current = null;
+        return;
+      }
+      const job: IngestJob | undefined = data.job;
+      if (!job) return;
+
+      setJobs((prev) => {
+        const tracked = isActiveJob(prev[job.documentId]);
+        if (job.status === 'done') {
+          if (tracked) fetchDocuments();
+          const { [job.documentId]: _finished, ...rest } = prev;
+          return rest;
+        }
+        if (job.status === 'failed' && tracked) {
+          toast.error(`Processing failed: ${job.error || 'unknown error'}`);
+          fetchDocuments();
+        }
+        return { ...prev, [job.documentId]: job };
+      });
+    };
+  }, []);
+
+  const trackJob = useCallback((job: IngestJob | null | undefined) => {
+    if (!job) return;
+    setJobs((prev) => ({ ...prev, [job.documentId]: job }));
+    openJobStream();
+  }, [openJobStream]);
 
   useEffect(() => {
     fetchDocuments();
-  }, []);
+    fetch('/api/ingest/jobs?active=true')
+      .then((res) => (res.ok ? res.json() : { jobs: [] }))
+      .then((data: { jobs: IngestJob[] }) => {
+        if (!data.jobs?.length) return;
+        setJobs(Object.fromEntries(data.jobs.map((job) => [job.documentId, job])));
+        openJobStream();
+      })
+      .catch((error) => console.error('Failed to fetch ingest jobs:', error));
+
+    return () => {
+      streamRef.current?.close();
+      streamRef.current = null;
+    };
+  }, [openJobStream]);
+
+  // Server-side hybrid search, debounced while typing
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchHits(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/documents/search?q=${encodeURIComponent(query)}`);
+        const data = await res.json();
+        if (!cancelled && res.ok) setSearchHits(data.results || []);
+      } catch (error) {
+        console.error('Search failed:', error);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
 
   const fetchDocuments = async () => {
     try {
@@ -47,10 +178,32 @@ export default function VaultPage() {
     }
   };
 
+  // Obsidian vault or Notion/Markdown export: every note becomes a document
+  const importArchive = useCallback(async (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const res = await fetch('/api/ingest/archive', { method: 'POST', body: formData });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      toast.error(data.error || `Failed to import ${file.name}`);
+      return;
+    }
+    const report = data as ImportReport;
+    setImportReport(report);
+    toast.success(`Imported ${report.imported} note${report.imported !== 1 ? 's' : ''} from "${file.name}"`);
+    fetchDocuments();
+    openJobStream();
+  }, [openJobStream]);
+
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     for (const file of acceptedFiles) {
       setUploading(true);
       try {
+        if (file.name.toLowerCase().endsWith('.zip')) {
+          await importArchive(file);
+          continue;
+        }
+
         const formData = new FormData();
         formData.append('file', file);
         formData.append('title', file.name);
@@ -59,13 +212,12 @@ export default function VaultPage() {
           method: 'POST',
           body: formData,
         });
+        const data = await res.json().catch(() => ({}));
         if (res.ok) {
-          toast.success(`"${file.name}" uploaded & processing with AI`);
+          toast.success(data.job ? `"${file.name}" uploaded, processing in background` : `"${file.name}" uploaded`);
           fetchDocuments();
-          setTimeout(fetchDocuments, 8000);
-          setTimeout(fetchDocuments, 15000);
+          trackJob(data.job);
         } else {
-          const data = await res.json().catch(() => ({}));
           toast.error(data.error || `Failed to upload ${file.name}`);
         }
       } catch (error) {
@@ -74,7 +226,39 @@ export default function VaultPage() {
         setUploading(false);
       }
     }
-  }, []);
+  }, [trackJob, importArchive]);
+
+  const saveUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = pageUrl.trim();
+    if (!url) return;
+    setSavingUrl(true);
+    try {
+      const res = await fetch('/api/ingest/document', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save page');
+        return;
+      }
+      setPageUrl('');
+      if (data.duplicate) {
+        toast(`Already in your vault: "${data.document.title}"`);
+        setSelectedDoc(data.document);
+      } else {
+        toast.success(`Saved "${data.document.title}"`);
+        fetchDocuments();
+        trackJob(data.job);
+      }
+    } catch (error) {
+      toast.error('Failed to save page');
+    } finally {
+      setSavingUrl(false);
+    }
+  };
 
   const isImageFile = (type: string | null) => {
     if (!type) return false;
@@ -98,9 +282,20 @@ export default function VaultPage() {
       'text/markdown': ['.md'],
       'application/json': ['.json'],
       'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
       'application/pdf': ['.pdf'],
       'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['.pptx'],
+      'application/vnd.oasis.opendocument.text': ['.odt'],
+      'application/vnd.oasis.opendocument.presentation': ['.odp'],
+      'application/epub+zip': ['.epub'],
+      'application/rtf': ['.rtf'],
+      'text/html': ['.html', '.htm'],
+      'message/rfc822': ['.eml'],
+      'application/mbox': ['.mbox'],
+      // Obsidian vaults and Notion/Markdown exports
+      'application/zip': ['.zip'],
       'image/png': ['.png'],
       'image/jpeg': ['.jpg', '.jpeg'],
       'image/gif': ['.gif'],
@@ -125,17 +320,16 @@ export default function VaultPage() {
   });
 
   const processDocument = async (docId: string) => {
-    setProcessing(docId);
     try {
       const res = await fetch(`/api/ingest/document?id=${docId}`, { method: 'PATCH' });
+      const data = await res.json().catch(() => ({}));
       if (res.ok) {
-        toast.success('Document processed with AI');
-        setTimeout(fetchDocuments, 3000);
+        trackJob(data.job);
+      } else {
+        toast.error(data.error || 'Processing failed');
       }
     } catch (error) {
       toast.error('Processing failed');
-    } finally {
-      setProcessing(null);
     }
   };
 
@@ -152,11 +346,18 @@ export default function VaultPage() {
     }
   };
 
-  const filteredDocs = documents.filter(
-    (doc) =>
-      doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      doc.content.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // Ranked server results once they arrive; plain substring filter until then
+  const filteredDocs = searchQuery.trim() && searchHits
+    ? searchHits
+      .map((hit) => documents.find((doc) => doc.id === hit.documentId))
+      .filter((doc): doc is Doc => Boolean(doc))
+    : documents.filter(
+      (doc) =>
+        doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        doc.content.toLowerCase().includes(searchQuery.toLowerCase())
+    );
+
+  const searchHitFor = (docId: string) => searchHits?.find((hit) => hit.documentId === docId);
 
   const parseTags = (tags: string | null): string[] => {
     try {
@@ -166,6 +367,14 @@ export default function VaultPage() {
     }
   };
 
+  const parseOcrPages = (pages: string | null): OcrPageInfo[] => {
+    try {
+      return JSON.parse(pages || '[]');
+    } catch {
+      return [];
+    }
+  };
+
   return (
     <div className="max-w-7xl mx-auto space-y-6">
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
@@ -203,113 +412,217 @@ export default function VaultPage() {
         {uploading ? (
           <div className="flex items-center justify-center gap-2">
             <Loader2 className="w-5 h-5 animate-spin text-neon-blue" />
-            <p className="text-neon-blue">Processing document...</p>
+            <p className="text-neon-blue">Uploading...</p>
           </div>
         ) : isDragActive ? (
           <p className="text-neon-blue text-lg">Drop files here...</p>
         ) : (
           <>
             <p className="text-lg font-medium mb-1">Drop files here or click to upload</p>
-            <p className="text-text-secondary text-sm">Supports DOCX, PDF, PPTX, TXT, MD, JSON, CSV, PNG, JPG + Audio (MP3, WAV, M4A) + Video (MP4, WEBM, MOV)</p>
+            <p className="text-text-secondary text-sm">Supports DOCX, PDF, PPTX, ODT, ODP, EPUB, RTF, HTML, EML, MBOX, TXT, MD, JSON, CSV, XLSX, PNG, JPG + Audio (MP3, WAV, M4A) + Video (MP4, WEBM, MOV) + Obsidian/Notion exports (ZIP)</p>
           </>
         )}
       </div>
 
+      {/* Save a web page */}
+      <form onSubmit={saveUrl} className="flex gap-2">
+        <div className="relative flex-1">
+          <Globe className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-text-secondary" />
+          <input
+            type="url"
+            placeholder="Paste an article or YouTube URL to save it..."
+            value={pageUrl}
+            onChange={(e) => setPageUrl(e.target.value)}
+            className="input-dark pl-10 py-2 w-full"
+            disabled={savingUrl}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={savingUrl || !pageUrl.trim()}
+          className="btn-primary px-4 py-2 text-sm flex items-center gap-2 disabled:opacity-50"
+        >
+          {savingUrl && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save page
+        </button>
+      </form>
+
+      {/* Import report */}
+      {importReport && (
+        <div className="p-4 rounded-2xl glass text-sm">
+          <div className="flex items-center justify-between">
+            <p>
+              Import finished: <span className="text-neon-green">{importReport.imported} imported</span>
+              {' · '}{importReport.skipped} skipped
+              {' · '}<span className={importReport.failed > 0 ? 'text-red-400' : ''}>{importReport.failed} failed</span>
+              {' · '}{importReport.links} links added to the graph
+            </p>
+            <button onClick={() => setImportReport(null)} className="p-1 rounded-lg hover:bg-white/10" title="Dismiss">
+              <X className="w-4 h-4 text-text-secondary" />
+            </button>
+          </div>
+          {importReport.files.some((f) => f.status !== 'imported') && (
+            <ul className="mt-2 max-h-40 overflow-y-auto space-y-0.5 text-xs text-text-secondary">
+              {importReport.files
+                .filter((f) => f.status !== 'imported')
+                .map((f) => (
+                  <li key={f.path} className="truncate">
+                    <span className={f.status === 'failed' ? 'text-red-400' : ''}>{f.status}</span> {f.path}
+                    {f.message ? ` — ${f.message}` : ''}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Documents Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         <AnimatePresence>
-          {filteredDocs.map((doc, i) => (
-            <motion.div
-              key={doc.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, scale: 0.95 }}
-              transition={{ delay: i * 0.05 }}
-              className="p-5 rounded-2xl glass card-hover group"
-            >
-              <div className="flex items-start justify-between mb-3">
-                <div className="flex items-center gap-3 min-w-0">
-                  <div className={`w-10 h-10 rounded-xl bg-gradient-to-br ${isImageFile(doc.fileType) ? 'from-neon-green/20 to-neon-blue/20' : 'from-neon-blue/20 to-neon-purple/20'} flex items-center justify-center shrink-0 overflow-hidden`}>
-                    {isImageFile(doc.fileType) && doc.fileUrl ? (
-                      <img src={doc.fileUrl} alt={doc.title} className="w-full h-full object-cover rounded-xl" />
-                    ) : isImageFile(doc.fileType) ? (
-                      <ImageIcon className="w-5 h-5 text-neon-green" />
-                    ) : (
-                      <FileText className="w-5 h-5 text-neon-blue" />
-                    )}
+          {filteredDocs.map((doc, i) => {
+            const hit = searchQuery.trim() ? searchHitFor(doc.id) : undefined;
+            const job = jobs[doc.id];
+            const running = isActiveJob(job);
+            return (
+              <motion.div
+                key={doc.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.95 }}
+                transition={{ delay: i * 0.05 }}
+                className="p-5 rounded-2xl glass card-hover group"
+              >
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className={`w-10 h-10 rounded-xl bg-gradient-to-br ${isImageFile(doc.fileType) ? 'from-neon-green/20 to-neon-blue/20' : 'from-neon-blue/20 to-neon-purple/20'} flex items-center justify-center shrink-0 overflow-hidden`}>
+                      {isImageFile(doc.fileType) && doc.fileUrl ? (
+                        <img src={doc.fileUrl} alt={doc.title} className="w-full h-full object-cover rounded-xl" />
+                      ) : isImageFile(doc.fileType) ? (
+                        <ImageIcon className="w-5 h-5 text-neon-green" />
+                      ) : (
+                        <FileText className="w-5 h-5 text-neon-blue" />
+                      )}
+                    </div>
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-sm truncate">{doc.title}</h3>
+                      <p className="text-xs text-text-secondary flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {formatRelativeDate(doc.createdAt)}
+                        {doc.collection && (
+                          <span className="ml-1 flex items-center gap-0.5 truncate" title={doc.collection}>
+                            <Folder className="w-3 h-3 shrink-0" />
+                            {doc.collection}
+                          </span>
+                        )}
+                        {doc.ocr && (
+                          <span
+                            className="ml-1 px-1.5 rounded bg-neon-green/10 text-neon-green border border-neon-green/20"
+                            title="Text was read from scanned pages with OCR"
+                          >
+                            OCR
+                          </span>
+                        )}
+                      </p>
+                    </div>
                   </div>
-                  <div className="min-w-0">
-                    <h3 className="font-semibold text-sm truncate">{doc.title}</h3>
-                    <p className="text-xs text-text-secondary flex items-center gap-1">
-                      <Clock className="w-3 h-3" />
-                      {formatRelativeDate(doc.createdAt)}
-                    </p>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                    <button
+                      onClick={() => setSelectedDoc(doc)}
+                      className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
+                      title="View"
+                    >
+                      <Eye className="w-4 h-4 text-text-secondary" />
+                    </button>
+                    <button
+                      onClick={() => processDocument(doc.id)}
+                      className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
+                      disabled={running}
+                      title={doc.summary ? 'Reprocess with AI' : 'Process with AI'}
+                    >
+                      <Brain
+                        className={`w-4 h-4 ${running ? 'text-neon-blue animate-pulse' : doc.summary ? 'text-neon-green' : 'text-text-secondary'
+                          }`}
+                      />
+                    </button>
+                    <button
+                      onClick={() => deleteDocument(doc.id)}
+                      className="p-1.5 rounded-lg hover:bg-red-500/10 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4 text-text-secondary hover:text-red-400" />
+                    </button>
                   </div>
                 </div>
-                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
-                  <button
-                    onClick={() => setSelectedDoc(doc)}
-                    className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
-                    title="View"
-                  >
-                    <Eye className="w-4 h-4 text-text-secondary" />
-                  </button>
-                  <button
-                    onClick={() => processDocument(doc.id)}
-                    className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
-                    disabled={processing === doc.id}
-                    title={doc.summary ? 'Reprocess with AI' : 'Process with AI'}
-                  >
-                    <Brain
-                      className={`w-4 h-4 ${processing === doc.id ? 'text-neon-blue animate-pulse' : doc.summary ? 'text-neon-green' : 'text-text-secondary'
-                        }`}
-                    />
-                  </button>
-                  <button
-                    onClick={() => deleteDocument(doc.id)}
-                    className="p-1.5 rounded-lg hover:bg-red-500/10 transition-colors"
-                    title="Delete"
-                  >
-                    <Trash2 className="w-4 h-4 text-text-secondary hover:text-red-400" />
-                  </button>
-                </div>
-              </div>
 
-              {doc.summary ? (
-                <p className="text-sm text-text-secondary line-clamp-2 mb-3">{doc.summary}</p>
-              ) : (
-                <p className="text-sm text-text-secondary line-clamp-3 mb-3">{doc.content}</p>
-              )}
-
-              {parseTags(doc.tags).length > 0 && (
-                <div className="flex flex-wrap gap-1">
-                  {parseTags(doc.tags)
-                    .slice(0, 3)
-                    .map((tag: string) => (
-                      <span
-                        key={tag}
-                        className="px-2 py-0.5 rounded-full text-xs bg-neon-purple/10 text-neon-purple border border-neon-purple/20"
-                      >
-                        {tag}
+                {job && running && (
+                  <div className="mb-3">
+                    <div className="flex items-center justify-between text-xs text-neon-blue mb-1">
+                      <span className="flex items-center gap-1">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        {STAGE_LABELS[job.status]}
+                        {job.attempts > 1 ? ` (attempt ${job.attempts}/${job.maxAttempts})` : ''}
                       </span>
-                    ))}
-                  {parseTags(doc.tags).length > 3 && (
-                    <span className="px-2 py-0.5 rounded-full text-xs bg-white/5 text-text-secondary">
-                      +{parseTags(doc.tags).length - 3}
-                    </span>
-                  )}
-                </div>
-              )}
-            </motion.div>
-          ))}
+                      <span>{job.progress}%</span>
+                    </div>
+                    <div className="h-1 rounded-full bg-white/5 overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-neon-blue to-neon-purple transition-all duration-500"
+                        style={{ width: `${job.progress}%` }}
+                      />
+                    </div>
+                    {job.message && <p className="text-xs text-text-secondary mt-1 truncate">{job.message}</p>}
+                  </div>
+                )}
+                {job?.status === 'failed' && (
+                  <p className="text-xs text-red-400 mb-3 line-clamp-2">
+                    Processing failed{job.error ? `: ${job.error}` : ''}. Use the brain icon to retry.
+                  </p>
+                )}
+
+                {hit ? (
+                  <p className="text-sm text-text-secondary line-clamp-3 mb-3">
+                    {hit.pageNumber ? `p. ${hit.pageNumber} · ` : ''}
+                    {hit.startSeconds !== null ? `${formatTimestamp(hit.startSeconds)} · ` : ''}
+                    {hit.snippet}
+                  </p>
+                ) : doc.summary ? (
+                  <p className="text-sm text-text-secondary line-clamp-2 mb-3">{doc.summary}</p>
+                ) : (
+                  <p className="text-sm text-text-secondary line-clamp-3 mb-3">{doc.content}</p>
+                )}
+
+                {parseTags(doc.tags).length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {parseTags(doc.tags)
+                      .slice(0, 3)
+                      .map((tag: string) => (
+                        <span
+                          key={tag}
+                          className="px-2 py-0.5 rounded-full text-xs bg-neon-purple/10 text-neon-purple border border-neon-purple/20"
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                    {parseTags(doc.tags).length > 3 && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-white/5 text-text-secondary">
+                        +{parseTags(doc.tags).length - 3}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </motion.div>
+            );
+          })}
         </AnimatePresence>
       </div>
 
       {filteredDocs.length === 0 && !uploading && (
         <div className="text-center py-16 text-text-secondary">
           <FileText className="w-16 h-16 mx-auto mb-4 opacity-20" />
-          <p className="text-lg">No documents yet</p>
-          <p className="text-sm mt-1">Upload your first document to get started</p>
+          <p className="text-lg">{searchQuery.trim() ? 'No matching documents' : 'No documents yet'}</p>
+          <p className="text-sm mt-1">
+            {searchQuery.trim() ? 'Try different keywords' : 'Upload your first document to get started'}
+          </p>
         </div>
       )}
 
@@ -384,12 +697,47 @@ export default function VaultPage() {
                     />
                   </div>
                 )}
-                <div>
-                  <h3 className="text-sm font-semibold mb-2">Content</h3>
-                  <pre className="text-sm text-text-secondary whitespace-pre-wrap font-sans leading-relaxed">
-                    {selectedDoc.content}
-                  </pre>
-                </div>
+                {(isAudioFile(selectedDoc.fileType) || isVideoFile(selectedDoc.fileType)) &&
+                  selectedDoc.fileUrl &&
+                  selectedDoc.contentType !== 'youtube' ? (
+                  <div>
+                    <h3 className="text-sm font-semibold mb-2">Transcript</h3>
+                    <TranscriptPlayer
+                      src={selectedDoc.fileUrl}
+                      kind={isVideoFile(selectedDoc.fileType) ? 'video' : 'audio'}
+                      content={selectedDoc.content}
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <h3 className="text-sm font-semibold mb-2">Content</h3>
+                    {selectedDoc.ocr && (
+                      <div className="mb-3 p-3 rounded-xl bg-white/5 border border-border-custom text-xs text-text-secondary">
+                        <p className="mb-2">
+                          Read with OCR — check low-confidence pages against the original.
+                        </p>
+                        <div className="flex flex-wrap gap-1">
+                          {parseOcrPages(selectedDoc.ocrPages).map((page) => (
+                            <span
+                              key={page.page}
+                              title={page.error ? `OCR failed: ${page.error}` : `Engine: ${page.engine}`}
+                              className={`px-2 py-0.5 rounded-full border ${page.confidence !== null && page.confidence < LOW_OCR_CONFIDENCE
+                                  ? 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20'
+                                  : 'bg-neon-green/10 text-neon-green border-neon-green/20'
+                                }`}
+                            >
+                              {isImageFile(selectedDoc.fileType) ? 'Image' : `p. ${page.page}`}:{' '}
+                              {page.error ? 'failed' : page.confidence !== null ? `${page.confidence}%` : 'n/a'}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <pre className="text-sm text-text-secondary whitespace-pre-wrap font-sans leading-relaxed">
+                      {selectedDoc.content}
+                    </pre>
+                  </div>
+                )}
               </div>
             </motion.div>
           </motion.div>
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
-import { nvidiaChat } from '@/lib/nvidia';
+import { getChatProviderFor, getUserSettings } from '@/lib/settings';
 
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -12,7 +12,8 @@ export async function GET(req: NextRequest) {
 
   const userId = session.user.id;
 
-  const [docCount, convCount, nodeCount, insightCount, recentDocs] = await Promise.all([
+  const [settings, docCount, convCount, nodeCount, insightCount, recentDocs] = await Promise.all([
+    getUserSettings(userId),
     prisma.document.count({ where: { userId } }),
     prisma.conversation.count({ where: { userId } }),
     prisma.knowledgeNode.count({ where: { userId } }),
@@ -27,13 +28,19 @@ export async function GET(req: NextRequest) {
 
   let brief = 'Welcome to Neural Cortex! Start by uploading documents in the Vault to build your knowledge base. Then chat with your AI twin in Converse.';
 
-  if (docCount > 0 && recentDocs.length > 0) {
+  // No brief from a model when AI processing is off, or in local mode without an on-prem model
+  const provider = settings.aiProcessing ? getChatProviderFor(settings) : null;
+  const fallback = `You have ${docCount} document${docCount !== 1 ? 's' : ''} and ${nodeCount} knowledge node${nodeCount !== 1 ? 's' : ''} in your brain. Check your vault or start a conversation to explore your knowledge.`;
+
+  if (docCount > 0 && recentDocs.length > 0 && !provider) {
+    brief = fallback;
+  } else if (docCount > 0 && recentDocs.length > 0 && provider) {
     try {
       const context = recentDocs
         .map((d: { title: string; summary: string | null; createdAt: Date }) => `- ${d.title}: ${d.summary || 'Processing...'}`)
         .join('\n');
 
-      brief = await nvidiaChat({
+      brief = await provider.chat({
         messages: [
           {
             role: 'system',
@@ -47,10 +54,11 @@ export async function GET(req: NextRequest) {
         ],
         maxTokens: 250,
         temperature: 0.7,
+        model: settings.chatModel || undefined,
       });
     } catch (error) {
       console.error('Failed to generate brief:', error);
-      brief = `You have ${docCount} document${docCount !== 1 ? 's' : ''} and ${nodeCount} knowledge node${nodeCount !== 1 ? 's' : ''} in your brain. Check your vault or start a conversation to explore your knowledge.`;
+      brief = fallback;
     }
   }
 
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { mergeNodes } from '@/lib/entity-resolution';
+
+// Merge nodes into one: { keepId, mergeIds } — edges are rewired and the merged labels kept as aliases
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const keepId = typeof body?.keepId === 'string' ? body.keepId : '';
+  const mergeIds: string[] = Array.isArray(body?.mergeIds) ? body.mergeIds.filter((id: unknown) => typeof id === 'string') : [];
+  if (!keepId || mergeIds.filter((id) => id !== keepId).length === 0) {
+    return NextResponse.json({ error: 'keepId and at least one other node in mergeIds required' }, { status: 400 });
+  }
+
+  const node = await mergeNodes(session.user.id, keepId, mergeIds);
+  if (!node) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, node });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { listMergeSuggestions, mergeNodes, proposeMerges } from '@/lib/entity-resolution';
+import { canEmbedFor, getChatProviderFor, getUserSettings } from '@/lib/settings';
+
+// Embedding every label and asking the chat model to confirm takes a while on large graphs
+export const maxDuration = 300; // seconds
+
+// Pending merge suggestions, most certain first
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const suggestions = await listMergeSuggestions(session.user.id);
+  return NextResponse.json({ suggestions });
+}
+
+// Run entity resolution over the graph; { confirm: true } has the chat model check embedding matches
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const settings = await getUserSettings(session.user.id);
+  const report = await proposeMerges(session.user.id, {
+    embed: canEmbedFor(settings),
+    provider: body?.confirm ? getChatProviderFor(settings) : null,
+  });
+  const suggestions = await listMergeSuggestions(session.user.id);
+  return NextResponse.json({ success: true, ...report, suggestions });
+}
+
+// Answer a suggestion: { action: 'accept' | 'reject', keepId? } (keepId picks which node survives)
+export async function PATCH(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get('id');
+  const body = await req.json().catch(() => null);
+  if (!id || (body?.action !== 'accept' && body?.action !== 'reject')) {
+    return NextResponse.json({ error: "Suggestion ID and action ('accept' or 'reject') required" }, { status: 400 });
+  }
+
+  const suggestion = await prisma.nodeMergeSuggestion.findUnique({ where: { id } });
+  if (!suggestion || suggestion.userId !== session.user.id || suggestion.status !== 'pending') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  if (body.action === 'reject') {
+    await prisma.nodeMergeSuggestion.update({ where: { id }, data: { status: 'rejected' } });
+    return NextResponse.json({ success: true });
+  }
+
+  const keepId = body.keepId === suggestion.duplicateId ? suggestion.duplicateId : suggestion.nodeId;
+  const mergeId = keepId === suggestion.nodeId ? suggestion.duplicateId : suggestion.nodeId;
+  const node = await mergeNodes(session.user.id, keepId, [mergeId]);
+  if (!node) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, node });
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  findNode,
+  neighborhood,
+  shortestPath,
+  subgraph,
+  MAX_PATH_LENGTH,
+  MAX_QUERY_DEPTH,
+  MAX_QUERY_NODES,
+  type GraphFilter,
+} from '@/lib/graph-query';
+
+const list = (value: string | null) =>
+  (value || '')
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+const clamp = (value: string | null, fallback: number, max: number) => {
+  const n = parseInt(value || '', 10);
+  return Number.isFinite(n) && n > 0 ? Math.min(n, max) : fallback;
+};
+
+// Query the knowledge graph:
+//   ?mode=neighbors&node=X&depth=2   nodes within k hops of X
+//   ?mode=path&from=X&to=Y           shortest path between X and Y
+//   ?mode=subgraph                   filtered nodes and the edges between them
+// Nodes are given by id or name. Filters: types, relations (comma-separated),
+// minStrength, since, until (dates nodes were added), limit.
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userId = session.user.id;
+
+  const { searchParams } = new URL(req.url);
+  const mode = searchParams.get('mode') || 'neighbors';
+
+  const filter: GraphFilter = { types: list(searchParams.get('types')), relations: list(searchParams.get('relations')) };
+  if (searchParams.get('minStrength')) {
+    const minStrength = parseFloat(searchParams.get('minStrength')!);
+    if (!Number.isFinite(minStrength)) {
+      return NextResponse.json({ error: 'minStrength must be a number' }, { status: 400 });
+    }
+    filter.minStrength = minStrength;
+  }
+  for (const param of ['since', 'until'] as const) {
+    const value = searchParams.get(param);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: `${param} must be a date` }, { status: 400 });
+    }
+    filter[param] = date;
+  }
+  const limit = clamp(searchParams.get('limit'), MAX_QUERY_NODES, MAX_QUERY_NODES);
+
+  if (mode === 'subgraph') {
+    return NextResponse.json(await subgraph(userId, filter, limit));
+  }
+
+  if (mode === 'neighbors') {
+    const ref = searchParams.get('node')?.trim();
+    if (!ref) {
+      return NextResponse.json({ error: 'node required' }, { status: 400 });
+    }
+    const node = await findNode(userId, ref);
+    if (!node) {
+      return NextResponse.json({ error: `No node found for "${ref}"` }, { status: 404 });
+    }
+    const depth = clamp(searchParams.get('depth'), 1, MAX_QUERY_DEPTH);
+    return NextResponse.json({ node: node.id, ...(await neighborhood(userId, node.id, depth, filter, limit)) });
+  }
+
+  if (mode === 'path') {
+    const fromRef = searchParams.get('from')?.trim();
+    const toRef = searchParams.get('to')?.trim();
+    if (!fromRef || !toRef) {
+      return NextResponse.json({ error: 'from and to required' }, { status: 400 });
+    }
+    const [from, to] = await Promise.all([findNode(userId, fromRef), findNode(userId, toRef)]);
+    if (!from || !to) {
+      return NextResponse.json({ error: `No node found for "${from ? toRef : fromRef}"` }, { status: 404 });
+    }
+    const maxLength = clamp(searchParams.get('maxLength'), MAX_PATH_LENGTH, MAX_PATH_LENGTH);
+    const path = await shortestPath(userId, from.id, to.id, filter, maxLength);
+    // Not connected is an answer, not an error
+    return NextResponse.json(path ?? { path: null, nodes: [], links: [] });
+  }
+
+  return NextResponse.json({ error: 'mode must be neighbors, path or subgraph' }, { status: 400 });
+}
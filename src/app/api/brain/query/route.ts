@@ -2,13 +2,25 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
-import { nvidiaChat, nvidiaChatStream } from '@/lib/nvidia';
+import type { ChatProvider } from '@/lib/llm';
+import {
+  getUserSettings,
+  getChatProviderFor,
+  allowsExternalServices,
+  LOCAL_PROVIDER_MISSING,
+} from '@/lib/settings';
 import {
   runAgents,
   buildAgentSystemPrompt,
   validateResponse,
-  type DocumentForRAG,
 } from '@/lib/agents';
+import { runToolAgent, buildToolAgentSystemPrompt, type AgentStep } from '@/lib/tool-agent';
+
+const STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
 
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -79,29 +91,25 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const { message, conversationId, stream: useStream } = await req.json();
+  const { message, conversationId, stream: useStream, agentic } = await req.json();
   if (!message) {
     return NextResponse.json({ error: 'Message required' }, { status: 400 });
   }
 
-  // Fetch user's documents for the multi-agent knowledge expert
-  const documents = await prisma.document.findMany({
-    where: { userId: session.user.id },
-    select: { id: true, title: true, content: true, summary: true, embedding: true },
-  });
+  // User preferences: preferred model, and local-only privacy (no external services)
+  const settings = await getUserSettings(session.user.id);
+  const provider = getChatProviderFor(settings);
+  if (!provider) {
+    return NextResponse.json({ response: LOCAL_PROVIDER_MISSING, conversationId: conversationId || null, sources: [] });
+  }
+  const model = settings.chatModel || undefined;
+  const external = allowsExternalServices(settings);
 
-  // Run multi-agent system: classifies intent → runs knowledge/search/youtube experts in parallel
-  const docsForRAG: DocumentForRAG[] = documents.map(
-    (d: { id: string; title: string; content: string; summary: string | null; embedding: string | null }) => ({
-      id: d.id,
-      title: d.title,
-      content: d.content,
-      summary: d.summary,
-      embedding: d.embedding,
-    })
-  );
+  // Agent mode: the model calls tools as it goes instead of every expert running up front
+  const useTools = typeof agentic === 'boolean' ? agentic : process.env.AGENT_MODE === 'tools';
 
-  const agentContext = await runAgents(message, docsForRAG);
+  // Run multi-agent system: routes intent → runs knowledge/search/youtube experts in parallel
+  const agentContext = useTools ? null : await runAgents(message, session.user.id, { settings, provider });
 
   // Cross-conversation knowledge: pull relevant messages from OTHER conversations
   let crossConvoContext = '';
@@ -181,15 +189,35 @@ export async function POST(req: NextRequest) {
     take: 10,
   });
 
-  // Save user message
+  // Save user message, recording how it was routed and how each expert ran
   await prisma.message.create({
     data: {
       conversationId: convo.id,
       role: 'user',
       content: message,
+      metadata: JSON.stringify(
+        agentContext ? { routing: agentContext.routing, experts: agentContext.runs } : { mode: 'tools' }
+      ),
     },
   });
 
+  if (!agentContext) {
+    return respondWithToolAgent({
+      userId: session.user.id,
+      conversationId: convo.id,
+      message,
+      history: history.map((m: { role: string; content: string }) => ({
+        role: m.role as 'user' | 'assistant',
+        content: m.content,
+      })),
+      crossConvoContext,
+      stream: Boolean(useStream),
+      provider,
+      model,
+      localOnly: !external,
+    });
+  }
+
   // Build agent-enriched system prompt with knowledge base, web search, and YouTube results
   const systemPrompt = buildAgentSystemPrompt(agentContext, crossConvoContext);
 
@@ -208,8 +236,9 @@ export async function POST(req: NextRequest) {
   // Streaming response
   if (useStream) {
     try {
-      const aiStream = await nvidiaChatStream({
+      const aiStream = await provider.chatStream({
         messages: aiMessages,
+        model,
         maxTokens: 2048,
         temperature: 0.7,
       });
@@ -262,13 +291,7 @@ export async function POST(req: NextRequest) {
 
       const readable = aiStream.pipeThrough(transformStream);
 
-      return new Response(readable, {
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        },
-      });
+      return new Response(readable, { headers: STREAM_HEADERS });
     } catch (error) {
       console.error('Streaming error, falling back to non-stream:', error);
       // Fall through to non-streaming
@@ -277,15 +300,16 @@ export async function POST(req: NextRequest) {
 
   // Non-streaming response with multi-model fact-check validation
   try {
-    const rawResponse = await nvidiaChat({
+    const rawResponse = await provider.chat({
       messages: aiMessages,
+      model,
       maxTokens: 2048,
       temperature: 0.7,
     });
 
-    // Cross-validate with HuggingFace model to reduce hallucination
-    const validationContext = [agentContext.knowledgeContext, agentContext.searchContext, agentContext.youtubeContext].filter(Boolean).join('\n\n');
-    const response = await validateResponse(rawResponse, message, validationContext);
+    // Cross-validate with HuggingFace model to reduce hallucination (not in local-only mode)
+    const validationContext = agentContext.expertContexts.map((c) => c.context).join('\n\n');
+    const response = external ? await validateResponse(message, rawResponse, validationContext) : rawResponse;
 
     // Save assistant message
     await prisma.message.create({
@@ -309,7 +333,7 @@ export async function POST(req: NextRequest) {
       sources,
     });
   } catch (error) {
-    console.error('NVIDIA API error:', error);
+    console.error('Chat API error:', error);
     const errMsg = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json(
       {
@@ -322,3 +346,90 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+// ─── Tool-calling agent mode ───────────────────────────────
+
+async function respondWithToolAgent(options: {
+  userId: string;
+  conversationId: string;
+  message: string;
+  history: { role: 'user' | 'assistant'; content: string }[];
+  crossConvoContext: string;
+  stream: boolean;
+  provider: ChatProvider;
+  model?: string;
+  localOnly: boolean;
+}): Promise<Response> {
+  const { userId, conversationId, message, history, crossConvoContext, stream, provider, model, localOnly } = options;
+
+  const run = (onStep?: (step: AgentStep) => void) =>
+    runToolAgent({
+      userId,
+      systemPrompt: buildToolAgentSystemPrompt(crossConvoContext),
+      history,
+      message,
+      onStep,
+      provider,
+      model,
+      localOnly,
+    });
+
+  const save = async (answer: string, sources: unknown[], steps: AgentStep[]) => {
+    await prisma.message.create({
+      data: {
+        conversationId,
+        role: 'assistant',
+        content: answer,
+        sources: JSON.stringify(sources),
+        metadata: JSON.stringify({ mode: 'tools', steps }),
+      },
+    });
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: new Date() },
+    });
+  };
+
+  if (!stream) {
+    try {
+      const result = await run();
+      await save(result.answer, result.sources, result.steps);
+      return NextResponse.json({ response: result.answer, conversationId, sources: result.sources, steps: result.steps });
+    } catch (error) {
+      console.error('Tool agent error:', error);
+      const errMsg = error instanceof Error ? error.message : 'Unknown error';
+      return NextResponse.json(
+        {
+          response: `I encountered an error: ${errMsg}. Please try again in a moment.`,
+          conversationId,
+          sources: [],
+        },
+        { status: 200 } // return 200 so frontend shows the message
+      );
+    }
+  }
+
+  // Stream each tool step as it starts and finishes, then the answer
+  const encoder = new TextEncoder();
+  const readable = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      try {
+        const result = await run((step) => send({ step }));
+        if (result.answer) {
+          send({ content: result.answer });
+          await save(result.answer, result.sources, result.steps);
+        }
+        send({ done: true, conversationId, sources: result.sources });
+      } catch (error) {
+        console.error('Tool agent error:', error);
+        const errMsg = error instanceof Error ? error.message : 'Unknown error';
+        send({ content: `I encountered an error: ${errMsg}. Please try again in a moment.` });
+        send({ done: true, conversationId, sources: [] });
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(readable, { headers: STREAM_HEADERS });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { enqueueReembedJobs } from '@/lib/ingest-jobs';
+import { canEmbedFor, getUserSettings, LOCAL_EMBEDDING_MISSING } from '@/lib/settings';
+
+// Queue re-embedding of the user's documents and chunks with the configured
+// embedding model; progress is reported through /api/ingest/jobs
+export async function POST() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Re-embedding sends every document to the embedding provider
+  const settings = await getUserSettings(session.user.id);
+  if (!canEmbedFor(settings)) {
+    return NextResponse.json({ error: LOCAL_EMBEDDING_MISSING }, { status: 400 });
+  }
+
+  const { model, documentsChecked, jobs } = await enqueueReembedJobs(session.user.id);
+  return NextResponse.json({ success: true, model, documentsChecked, queued: jobs.length, jobs }, { status: 202 });
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { removeDocumentFromIndex } from '@/lib/indexing';
+import { removeDocumentFromGraph } from '@/lib/graph';
 
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -35,5 +37,11 @@ export async function DELETE(req: NextRequest) {
   }
 
   await prisma.document.delete({ where: { id: docId } });
+  await removeDocumentFromIndex(session.user.id, docId);
+  try {
+    await removeDocumentFromGraph(session.user.id, docId, doc.title);
+  } catch (err) {
+    console.error(`[Documents] Failed to remove document ${docId} from the knowledge graph:`, err);
+  }
   return NextResponse.json({ success: true });
 }
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { searchVault } from '@/lib/retrieval';
+import { allowsExternalServices, getUserSettings } from '@/lib/settings';
+
+const SEARCH_CHUNKS = 50;
+const SNIPPET_LENGTH = 200;
+
+// Hybrid (BM25 + vector) search over the vault, ranked by document
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const query = searchParams.get('q')?.trim();
+  if (!query) {
+    return NextResponse.json({ error: 'Query required' }, { status: 400 });
+  }
+
+  // Local-only privacy: the query is not sent to a hosted embedding API
+  const settings = await getUserSettings(session.user.id);
+  const chunks = await searchVault(session.user.id, query, { limit: SEARCH_CHUNKS, localOnly: !allowsExternalServices(settings) });
+
+  // Best-scoring chunk per document, in rank order
+  const seen = new Set<string>();
+  const results = [];
+  for (const chunk of chunks) {
+    if (seen.has(chunk.documentId)) continue;
+    seen.add(chunk.documentId);
+    results.push({
+      documentId: chunk.documentId,
+      score: chunk.score,
+      pageNumber: chunk.pageNumber,
+      startSeconds: chunk.startSeconds,
+      snippet: chunk.content.slice(0, SNIPPET_LENGTH),
+    });
+  }
+
+  return NextResponse.json({ results });
+}
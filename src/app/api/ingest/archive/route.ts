@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getFileExtension } from '@/lib/extraction';
+import { importVault, VaultImportError } from '@/lib/vault-import';
+
+// Notes are saved and linked here; enrichment and indexing run as background jobs
+export const maxDuration = 300; // seconds
+
+const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024; // 100MB
+
+// Import an Obsidian vault or Notion/Markdown export (.zip); responds with a per-file report
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const formData = await req.formData();
+  const file = formData.get('file') as File | null;
+  if (!file || file.size === 0) {
+    return NextResponse.json({ error: 'A .zip file is required' }, { status: 400 });
+  }
+  if (getFileExtension(file.name) !== 'zip') {
+    return NextResponse.json({ error: 'Export your vault or workspace as a .zip archive' }, { status: 400 });
+  }
+  if (file.size > MAX_ARCHIVE_SIZE) {
+    return NextResponse.json(
+      { error: `Archive too large (${(file.size / 1024 / 1024).toFixed(1)}MB). Maximum is 100MB.` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const report = await importVault(session.user.id, buffer, {
+      domain: (formData.get('domain') as string) || 'general',
+    });
+    return NextResponse.json(report);
+  } catch (err: any) {
+    if (err instanceof VaultImportError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[Import] Unhandled error:', err?.message || err);
+    return NextResponse.json({ error: 'Could not read the archive. Is it a valid .zip file?' }, { status: 422 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { ACTIVE_JOB_STATUSES, kickIngestWorker, toJobEvent } from '@/lib/ingest-jobs';
+
+// List the user's ingest jobs (?active=true for queued/running only)
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Resume jobs left queued by a restart
+  kickIngestWorker();
+
+  const { searchParams } = new URL(req.url);
+  const jobs = await prisma.ingestJob.findMany({
+    where: {
+      userId: session.user.id,
+      ...(searchParams.get('active') === 'true' ? { status: { in: ACTIVE_JOB_STATUSES } } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+  });
+
+  return NextResponse.json({ jobs: jobs.map(toJobEvent) });
+}
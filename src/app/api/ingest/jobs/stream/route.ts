@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { ACTIVE_JOB_STATUSES, kickIngestWorker, toJobEvent, type IngestJobStatus } from '@/lib/ingest-jobs';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // seconds
+
+const POLL_INTERVAL = 1_000;
+const MAX_STREAM_MS = 280_000; // close before maxDuration; EventSource reconnects
+
+/**
+ * Server-sent events with per-stage progress of the user's ingest jobs.
+ * Sends `{job}` whenever a job changes and `{idle: true}` once nothing is
+ * queued or running, then closes. Jobs are read from the database, so
+ * progress from a dedicated worker process shows up too.
+ */
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userId = session.user.id;
+
+  kickIngestWorker();
+
+  const encoder = new TextEncoder();
+  const started = Date.now();
+  const lastSeen = new Map<string, string>();
+
+  const readable = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      try {
+        // Jobs still running plus ones that finished in the last minute
+        let since = new Date(Date.now() - 60_000);
+        while (!req.signal.aborted && Date.now() - started < MAX_STREAM_MS) {
+          const jobs = await prisma.ingestJob.findMany({
+            where: {
+              userId,
+              OR: [{ status: { in: ACTIVE_JOB_STATUSES } }, { updatedAt: { gte: since } }],
+            },
+            orderBy: { createdAt: 'asc' },
+          });
+          since = new Date(Date.now() - POLL_INTERVAL * 2);
+
+          for (const job of jobs) {
+            const event = toJobEvent(job);
+            if (lastSeen.get(job.id) === event.updatedAt) continue;
+            lastSeen.set(job.id, event.updatedAt);
+            send({ job: event });
+          }
+
+          if (!jobs.some((job) => ACTIVE_JOB_STATUSES.includes(job.status as IngestJobStatus))) {
+            send({ idle: true });
+            break;
+          }
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+        }
+      } catch (error) {
+        console.error('[IngestJob] Progress stream error:', error);
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getChatProvider } from '@/lib/llm';
+import {
+  getUserSettings,
+  parseSettingsUpdate,
+  updateUserSettings,
+  getChatProviderFor,
+  type UserPreferences,
+} from '@/lib/settings';
+
+// Which chat backend serves this user's settings, for the Settings page
+function describeProvider(settings: UserPreferences) {
+  const provider = getChatProviderFor(settings);
+  const fallback = getChatProvider();
+  return {
+    id: (provider || fallback).id,
+    models: (provider || fallback).models,
+    local: provider ? provider.local : false,
+    available: Boolean(provider?.configured),
+  };
+}
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const settings = await getUserSettings(session.user.id);
+  return NextResponse.json({ settings, provider: describeProvider(settings) });
+}
+
+export async function PUT(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = parseSettingsUpdate(body);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const settings = await updateUserSettings(session.user.id, parsed.update);
+  return NextResponse.json({ settings, provider: describeProvider(settings) });
+}
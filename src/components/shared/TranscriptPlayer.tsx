@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { findTimeMarkers } from '@/lib/transcripts';
+import { formatTimestamp } from '@/lib/utils';
+
+interface TranscriptPlayerProps {
+  src: string;
+  kind: 'audio' | 'video';
+  /** Document content with "[m:ss]" paragraph markers */
+  content: string;
+}
+
+interface Paragraph {
+  seconds: number;
+  text: string;
+}
+
+function parseTranscript(content: string): { header: string; paragraphs: Paragraph[] } {
+  const markers = findTimeMarkers(content);
+  if (markers.length === 0) return { header: content, paragraphs: [] };
+
+  const paragraphs = markers.map((marker, i) => {
+    const end = i + 1 < markers.length ? markers[i + 1].offset : content.length;
+    const text = content.slice(marker.offset, end).replace(/^\[[\d:]+\]\s*/, '').trim();
+    return { seconds: marker.seconds, text };
+  });
+  return { header: content.slice(0, markers[0].offset).trim(), paragraphs };
+}
+
+/* ── Media player with a clickable transcript that follows playback ── */
+export default function TranscriptPlayer({ src, kind, content }: TranscriptPlayerProps) {
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const activeRef = useRef<HTMLButtonElement | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const { header, paragraphs } = useMemo(() => parseTranscript(content), [content]);
+
+  let active = -1;
+  for (let i = 0; i < paragraphs.length && paragraphs[i].seconds <= currentTime; i++) active = i;
+
+  // Keep the spoken paragraph in view while the recording plays
+  useEffect(() => {
+    if (playing) activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [active, playing]);
+
+  const seek = (seconds: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = seconds;
+    media.play().catch(() => {});
+  };
+
+  const mediaProps = {
+    src,
+    controls: true,
+    preload: 'metadata',
+    onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setCurrentTime(e.currentTarget.currentTime),
+    onPlay: () => setPlaying(true),
+    onPause: () => setPlaying(false),
+  };
+
+  return (
+    <div className="space-y-3">
+      {kind === 'video' ? (
+        <video ref={(el) => { mediaRef.current = el; }} {...mediaProps} className="w-full rounded-xl border border-border-custom bg-black" />
+      ) : (
+        <audio ref={(el) => { mediaRef.current = el; }} {...mediaProps} className="w-full" />
+      )}
+
+      {header && (
+        <pre className="text-sm text-text-secondary whitespace-pre-wrap font-sans leading-relaxed">{header}</pre>
+      )}
+
+      {paragraphs.length > 0 && (
+        <div className="space-y-1">
+          {paragraphs.map((paragraph, i) => (
+            <button
+              key={i}
+              ref={i === active ? activeRef : undefined}
+              onClick={() => seek(paragraph.seconds)}
+              className={`w-full text-left flex gap-3 p-2 rounded-lg text-sm leading-relaxed transition-colors ${i === active ? 'bg-neon-blue/10 text-text-primary' : 'text-text-secondary hover:bg-white/5'
+                }`}
+            >
+              <span className="shrink-0 font-mono text-xs text-neon-blue pt-0.5">{formatTimestamp(paragraph.seconds)}</span>
+              <span>{paragraph.text}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,18 +5,19 @@
  * ┌─────────────────────────────────────────────────────────┐
  * │                    User Query                           │
  * │                       ↓                                 │
- * │              Intent Classifier                          │
- * │         (keyword + pattern matching)                    │
+ * │                Intent Router                            │
+ * │     (small LLM, keyword + pattern fallback)             │
  * │                       ↓                                 │
  * │    ┌──────────┬──────────┬──────────┬──────────┐       │
  * │    ↓          ↓          ↓          ↓          ↓       │
- * │ Knowledge  Web Search  YouTube  Summarize  General     │
- * │  Expert     Expert     Expert    Expert    Expert       │
- * │ (NVIDIA)  (DuckDuckGo) (DDG)    (NVIDIA   (NVIDIA)    │
- * │              ↓          ↓       + HF BART)             │
+ * │ Knowledge  Web Search  YouTube  Summarize   (plugin    │
+ * │  Expert     Expert     Expert    Expert    experts)    │
+ * │ (hybrid   (DuckDuckGo) (DDG)    (NVIDIA                │
+ * │  RAG)        ↓          ↓       + HF BART)             │
  * │    └──────────┴──────────┴──────────┴──────────┘       │
+ * │      (per-expert timeouts, shared time budget)          │
  * │                       ↓                                 │
- * │           Context Aggregator                            │
+ * │    Context Aggregator (priority + context budget)       │
  * │                       ↓                                 │
  * │        Primary Response (NVIDIA LLM)                    │
  * │                       ↓                                 │
@@ -28,233 +29,54 @@
  * Models Used:
  * NVIDIA  → Llama 3.3 70B (primary), Mistral Large 2 (fallback)
  * HF      → Mistral 7B (validation), BART (summarization), Whisper (audio)
+ *
+ * Experts live in ./experts and are registered in ./experts/index.ts.
  */
 
-import {
-  webSearch,
-  youtubeSearch,
-  formatSearchResultsForContext,
-  formatYouTubeResultsForContext,
-  type SearchResult,
-  type YouTubeResult,
-} from './search';
-import { hfChat, hfSummarize, isHuggingFaceConfigured } from './huggingface';
-import { nvidiaChat, generateSummary, generateEmbeddingSimple } from './nvidia';
-import { cosineSimilarity } from './utils';
+import { isHuggingFaceConfigured } from './huggingface';
+import { getChatProvider, type ChatProvider } from './llm';
+import { allowsExternalServices, DEFAULT_SETTINGS, type UserPreferences } from './settings';
+import { routeQuery, type RoutingDecision } from './intent-router';
+import { getExperts, type Expert, type ExpertInput, type ExpertResult } from './experts';
+import { withTimeout } from './utils';
 
-// ─── Types ─────────────────────────────────────────────────
+export { consensusSummarize } from './experts';
 
-export type ExpertType = 'knowledge' | 'search' | 'youtube' | 'summarize' | 'general';
+// ─── Types ─────────────────────────────────────────────────
 
-export interface AgentContext {
-  knowledgeContext: string;
-  searchResults: SearchResult[];
-  youtubeResults: YouTubeResult[];
-  searchContext: string;
-  youtubeContext: string;
-  sources: { type: string; title: string; url?: string }[];
-  expertsUsed: ExpertType[];
-}
+/** Id of a registered expert, e.g. "knowledge", "search", "youtube", "summarize" */
+export type ExpertType = string;
 
-export interface DocumentForRAG {
-  id: string;
+export interface AgentSource {
+  type: string;
   title: string;
-  content: string;
-  summary: string | null;
-  embedding: string | null;
+  url?: string;
+  id?: string;
+  page?: number;
+  /** Second of a video or recording the cited passage starts at */
+  timestamp?: number;
+  /** Reranker relevance (0–1) of the best passage from this source */
+  relevance?: number;
+  reranker?: string;
 }
 
-// ─── Intent Classifier ────────────────────────────────────
-
-const SEARCH_PATTERNS = [
-  /\b(search|find|look up|google|what is|who is|latest|current|news|when did|where is|how to)\b/i,
-  /\b(tell me about|explain|define|meaning of|definition)\b/i,
-  /\?([\s]*$)/,
-];
-
-const YOUTUBE_PATTERNS = [
-  /\b(youtube|video|watch|tutorial|lecture|course|playlist)\b/i,
-  /\b(show me a video|find a video|video about|video on|video for)\b/i,
-  /\b(how to .+ video|learn .+ video)\b/i,
-];
-
-const SUMMARIZE_PATTERNS = [
-  /\b(summarize|summary|brief|overview|recap|tldr|tl;dr)\b/i,
-  /\b(what does .+ say|key points|main ideas|highlight)\b/i,
-];
-
-const KNOWLEDGE_PATTERNS = [
-  /\b(my document|my notes|my file|uploaded|in my vault|knowledge base|my .+ says)\b/i,
-  /\b(from my|according to my|in my|remember when)\b/i,
-];
-
-export function classifyIntent(message: string): ExpertType[] {
-  const intents: ExpertType[] = [];
-  const lowerMsg = message.toLowerCase();
-
-  // Always include knowledge lookup
-  intents.push('knowledge');
-
-  // Check for YouTube intent
-  if (YOUTUBE_PATTERNS.some((p) => p.test(message))) {
-    intents.push('youtube');
-  }
-
-  // Check for web search intent
-  if (SEARCH_PATTERNS.some((p) => p.test(message))) {
-    intents.push('search');
-  }
-
-  // Check for summarization intent
-  if (SUMMARIZE_PATTERNS.some((p) => p.test(message))) {
-    intents.push('summarize');
-  }
-
-  // If only knowledge was added and it's a general question, add search too
-  if (
-    intents.length === 1 &&
-    !KNOWLEDGE_PATTERNS.some((p) => p.test(message)) &&
-    lowerMsg.includes('?')
-  ) {
-    intents.push('search');
-  }
-
-  return Array.from(new Set(intents));
+export interface ExpertRun {
+  expert: ExpertType;
+  status: 'ok' | 'timeout' | 'error';
+  durationMs: number;
+  truncated: boolean;
 }
 
-// ─── Knowledge Expert ──────────────────────────────────────
-
-export function runKnowledgeExpert(
-  message: string,
-  documents: DocumentForRAG[]
-): { context: string; sources: { type: string; title: string; url?: string }[] } {
-  const queryEmbedding = generateEmbeddingSimple(message);
-
-  const scoredDocs = documents
-    .map((doc) => {
-      let score = 0;
-
-      // Keyword matching
-      const queryWords = message
-        .toLowerCase()
-        .split(/\s+/)
-        .filter((w) => w.length > 2);
-      const content = (
-        doc.content +
-        ' ' +
-        doc.title +
-        ' ' +
-        (doc.summary || '')
-      ).toLowerCase();
-
-      for (const word of queryWords) {
-        if (content.includes(word)) score += 1;
-      }
-
-      // Embedding similarity
-      if (doc.embedding) {
-        try {
-          const docEmb = JSON.parse(doc.embedding);
-          score += cosineSimilarity(queryEmbedding, docEmb) * 5;
-        } catch {}
-      }
-
-      return { ...doc, score };
-    })
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 3)
-    .filter((d) => d.score > 0);
-
-  const context = scoredDocs
-    .map(
-      (d) =>
-        `### ${d.title}\n${d.summary || d.content.slice(0, 1500)}`
-    )
-    .join('\n\n');
-
-  const sources = scoredDocs.map((d) => ({
-    type: 'document',
-    title: d.title,
-  }));
-
-  return { context, sources };
-}
-
-// ─── Search Expert ─────────────────────────────────────────
-
-export async function runSearchExpert(
-  message: string
-): Promise<{ results: SearchResult[]; context: string }> {
-  try {
-    const results = await webSearch(message, 5);
-    const context = formatSearchResultsForContext(results);
-    return { results, context };
-  } catch (err) {
-    console.error('[Agent] Search expert failed:', err);
-    return { results: [], context: '' };
-  }
-}
-
-// ─── YouTube Expert ────────────────────────────────────────
-
-export async function runYouTubeExpert(
-  message: string
-): Promise<{ results: YouTubeResult[]; context: string }> {
-  try {
-    // Strip "youtube" from query to get better search results
-    const cleanQuery = message
-      .replace(/\b(youtube|video|find|show|me|a)\b/gi, '')
-      .trim();
-    const results = await youtubeSearch(cleanQuery || message, 5);
-    const context = formatYouTubeResultsForContext(results);
-    return { results, context };
-  } catch (err) {
-    console.error('[Agent] YouTube expert failed:', err);
-    return { results: [], context: '' };
-  }
+export interface AgentContext {
+  expertContexts: { expert: ExpertType; context: string }[];
+  sources: AgentSource[];
+  expertsUsed: ExpertType[];
+  routing: RoutingDecision;
+  runs: ExpertRun[];
 }
 
-// ─── Multi-Model Consensus Summarizer ──────────────────────
-
-export async function consensusSummarize(text: string): Promise<string> {
-  // Run summarization on both NVIDIA and HuggingFace in parallel
-  const [nvidiaSummary, hfSummaryResult] = await Promise.allSettled([
-    generateSummary(text),
-    isHuggingFaceConfigured() ? hfSummarize(text) : Promise.resolve(''),
-  ]);
-
-  const summary1 =
-    nvidiaSummary.status === 'fulfilled' ? nvidiaSummary.value : '';
-  const summary2 =
-    hfSummaryResult.status === 'fulfilled' ? hfSummaryResult.value : '';
-
-  // If only one model produced results, use that
-  if (!summary1 && summary2) return summary2;
-  if (summary1 && !summary2) return summary1;
-  if (!summary1 && !summary2) return '';
-
-  // Both models produced summaries — merge with consensus
-  try {
-    const mergedSummary = await nvidiaChat({
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are a fact-checker. Given two independent AI summaries of the same text, produce a single accurate summary. Keep ONLY facts that BOTH summaries agree on. If they contradict each other, state only what is certain. Be concise (2-3 sentences).',
-        },
-        {
-          role: 'user',
-          content: `Summary from Model A:\n${summary1}\n\nSummary from Model B:\n${summary2}\n\nProduce a merged, fact-checked summary:`,
-        },
-      ],
-      maxTokens: 300,
-      temperature: 0.1,
-    });
-    return mergedSummary;
-  } catch {
-    return summary1; // Fallback to NVIDIA summary
-  }
-}
+const AGENT_TIME_BUDGET = 30_000; // all experts share one deadline
+const CONTEXT_BUDGET_CHARS = 24_000; // combined expert context in the system prompt
 
 // ─── Fact-Check Validator ──────────────────────────────────
 
@@ -266,7 +88,8 @@ export async function validateResponse(
   if (!isHuggingFaceConfigured()) return response;
 
   try {
-    const validation = await hfChat({
+    // A second, independent model family checks the primary model's answer
+    const validation = await getChatProvider('huggingface').chat({
       messages: [
         {
           role: 'system',
@@ -299,68 +122,81 @@ Be brief.`,
 
 // ─── Master Agent Orchestrator ─────────────────────────────
 
+async function runExpert(
+  expert: Expert,
+  input: ExpertInput,
+  deadline: number
+): Promise<{ result: ExpertResult | null; run: ExpertRun }> {
+  const start = Date.now();
+  const timeout = Math.max(0, Math.min(expert.timeoutMs, deadline - start));
+  try {
+    const result = await withTimeout(expert.run(input), timeout, `Expert ${expert.id}`);
+    return { result, run: { expert: expert.id, status: 'ok', durationMs: Date.now() - start, truncated: false } };
+  } catch (err: any) {
+    const timedOut = err?.message?.includes('timed out');
+    console.error(`[Agent] ${expert.id} expert ${timedOut ? 'timed out' : 'failed'}:`, err?.message || err);
+    return {
+      result: null,
+      run: { expert: expert.id, status: timedOut ? 'timeout' : 'error', durationMs: Date.now() - start, truncated: false },
+    };
+  }
+}
+
 export async function runAgents(
   message: string,
-  documents: DocumentForRAG[]
+  userId: string,
+  options: { settings?: UserPreferences; provider?: ChatProvider } = {}
 ): Promise<AgentContext> {
-  const intents = classifyIntent(message);
-  console.log(`[Agent] Intents classified: ${intents.join(', ')}`);
-
-  // Knowledge expert always runs synchronously (fast, local)
-  const knowledgeResult = runKnowledgeExpert(message, documents);
-
-  // Run async experts in parallel
-  const asyncTasks: Promise<any>[] = [];
-  const taskMap: Record<string, number> = {};
-
-  if (intents.includes('search')) {
-    taskMap['search'] = asyncTasks.length;
-    asyncTasks.push(runSearchExpert(message));
-  }
-
-  if (intents.includes('youtube')) {
-    taskMap['youtube'] = asyncTasks.length;
-    asyncTasks.push(runYouTubeExpert(message));
-  }
-
-  const asyncResults = await Promise.allSettled(asyncTasks);
-
-  // Aggregate results
-  const searchResult =
-    taskMap['search'] !== undefined &&
-    asyncResults[taskMap['search']]?.status === 'fulfilled'
-      ? (asyncResults[taskMap['search']] as PromiseFulfilledResult<any>).value
-      : { results: [], context: '' };
-
-  const youtubeResult =
-    taskMap['youtube'] !== undefined &&
-    asyncResults[taskMap['youtube']]?.status === 'fulfilled'
-      ? (asyncResults[taskMap['youtube']] as PromiseFulfilledResult<any>).value
-      : { results: [], context: '' };
+  const { settings = DEFAULT_SETTINGS, provider = getChatProvider() } = options;
+  const routing = await routeQuery(message, provider);
+  console.log(`[Agent] Routed (${routing.method}, confidence ${routing.confidence}): ${routing.experts.join(', ')}`);
+
+  const inputFor = (expert: Expert): ExpertInput => ({
+    message,
+    query: routing.queries[expert.id] || message,
+    userId,
+    routing,
+    settings,
+    provider,
+  });
+
+  // Registered experts in priority order; run every applicable one in parallel.
+  // Local-only privacy keeps the query away from third-party services.
+  const external = allowsExternalServices(settings);
+  const selected = getExperts().filter(
+    (expert) => (external || !expert.external) && expert.shouldRun(inputFor(expert))
+  );
+  const deadline = Date.now() + AGENT_TIME_BUDGET;
+  const outcomes = await Promise.all(selected.map((expert) => runExpert(expert, inputFor(expert), deadline)));
+
+  // Aggregate by priority: higher-priority experts keep their context when the budget runs out
+  const expertContexts: AgentContext['expertContexts'] = [];
+  const sources: AgentSource[] = [];
+  let remaining = CONTEXT_BUDGET_CHARS;
+
+  outcomes.forEach(({ result, run }) => {
+    if (!result) return;
+    sources.push(...result.sources);
+    if (!result.context) return;
+
+    let context = result.context;
+    if (context.length > remaining) {
+      context = remaining > 200 ? `${context.slice(0, remaining)}\n…` : '';
+      run.truncated = true;
+    }
+    remaining -= context.length;
+    if (context) expertContexts.push({ expert: run.expert, context });
+  });
 
-  // Build sources list
-  const sources = [
-    ...knowledgeResult.sources,
-    ...searchResult.results.map((r: SearchResult) => ({
-      type: 'web',
-      title: r.title,
-      url: r.url,
-    })),
-    ...youtubeResult.results.map((r: YouTubeResult) => ({
-      type: 'youtube',
-      title: r.title,
-      url: r.url,
-    })),
-  ];
+  const runs = outcomes.map((o) => o.run);
+  console.log(`[Agent] Experts: ${runs.map((r) => `${r.expert}=${r.status} ${r.durationMs}ms`).join(', ')}`);
 
   return {
-    knowledgeContext: knowledgeResult.context,
-    searchResults: searchResult.results,
-    youtubeResults: youtubeResult.results,
-    searchContext: searchResult.context,
-    youtubeContext: youtubeResult.context,
+    expertContexts,
     sources,
-    expertsUsed: intents,
+    expertsUsed: runs.filter((r) => r.status === 'ok').map((r) => r.expert),
+    routing,
+    runs,
   };
 }
 
@@ -377,21 +213,9 @@ export function buildAgentSystemPrompt(
     `You are Neural Cortex, an advanced AI knowledge twin powered by a multi-model mixture of experts system. You help users recall, connect, and build upon their knowledge.`
   );
 
-  // Knowledge base context
-  if (agentContext.knowledgeContext) {
-    sections.push(
-      `## Your Knowledge Base (User's Documents):\n\n${agentContext.knowledgeContext}`
-    );
-  }
-
-  // Web search results
-  if (agentContext.searchContext) {
-    sections.push(agentContext.searchContext);
-  }
-
-  // YouTube results
-  if (agentContext.youtubeContext) {
-    sections.push(agentContext.youtubeContext);
+  // Expert sections (knowledge base, summaries, web, YouTube...) in priority order
+  for (const section of agentContext.expertContexts) {
+    sections.push(section.context);
   }
 
   // Cross-conversation memory
@@ -403,6 +227,9 @@ export function buildAgentSystemPrompt(
   sections.push(`## Response Guidelines:
 - Use markdown formatting for readability
 - When referencing documents, mention their titles clearly
+- Cite pages as "Title, p. 47" when a passage shows a page number
+- For video or recording transcripts, cite the timestamp shown with the passage, e.g. "at 12:34"
+- For spreadsheet questions, report the figures from the Spreadsheet Calculation as given — never add up table rows yourself
 - When providing web search results, ALWAYS include the actual clickable URLs/links
 - When recommending YouTube videos, ALWAYS include the full YouTube watch URL
 - When referencing previous conversations, mention that naturally
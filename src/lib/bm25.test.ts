@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, stem, tokenize } from './bm25';
+
+describe('stem', () => {
+  it.each([
+    ['caresses', 'caress'],
+    ['ponies', 'poni'],
+    ['cats', 'cat'],
+    ['agreed', 'agre'],
+    ['plastered', 'plaster'],
+    ['motoring', 'motor'],
+    ['hopping', 'hop'],
+    ['filing', 'file'],
+    ['happy', 'happi'],
+    ['relational', 'relat'],
+    ['conditional', 'condit'],
+    ['hopefulness', 'hope'],
+    ['electrical', 'electr'],
+    ['adjustment', 'adjust'],
+    ['adoption', 'adopt'],
+    ['controlling', 'control'],
+    ['generalization', 'gener'],
+    ['yelling', 'yell'],
+  ])('%s → %s', (word, expected) => {
+    expect(stem(word)).toBe(expected);
+  });
+
+  it('leaves words shorter than three letters alone', () => {
+    expect(stem('is')).toBe('is');
+  });
+
+  it('conflates inflections of the same word', () => {
+    expect(new Set(['run', 'runs', 'running'].map(stem))).toEqual(new Set(['run']));
+    expect(stem('connection')).toBe(stem('connected'));
+  });
+});
+
+describe('tokenize', () => {
+  it('drops stopwords, folds case and accents and stems', () => {
+    expect(tokenize('The Cafés are RUNNING over there')).toEqual(['cafe', 'run']);
+  });
+
+  it('keeps numbers and mixed tokens unstemmed', () => {
+    expect(tokenize('Revenue in 2024 for gpt4o')).toEqual(['revenu', '2024', 'gpt4o']);
+  });
+
+  it('splits on punctuation and skips one-letter and overlong words', () => {
+    expect(tokenize(`x node.js/react ${'a'.repeat(41)}`)).toEqual(['node', 'js', 'react']);
+  });
+});
+
+describe('Bm25Index', () => {
+  const build = () => {
+    const index = new Bm25Index();
+    index.add('c1', 'd1', 'Kubernetes schedules containers onto nodes in a cluster.');
+    index.add('c2', 'd1', 'Docker builds container images from a Dockerfile.');
+    index.add('c3', 'd2', 'The Krebs cycle produces energy in the mitochondria.');
+    index.add('c4', 'd3', 'Containers, containers everywhere: container orchestration with Kubernetes and container registries.');
+    return index;
+  };
+
+  it('ranks by term matches and skips documents without any', () => {
+    const results = build().search('kubernetes containers', 10);
+    expect(results.map((r) => r.id)).toEqual(['c4', 'c1', 'c2']);
+    expect(results[0].documentId).toBe('d3');
+    expect(results.every((r, i) => i === 0 || r.score <= results[i - 1].score)).toBe(true);
+  });
+
+  it('weights rare terms above common ones', () => {
+    const index = build();
+    const [common] = index.search('container', 1);
+    const [rare] = index.search('mitochondria', 1);
+    expect(rare.id).toBe('c3');
+    expect(rare.score).toBeGreaterThan(common.score);
+  });
+
+  it('matches the Okapi BM25 formula', () => {
+    const index = new Bm25Index();
+    index.add('a', 'd', 'apple banana');
+    index.add('b', 'd', 'cherry cherry cherry date');
+    // "apple": df 1 of 2 docs, tf 1, length 2, average length 3
+    const idf = Math.log(1 + (2 - 1 + 0.5) / (1 + 0.5));
+    const tf = (1 * 2.2) / (1 + 1.2 * (1 - 0.75 + (0.75 * 2) / 3));
+    expect(index.search('apple', 1)[0].score).toBeCloseTo(idf * tf, 10);
+  });
+
+  it('returns nothing for stopword-only queries or an empty index', () => {
+    expect(build().search('the and of', 10)).toEqual([]);
+    expect(new Bm25Index().search('kubernetes', 10)).toEqual([]);
+  });
+
+  it('forgets removed chunks and documents', () => {
+    const index = build();
+    index.removeDocument('d1');
+    expect(index.size).toBe(2);
+    expect(index.search('kubernetes docker', 10).map((r) => r.id)).toEqual(['c4']);
+    expect(index.remove('c4')).toBe(true);
+    expect(index.search('kubernetes', 10)).toEqual([]);
+  });
+
+  it('scores the same after a serialize round trip', () => {
+    const index = build();
+    const restored = Bm25Index.deserialize(JSON.parse(JSON.stringify(index.serialize())));
+    expect(restored.size).toBe(4);
+    expect(restored.search('container cluster', 10)).toEqual(index.search('container cluster', 10));
+  });
+});
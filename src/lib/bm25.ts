@@ -0,0 +1,236 @@
+/**
+ * BM25 Lexical Index
+ *
+ * Inverted index with Okapi BM25 scoring. Text is normalised (lower-cased,
+ * diacritics stripped), split on non-alphanumerics, filtered through an
+ * English stopword list and Porter-stemmed, so "running" matches "runs"
+ * and words like "the" contribute nothing.
+ */
+
+export interface Bm25Match {
+  id: string;
+  documentId: string;
+  score: number;
+}
+
+interface Bm25Entry {
+  id: string;
+  documentId: string;
+  length: number;
+  terms: Map<string, number>;
+}
+
+export interface SerializedBm25 {
+  entries: { id: string; documentId: string; terms: Record<string, number> }[];
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+// ─── Tokenizer ─────────────────────────────────────────────
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could',
+  'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further', 'had', 'has',
+  'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'i', 'if',
+  'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'myself', 'no', 'nor',
+  'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out',
+  'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs',
+  'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under',
+  'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom',
+  'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself', 'yourselves', 'also', 'may',
+  'might', 'must', 'shall', 'us', 'tell', 'please', 'know',
+]);
+
+// Porter (1980) stemmer
+const STEP2: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble', alli: 'al',
+  entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate', ator: 'ate', alism: 'al',
+  iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log',
+};
+const STEP3: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: '',
+};
+
+const c = '[^aeiou]';
+const v = '[aeiouy]';
+const C = `${c}[^aeiouy]*`;
+const V = `${v}[aeiou]*`;
+const MEASURE_GT0 = new RegExp(`^(${C})?${V}${C}`);
+const MEASURE_EQ1 = new RegExp(`^(${C})?${V}${C}(${V})?$`);
+const MEASURE_GT1 = new RegExp(`^(${C})?${V}${C}${V}${C}`);
+const HAS_VOWEL = new RegExp(`^(${C})?${v}`);
+const CVC = new RegExp(`^${C}${v}[^aeiouwxy]$`);
+const DOUBLE_CONSONANT = /([^aeiouylsz])\1$/;
+
+export function stem(word: string): string {
+  if (word.length < 3) return word;
+
+  let w = word;
+  const startsWithY = w[0] === 'y';
+  if (startsWithY) w = 'Y' + w.slice(1);
+
+  // Step 1a
+  if (/^(.+?)(ss|i)es$/.test(w)) w = w.replace(/^(.+?)(ss|i)es$/, '$1$2');
+  else if (/^(.+?)([^s])s$/.test(w)) w = w.replace(/^(.+?)([^s])s$/, '$1$2');
+
+  // Step 1b
+  let match = /^(.+?)eed$/.exec(w);
+  if (match) {
+    if (MEASURE_GT0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) w += 'e';
+    else if (DOUBLE_CONSONANT.test(w)) w = w.slice(0, -1);
+    else if (CVC.test(w)) w += 'e';
+  }
+
+  // Step 1c
+  match = /^(.+?)y$/.exec(w);
+  if (match && HAS_VOWEL.test(match[1])) w = match[1] + 'i';
+
+  // Step 2
+  match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w);
+  if (match && MEASURE_GT0.test(match[1])) w = match[1] + STEP2[match[2]];
+
+  // Step 3
+  match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w);
+  if (match && MEASURE_GT0.test(match[1])) w = match[1] + STEP3[match[2]];
+
+  // Step 4
+  match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w);
+  if (match) {
+    if (MEASURE_GT1.test(match[1])) w = match[1];
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w)) && MEASURE_GT1.test(match[1] + match[2])) {
+    w = match[1] + match[2];
+  }
+
+  // Step 5
+  match = /^(.+?)e$/.exec(w);
+  if (match && (MEASURE_GT1.test(match[1]) || (MEASURE_EQ1.test(match[1]) && !CVC.test(match[1])))) {
+    w = match[1];
+  }
+  if (/ll$/.test(w) && MEASURE_GT1.test(w)) w = w.slice(0, -1);
+
+  if (startsWithY) w = 'y' + w.slice(1);
+  return w;
+}
+
+const WORD_SEPARATOR = new RegExp('[^\\p{L}\\p{N}]+', 'u');
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(WORD_SEPARATOR);
+
+  for (const word of words) {
+    if (word.length < 2 || word.length > 40 || STOPWORDS.has(word)) continue;
+    tokens.push(/^[a-z]+$/.test(word) ? stem(word) : word);
+  }
+  return tokens;
+}
+
+// ─── Index ─────────────────────────────────────────────────
+
+export class Bm25Index {
+  private entries = new Map<string, Bm25Entry>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private addEntry(entry: Bm25Entry) {
+    this.entries.set(entry.id, entry);
+    this.totalLength += entry.length;
+    entry.terms.forEach((tf, term) => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(entry.id, tf);
+    });
+  }
+
+  add(id: string, documentId: string, text: string): void {
+    this.remove(id);
+    const tokens = tokenize(text);
+    const terms = new Map<string, number>();
+    for (const token of tokens) terms.set(token, (terms.get(token) || 0) + 1);
+    this.addEntry({ id, documentId, length: tokens.length, terms });
+  }
+
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+    entry.terms.forEach((_, term) => {
+      const posting = this.postings.get(term);
+      if (!posting) return;
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    });
+    this.totalLength -= entry.length;
+    this.entries.delete(id);
+    return true;
+  }
+
+  removeDocument(documentId: string): number {
+    let removed = 0;
+    for (const entry of Array.from(this.entries.values())) {
+      if (entry.documentId === documentId && this.remove(entry.id)) removed++;
+    }
+    return removed;
+  }
+
+  search(query: string, k: number): Bm25Match[] {
+    const count = this.entries.size;
+    if (count === 0) return [];
+    const avgLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of Array.from(new Set(tokenize(query)))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+      posting.forEach((tf, id) => {
+        const length = this.entries.get(id)!.length;
+        const weight = (tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / avgLength));
+        scores.set(id, (scores.get(id) || 0) + idf * weight);
+      });
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k)
+      .map(([id, score]) => ({ id, documentId: this.entries.get(id)!.documentId, score }));
+  }
+
+  // ─── Persistence ─────────────────────────────────────────
+
+  serialize(): SerializedBm25 {
+    return {
+      entries: Array.from(this.entries.values()).map((e) => ({
+        id: e.id,
+        documentId: e.documentId,
+        terms: Object.fromEntries(e.terms),
+      })),
+    };
+  }
+
+  static deserialize(data: SerializedBm25): Bm25Index {
+    const index = new Bm25Index();
+    for (const e of data.entries) {
+      const terms = new Map(Object.entries(e.terms));
+      let length = 0;
+      terms.forEach((tf) => (length += tf));
+      index.addEntry({ id: e.id, documentId: e.documentId, length, terms });
+    }
+    return index;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, findPageStarts, PAGE_BREAK } from './chunking';
+
+const paragraph = (n: number) =>
+  `Paragraph ${n} talks about something worth retrieving later. It has a second sentence for good measure.`;
+
+describe('chunkText', () => {
+  const text = Array.from({ length: 40 }, (_, i) => paragraph(i)).join('\n\n');
+
+  it('gives each chunk the offsets of its content in the original text', () => {
+    const chunks = chunkText(text, { chunkSize: 500, overlap: 100 });
+    expect(chunks.length).toBeGreaterThan(5);
+    chunks.forEach((chunk, i) => {
+      expect(chunk.chunkIndex).toBe(i);
+      expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+      expect(chunk.content.length).toBeLessThanOrEqual(500);
+    });
+  });
+
+  it('covers the whole text, with neighbours overlapping', () => {
+    const chunks = chunkText(text, { chunkSize: 500, overlap: 100 });
+    expect(chunks[0].startOffset).toBe(0);
+    expect(chunks[chunks.length - 1].endOffset).toBe(text.length);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startOffset).toBeGreaterThan(chunks[i - 1].startOffset);
+      expect(chunks[i].startOffset).toBeLessThanOrEqual(chunks[i - 1].endOffset);
+    }
+  });
+
+  it('breaks at paragraph ends when there is one near the limit', () => {
+    const chunks = chunkText(text, { chunkSize: 500, overlap: 100 });
+    expect(chunks[0].content.endsWith('for good measure.')).toBe(true);
+  });
+
+  it('skips leading whitespace in the start offset', () => {
+    const padded = `\n\n   ${paragraph(1)}`;
+    const [chunk] = chunkText(padded);
+    expect(chunk.startOffset).toBe(5);
+    expect(padded.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+  });
+
+  it('returns no chunks for blank text', () => {
+    expect(chunkText('')).toEqual([]);
+    expect(chunkText('  \n\n ')).toEqual([]);
+  });
+
+  it('numbers pages from the form feeds in the text', () => {
+    const pages = [paragraph(1).repeat(4), paragraph(2).repeat(4), paragraph(3).repeat(4)].join(PAGE_BREAK);
+    const pageStarts = findPageStarts(pages);
+    expect(pageStarts).toEqual([0, pages.indexOf('\f') + 1, pages.lastIndexOf('\f') + 1]);
+
+    const chunks = chunkText(pages, { chunkSize: 300, overlap: 50, pageStarts });
+    for (const chunk of chunks) {
+      const page = pageStarts.filter((start) => start <= chunk.startOffset).length;
+      expect(chunk.pageNumber).toBe(page);
+    }
+    expect(chunks[chunks.length - 1].pageNumber).toBe(3);
+    expect(findPageStarts('no breaks here')).toEqual([]);
+  });
+
+  it('takes the last time marker at or before the chunk start', () => {
+    const transcript = Array.from({ length: 10 }, (_, i) => paragraph(i)).join(' ');
+    const timeMarkers = [
+      { offset: 0, seconds: 0 },
+      { offset: 400, seconds: 30 },
+      { offset: 800, seconds: 75 },
+    ];
+    const chunks = chunkText(transcript, { chunkSize: 300, overlap: 50, timeMarkers });
+    for (const chunk of chunks) {
+      const expected = timeMarkers.filter((m) => m.offset <= chunk.startOffset).pop()!.seconds;
+      expect(chunk.startSeconds).toBe(expected);
+    }
+    expect(chunks[0].pageNumber).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Document Chunking
+ *
+ * Splits long document text into overlapping, retrieval-sized chunks so the
+ * knowledge expert can surface passages from anywhere in a document — not
+ * just its first page. Chunk boundaries prefer paragraph, then sentence,
+ * then word breaks.
+ */
+
+import type { TimeMarker } from './transcripts';
+
+const DEFAULT_CHUNK_SIZE = 1200; // characters
+const DEFAULT_CHUNK_OVERLAP = 200; // characters shared between neighbours
+const MIN_CHUNK_LENGTH = 40;
+
+/**
+ * Separator between pages in stored document text (a form feed, as in
+ * pdftotext output). Chunks take their page number from these.
+ */
+export const PAGE_BREAK = '\n\n\f';
+
+export interface TextChunk {
+  chunkIndex: number;
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  pageNumber: number | null;
+  /** Second of the recording this chunk starts at (transcripts only) */
+  startSeconds: number | null;
+}
+
+interface ChunkOptions {
+  chunkSize?: number;
+  overlap?: number;
+  /** Character offset at which each page starts (index 0 → page 1) */
+  pageStarts?: number[];
+  /** Transcript timestamps; a chunk takes the last marker at or before its start */
+  timeMarkers?: TimeMarker[];
+}
+
+// ─── Helpers ───────────────────────────────────────────────
+
+function findBreakPoint(text: string, start: number, end: number): number {
+  if (end >= text.length) return text.length;
+
+  // Only look for a natural break in the last third of the window
+  const minBreak = start + Math.floor((end - start) * 0.66);
+  const window = text.slice(minBreak, end);
+
+  const paragraph = window.lastIndexOf('\n\n');
+  if (paragraph !== -1) return minBreak + paragraph + 2;
+
+  const sentence = Math.max(
+    window.lastIndexOf('. '),
+    window.lastIndexOf('? '),
+    window.lastIndexOf('! '),
+    window.lastIndexOf('.\n')
+  );
+  if (sentence !== -1) return minBreak + sentence + 2;
+
+  const space = window.lastIndexOf(' ');
+  if (space !== -1) return minBreak + space + 1;
+
+  return end;
+}
+
+function pageForOffset(offset: number, pageStarts?: number[]): number | null {
+  if (!pageStarts || pageStarts.length === 0) return null;
+  let page = 1;
+  for (let i = 0; i < pageStarts.length; i++) {
+    if (pageStarts[i] <= offset) page = i + 1;
+    else break;
+  }
+  return page;
+}
+
+function secondsForOffset(offset: number, markers?: TimeMarker[]): number | null {
+  if (!markers || markers.length === 0) return null;
+  let seconds = markers[0].seconds;
+  for (const marker of markers) {
+    if (marker.offset <= offset) seconds = marker.seconds;
+    else break;
+  }
+  return seconds;
+}
+
+/** Character offsets at which each page starts, or [] for text without page breaks */
+export function findPageStarts(text: string): number[] {
+  if (!text.includes('\f')) return [];
+  const starts = [0];
+  for (let i = text.indexOf('\f'); i !== -1; i = text.indexOf('\f', i + 1)) starts.push(i + 1);
+  return starts;
+}
+
+// ─── Chunker ───────────────────────────────────────────────
+
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const {
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    overlap = DEFAULT_CHUNK_OVERLAP,
+    pageStarts,
+    timeMarkers,
+  } = options;
+
+  const chunks: TextChunk[] = [];
+  if (!text || text.trim().length === 0) return chunks;
+
+  let start = 0;
+  while (start < text.length) {
+    const end = findBreakPoint(text, start, Math.min(start + chunkSize, text.length));
+    const raw = text.slice(start, end);
+    const content = raw.trim();
+
+    if (content.length >= MIN_CHUNK_LENGTH || chunks.length === 0) {
+      const leading = raw.length - raw.trimStart().length;
+      chunks.push({
+        chunkIndex: chunks.length,
+        content,
+        startOffset: start + leading,
+        endOffset: start + leading + content.length,
+        pageNumber: pageForOffset(start + leading, pageStarts),
+        startSeconds: secondsForOffset(start + leading, timeMarkers),
+      });
+    }
+
+    if (end >= text.length) break;
+    // Step forward, keeping some overlap but always making progress,
+    // and start the next chunk on a word boundary
+    let next = Math.max(end - overlap, start + 1);
+    const space = text.indexOf(' ', next);
+    if (space !== -1 && space < end) next = space + 1;
+    start = next;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,237 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable text-embedding backends used for document, chunk and query vectors:
+ * - nvidia  → NVIDIA NIM embeddings endpoint (nv-embedqa-e5-v5, 1024-dim)
+ * - openai  → any OpenAI-compatible /v1/embeddings endpoint (OpenAI, Ollama, vLLM...)
+ * - local   → transformers.js sentence encoder on CPU (all-MiniLM-L6-v2, 384-dim), works offline
+ * - hash    → legacy 128-dim character hash (generateEmbeddingSimple), no semantics
+ *
+ * Every stored vector records the provider's `id` and `dimension`, and vectors
+ * are only ever compared against vectors produced by the same model.
+ */
+
+import { generateEmbeddingSimple } from './nvidia';
+import { isPrivateUrl } from './utils';
+
+export type EmbeddingInputType = 'query' | 'passage';
+
+export interface EmbeddingProvider {
+  /** Stable model identifier stored alongside every vector, e.g. "nvidia:nvidia/nv-embedqa-e5-v5" */
+  id: string;
+  dimension: number;
+  /** True when texts never leave the machine or private network */
+  local: boolean;
+  embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]>;
+}
+
+export interface EmbeddingResult {
+  model: string;
+  dimension: number;
+  vector: number[];
+}
+
+const EMBEDDING_TIMEOUT = 30_000;
+const EMBEDDING_BATCH_SIZE = 32;
+const MAX_EMBEDDING_INPUT = 2000; // characters — keeps inputs under typical 512-token limits
+
+// ─── Helpers ───────────────────────────────────────────────
+
+async function postJson(url: string, apiKey: string | undefined, body: unknown): Promise<any> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), EMBEDDING_TIMEOUT);
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      const errText = await res.text();
+      throw new Error(`Embedding API error ${res.status}: ${errText.slice(0, 200)}`);
+    }
+    return res.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+function readEmbeddingData(data: any): number[][] {
+  const items: { index?: number; embedding: number[] }[] = data?.data || [];
+  return items
+    .slice()
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map((item) => normalize(item.embedding));
+}
+
+// ─── NVIDIA ────────────────────────────────────────────────
+
+const NVIDIA_EMBEDDINGS_URL = 'https://integrate.api.nvidia.com/v1/embeddings';
+const NVIDIA_EMBEDDING_MODEL = process.env.NVIDIA_EMBEDDING_MODEL || 'nvidia/nv-embedqa-e5-v5';
+
+export function createNvidiaEmbeddingProvider(): EmbeddingProvider {
+  const apiKey = process.env.NVIDIA_API_KEY;
+  return {
+    id: `nvidia:${NVIDIA_EMBEDDING_MODEL}`,
+    dimension: Number(process.env.NVIDIA_EMBEDDING_DIM) || 1024,
+    local: false,
+    async embed(texts, inputType = 'passage') {
+      if (!apiKey) throw new Error('NVIDIA_API_KEY is not configured');
+      const data = await postJson(NVIDIA_EMBEDDINGS_URL, apiKey, {
+        model: NVIDIA_EMBEDDING_MODEL,
+        input: texts,
+        input_type: inputType,
+        encoding_format: 'float',
+        truncate: 'END',
+      });
+      return readEmbeddingData(data);
+    },
+  };
+}
+
+// ─── OpenAI-compatible ─────────────────────────────────────
+
+export function createOpenAICompatibleEmbeddingProvider(): EmbeddingProvider {
+  const baseUrl = (process.env.OPENAI_EMBEDDINGS_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const apiKey = process.env.OPENAI_EMBEDDINGS_API_KEY || process.env.OPENAI_API_KEY;
+  const model = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+  return {
+    id: `openai:${model}`,
+    dimension: Number(process.env.OPENAI_EMBEDDING_DIM) || 1536,
+    local: isPrivateUrl(baseUrl),
+    async embed(texts) {
+      const data = await postJson(`${baseUrl}/embeddings`, apiKey, { model, input: texts });
+      return readEmbeddingData(data);
+    },
+  };
+}
+
+// ─── Local (transformers.js, CPU) ──────────────────────────
+
+const LOCAL_EMBEDDING_MODEL = process.env.LOCAL_EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2';
+
+let localExtractor: Promise<any> | null = null;
+
+function getLocalExtractor(): Promise<any> {
+  if (!localExtractor) {
+    localExtractor = import('@huggingface/transformers')
+      .then(({ pipeline, env }) => {
+        // Fully offline: load model files from disk and never hit the Hub
+        if (process.env.LOCAL_MODEL_PATH) {
+          env.localModelPath = process.env.LOCAL_MODEL_PATH;
+          env.allowRemoteModels = false;
+        }
+        return pipeline('feature-extraction', LOCAL_EMBEDDING_MODEL, { dtype: 'fp32' });
+      })
+      .catch((err) => {
+        localExtractor = null; // allow a retry on the next call
+        throw err;
+      });
+  }
+  return localExtractor;
+}
+
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    id: `local:${LOCAL_EMBEDDING_MODEL}`,
+    dimension: Number(process.env.LOCAL_EMBEDDING_DIM) || 384,
+    local: true,
+    async embed(texts) {
+      const extractor = await getLocalExtractor();
+      const output = await extractor(texts, { pooling: 'mean', normalize: true });
+      return output.tolist() as number[][];
+    },
+  };
+}
+
+// ─── Legacy hash ───────────────────────────────────────────
+
+export const HASH_EMBEDDING_MODEL = 'hash:char-128';
+
+export function createHashEmbeddingProvider(): EmbeddingProvider {
+  return {
+    id: HASH_EMBEDDING_MODEL,
+    dimension: 128,
+    local: true,
+    async embed(texts) {
+      return texts.map((t) => generateEmbeddingSimple(t));
+    },
+  };
+}
+
+// ─── Provider selection ────────────────────────────────────
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Resolve the configured provider from EMBEDDING_PROVIDER
+ * (nvidia | openai | local | hash). Defaults to NVIDIA when an API key
+ * is configured, otherwise the offline local model.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (activeProvider) return activeProvider;
+
+  const configured = (process.env.EMBEDDING_PROVIDER || '').toLowerCase();
+  const choice = configured || (process.env.NVIDIA_API_KEY ? 'nvidia' : 'local');
+
+  switch (choice) {
+    case 'nvidia':
+      activeProvider = createNvidiaEmbeddingProvider();
+      break;
+    case 'openai':
+      activeProvider = createOpenAICompatibleEmbeddingProvider();
+      break;
+    case 'hash':
+      activeProvider = createHashEmbeddingProvider();
+      break;
+    case 'local':
+    default:
+      activeProvider = createLocalEmbeddingProvider();
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Embed many texts in batches. Returns null when the provider is unavailable,
+ * so callers can store the content without a vector instead of failing.
+ */
+export async function embedTexts(
+  texts: string[],
+  inputType: EmbeddingInputType = 'passage'
+): Promise<{ model: string; dimension: number; vectors: number[][] } | null> {
+  const provider = getEmbeddingProvider();
+  const vectors: number[][] = [];
+
+  try {
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE).map((t) => t.slice(0, MAX_EMBEDDING_INPUT));
+      vectors.push(...(await provider.embed(batch, inputType)));
+    }
+  } catch (err: any) {
+    console.error(`[Embeddings] ${provider.id} failed:`, err?.message || err);
+    return null;
+  }
+
+  const dimension = vectors[0]?.length || provider.dimension;
+  return { model: provider.id, dimension, vectors };
+}
+
+export async function embedText(
+  text: string,
+  inputType: EmbeddingInputType = 'passage'
+): Promise<EmbeddingResult | null> {
+  const result = await embedTexts([text], inputType);
+  if (!result || !result.vectors[0]) return null;
+  return { model: result.model, dimension: result.dimension, vector: result.vectors[0] };
+}
@@ -0,0 +1,500 @@
+/**
+ * Document Enrichment
+ *
+ * The AI side of ingestion: a consensus summary, typed entities and key
+ * points for a document, plus the knowledge-graph nodes for its entities
+ * and the typed edges between them. `indexDocumentForSearch` writes the
+ * retrieval side (chunks, embeddings, vector and lexical indexes) and also
+ * runs when AI processing is off, so every document stays searchable.
+ */
+
+import { createHash } from 'crypto';
+import prisma from './prisma';
+import { extractEntitiesWithTypes, extractKeyPoints, extractRelations, generateSummary, type ExtractedRelation } from './nvidia';
+import { consensusSummarize } from './experts/summarize';
+import { embedDocument, storeDocumentChunks } from './indexing';
+import {
+  addSource,
+  deleteOrphans,
+  EXTRACTED_RELATIONS,
+  IMPORTED_RELATIONS,
+  retractDocument,
+  sourceUpdate,
+  upsertEdges,
+  type EdgeInput,
+} from './graph';
+import { findEntityNode, findEntityNodes, normalizeLabel, resolutionKey } from './entity-resolution';
+import type { ChatProvider } from './llm';
+import { canEmbedFor, getChatProviderFor, getUserSettings } from './settings';
+import type { ExtractedPerson } from './parsers';
+
+/**
+ * Tags for an enriched document: the top entities, after any tags that did
+ * not come from a previous enrichment (folder and frontmatter tags of
+ * imported notes), which are kept.
+ */
+export function mergeTags(current: string | null, previousEntities: string | null, entityNames: string[]): string[] {
+  const parse = (json: string | null): string[] => {
+    try {
+      const value = JSON.parse(json || '[]');
+      return Array.isArray(value) ? value.map(String) : [];
+    } catch {
+      return [];
+    }
+  };
+  const generated = new Set(parse(previousEntities));
+  const kept = parse(current).filter((tag) => !generated.has(tag));
+  return Array.from(new Set([...kept, ...entityNames.slice(0, 5)]));
+}
+
+export async function indexDocumentForSearch(
+  docId: string,
+  content: string,
+  userId: string,
+  options: { summary?: string | null; embed: boolean }
+): Promise<number> {
+  const { summary, embed } = options;
+  if (embed) await embedDocument(docId, content, summary);
+  const chunkCount = await storeDocumentChunks(docId, content, userId, { embed });
+  console.log(`[AI Process] Stored ${chunkCount} chunks for document ${docId}`);
+  return chunkCount;
+}
+
+/**
+ * Summarize the document, extract entities and key points with `provider`,
+ * store them and link the entities into the knowledge graph. `external`
+ * allows HuggingFace in the consensus summary. Returns the summary.
+ */
+export async function enrichDocument(
+  docId: string,
+  content: string,
+  userId: string,
+  options: { provider: ChatProvider; external: boolean }
+): Promise<string> {
+  const { provider, external } = options;
+
+  console.log(`[AI Process] Starting for document ${docId}, content length: ${content.length}`);
+
+  // Multi-model consensus: use both the chat model + HuggingFace for summarization
+  // Relations need the entity list, so they follow entity extraction
+  const [summary, { typedEntities, relations }, keyPoints] = await Promise.all([
+    consensusSummarize(content, { provider, external }),
+    extractEntitiesWithTypes(content, provider).then(async (typedEntities) => ({
+      typedEntities,
+      relations: await extractRelations(content, typedEntities, provider),
+    })),
+    extractKeyPoints(content, provider),
+  ]);
+
+  console.log(`[AI Process] Extracted ${typedEntities.length} entities, ${relations.length} relations, ${keyPoints.length} key points`);
+
+  // Sanitize entity names: truncate to safe DB length, trim whitespace
+  const sanitizedEntities = typedEntities
+    .map(e => ({
+      name: e.name.trim().slice(0, 180),
+      type: e.type,
+    }))
+    .filter(e => e.name.length > 0);
+
+  const entityNames = sanitizedEntities.map(e => e.name);
+
+  const doc = await prisma.document.findUnique({ where: { id: docId }, select: { title: true, content: true, tags: true, entities: true } });
+  await prisma.document.update({
+    where: { id: docId },
+    data: {
+      summary,
+      entities: JSON.stringify(entityNames),
+      keyPoints: JSON.stringify(keyPoints),
+      tags: JSON.stringify(mergeTags(doc?.tags ?? null, doc?.entities ?? null, entityNames)),
+    },
+  });
+
+  console.log(`[AI Process] Document ${docId} updated with summary & entities`);
+
+  const { nodesCreated, edgesCreated } = await buildDocumentGraph(
+    userId,
+    { id: docId, title: doc?.title ?? null, content: doc?.content ?? content, entities: JSON.stringify(entityNames) },
+    sanitizedEntities,
+    relations,
+    { relationsExtracted: true }
+  );
+
+  console.log(`[AI Process] ✅ Document ${docId} enriched: ${sanitizedEntities.length} entities (${nodesCreated} new nodes), ${relations.length} relations, ${edgesCreated} new edges, ${keyPoints.length} key points`);
+  return summary;
+}
+
+// ─── Knowledge graph ───────────────────────────────────────
+
+interface GraphDocument {
+  id: string;
+  title: string | null;
+  content: string;
+  /** Stored entity names (JSON) */
+  entities: string | null;
+}
+
+/**
+ * Hash of what a document's part of the graph is built from. A rebuild
+ * skips documents whose fingerprint matches the one stored when their
+ * graph was last built.
+ */
+export function graphFingerprint(doc: Pick<GraphDocument, 'title' | 'content' | 'entities'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([doc.title || '', doc.content, doc.entities || '']))
+    .digest('hex');
+}
+
+/**
+ * Replace what a document contributes to the graph with its current
+ * entities and relations, then store its fingerprint. The previous
+ * contribution is retracted first, so processing a document twice leaves
+ * the graph as processing it once; note links and email participants are
+ * kept, and so are extracted relations unless `relationsExtracted` (the
+ * caller has re-extracted them).
+ */
+export async function buildDocumentGraph(
+  userId: string,
+  doc: GraphDocument,
+  entities: { name: string; type: string }[],
+  relations: ExtractedRelation[],
+  options: { relationsExtracted: boolean }
+): Promise<{ nodesCreated: number; edgesCreated: number }> {
+  const keep = options.relationsExtracted ? IMPORTED_RELATIONS : [...IMPORTED_RELATIONS, ...Object.keys(EXTRACTED_RELATIONS)];
+  const touched = await retractDocument(userId, doc.id, keep);
+
+  const title = doc.title || `Document ${doc.id.slice(0, 8)}`;
+  const result = await addEntitiesToGraph(doc.id, title, userId, entities, relations);
+
+  const orphans = await deleteOrphans(userId, touched);
+  if (orphans > 0) console.log(`[AI Process] Removed ${orphans} nodes document ${doc.id} no longer mentions`);
+  await prisma.document.update({ where: { id: doc.id }, data: { graphHash: graphFingerprint(doc) } });
+  return result;
+}
+
+/**
+ * Add a document's entities to the knowledge graph: one node per entity
+ * (existing ones gain strength the first time a document names them), a
+ * "mentions" edge from the document's node to each, "co_occurs" edges
+ * between them and the typed relations extracted from the text, all with
+ * the document as evidence. Nodes are looked up in one query and written
+ * in one transaction.
+ */
+export async function addEntitiesToGraph(
+  docId: string,
+  title: string,
+  userId: string,
+  entities: { name: string; type: string }[],
+  relations: ExtractedRelation[]
+): Promise<{ nodesCreated: number; edgesCreated: number }> {
+  const nodeIds = new Map<string, string>();
+  let nodesCreated = 0;
+  try {
+    // "Postgres" finds an existing "PostgreSQL" node (see entity-resolution)
+    const existing = await findEntityNodes(userId, entities.map((e) => e.name));
+
+    const updates = new Map<string, any>();
+    const missing = new Map<string, { name: string; type: string }[]>();
+    for (const entity of entities) {
+      const node = existing.get(entity.name);
+      if (!node) {
+        // Names that resolve alike ("Postgres", "PostgreSQL") become one new node
+        const key = resolutionKey(entity.name);
+        missing.set(key, [...(missing.get(key) || []), entity]);
+        continue;
+      }
+      nodeIds.set(entity.name.toLowerCase(), node.id);
+      // Strength grows once per document, not on every re-processing
+      const updateData: any = updates.get(node.id) || sourceUpdate(node, docId) || {};
+      // Update type if it was previously all 'entity' (migration from old data)
+      if (node.type === 'entity' && entity.type !== 'entity') {
+        updateData.type = entity.type;
+      }
+      if (Object.keys(updateData).length > 0) updates.set(node.id, updateData);
+    }
+
+    const groups = Array.from(missing.values());
+    const created = await prisma.$transaction([
+      ...groups.map(([entity]) =>
+        prisma.knowledgeNode.create({
+          data: {
+            userId,
+            label: entity.name,
+            key: normalizeLabel(entity.name),
+            type: entity.type,
+            description: `Extracted from document`,
+            strength: 1.0,
+            sources: JSON.stringify([docId]),
+          },
+        })
+      ),
+      ...Array.from(updates.entries()).map(([id, data]) => prisma.knowledgeNode.update({ where: { id }, data })),
+    ]);
+    groups.forEach((group, i) => {
+      for (const entity of group) nodeIds.set(entity.name.toLowerCase(), created[i].id);
+    });
+    nodesCreated = groups.length;
+  } catch (nodeErr) {
+    console.error(`[AI Process] Failed to create/update knowledge nodes for document ${docId}:`, nodeErr);
+  }
+
+  if (nodeIds.size === 0) {
+    console.log(`[AI Process] No knowledge nodes created, skipping edges`);
+    return { nodesCreated, edgesCreated: 0 };
+  }
+
+  const docNode = await ensureDocumentNode(userId, title, docId);
+  const entityIds = Array.from(new Set(Array.from(nodeIds.values())));
+  const idOf = (name: string) => nodeIds.get(name.trim().slice(0, 180).toLowerCase());
+
+  const edges: EdgeInput[] = entityIds.map((id) => ({ sourceId: docNode.id, targetId: id, relation: 'mentions', documentId: docId }));
+  entityIds.forEach((a, i) => {
+    for (const b of entityIds.slice(i + 1)) edges.push({ sourceId: a, targetId: b, relation: 'co_occurs', documentId: docId });
+  });
+  for (const relation of relations) {
+    const [sourceId, targetId] = [idOf(relation.source), idOf(relation.target)];
+    if (sourceId && targetId) edges.push({ sourceId, targetId, relation: relation.relation, documentId: docId });
+  }
+
+  try {
+    const edgesCreated = await upsertEdges(userId, edges);
+    return { nodesCreated, edgesCreated };
+  } catch (edgeErr) {
+    console.error(`[AI Process] Failed to store graph edges for document ${docId}:`, edgeErr);
+    return { nodesCreated, edgesCreated: 0 };
+  }
+}
+
+// ─── Rebuild ───────────────────────────────────────────────
+
+export interface RebuildReport {
+  documentsProcessed: number;
+  /** Documents skipped because their fingerprint had not changed */
+  documentsUnchanged: number;
+  nodesCreated: number;
+  edgesCreated: number;
+}
+
+const REBUILD_PAGE_SIZE = 50;
+
+// Stored entity names; older documents stored { name, type } objects
+function parseStoredEntities(json: string | null): { name: string; type: string }[] {
+  try {
+    const parsed = JSON.parse(json || '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((e: any) => typeof e === 'string'
+        ? { name: e.trim().slice(0, 180), type: 'entity' }
+        : { name: String(e.name || e).trim().slice(0, 180), type: e.type || 'entity' })
+      .filter((e) => e.name.length > 0);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Rebuild the user's knowledge graph from their documents. Only documents
+ * whose fingerprint changed since their graph was built are processed, so a
+ * second rebuild does nothing; documents that were never enriched get
+ * entities extracted first, with the provider the user's settings allow
+ * (none when AI processing is off).
+ */
+export async function rebuildGraph(userId: string): Promise<RebuildReport> {
+  const report: RebuildReport = { documentsProcessed: 0, documentsUnchanged: 0, nodesCreated: 0, edgesCreated: 0 };
+
+  // Same rules as ingest: no AI when it is off, only on-prem models in local mode
+  const settings = await getUserSettings(userId);
+  const provider = settings.aiProcessing ? getChatProviderFor(settings) : null;
+  const embed = canEmbedFor(settings);
+
+  // A page at a time: content is loaded to fingerprint it
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await prisma.document.findMany({
+      where: { userId },
+      select: { id: true, title: true, content: true, entities: true, summary: true, tags: true, graphHash: true },
+      orderBy: { id: 'asc' },
+      take: REBUILD_PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (page.length === 0) break;
+    cursor = page[page.length - 1].id;
+
+    for (const doc of page) {
+      // Skip documents with no real content
+      if (!doc.content || doc.content.length < 20 || doc.content.startsWith('[File:')) continue;
+      if (doc.graphHash && doc.graphHash === graphFingerprint(doc)) {
+        report.documentsUnchanged++;
+        continue;
+      }
+
+      let entities = parseStoredEntities(doc.entities);
+      let relations: ExtractedRelation[] = [];
+      let storedEntities = doc.entities;
+
+      // If no entities yet, run AI extraction now
+      if (entities.length === 0) {
+        if (!provider) continue;
+        console.log(`[Rebuild] Document "${doc.title}" has no entities — running AI extraction...`);
+        try {
+          const content = doc.content.replace(/^\[AI-Generated Content based on:.*?\]\n\n/, '');
+
+          // Run AI extraction in parallel
+          const [typedEntities, summary, keyPoints] = await Promise.all([
+            extractEntitiesWithTypes(content, provider),
+            doc.summary ? Promise.resolve(doc.summary) : generateSummary(content, provider),
+            extractKeyPoints(content, provider),
+          ]);
+
+          entities = typedEntities
+            .map((e) => ({ name: e.name.trim().slice(0, 180), type: e.type as string }))
+            .filter((e) => e.name.length > 0);
+          relations = await extractRelations(content, entities, provider);
+
+          const entityNames = entities.map((e) => e.name);
+          storedEntities = JSON.stringify(entityNames);
+
+          // Save extracted data to document
+          await prisma.document.update({
+            where: { id: doc.id },
+            data: {
+              summary: typeof summary === 'string' ? summary : doc.summary,
+              entities: storedEntities,
+              keyPoints: JSON.stringify(keyPoints),
+              tags: JSON.stringify(mergeTags(doc.tags, doc.entities, entityNames)),
+            },
+          });
+          if (embed) await embedDocument(doc.id, content, typeof summary === 'string' ? summary : doc.summary);
+
+          console.log(`[Rebuild] ✅ Extracted ${entities.length} entities from "${doc.title}"`);
+        } catch (err) {
+          console.error(`[Rebuild] ❌ AI extraction failed for "${doc.title}":`, err);
+          continue;
+        }
+      }
+
+      if (entities.length === 0) continue;
+
+      try {
+        const graph = await buildDocumentGraph(
+          userId,
+          { id: doc.id, title: doc.title, content: doc.content, entities: storedEntities },
+          entities,
+          relations,
+          // Relations are only extracted along with entities; stored entities keep theirs
+          { relationsExtracted: relations.length > 0 }
+        );
+        report.documentsProcessed++;
+        report.nodesCreated += graph.nodesCreated;
+        report.edgesCreated += graph.edgesCreated;
+      } catch (err) {
+        console.error(`[Rebuild] ❌ Graph update failed for "${doc.title}":`, err);
+      }
+    }
+  }
+
+  console.log(
+    `[Rebuild] ✅ Graph rebuilt: ${report.nodesCreated} new nodes, ${report.edgesCreated} new edges from ${report.documentsProcessed} documents (${report.documentsUnchanged} unchanged)`
+  );
+  return report;
+}
+
+/**
+ * The graph node standing for a document, labelled with its title, so
+ * imports, email and enrichment share one node. Nodes are found by the
+ * document id in their metadata, so notes with the same name in different
+ * folders ("README", daily notes) keep nodes of their own; a title-matched
+ * node from before ids were recorded is taken over by the first document.
+ */
+export async function ensureDocumentNode(userId: string, title: string, documentId: string) {
+  const label = title.slice(0, 180);
+  const candidates = await prisma.knowledgeNode.findMany({
+    where: {
+      userId,
+      type: 'document',
+      OR: [{ metadata: { contains: JSON.stringify(documentId) } }, { label, sources: null }],
+    },
+  });
+  const documentOf = (node: { metadata: string | null }) => {
+    try {
+      return JSON.parse(node.metadata || '{}').documentId as string | undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const existing = candidates.find((n) => documentOf(n) === documentId);
+  if (existing) {
+    const sources = addSource(existing.sources, documentId);
+    const data = { ...(existing.label !== label ? { label } : {}), ...(sources ? { sources: JSON.stringify(sources) } : {}) };
+    return Object.keys(data).length > 0 ? prisma.knowledgeNode.update({ where: { id: existing.id }, data }) : existing;
+  }
+
+  const legacy = candidates.find((n) => n.sources === null && n.label === label && !documentOf(n));
+  if (legacy) {
+    return prisma.knowledgeNode.update({
+      where: { id: legacy.id },
+      data: { sources: JSON.stringify([documentId]), metadata: JSON.stringify({ documentId }) },
+    });
+  }
+
+  return prisma.knowledgeNode.create({
+    data: {
+      userId,
+      label,
+      type: 'document',
+      description: 'Source document',
+      strength: 2.0,
+      sources: JSON.stringify([documentId]),
+      metadata: JSON.stringify({ documentId }),
+    },
+  });
+}
+
+/**
+ * Add the people of a document (email senders and recipients) to the graph
+ * as entity nodes with a "participant_in" edge to the document's node. A
+ * person already in the graph (same address, or same name) gains strength
+ * instead of a duplicate.
+ */
+export async function addPeopleToGraph(docId: string, title: string, userId: string, people: ExtractedPerson[]): Promise<number> {
+  if (people.length === 0) return 0;
+  const docNode = await ensureDocumentNode(userId, title, docId);
+
+  const personIds: string[] = [];
+  for (const person of people) {
+    const label = (person.name || person.email).trim().slice(0, 180);
+    try {
+      // The same address may come with or without a display name
+      const existing =
+        (await prisma.knowledgeNode.findFirst({ where: { userId, metadata: { contains: JSON.stringify(person.email) } } })) ||
+        (await findEntityNode(userId, label));
+      const update = existing && sourceUpdate(existing, docId);
+      const node = existing
+        ? update
+          ? await prisma.knowledgeNode.update({ where: { id: existing.id }, data: update })
+          : existing
+        : await prisma.knowledgeNode.create({
+          data: {
+            userId,
+            label,
+            key: normalizeLabel(label),
+            type: 'entity',
+            description: `Email correspondent (${person.email})`,
+            strength: 1.0,
+            sources: JSON.stringify([docId]),
+            metadata: JSON.stringify({ email: person.email }),
+          },
+        });
+      personIds.push(node.id);
+    } catch (err) {
+      console.error(`[AI Process] Failed to add person "${label}":`, err);
+    }
+  }
+
+  await upsertEdges(
+    userId,
+    personIds.map((id) => ({ sourceId: id, targetId: docNode.id, relation: 'participant_in', documentId: docId }))
+  );
+  console.log(`[AI Process] Linked ${personIds.length} people to document ${docId}`);
+  return personIds.length;
+}
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mergeNodes, normalizeLabel, resolutionKey } from './entity-resolution';
+
+// Writes are recorded instead of run, so a test can inspect what the merge would commit
+const db = vi.hoisted(() => {
+  const op = (model: string, action: string) => (args: unknown) => ({ model, action, args });
+  return {
+    nodes: [] as any[],
+    edges: [] as any[],
+    committed: [] as any[],
+    op,
+  };
+});
+
+vi.mock('./prisma', () => ({
+  default: {
+    knowledgeNode: {
+      findMany: vi.fn(async ({ where }: any) => db.nodes.filter((n) => where.id.in.includes(n.id))),
+      update: db.op('knowledgeNode', 'update'),
+      deleteMany: db.op('knowledgeNode', 'deleteMany'),
+    },
+    knowledgeEdge: {
+      findMany: vi.fn(async ({ where }: any) => {
+        const ids = where.OR[0].sourceId.in;
+        return db.edges.filter((e) => ids.includes(e.sourceId) || ids.includes(e.targetId));
+      }),
+      update: db.op('knowledgeEdge', 'update'),
+      create: db.op('knowledgeEdge', 'create'),
+      deleteMany: db.op('knowledgeEdge', 'deleteMany'),
+    },
+    $transaction: vi.fn(async (operations: any[]) => {
+      db.committed = operations;
+      return operations;
+    }),
+  },
+}));
+
+const node = (id: string, label: string, extra: object = {}) => ({
+  id,
+  userId: 'u1',
+  label,
+  type: 'concept',
+  key: normalizeLabel(label),
+  aliases: null,
+  strength: 1,
+  sources: JSON.stringify([`doc-${id}`]),
+  metadata: null,
+  ...extra,
+});
+
+const edge = (id: string, sourceId: string, targetId: string, relation: string, evidence: string[]) => ({
+  id,
+  userId: 'u1',
+  sourceId,
+  targetId,
+  relation,
+  weight: evidence.length,
+  evidence: JSON.stringify(evidence),
+});
+
+const committed = (model: string, action: string) =>
+  db.committed.filter((o) => o.model === model && o.action === action).map((o) => o.args);
+
+describe('normalizeLabel', () => {
+  it('folds case, accents, spacing and punctuation', () => {
+    expect(normalizeLabel('Node.js')).toBe('nodejs');
+    expect(normalizeLabel('Café Society')).toBe('cafesociety');
+    expect(normalizeLabel("O'Reilly  Media")).toBe('oreillymedia');
+    expect(normalizeLabel('machine_learning')).toBe(normalizeLabel('Machine-Learning'));
+  });
+
+  it('falls back to the lowercased label when nothing is left', () => {
+    expect(normalizeLabel(' ... ')).toBe('...');
+  });
+});
+
+describe('resolutionKey', () => {
+  it('maps unambiguous aliases onto their canonical name', () => {
+    expect(resolutionKey('Postgres')).toBe(resolutionKey('PostgreSQL'));
+    expect(resolutionKey('k8s')).toBe('kubernetes');
+    expect(resolutionKey('ReactJS')).toBe('react');
+  });
+
+  it('leaves ambiguous short aliases alone', () => {
+    expect(resolutionKey('US')).toBe('us');
+    expect(resolutionKey('AI')).toBe('ai');
+  });
+});
+
+describe('mergeNodes', () => {
+  beforeEach(() => {
+    db.committed = [];
+    db.nodes = [
+      node('keep', 'PostgreSQL', { aliases: JSON.stringify(['PG']) }),
+      node('dup', 'Postgres', { metadata: JSON.stringify({ homepage: 'postgresql.org' }) }),
+      node('ext', 'pgvector'),
+      node('db', 'Database'),
+    ];
+    db.edges = [
+      edge('e1', 'keep', 'db', 'is_a', ['d1']),
+      edge('e2', 'dup', 'db', 'is_a', ['d2']),
+      edge('e3', 'ext', 'dup', 'extends', ['d3']),
+      edge('e4', 'keep', 'dup', 'related_to', ['d4']),
+      edge('e5', 'db', 'dup', 'co_occurs', ['d5']),
+    ];
+  });
+
+  it('moves the duplicate\'s edges onto the kept node and combines their evidence', async () => {
+    const result = await mergeNodes('u1', 'keep', ['dup']);
+
+    expect(result).toEqual({ id: 'keep', label: 'PostgreSQL', aliases: ['PG', 'Postgres'], merged: 1, edges: 3 });
+    expect(committed('knowledgeEdge', 'deleteMany')).toEqual([
+      { where: { userId: 'u1', OR: [{ sourceId: { in: ['dup'] } }, { targetId: { in: ['dup'] } }] } },
+    ]);
+    // The kept node's own edge absorbs the duplicate one
+    expect(committed('knowledgeEdge', 'update')).toEqual([
+      { where: { id: 'e1' }, data: { evidence: JSON.stringify(['d1', 'd2']), weight: 2 } },
+    ]);
+    // Incoming edges follow the merge; the self-loop between the two is dropped
+    expect(committed('knowledgeEdge', 'create').map((c) => c.data)).toEqual([
+      { userId: 'u1', sourceId: 'ext', targetId: 'keep', relation: 'extends', weight: 1, evidence: JSON.stringify(['d3']) },
+      { userId: 'u1', sourceId: 'db', targetId: 'keep', relation: 'co_occurs', weight: 1, evidence: JSON.stringify(['d5']) },
+    ]);
+  });
+
+  it('keeps the duplicate\'s label, sources and metadata on the merged node', async () => {
+    await mergeNodes('u1', 'keep', ['dup']);
+
+    expect(committed('knowledgeNode', 'update')).toEqual([
+      {
+        where: { id: 'keep' },
+        data: {
+          key: 'postgresql',
+          aliases: JSON.stringify(['PG', 'Postgres']),
+          strength: 1.5,
+          sources: JSON.stringify(['doc-keep', 'doc-dup']),
+          metadata: JSON.stringify({ homepage: 'postgresql.org' }),
+        },
+      },
+    ]);
+    expect(committed('knowledgeNode', 'deleteMany')).toEqual([{ where: { userId: 'u1', id: { in: ['dup'] } } }]);
+  });
+
+  it('does nothing without a node to merge', async () => {
+    expect(await mergeNodes('u1', 'keep', ['keep', 'missing'])).toBeNull();
+    expect(db.committed).toEqual([]);
+  });
+});
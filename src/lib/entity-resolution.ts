@@ -0,0 +1,449 @@
+/**
+ * Entity Resolution
+ *
+ * Keeps one knowledge-graph node per real-world entity. New entity names are
+ * resolved through `findEntityNode` (normalized label, unambiguous known
+ * aliases, labels of merged nodes), so "PostgreSQL", "postgresql" and
+ * "Postgres" land on the same node. `proposeMerges` finds the duplicates
+ * already in a graph and stores them as NodeMergeSuggestions for review in
+ * Studio:
+ *
+ *   normalized  labels equal after case, accent, space and punctuation folding
+ *   alias       a known alias ("k8s" / "Kubernetes"), an acronym of the other
+ *               label, or a label the other node absorbed in an earlier merge
+ *   embedding   label embeddings above ENTITY_MERGE_THRESHOLD (optionally
+ *               confirmed by the chat model)
+ *
+ * `mergeNodes` folds duplicates into one node: edges are rewired, labels
+ * become aliases, strength and sources are combined.
+ */
+
+import prisma from './prisma';
+import { embedTexts, HASH_EMBEDDING_MODEL } from './embeddings';
+import { moveEdges, parseEvidence, strengthFor } from './graph';
+import { cosineSimilarity } from './utils';
+import type { ChatProvider } from './llm';
+
+export type MergeReason = 'normalized' | 'alias' | 'embedding';
+
+export interface MergeCandidateNode {
+  id: string;
+  label: string;
+  type: string;
+  strength: number;
+  aliases: string[];
+  edgeCount: number;
+}
+
+export interface MergeSuggestionView {
+  id: string;
+  reason: MergeReason;
+  score: number;
+  confirmed: boolean;
+  node: MergeCandidateNode;
+  duplicate: MergeCandidateNode;
+}
+
+export interface ResolutionReport {
+  proposed: number;
+  pending: number;
+}
+
+const SIMILARITY_THRESHOLD = Number(process.env.ENTITY_MERGE_THRESHOLD) || 0.92;
+// Label embeddings are compared pairwise; the strongest nodes are the ones worth merging
+const MAX_EMBEDDED_NODES = 500;
+const CONFIRM_BATCH_SIZE = 20;
+
+// Common alternative names, canonical name first. "Go" or "Node" alone could as
+// well be the game or a graph node, so they are left out; the short ones in
+// AMBIGUOUS_ALIASES are only ever suggested for review
+const KNOWN_ALIASES: string[][] = [
+  ['PostgreSQL', 'Postgres'],
+  ['JavaScript', 'JS', 'ECMAScript'],
+  ['TypeScript', 'TS'],
+  ['Kubernetes', 'k8s'],
+  ['Node.js', 'NodeJS'],
+  ['React', 'React.js', 'ReactJS'],
+  ['Vue', 'Vue.js'],
+  ['Next.js', 'NextJS'],
+  ['MongoDB', 'Mongo'],
+  ['Artificial Intelligence', 'AI'],
+  ['Machine Learning', 'ML'],
+  ['Large Language Model', 'LLM', 'Large Language Models', 'LLMs'],
+  ['Natural Language Processing', 'NLP'],
+  ['Amazon Web Services', 'AWS'],
+  ['Google Cloud Platform', 'GCP', 'Google Cloud'],
+  ['Microsoft Azure', 'Azure'],
+  ['United States', 'USA', 'US', 'United States of America'],
+  ['United Kingdom', 'UK', 'Great Britain'],
+  ['European Union', 'EU'],
+];
+
+/** "Node.js" → "nodejs", "Café Society" → "cafesociety" */
+export function normalizeLabel(label: string): string {
+  const folded = label
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\s._\-'’"`]+/g, '');
+  return (folded || label.trim().toLowerCase()).slice(0, 191);
+}
+
+// Two-letter aliases that also read as other things ("us" the pronoun, "TS" a
+// timestamp, "ML" millilitres): they become merge suggestions, never an
+// automatic match when a document is processed
+const AMBIGUOUS_ALIASES = new Set(['US', 'UK', 'EU', 'AI', 'ML', 'TS', 'JS'].map(normalizeLabel));
+
+// Every known alias, for suggestions; the unambiguous ones, for resolving at ingest
+const CANONICAL_KEYS = new Map<string, string>();
+const RESOLVED_KEYS = new Map<string, string>();
+for (const names of KNOWN_ALIASES) {
+  const canonical = normalizeLabel(names[0]);
+  for (const name of names) {
+    const key = normalizeLabel(name);
+    CANONICAL_KEYS.set(key, canonical);
+    if (!AMBIGUOUS_ALIASES.has(key)) RESOLVED_KEYS.set(key, canonical);
+  }
+}
+
+function canonicalKey(key: string): string {
+  return CANONICAL_KEYS.get(key) || key;
+}
+
+export function parseAliases(aliases: string | null): string[] {
+  try {
+    const list = JSON.parse(aliases || '[]');
+    return Array.isArray(list) ? list.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** "Large Language Model" → "llm"; null for single words */
+function acronym(label: string): string | null {
+  const words = label.split(/[\s\-_]+/).filter((w) => /^[A-Za-z]/.test(w));
+  return words.length >= 2 ? words.map((w) => w[0].toLowerCase()).join('') : null;
+}
+
+// ─── Lookup ────────────────────────────────────────────────
+
+/** Normalized label with unambiguous known aliases folded onto their canonical name */
+export function resolutionKey(name: string): string {
+  const key = normalizeLabel(name);
+  return RESOLVED_KEYS.get(key) || key;
+}
+
+/**
+ * The existing nodes entity names refer to, keyed by name: same normalized
+ * label or a known alias of it, else a node that absorbed the name in a
+ * merge. Document nodes are never matched. Two queries for any number of
+ * names.
+ */
+export async function findEntityNodes(userId: string, names: string[]) {
+  const unique = Array.from(new Set(names));
+  const keysFor = new Map(
+    unique.map((name) => {
+      const canonical = resolutionKey(name);
+      const aliases = Array.from(RESOLVED_KEYS.keys()).filter((k) => RESOLVED_KEYS.get(k) === canonical);
+      return [name, new Set([normalizeLabel(name), canonical, ...aliases])];
+    })
+  );
+  const allKeys = Array.from(new Set(Array.from(keysFor.values()).flatMap((keys) => Array.from(keys))));
+
+  const nodes = await prisma.knowledgeNode.findMany({
+    where: { userId, type: { not: 'document' }, OR: [{ key: { in: allKeys } }, { label: { in: unique } }] },
+    orderBy: { strength: 'desc' },
+  });
+  const found = new Map<string, (typeof nodes)[number]>();
+  for (const name of unique) {
+    const keys = keysFor.get(name)!;
+    const node = nodes.find((n) => (n.key && keys.has(n.key)) || n.label.toLowerCase() === name.toLowerCase());
+    if (node) found.set(name, node);
+  }
+
+  const unresolved = unique.filter((name) => !found.has(name));
+  if (unresolved.length > 0) {
+    const merged = await prisma.knowledgeNode.findMany({
+      where: { userId, type: { not: 'document' }, OR: unresolved.map((name) => ({ aliases: { contains: JSON.stringify(name) } })) },
+    });
+    for (const name of unresolved) {
+      const node = merged.find((n) => parseAliases(n.aliases).some((alias) => alias.toLowerCase() === name.toLowerCase()));
+      if (node) found.set(name, node);
+    }
+  }
+  return found;
+}
+
+export async function findEntityNode(userId: string, name: string) {
+  return (await findEntityNodes(userId, [name])).get(name) ?? null;
+}
+
+// ─── Suggestions ───────────────────────────────────────────
+
+interface ResolutionNode {
+  id: string;
+  label: string;
+  key: string;
+  aliases: string[];
+  strength: number;
+}
+
+interface Candidate {
+  node: ResolutionNode;
+  duplicate: ResolutionNode;
+  reason: MergeReason;
+  score: number;
+  confirmed: boolean;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Ask the chat model which pairs name the same thing; null when it gives no usable answer
+async function confirmPairs(pairs: Candidate[], provider: ChatProvider): Promise<boolean[] | null> {
+  const answers: boolean[] = [];
+  for (let i = 0; i < pairs.length; i += CONFIRM_BATCH_SIZE) {
+    const batch = pairs.slice(i, i + CONFIRM_BATCH_SIZE);
+    try {
+      const response = await provider.chat({
+        messages: [
+          {
+            role: 'system',
+            content: `For each numbered pair of names from a personal knowledge graph, decide whether both names refer to the same real-world entity or concept (spelling variants, abbreviations, singular/plural). Related but different things are not the same.
+Return ONLY a JSON array of booleans, one per pair, in order. No explanations.`,
+          },
+          { role: 'user', content: batch.map((c, j) => `${j + 1}. "${c.node.label}" / "${c.duplicate.label}"`).join('\n') },
+        ],
+        maxTokens: 256,
+        temperature: 0,
+      });
+      const parsed = JSON.parse(response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+      if (!Array.isArray(parsed) || parsed.length !== batch.length) return null;
+      answers.push(...parsed.map((answer) => answer === true || answer === 'true'));
+    } catch (err: any) {
+      console.error('[Resolution] Merge confirmation failed:', err?.message || err);
+      return null;
+    }
+  }
+  return answers;
+}
+
+/**
+ * Look for duplicate entity nodes and store new merge suggestions. Pairs
+ * already suggested (or rejected) are not proposed again. `embed` allows
+ * label embeddings; with a `provider`, embedding matches the chat model
+ * rejects are dropped and the rest marked confirmed.
+ */
+export async function proposeMerges(
+  userId: string,
+  options: { embed: boolean; provider: ChatProvider | null }
+): Promise<ResolutionReport> {
+  const rows = await prisma.knowledgeNode.findMany({
+    where: { userId, type: { not: 'document' } },
+    select: { id: true, label: true, key: true, aliases: true, strength: true },
+    orderBy: { strength: 'desc' },
+  });
+
+  // Nodes from before resolution have no key yet
+  const stale = rows.filter((row) => row.key !== normalizeLabel(row.label));
+  if (stale.length > 0) {
+    await prisma.$transaction(
+      stale.map((row) => prisma.knowledgeNode.update({ where: { id: row.id }, data: { key: normalizeLabel(row.label) } }))
+    );
+  }
+
+  const nodes: ResolutionNode[] = rows.map((row) => ({
+    id: row.id,
+    label: row.label,
+    key: normalizeLabel(row.label),
+    aliases: parseAliases(row.aliases),
+    strength: row.strength,
+  }));
+  const order = new Map(nodes.map((node, i) => [node.id, i]));
+
+  const candidates = new Map<string, Candidate>();
+  const propose = (a: ResolutionNode, b: ResolutionNode, reason: MergeReason, score: number) => {
+    if (a.id === b.id || candidates.has(pairKey(a.id, b.id))) return;
+    // The stronger node (listed first) is the one to keep
+    const [node, duplicate] = order.get(a.id)! <= order.get(b.id)! ? [a, b] : [b, a];
+    candidates.set(pairKey(a.id, b.id), { node, duplicate, reason, score, confirmed: false });
+  };
+
+  // Same normalized label
+  const byKey = new Map<string, ResolutionNode[]>();
+  for (const node of nodes) byKey.set(node.key, [...(byKey.get(node.key) || []), node]);
+  for (const group of Array.from(byKey.values())) {
+    for (const node of group.slice(1)) propose(group[0], node, 'normalized', 1);
+  }
+
+  // Known aliases (ambiguous ones included), names absorbed in earlier merges, acronyms
+  const byCanonical = new Map<string, ResolutionNode[]>();
+  for (const node of nodes) {
+    const canonical = canonicalKey(node.key);
+    byCanonical.set(canonical, [...(byCanonical.get(canonical) || []), node]);
+  }
+  for (const group of Array.from(byCanonical.values())) {
+    for (const node of group.slice(1)) propose(group[0], node, 'alias', 0.95);
+  }
+  for (const node of nodes) {
+    for (const alias of node.aliases) {
+      for (const other of byKey.get(normalizeLabel(alias)) || []) propose(node, other, 'alias', 1);
+    }
+    const short = acronym(node.label);
+    if (!short) continue;
+    for (const other of byKey.get(short) || []) {
+      // Only an upper-case label reads as an abbreviation ("LLM", not "llm" the word)
+      if (/^[A-Z0-9]{2,8}s?$/.test(other.label)) propose(node, other, 'alias', 0.85);
+    }
+  }
+
+  // Embedding similarity between labels
+  if (options.embed && nodes.length > 1) {
+    const embedded = nodes.slice(0, MAX_EMBEDDED_NODES);
+    const result = await embedTexts(embedded.map((node) => node.label), 'query');
+    if (result && result.model !== HASH_EMBEDDING_MODEL) {
+      const found: Candidate[] = [];
+      for (let i = 0; i < embedded.length; i++) {
+        for (let j = i + 1; j < embedded.length; j++) {
+          if (candidates.has(pairKey(embedded[i].id, embedded[j].id))) continue;
+          const score = cosineSimilarity(result.vectors[i], result.vectors[j]);
+          if (score >= SIMILARITY_THRESHOLD) {
+            found.push({ node: embedded[i], duplicate: embedded[j], reason: 'embedding', score, confirmed: false });
+          }
+        }
+      }
+
+      const answers = options.provider && found.length > 0 ? await confirmPairs(found, options.provider) : null;
+      found.forEach((candidate, i) => {
+        if (answers && !answers[i]) return;
+        candidates.set(pairKey(candidate.node.id, candidate.duplicate.id), { ...candidate, confirmed: Boolean(answers) });
+      });
+    }
+  }
+
+  // Never propose a pair twice, whichever way round or however it was answered
+  const existing = await prisma.nodeMergeSuggestion.findMany({
+    where: { userId },
+    select: { nodeId: true, duplicateId: true },
+  });
+  const seen = new Set(existing.map((s) => pairKey(s.nodeId, s.duplicateId)));
+  const fresh = Array.from(candidates.entries())
+    .filter(([key]) => !seen.has(key))
+    .map(([, candidate]) => candidate);
+
+  if (fresh.length > 0) {
+    await prisma.nodeMergeSuggestion.createMany({
+      data: fresh.map((c) => ({
+        userId,
+        nodeId: c.node.id,
+        duplicateId: c.duplicate.id,
+        reason: c.reason,
+        score: Math.round(c.score * 1000) / 1000,
+        confirmed: c.confirmed,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  const pending = await prisma.nodeMergeSuggestion.count({ where: { userId, status: 'pending' } });
+  console.log(`[Resolution] ${nodes.length} nodes checked: ${fresh.length} new merge suggestions, ${pending} pending`);
+  return { proposed: fresh.length, pending };
+}
+
+export async function listMergeSuggestions(userId: string): Promise<MergeSuggestionView[]> {
+  const nodeSelect = {
+    select: {
+      id: true,
+      label: true,
+      type: true,
+      strength: true,
+      aliases: true,
+      _count: { select: { outgoing: true, incoming: true } },
+    },
+  };
+  const suggestions = await prisma.nodeMergeSuggestion.findMany({
+    where: { userId, status: 'pending' },
+    include: { node: nodeSelect, duplicate: nodeSelect },
+    orderBy: [{ score: 'desc' }, { createdAt: 'asc' }],
+    take: 200,
+  });
+
+  const view = (node: (typeof suggestions)[number]['node']): MergeCandidateNode => ({
+    id: node.id,
+    label: node.label,
+    type: node.type,
+    strength: node.strength,
+    aliases: parseAliases(node.aliases),
+    edgeCount: node._count.outgoing + node._count.incoming,
+  });
+
+  return suggestions.map((s) => ({
+    id: s.id,
+    reason: s.reason as MergeReason,
+    score: s.score,
+    confirmed: s.confirmed,
+    node: view(s.node),
+    duplicate: view(s.duplicate),
+  }));
+}
+
+// ─── Merging ───────────────────────────────────────────────
+
+/**
+ * Merge `mergeIds` into `keepId`: their edges move to the kept node, their
+ * labels and aliases become its aliases, and they are deleted (with any
+ * suggestions involving them). Returns null when the kept node or all of
+ * the others do not belong to the user.
+ */
+export async function mergeNodes(
+  userId: string,
+  keepId: string,
+  mergeIds: string[]
+): Promise<{ id: string; label: string; aliases: string[]; merged: number; edges: number } | null> {
+  const ids = Array.from(new Set(mergeIds)).filter((id) => id !== keepId);
+  const nodes = await prisma.knowledgeNode.findMany({ where: { userId, id: { in: [keepId, ...ids] } } });
+  const keep = nodes.find((n) => n.id === keepId);
+  const merged = nodes.filter((n) => n.id !== keepId);
+  if (!keep || merged.length === 0) return null;
+
+  const moves = await moveEdges(userId, merged.map((n) => n.id), keep.id);
+
+  const aliases = new Map<string, string>();
+  for (const alias of [...parseAliases(keep.aliases), ...merged.flatMap((n) => [n.label, ...parseAliases(n.aliases)])]) {
+    if (alias.toLowerCase() !== keep.label.toLowerCase() && !aliases.has(alias.toLowerCase())) aliases.set(alias.toLowerCase(), alias);
+  }
+
+  // Keep the kept node's values where both have one (e.g. a person's email)
+  const metadata = [...merged, keep].reduce<Record<string, unknown>>((acc, node) => {
+    try {
+      return { ...acc, ...JSON.parse(node.metadata || '{}') };
+    } catch {
+      return acc;
+    }
+  }, {});
+
+  // Strength follows the combined provenance; legacy nodes have none to count
+  const legacy = [keep, ...merged].some((n) => n.sources === null);
+  const sources = Array.from(new Set([keep, ...merged].flatMap((n) => parseEvidence(n.sources))));
+
+  // All or nothing: a failure half-way would leave edges pointing at deleted nodes
+  await prisma.$transaction([
+    ...moves.operations,
+    prisma.knowledgeNode.update({
+      where: { id: keep.id },
+      data: {
+        key: normalizeLabel(keep.label),
+        aliases: JSON.stringify(Array.from(aliases.values())),
+        strength: legacy
+          ? Math.min(keep.strength + merged.reduce((sum, n) => sum + n.strength, 0), 10)
+          : strengthFor(sources.length),
+        sources: keep.sources === null && merged.every((n) => n.sources === null) ? null : JSON.stringify(sources),
+        metadata: Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : keep.metadata,
+      },
+    }),
+    prisma.knowledgeNode.deleteMany({ where: { userId, id: { in: merged.map((n) => n.id) } } }),
+  ]);
+
+  const edges = moves.count;
+  console.log(`[Resolution] Merged ${merged.map((n) => `"${n.label}"`).join(', ')} into "${keep.label}" (${edges} edges)`);
+  return { id: keep.id, label: keep.label, aliases: Array.from(aliases.values()), merged: merged.length, edges };
+}
@@ -0,0 +1,22 @@
+/**
+ * Built-in experts. To add an expert, create a module exporting an `Expert`
+ * and register it here — the orchestrator, router and prompt builder pick
+ * it up without further changes.
+ */
+
+import { registerExpert } from './registry';
+import { knowledgeExpert } from './knowledge';
+import { searchExpert } from './search';
+import { youtubeExpert } from './youtube';
+import { summarizeExpert } from './summarize';
+import { tableExpert } from './table';
+
+registerExpert(knowledgeExpert);
+registerExpert(summarizeExpert);
+registerExpert(tableExpert);
+registerExpert(searchExpert);
+registerExpert(youtubeExpert);
+
+export { registerExpert, getExperts, getRoutableExperts } from './registry';
+export type { Expert, ExpertInput, ExpertResult } from './registry';
+export { consensusSummarize } from './summarize';
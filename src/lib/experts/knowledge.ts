@@ -0,0 +1,76 @@
+/**
+ * Knowledge Expert — hybrid retrieval over the user's vault, optionally reranked.
+ * Always runs: the user's own documents ground every answer.
+ */
+
+import { searchVault, type RetrievedChunk } from '../retrieval';
+import { rerank, isRerankingEnabled } from '../reranker';
+import { allowsExternalServices } from '../settings';
+import { formatTimestamp, pdfPageUrl, timestampUrl } from '../utils';
+import type { AgentSource } from '../agents';
+import type { Expert } from './registry';
+
+const MAX_CONTEXT_CHUNKS = 6;
+const RERANK_CANDIDATES = 20;
+
+export const knowledgeExpert: Expert = {
+  id: 'knowledge',
+  priority: 100,
+  timeoutMs: 20_000,
+
+  shouldRun: () => true,
+
+  async run({ query, userId, settings, provider }) {
+    const external = allowsExternalServices(settings);
+    const rerankOptions = { provider, model: settings.chatModel || undefined, localOnly: !external };
+    const reranking = isRerankingEnabled(rerankOptions);
+    let scoredChunks: (RetrievedChunk & { rerankScore?: number })[] = await searchVault(userId, query, {
+      limit: reranking ? RERANK_CANDIDATES : MAX_CONTEXT_CHUNKS,
+      localOnly: !external,
+    });
+    let reranker: string | undefined;
+
+    if (reranking) {
+      const reranked = await rerank(query, scoredChunks, (c) => `${c.title}\n${c.content}`, rerankOptions);
+      if (reranked) {
+        scoredChunks = reranked.results;
+        reranker = reranked.reranker;
+      }
+      scoredChunks = scoredChunks.slice(0, MAX_CONTEXT_CHUNKS);
+    }
+
+    if (scoredChunks.length === 0) return { context: '', sources: [] };
+
+    const context =
+      `## Your Knowledge Base (User's Documents):\n\n` +
+      scoredChunks
+        .map((c) => {
+          const page = c.pageNumber ? ` (p. ${c.pageNumber})` : '';
+          const at = c.startSeconds !== null ? ` (at ${formatTimestamp(c.startSeconds)})` : '';
+          return `### ${c.title}${page}${at}\n${c.content}`;
+        })
+        .join('\n\n');
+
+    // One source per document, even when several of its chunks were used
+    const seenDocs = new Set<string>();
+    const sources: AgentSource[] = [];
+    for (const c of scoredChunks) {
+      if (seenDocs.has(c.documentId)) continue;
+      seenDocs.add(c.documentId);
+      sources.push({
+        type: 'document',
+        title: c.title,
+        id: c.documentId,
+        ...(c.pageNumber
+          ? { page: c.pageNumber, ...(c.fileUrl ? { url: pdfPageUrl(c.fileUrl, c.pageNumber) } : {}) }
+          : {}),
+        ...(c.startSeconds !== null
+          ? { timestamp: c.startSeconds, ...(c.fileUrl ? { url: timestampUrl(c.fileUrl, c.startSeconds) } : {}) }
+          : {}),
+        ...(c.rerankScore !== undefined ? { relevance: Math.round(c.rerankScore * 100) / 100, reranker } : {}),
+      });
+    }
+
+    return { context, sources };
+  },
+};
@@ -0,0 +1,61 @@
+/**
+ * Expert Registry
+ *
+ * Experts are self-contained modules the orchestrator (runAgents) can fan a
+ * message out to. Each one decides whether it applies to a routed message,
+ * produces a prompt section plus sources, and declares its own timeout and
+ * priority. Priority orders the prompt sections and decides who keeps their
+ * context when the combined context exceeds the budget.
+ *
+ * Register new experts from ./index so they are available everywhere.
+ */
+
+import type { AgentSource } from '../agents';
+import type { RoutingDecision } from '../intent-router';
+import type { ChatProvider } from '../llm';
+import type { UserPreferences } from '../settings';
+
+export interface ExpertInput {
+  message: string;
+  /** The router's rewritten query for this expert, or the original message */
+  query: string;
+  userId: string;
+  routing: RoutingDecision;
+  settings: UserPreferences;
+  /** Chat provider allowed for this user (respects local-only privacy) */
+  provider: ChatProvider;
+}
+
+export interface ExpertResult {
+  /** Markdown section for the system prompt, including its own heading */
+  context: string;
+  sources: AgentSource[];
+}
+
+export interface Expert {
+  id: string;
+  /** Shown to the intent router; experts without one are never routed to by the LLM */
+  description?: string;
+  /** Higher runs earlier in the prompt and keeps its context first under the budget */
+  priority: number;
+  timeoutMs: number;
+  /** Sends the query to a third-party service; never runs in local-only privacy mode */
+  external?: boolean;
+  shouldRun(input: ExpertInput): boolean;
+  run(input: ExpertInput): Promise<ExpertResult>;
+}
+
+const experts = new Map<string, Expert>();
+
+/** Add an expert, replacing any registered expert with the same id */
+export function registerExpert(expert: Expert): void {
+  experts.set(expert.id, expert);
+}
+
+export function getExperts(): Expert[] {
+  return Array.from(experts.values()).sort((a, b) => b.priority - a.priority);
+}
+
+export function getRoutableExperts(): Expert[] {
+  return getExperts().filter((e) => e.description);
+}
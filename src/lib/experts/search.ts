@@ -0,0 +1,24 @@
+/**
+ * Search Expert — DuckDuckGo web search for facts outside the vault.
+ */
+
+import { webSearch, formatSearchResultsForContext } from '../search';
+import type { Expert } from './registry';
+
+export const searchExpert: Expert = {
+  id: 'search',
+  description: 'web search — current events, facts outside the user\'s documents, specific websites, prices, news',
+  priority: 60,
+  timeoutMs: 10_000,
+  external: true,
+
+  shouldRun: ({ routing }) => routing.experts.includes('search'),
+
+  async run({ query }) {
+    const results = await webSearch(query, 5);
+    return {
+      context: formatSearchResultsForContext(results),
+      sources: results.map((r) => ({ type: 'web', title: r.title, url: r.url })),
+    };
+  },
+};
@@ -0,0 +1,88 @@
+/**
+ * Summarize Expert — multi-model consensus summary (NVIDIA + HuggingFace BART)
+ * of the vault passages most relevant to the request.
+ */
+
+import { hfSummarize, isHuggingFaceConfigured } from '../huggingface';
+import { getChatProvider, type ChatProvider } from '../llm';
+import { generateSummary } from '../nvidia';
+import { searchVault } from '../retrieval';
+import { allowsExternalServices } from '../settings';
+import type { Expert } from './registry';
+
+const SUMMARY_CHUNKS = 12;
+const SUMMARY_INPUT_CHARS = 12_000;
+
+// ─── Multi-Model Consensus Summarizer ──────────────────────
+
+export async function consensusSummarize(
+  text: string,
+  options: { provider?: ChatProvider; external?: boolean } = {}
+): Promise<string> {
+  const { provider = getChatProvider(), external = true } = options;
+
+  // Run summarization on the primary chat model and HuggingFace BART in parallel
+  const [nvidiaSummary, hfSummaryResult] = await Promise.allSettled([
+    generateSummary(text, provider),
+    external && isHuggingFaceConfigured() ? hfSummarize(text) : Promise.resolve(''),
+  ]);
+
+  const summary1 =
+    nvidiaSummary.status === 'fulfilled' ? nvidiaSummary.value : '';
+  const summary2 =
+    hfSummaryResult.status === 'fulfilled' ? hfSummaryResult.value : '';
+
+  // If only one model produced results, use that
+  if (!summary1 && summary2) return summary2;
+  if (summary1 && !summary2) return summary1;
+  if (!summary1 && !summary2) return '';
+
+  // Both models produced summaries — merge with consensus
+  try {
+    const mergedSummary = await provider.chat({
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You are a fact-checker. Given two independent AI summaries of the same text, produce a single accurate summary. Keep ONLY facts that BOTH summaries agree on. If they contradict each other, state only what is certain. Be concise (2-3 sentences).',
+        },
+        {
+          role: 'user',
+          content: `Summary from Model A:\n${summary1}\n\nSummary from Model B:\n${summary2}\n\nProduce a merged, fact-checked summary:`,
+        },
+      ],
+      maxTokens: 300,
+      temperature: 0.1,
+    });
+    return mergedSummary;
+  } catch {
+    return summary1; // Fallback to the primary model's summary
+  }
+}
+
+// ─── Expert ────────────────────────────────────────────────
+
+export const summarizeExpert: Expert = {
+  id: 'summarize',
+  description: 'the user asks for a summary, overview, recap or key points',
+  priority: 80,
+  timeoutMs: 25_000,
+
+  shouldRun: ({ routing }) => routing.experts.includes('summarize'),
+
+  async run({ query, userId, settings, provider }) {
+    const external = allowsExternalServices(settings);
+    const chunks = await searchVault(userId, query, { limit: SUMMARY_CHUNKS, localOnly: !external });
+    if (chunks.length === 0) return { context: '', sources: [] };
+
+    const text = chunks.map((c) => `${c.title}: ${c.content}`).join('\n\n').slice(0, SUMMARY_INPUT_CHARS);
+    const summary = await consensusSummarize(text, { provider, external });
+    if (!summary) return { context: '', sources: [] };
+
+    const titles = Array.from(new Map(chunks.map((c) => [c.documentId, c.title])).entries());
+    return {
+      context: `## Consensus Summary of Relevant Documents:\n\n${summary}`,
+      sources: titles.map(([id, title]) => ({ type: 'document', title, id })),
+    };
+  },
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { tableExpert } from './table';
+import { createMockChatProvider, type ChatOptions, type ChatProvider } from '../llm';
+import { DEFAULT_SETTINGS } from '../settings';
+import { parseCsv } from '../spreadsheets';
+
+const expenses = parseCsv('Category,Amount\nRent,1200\nGroceries,42.5\nGroceries,38.1\n', 'expenses.csv')!;
+const table = { id: 'tbl1', documentId: 'doc1', documentTitle: 'Expenses 2024', name: 'expenses.csv', columns: expenses.columns, rowCount: 3 };
+
+vi.mock('../prisma', () => ({ default: {} }));
+vi.mock('../table-query', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../table-query')>()),
+  listUserTables: async () => [table],
+  loadTable: async () => ({ ...table, rows: expenses.rows }),
+}));
+
+function planner(plan: object): ChatProvider & { requests: ChatOptions[] } {
+  const requests: ChatOptions[] = [];
+  return {
+    ...createMockChatProvider(),
+    requests,
+    async chat(options) {
+      requests.push(options);
+      return JSON.stringify(plan);
+    },
+  };
+}
+
+const input = (provider: ChatProvider, chatModel: string | null = null) => ({
+  message: 'How much did I spend on groceries?',
+  query: 'total groceries spend',
+  userId: 'u1',
+  routing: { experts: ['knowledge' as const, 'table' as const], queries: {}, confidence: 1, method: 'rules' as const },
+  settings: { ...DEFAULT_SETTINGS, chatModel },
+  provider,
+});
+
+describe('tableExpert', () => {
+  it('computes the planned query over every row', async () => {
+    const provider = planner({
+      table: 't1',
+      filters: [{ column: 'Category', op: 'eq', value: 'Groceries' }],
+      aggregates: [{ fn: 'sum', column: 'Amount' }],
+    });
+    const result = await tableExpert.run(input(provider));
+
+    expect(result.context).toContain('80.6');
+    expect(result.sources).toEqual([{ type: 'document', title: 'Expenses 2024', id: 'doc1' }]);
+  });
+
+  it('plans with the chat model from the user\'s settings', async () => {
+    const provider = planner({ table: 't1', aggregates: [{ fn: 'count' }] });
+
+    await tableExpert.run(input(provider, 'llama3.1:70b'));
+    await tableExpert.run(input(provider));
+
+    expect(provider.requests.map((r) => r.model)).toEqual(['llama3.1:70b', undefined]);
+  });
+});
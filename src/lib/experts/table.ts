@@ -0,0 +1,85 @@
+/**
+ * Table Expert — answers aggregate questions ("total spend in Q3") over the
+ * user's spreadsheets. The chat model picks a table and writes a query plan;
+ * the sums, averages and counts are computed over every row in table-query.
+ */
+
+import {
+  describeTable,
+  formatQueryResult,
+  listUserTables,
+  loadTable,
+  parseTableQuery,
+  runTableQuery,
+} from '../table-query';
+import type { Expert } from './registry';
+
+const CANDIDATE_TABLES = 8;
+
+function plannerPrompt(schemas: string): string {
+  return `You turn questions about spreadsheets into query plans. Available tables:
+
+${schemas}
+
+Pick the table that can answer the question and return ONLY JSON:
+{"table": "t1", "filters": [{"column": "...", "op": "eq|neq|gt|gte|lt|lte|contains|between", "value": "...", "to": "..."}], "groupBy": {"column": "...", "bucket": "month|quarter|year"} or null, "aggregates": [{"fn": "sum|avg|min|max|count", "column": "..."}], "sort": "asc|desc", "limit": 10}
+
+- Use exact column names from the schema
+- Dates are ISO strings: filter a quarter with "between" "2024-07-01" and "2024-09-30"; a prefix like "2024-07" matches a whole month
+- Every aggregate except "count" needs a column
+- Leave "aggregates" empty to list matching rows
+- If no table can answer the question, return {"table": null}`;
+}
+
+export const tableExpert: Expert = {
+  id: 'table',
+  description:
+    'calculations over the user\'s spreadsheets (CSV/Excel) — totals, averages, counts, min/max, breakdowns by category or period, e.g. "total spend in Q3"',
+  priority: 90,
+  timeoutMs: 25_000,
+
+  shouldRun: ({ routing }) => routing.experts.includes('table'),
+
+  async run({ query, userId, provider, settings }) {
+    const tables = await listUserTables(userId, query, CANDIDATE_TABLES);
+    if (tables.length === 0) return { context: '', sources: [] };
+
+    const response = await provider.chat({
+      messages: [
+        { role: 'system', content: plannerPrompt(tables.map((t, i) => describeTable(t, `t${i + 1}`)).join('\n\n')) },
+        { role: 'user', content: query },
+      ],
+      model: settings.chatModel || undefined,
+      maxTokens: 400,
+      temperature: 0,
+    });
+
+    let plan: any;
+    try {
+      plan = JSON.parse(response.match(/\{[\s\S]*\}/)?.[0] || '');
+    } catch {
+      console.error('[TableExpert] Unparseable query plan:', response.slice(0, 200));
+      return { context: '', sources: [] };
+    }
+    const table = tables[Number(String(plan?.table || '').replace(/^t/, '')) - 1];
+    const tableQuery = parseTableQuery(plan);
+    if (!table || !tableQuery) return { context: '', sources: [] };
+
+    const stored = await loadTable(userId, table.id);
+    if (!stored) return { context: '', sources: [] };
+
+    let computed: string;
+    try {
+      computed = formatQueryResult(table, runTableQuery(stored.columns, stored.rows, tableQuery));
+    } catch (err: any) {
+      // A plan naming a column that doesn't exist; tell the model rather than guess
+      console.error('[TableExpert] Query failed:', err?.message || err);
+      computed = `Could not compute over "${table.documentTitle}" › ${table.name}: ${err?.message || 'query failed'}`;
+    }
+
+    return {
+      context: `## Spreadsheet Calculation (computed over all rows — use these figures as given):\n\n${computed}`,
+      sources: [{ type: 'document', title: table.documentTitle, id: table.documentId }],
+    };
+  },
+};
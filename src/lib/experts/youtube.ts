@@ -0,0 +1,28 @@
+/**
+ * YouTube Expert — finds videos, tutorials and lectures via DuckDuckGo.
+ */
+
+import { youtubeSearch, formatYouTubeResultsForContext } from '../search';
+import type { Expert } from './registry';
+
+export const youtubeExpert: Expert = {
+  id: 'youtube',
+  description: 'video search — only when the user wants videos, tutorials to watch, lectures or courses',
+  priority: 40,
+  timeoutMs: 10_000,
+  external: true,
+
+  shouldRun: ({ routing }) => routing.experts.includes('youtube'),
+
+  async run({ query }) {
+    // Strip "youtube" from query to get better search results
+    const cleanQuery = query
+      .replace(/\b(youtube|video|find|show|me|a)\b/gi, '')
+      .trim();
+    const results = await youtubeSearch(cleanQuery || query, 5);
+    return {
+      context: formatYouTubeResultsForContext(results),
+      sources: results.map((r) => ({ type: 'youtube', title: r.title, url: r.url })),
+    };
+  },
+};
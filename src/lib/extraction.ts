@@ -0,0 +1,54 @@
+/**
+ * Text Extraction
+ *
+ * Turns an uploaded file into plain text for enrichment and retrieval. The
+ * format-specific work lives in ./parsers (PDF, Office, OpenDocument, EPUB,
+ * RTF, HTML, spreadsheets, images, audio/video); this module picks the parser
+ * for a file and falls back to reading it as UTF-8 text. Used by the ingest
+ * job worker.
+ */
+
+import { findParser, type ExtractedText } from './parsers';
+
+export type { ExtractedText } from './parsers';
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'json', 'xml', 'css', 'js', 'ts', 'py'];
+
+export function getFileExtension(filename: string): string {
+  return filename.split('.').pop()?.toLowerCase() || '';
+}
+
+/** Plain text stored as-is, without a parser (a parser wins even for text/* types such as CSV or HTML) */
+export function isTextFile(filename: string, mimeType: string): boolean {
+  const ext = getFileExtension(filename);
+  if (findParser(ext, mimeType)) return false;
+  return TEXT_EXTENSIONS.includes(ext) || mimeType.startsWith('text/');
+}
+
+/**
+ * `external` is false in local-only privacy mode, which keeps OCR on the
+ * local Tesseract engine and skips the hosted transcription service.
+ */
+export async function extractTextFromFile(
+  filename: string,
+  buffer: Buffer,
+  mimeType: string,
+  options: { external: boolean }
+): Promise<ExtractedText> {
+  const extension = getFileExtension(filename);
+  const parser = findParser(extension, mimeType);
+  if (parser) {
+    return parser.parse({ filename, buffer, mimeType, extension, external: options.external });
+  }
+
+  // Unknown format: keep it if it reads as text, never store binary as content
+  const sample = buffer.subarray(0, 8192);
+  return { text: sample.includes(0) ? '' : buffer.toString('utf-8'), ocr: [] };
+}
+
+// ─── Fallbacks ─────────────────────────────────────────────
+
+/** Stored as the content of files nothing could be extracted from */
+export function filePlaceholder(filename: string, mimeType: string, size: number): string {
+  return `[File: ${filename}] (${mimeType || 'unknown type'}, ${(size / 1024).toFixed(1)} KB)`;
+}
@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_PATH_LENGTH, MAX_QUERY_DEPTH, neighborhood, shortestPath } from './graph-query';
+
+// A small in-memory graph behind the handful of where clauses graph-query uses
+const db = vi.hoisted(() => ({
+  nodes: [] as { id: string; label: string; type: string; strength: number; aliases: string | null }[],
+  edges: [] as { sourceId: string; targetId: string; relation: string; weight: number; evidence: string | null }[],
+  edgeQueries: 0,
+}));
+
+vi.mock('./prisma', () => {
+  const inList = (condition: any, value: string) => !condition || condition.in.includes(value);
+  return {
+    default: {
+      knowledgeNode: {
+        findMany: async ({ where, take }: any) =>
+          db.nodes
+            .filter((n) => inList(where.id, n.id) && inList(where.type, n.type))
+            .filter((n) => !where.strength || n.strength >= where.strength.gte)
+            .sort((a, b) => b.strength - a.strength)
+            .slice(0, take),
+      },
+      knowledgeEdge: {
+        findMany: async ({ where }: any) => {
+          db.edgeQueries++;
+          return db.edges
+            .filter((e) => inList(where.relation, e.relation))
+            .filter((e) =>
+              where.OR
+                ? where.OR[0].sourceId.in.includes(e.sourceId) || where.OR[1].targetId.in.includes(e.targetId)
+                : where.sourceId.in.includes(e.sourceId) && where.targetId.in.includes(e.targetId)
+            )
+            .sort((a, b) => b.weight - a.weight);
+        },
+      },
+      document: {
+        findMany: async ({ where }: any) =>
+          where.id.in.filter((id: string) => id !== 'deleted').map((id: string) => ({ id, title: `Doc ${id}` })),
+      },
+    },
+  };
+});
+vi.mock('./entity-resolution', () => ({
+  findEntityNode: async () => null,
+  parseAliases: (aliases: string | null) => JSON.parse(aliases || '[]'),
+}));
+
+const node = (id: string, type = 'concept', strength = 1) => ({ id, label: id.toUpperCase(), type, strength, aliases: null });
+const edge = (sourceId: string, targetId: string, weight = 1, relation = 'related_to', evidence = ['d1']) => ({
+  sourceId,
+  targetId,
+  relation,
+  weight,
+  evidence: JSON.stringify(evidence),
+});
+
+const ids = (result: { nodes: { id: string }[] }) => result.nodes.map((n) => n.id);
+
+// a - b - c - d - e - f - g - h, with a shortcut a - x - d through a person
+beforeEach(() => {
+  db.edgeQueries = 0;
+  db.nodes = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map((id) => node(id)).concat(node('x', 'person'));
+  db.edges = [
+    edge('a', 'b', 5),
+    edge('b', 'c'),
+    edge('c', 'd'),
+    edge('d', 'e'),
+    edge('e', 'f'),
+    edge('f', 'g'),
+    edge('g', 'h'),
+    edge('a', 'x', 2, 'mentions', ['d2', 'deleted']),
+    edge('x', 'd', 1, 'mentions'),
+  ];
+});
+
+describe('neighborhood', () => {
+  it('collects nodes hop by hop with the edges between them', async () => {
+    expect(ids(await neighborhood('u1', 'a', 1))).toEqual(['a', 'b', 'x']);
+
+    const result = await neighborhood('u1', 'a', 2);
+    expect(ids(result)).toEqual(['a', 'b', 'x', 'c', 'd']);
+    expect(result.links).toHaveLength(5);
+  });
+
+  it(`never goes deeper than ${MAX_QUERY_DEPTH} hops`, async () => {
+    const deep = await neighborhood('u1', 'a', 10);
+    expect(ids(deep)).toEqual(ids(await neighborhood('u1', 'a', MAX_QUERY_DEPTH)));
+    expect(ids(deep)).not.toContain('f');
+  });
+
+  it('stops at the node limit, keeping the strongest edges', async () => {
+    expect(ids(await neighborhood('u1', 'a', 3, {}, 2))).toEqual(['a', 'b']);
+  });
+
+  it('does not traverse through filtered-out nodes', async () => {
+    expect(ids(await neighborhood('u1', 'a', 2, { types: ['concept'] }))).toEqual(['a', 'b', 'c']);
+    expect(ids(await neighborhood('u1', 'a', 2, { relations: ['mentions'] }))).toEqual(['a', 'x', 'd']);
+  });
+});
+
+describe('shortestPath', () => {
+  it('finds the fewest hops and justifies each with its documents', async () => {
+    const result = await shortestPath('u1', 'a', 'e');
+    expect(result?.path).toEqual(['a', 'x', 'd', 'e']);
+    expect(result?.links.map((l) => [l.source, l.target])).toEqual([['a', 'x'], ['x', 'd'], ['d', 'e']]);
+    // Evidence pointing at a deleted document is dropped
+    expect(result?.links[0]).toMatchObject({ relation: 'mentions', directed: true, documents: [{ id: 'd2', title: 'Doc d2' }] });
+    expect(result?.links[2]).toMatchObject({ directed: false, documents: [{ id: 'd1', title: 'Doc d1' }] });
+  });
+
+  it('routes around nodes the filter excludes, but always allows the ends', async () => {
+    expect((await shortestPath('u1', 'a', 'e', { types: ['concept'] }))?.path).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect((await shortestPath('u1', 'a', 'x', { types: ['concept'] }))?.path).toEqual(['a', 'x']);
+  });
+
+  it('returns null when the nodes are further apart than the limit', async () => {
+    expect(await shortestPath('u1', 'a', 'f', {}, 3)).toBeNull();
+    expect(await shortestPath('u1', 'a', 'f', {}, 4)).not.toBeNull();
+  });
+
+  it(`never searches more than ${MAX_PATH_LENGTH} hops`, async () => {
+    db.edges = db.edges.filter((e) => e.sourceId !== 'x' && e.targetId !== 'x');
+    expect(await shortestPath('u1', 'a', 'h', {}, 20)).toBeNull();
+    expect(db.edgeQueries).toBe(MAX_PATH_LENGTH);
+  });
+
+  it('returns null for nodes that are not connected', async () => {
+    db.nodes.push(node('island'));
+    expect(await shortestPath('u1', 'a', 'island')).toBeNull();
+  });
+
+  it('is a single node from a node to itself', async () => {
+    expect(await shortestPath('u1', 'c', 'c')).toMatchObject({ path: ['c'], links: [] });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Knowledge Graph Queries
+ *
+ * Read-side questions asked of the graph, answered a hop at a time with
+ * one edge query per hop rather than by loading the whole graph:
+ *
+ *   neighborhood  the nodes within k hops of a node
+ *   shortestPath  the fewest hops between two nodes
+ *   subgraph      the nodes matching a filter and the edges between them
+ *
+ * All three take the same GraphFilter and return nodes and links in the
+ * shape of GET /api/brain/graph, with each link carrying the documents its
+ * evidence points to, so every hop can be justified.
+ */
+
+import prisma from './prisma';
+import { isSymmetricRelation, parseEvidence } from './graph';
+import { findEntityNode, parseAliases } from './entity-resolution';
+
+export interface GraphFilter {
+  types?: string[];
+  minStrength?: number;
+  /** Nodes first added to the graph in this range */
+  since?: Date;
+  until?: Date;
+  /** Only follow edges of these relations */
+  relations?: string[];
+}
+
+export interface QueryNode {
+  id: string;
+  label: string;
+  type: string;
+  strength: number;
+  aliases: string[];
+}
+
+export interface QueryLink {
+  source: string;
+  target: string;
+  relation: string;
+  weight: number;
+  directed: boolean;
+  /** The documents supporting the edge (the first few; weight is the full count) */
+  documents: { id: string; title: string }[];
+}
+
+export interface GraphQueryResult {
+  nodes: QueryNode[];
+  links: QueryLink[];
+}
+
+export interface GraphPath extends GraphQueryResult {
+  /** Node ids from start to end */
+  path: string[];
+}
+
+export const MAX_QUERY_DEPTH = 3;
+export const MAX_PATH_LENGTH = 6;
+export const MAX_QUERY_NODES = 500;
+const DOCUMENTS_PER_LINK = 10;
+
+type QueryEdge = { sourceId: string; targetId: string; relation: string; weight: number; evidence: string | null };
+
+// ─── Lookup ────────────────────────────────────────────────
+
+/** A node by id, else by name (resolved like entity names are), else a document node by title */
+export async function findNode(userId: string, ref: string) {
+  const byId = await prisma.knowledgeNode.findFirst({ where: { userId, id: ref } });
+  if (byId) return byId;
+  const entity = await findEntityNode(userId, ref);
+  if (entity) return entity;
+  return prisma.knowledgeNode.findFirst({ where: { userId, type: 'document', label: ref.slice(0, 180) } });
+}
+
+function nodeWhere(userId: string, filter: GraphFilter) {
+  return {
+    userId,
+    ...(filter.types && filter.types.length > 0 ? { type: { in: filter.types } } : {}),
+    ...(filter.minStrength !== undefined ? { strength: { gte: filter.minStrength } } : {}),
+    ...(filter.since || filter.until
+      ? { createdAt: { ...(filter.since ? { gte: filter.since } : {}), ...(filter.until ? { lte: filter.until } : {}) } }
+      : {}),
+  };
+}
+
+/** Which of `ids` pass the filter */
+async function allowedNodes(userId: string, ids: string[], filter: GraphFilter): Promise<Set<string>> {
+  if (ids.length === 0) return new Set();
+  const nodes = await prisma.knowledgeNode.findMany({
+    where: { ...nodeWhere(userId, filter), id: { in: ids } },
+    select: { id: true },
+  });
+  return new Set(nodes.map((n) => n.id));
+}
+
+/** Every edge touching `ids`, strongest first */
+function edgesAround(userId: string, ids: string[], filter: GraphFilter): Promise<QueryEdge[]> {
+  return prisma.knowledgeEdge.findMany({
+    where: {
+      userId,
+      ...(filter.relations && filter.relations.length > 0 ? { relation: { in: filter.relations } } : {}),
+      OR: [{ sourceId: { in: ids } }, { targetId: { in: ids } }],
+    },
+    select: { sourceId: true, targetId: true, relation: true, weight: true, evidence: true },
+    orderBy: { weight: 'desc' },
+  });
+}
+
+function edgesBetween(userId: string, ids: string[], filter: GraphFilter): Promise<QueryEdge[]> {
+  return prisma.knowledgeEdge.findMany({
+    where: {
+      userId,
+      ...(filter.relations && filter.relations.length > 0 ? { relation: { in: filter.relations } } : {}),
+      sourceId: { in: ids },
+      targetId: { in: ids },
+    },
+    select: { sourceId: true, targetId: true, relation: true, weight: true, evidence: true },
+    orderBy: { weight: 'desc' },
+  });
+}
+
+/** Nodes (in the order given) and links with their evidence documents looked up */
+async function toResult(userId: string, nodeIds: string[], edges: QueryEdge[]): Promise<GraphQueryResult> {
+  const nodes = await prisma.knowledgeNode.findMany({
+    where: { userId, id: { in: nodeIds } },
+    select: { id: true, label: true, type: true, strength: true, aliases: true },
+  });
+  const order = new Map(nodeIds.map((id, i) => [id, i]));
+  nodes.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+  const evidence = new Map(edges.map((e) => [e, parseEvidence(e.evidence).slice(0, DOCUMENTS_PER_LINK)]));
+  const documentIds = Array.from(new Set(Array.from(evidence.values()).flat()));
+  const documents =
+    documentIds.length > 0
+      ? await prisma.document.findMany({ where: { userId, id: { in: documentIds } }, select: { id: true, title: true } })
+      : [];
+  const titles = new Map(documents.map((d) => [d.id, d.title]));
+
+  return {
+    nodes: nodes.map((n) => ({ id: n.id, label: n.label, type: n.type, strength: n.strength, aliases: parseAliases(n.aliases) })),
+    links: edges.map((e) => ({
+      source: e.sourceId,
+      target: e.targetId,
+      relation: e.relation,
+      weight: e.weight,
+      directed: !isSymmetricRelation(e.relation),
+      // Documents deleted since are left out
+      documents: evidence
+        .get(e)!
+        .filter((id) => titles.has(id))
+        .map((id) => ({ id, title: titles.get(id)! })),
+    })),
+  };
+}
+
+// ─── Queries ───────────────────────────────────────────────
+
+/**
+ * The nodes within `depth` hops of a node that pass the filter (the node
+ * itself always does), strongest edges first until `limit` nodes, and the
+ * edges between them.
+ */
+export async function neighborhood(
+  userId: string,
+  nodeId: string,
+  depth = 1,
+  filter: GraphFilter = {},
+  limit = MAX_QUERY_NODES
+): Promise<GraphQueryResult> {
+  const visited = new Set([nodeId]);
+  let frontier = [nodeId];
+
+  for (let hop = 0; hop < Math.min(depth, MAX_QUERY_DEPTH) && frontier.length > 0 && visited.size < limit; hop++) {
+    // Insertion order keeps the strongest edges first
+    const found = new Set<string>();
+    for (const edge of await edgesAround(userId, frontier, filter)) {
+      for (const id of [edge.sourceId, edge.targetId]) {
+        if (!visited.has(id)) found.add(id);
+      }
+    }
+    const candidates = Array.from(found);
+    const allowed = await allowedNodes(userId, candidates, filter);
+
+    frontier = [];
+    for (const id of candidates) {
+      if (!allowed.has(id) || visited.size >= limit) continue;
+      visited.add(id);
+      frontier.push(id);
+    }
+  }
+
+  const ids = Array.from(visited);
+  return toResult(userId, ids, await edgesBetween(userId, ids, filter));
+}
+
+/**
+ * The fewest hops from one node to another through nodes that pass the
+ * filter (the two ends always do), following edges either way; each hop's
+ * links are every edge between its two nodes. Null when the nodes are not
+ * connected within `maxLength` hops.
+ */
+export async function shortestPath(
+  userId: string,
+  fromId: string,
+  toId: string,
+  filter: GraphFilter = {},
+  maxLength = MAX_PATH_LENGTH
+): Promise<GraphPath | null> {
+  if (fromId === toId) return { path: [fromId], ...(await toResult(userId, [fromId], [])) };
+
+  // Breadth-first, one edge query per hop; `previous` leads back to the start
+  const previous = new Map<string, string>([[fromId, fromId]]);
+  let frontier = [fromId];
+  for (let hop = 0; hop < Math.min(maxLength, MAX_PATH_LENGTH) && frontier.length > 0 && !previous.has(toId); hop++) {
+    const current = new Set(frontier);
+    const reached = new Map<string, string>();
+    for (const edge of await edgesAround(userId, frontier, filter)) {
+      for (const [from, to] of [[edge.sourceId, edge.targetId], [edge.targetId, edge.sourceId]]) {
+        if (current.has(from) && !previous.has(to) && !reached.has(to)) reached.set(to, from);
+      }
+    }
+    const allowed = await allowedNodes(userId, Array.from(reached.keys()), filter);
+
+    frontier = [];
+    for (const [id, from] of Array.from(reached.entries())) {
+      if (id !== toId && !allowed.has(id)) continue;
+      previous.set(id, from);
+      frontier.push(id);
+    }
+  }
+  if (!previous.has(toId)) return null;
+
+  const path = [toId];
+  while (path[0] !== fromId) path.unshift(previous.get(path[0])!);
+
+  const hops = new Set(path.slice(1).map((id, i) => [path[i], id].sort().join('|')));
+  const edges = (await edgesBetween(userId, path, filter)).filter((e) => hops.has([e.sourceId, e.targetId].sort().join('|')));
+  // Links in path order
+  const position = (e: QueryEdge) => Math.min(path.indexOf(e.sourceId), path.indexOf(e.targetId));
+  edges.sort((a, b) => position(a) - position(b) || b.weight - a.weight);
+
+  return { path, ...(await toResult(userId, path, edges)) };
+}
+
+/** The strongest `limit` nodes passing the filter and the edges between them */
+export async function subgraph(userId: string, filter: GraphFilter = {}, limit = MAX_QUERY_NODES): Promise<GraphQueryResult> {
+  const nodes = await prisma.knowledgeNode.findMany({
+    where: nodeWhere(userId, filter),
+    select: { id: true },
+    orderBy: { strength: 'desc' },
+    take: limit,
+  });
+  const ids = nodes.map((n) => n.id);
+  return toResult(userId, ids, ids.length > 0 ? await edgesBetween(userId, ids, filter) : []);
+}
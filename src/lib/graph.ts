@@ -0,0 +1,377 @@
+/**
+ * Knowledge Graph Edges
+ *
+ * Relationships between knowledge nodes are typed, weighted KnowledgeEdge
+ * rows. Relations extracted from a document ("Next.js" uses "React") are
+ * directed; the pipeline also adds structural ones of its own:
+ *
+ *   mentions        document → entity found in it
+ *   co_occurs       entity ↔ entity named in the same document
+ *   links_to        note → note it links to (vault imports)
+ *   participant_in  person → email thread they wrote or received
+ *
+ * Every edge keeps the ids of the documents that support it as evidence, and
+ * its weight is the number of them, so re-processing a document never
+ * inflates it. Nodes keep the same provenance in `sources`, which lets
+ * `removeDocumentFromGraph` undo a deleted document's contribution.
+ */
+
+import prisma from './prisma';
+
+// ─── Relation types ────────────────────────────────────────
+
+/** Relations the chat model may extract, with how to read them (source → target) */
+export const EXTRACTED_RELATIONS: Record<string, string> = {
+  uses: 'A uses, runs on or is built with B',
+  part_of: 'A is a part, component or member of B',
+  depends_on: 'A requires or depends on B',
+  causes: 'A causes, leads to or enables B',
+  supports: 'A supports, argues for or is evidence for B',
+  contradicts: 'A contradicts, argues against or is an alternative to B',
+  created_by: 'A was created, founded or written by B',
+  works_for: 'A (a person) works for or belongs to B',
+  located_in: 'A is located in B',
+  instance_of: 'A is an example or kind of B',
+  related_to: 'A is otherwise clearly related to B',
+};
+
+export function isExtractedRelation(relation: string): boolean {
+  return Object.prototype.hasOwnProperty.call(EXTRACTED_RELATIONS, relation);
+}
+
+/**
+ * Relations that come from the file or the import (note links, email
+ * headers) rather than from the text, so re-processing the text cannot
+ * recreate them
+ */
+export const IMPORTED_RELATIONS = ['links_to', 'participant_in'];
+
+// Stored once, with the ids in order, whichever way round they were found
+const SYMMETRIC_RELATIONS = new Set(['co_occurs', 'related_to', 'contradicts']);
+
+export function isSymmetricRelation(relation: string): boolean {
+  return SYMMETRIC_RELATIONS.has(relation);
+}
+
+// ─── Provenance ────────────────────────────────────────────
+
+/** Strength a node gains for each document it is found in */
+export const STRENGTH_PER_DOCUMENT = 0.5;
+const MAX_STRENGTH = 10;
+
+/**
+ * A node's strength follows from how many documents it was found in, so
+ * re-processing or rebuilding never inflates it.
+ */
+export function strengthFor(documentCount: number): number {
+  return Math.min(1 + STRENGTH_PER_DOCUMENT * Math.max(documentCount - 1, 0), MAX_STRENGTH);
+}
+
+/**
+ * The node's sources with `documentId` added, or null when it is already
+ * there (the document is being re-processed and counts only once).
+ */
+export function addSource(sources: string | null, documentId: string): string[] | null {
+  const ids = parseEvidence(sources);
+  return ids.includes(documentId) ? null : [...ids, documentId];
+}
+
+/** Node update for a document found to contain it: provenance and strength */
+export function sourceUpdate(node: { sources: string | null }, documentId: string) {
+  const sources = addSource(node.sources, documentId);
+  if (!sources) return null;
+  return { sources: JSON.stringify(sources), strength: strengthFor(sources.length) };
+}
+
+// ─── Edges ─────────────────────────────────────────────────
+
+export interface EdgeInput {
+  sourceId: string;
+  targetId: string;
+  relation: string;
+  /** The document the edge was found in */
+  documentId?: string;
+}
+
+export interface Neighbor {
+  id: string;
+  label: string;
+  type: string;
+  relation: string;
+  /** Whether the edge points away from the node it was looked up for */
+  outgoing: boolean;
+  weight: number;
+}
+
+export function parseEvidence(evidence: string | null): string[] {
+  try {
+    const ids = JSON.parse(evidence || '[]');
+    return Array.isArray(ids) ? ids.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+const edgeKey = (e: { sourceId: string; targetId: string; relation: string }) => `${e.sourceId}|${e.targetId}|${e.relation}`;
+
+/**
+ * Create edges, or add the document to the evidence of edges that already
+ * exist. Self-loops are dropped. Returns how many edges were new.
+ */
+export async function upsertEdges(userId: string, edges: EdgeInput[]): Promise<number> {
+  const wanted = new Map<string, EdgeInput>();
+  for (const edge of edges) {
+    if (edge.sourceId === edge.targetId) continue;
+    const swap = isSymmetricRelation(edge.relation) && edge.sourceId > edge.targetId;
+    const normalized = swap ? { ...edge, sourceId: edge.targetId, targetId: edge.sourceId } : edge;
+    wanted.set(edgeKey(normalized), normalized);
+  }
+  if (wanted.size === 0) return 0;
+
+  const nodeIds = Array.from(new Set(Array.from(wanted.values()).flatMap((e) => [e.sourceId, e.targetId])));
+  const existing = await prisma.knowledgeEdge.findMany({
+    where: { userId, sourceId: { in: nodeIds }, targetId: { in: nodeIds } },
+  });
+  const byKey = new Map(existing.map((edge) => [edgeKey(edge), edge]));
+
+  const created = Array.from(wanted.values()).filter((edge) => !byKey.has(edgeKey(edge)));
+  if (created.length > 0) {
+    await prisma.knowledgeEdge.createMany({
+      data: created.map((edge) => ({
+        userId,
+        sourceId: edge.sourceId,
+        targetId: edge.targetId,
+        relation: edge.relation,
+        weight: 1,
+        evidence: JSON.stringify(edge.documentId ? [edge.documentId] : []),
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  const updates = [];
+  for (const edge of Array.from(wanted.values())) {
+    const current = byKey.get(edgeKey(edge));
+    if (!current || !edge.documentId) continue;
+    const evidence = parseEvidence(current.evidence);
+    if (evidence.includes(edge.documentId)) continue;
+    evidence.push(edge.documentId);
+    updates.push(
+      prisma.knowledgeEdge.update({
+        where: { id: current.id },
+        data: { evidence: JSON.stringify(evidence), weight: evidence.length },
+      })
+    );
+  }
+  if (updates.length > 0) await prisma.$transaction(updates);
+
+  return created.length;
+}
+
+/**
+ * The writes that move every edge of `fromIds` onto `toId` (used when nodes
+ * are merged), for the caller to run in its own transaction. Edges that end
+ * up identical are combined with the union of their evidence; edges between
+ * the merged nodes themselves are dropped. `count` is how many edges the
+ * node ends up with from the move.
+ */
+export async function moveEdges(userId: string, fromIds: string[], toId: string) {
+  const moved = new Set(fromIds);
+  const edges = await prisma.knowledgeEdge.findMany({
+    where: {
+      userId,
+      OR: [{ sourceId: { in: [toId, ...fromIds] } }, { targetId: { in: [toId, ...fromIds] } }],
+    },
+  });
+
+  const groups = new Map<string, { sourceId: string; targetId: string; relation: string; edges: typeof edges }>();
+  for (const edge of edges) {
+    let sourceId = moved.has(edge.sourceId) ? toId : edge.sourceId;
+    let targetId = moved.has(edge.targetId) ? toId : edge.targetId;
+    if (sourceId === targetId) continue;
+    if (isSymmetricRelation(edge.relation) && sourceId > targetId) [sourceId, targetId] = [targetId, sourceId];
+    const key = edgeKey({ sourceId, targetId, relation: edge.relation });
+    const group = groups.get(key) || { sourceId, targetId, relation: edge.relation, edges: [] };
+    group.edges.push(edge);
+    groups.set(key, group);
+  }
+
+  const operations = [];
+  let count = 0;
+  for (const group of Array.from(groups.values())) {
+    const evidence = Array.from(new Set(group.edges.flatMap((e) => parseEvidence(e.evidence))));
+    const weight = evidence.length > 0 ? evidence.length : Math.max(...group.edges.map((e) => e.weight));
+    // An edge of the kept node carries over in place; otherwise a moved one is re-created
+    const kept = group.edges.find((e) => !moved.has(e.sourceId) && !moved.has(e.targetId) && edgeKey(e) === edgeKey(group));
+    if (kept) {
+      if (group.edges.length === 1) continue;
+      operations.push(prisma.knowledgeEdge.update({ where: { id: kept.id }, data: { evidence: JSON.stringify(evidence), weight } }));
+    } else {
+      operations.push(
+        prisma.knowledgeEdge.create({
+          data: { userId, sourceId: group.sourceId, targetId: group.targetId, relation: group.relation, weight, evidence: JSON.stringify(evidence) },
+        })
+      );
+    }
+    count++;
+  }
+
+  return {
+    operations: [
+      prisma.knowledgeEdge.deleteMany({
+        where: { userId, OR: [{ sourceId: { in: fromIds } }, { targetId: { in: fromIds } }] },
+      }),
+      ...operations,
+    ],
+    count,
+  };
+}
+
+/** The nodes a node is connected to, strongest edges first */
+export async function getNeighbors(userId: string, nodeId: string, limit = 50): Promise<Neighbor[]> {
+  const edges = await prisma.knowledgeEdge.findMany({
+    where: { userId, OR: [{ sourceId: nodeId }, { targetId: nodeId }] },
+    include: {
+      source: { select: { id: true, label: true, type: true } },
+      target: { select: { id: true, label: true, type: true } },
+    },
+    orderBy: { weight: 'desc' },
+    take: limit,
+  });
+
+  return edges.map((edge) => {
+    const outgoing = edge.sourceId === nodeId;
+    const other = outgoing ? edge.target : edge.source;
+    return { ...other, relation: edge.relation, outgoing, weight: edge.weight };
+  });
+}
+
+/** "uses →" / "← part of" as read from the node the edge was looked up for */
+export function describeRelation(relation: string, outgoing: boolean): string {
+  const words = relation.replace(/_/g, ' ');
+  if (isSymmetricRelation(relation)) return words;
+  return outgoing ? `${words} →` : `← ${words}`;
+}
+
+// ─── Document removal ──────────────────────────────────────
+
+/**
+ * Withdraw a document's contribution: it leaves the evidence of its edges
+ * (edges it was the only evidence for are removed) and the sources of its
+ * nodes, whose strength is recomputed. Edges of `keepRelations` are left
+ * alone, and so are the sources of nodes they still connect, for a rebuild
+ * that cannot recreate them (links between notes, email participants).
+ * Nothing is deleted beyond edges; returns the ids of every node affected,
+ * for `deleteOrphans` once the document is gone or re-added.
+ */
+export async function retractDocument(userId: string, documentId: string, keepRelations: string[] = []): Promise<string[]> {
+  const marker = JSON.stringify(documentId);
+  const touched = new Set<string>();
+
+  const edges = await prisma.knowledgeEdge.findMany({ where: { userId, evidence: { contains: marker } } });
+  const supported = new Set<string>();
+  const emptied: string[] = [];
+  const edgeUpdates = [];
+  for (const edge of edges) {
+    if (keepRelations.includes(edge.relation)) {
+      supported.add(edge.sourceId);
+      supported.add(edge.targetId);
+      continue;
+    }
+    touched.add(edge.sourceId);
+    touched.add(edge.targetId);
+    const evidence = parseEvidence(edge.evidence).filter((id) => id !== documentId);
+    if (evidence.length === 0) emptied.push(edge.id);
+    else edgeUpdates.push(prisma.knowledgeEdge.update({ where: { id: edge.id }, data: { evidence: JSON.stringify(evidence), weight: evidence.length } }));
+  }
+
+  const nodes = await prisma.knowledgeNode.findMany({
+    where: { userId, sources: { contains: marker } },
+    select: { id: true, type: true, sources: true },
+  });
+  const nodeUpdates = nodes
+    .filter((node) => !supported.has(node.id))
+    .map((node) => {
+      touched.add(node.id);
+      const sources = parseEvidence(node.sources).filter((id) => id !== documentId);
+      return prisma.knowledgeNode.update({
+        where: { id: node.id },
+        data: { sources: JSON.stringify(sources), ...(node.type === 'document' ? {} : { strength: strengthFor(sources.length) }) },
+      });
+    });
+
+  await prisma.$transaction([prisma.knowledgeEdge.deleteMany({ where: { id: { in: emptied } } }), ...edgeUpdates, ...nodeUpdates]);
+  return Array.from(touched);
+}
+
+/**
+ * Delete the given nodes that have no provenance and no edges left. Nodes
+ * from before provenance was tracked count as orphaned once nothing
+ * connects to them.
+ */
+export async function deleteOrphans(userId: string, nodeIds: string[]): Promise<number> {
+  if (nodeIds.length === 0) return 0;
+  const candidates = await prisma.knowledgeNode.findMany({
+    where: { userId, id: { in: nodeIds } },
+    select: { id: true, sources: true, _count: { select: { outgoing: true, incoming: true } } },
+  });
+  const orphans = candidates
+    .filter((node) => parseEvidence(node.sources).length === 0 && node._count.outgoing + node._count.incoming === 0)
+    .map((node) => node.id);
+  if (orphans.length > 0) await prisma.knowledgeNode.deleteMany({ where: { userId, id: { in: orphans } } });
+  return orphans.length;
+}
+
+/**
+ * Take a deleted document out of the graph: its contribution is retracted,
+ * its document node removed (unless another document with the same title
+ * shares it), and nodes left with no provenance and no edges are deleted.
+ */
+export async function removeDocumentFromGraph(
+  userId: string,
+  documentId: string,
+  title: string
+): Promise<{ nodesRemoved: number }> {
+  const touched = new Set(await retractDocument(userId, documentId));
+
+  const documentNodes = await prisma.knowledgeNode.findMany({
+    where: {
+      userId,
+      type: 'document',
+      OR: [
+        { metadata: { contains: JSON.stringify(documentId) } },
+        // Document nodes from before provenance, matched by title like ensureDocumentNode
+        { sources: null, label: title.slice(0, 180) },
+        { id: { in: Array.from(touched) } },
+      ],
+    },
+    select: { id: true, label: true, sources: true },
+  });
+
+  const removed: string[] = [];
+  for (const node of documentNodes) {
+    const shared =
+      node.sources !== null
+        ? parseEvidence(node.sources).length > 0
+        : (await prisma.document.count({ where: { userId, title: node.label, id: { not: documentId } } })) > 0;
+    if (!shared) removed.push(node.id);
+  }
+
+  // Whatever only the document node held together may now be orphaned
+  if (removed.length > 0) {
+    const neighbors = await prisma.knowledgeEdge.findMany({
+      where: { userId, OR: [{ sourceId: { in: removed } }, { targetId: { in: removed } }] },
+      select: { sourceId: true, targetId: true },
+    });
+    for (const edge of neighbors) {
+      touched.add(edge.sourceId);
+      touched.add(edge.targetId);
+    }
+    await prisma.knowledgeNode.deleteMany({ where: { userId, id: { in: removed } } });
+  }
+
+  removed.forEach((id) => touched.delete(id));
+  const orphans = await deleteOrphans(userId, Array.from(touched));
+  console.log(`[Graph] Removed document ${documentId}: ${removed.length} document nodes and ${orphans} orphaned nodes deleted`);
+  return { nodesRemoved: removed.length + orphans };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { HnswIndex } from './hnsw';
+
+// Deterministic vectors, so a failure can be reproduced
+function randomVectors(count: number, dimension: number, seed = 1): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return dot / Math.sqrt(na * nb);
+}
+
+function build(vectors: number[][]): HnswIndex {
+  const index = new HnswIndex(vectors[0].length, { m: 8, efConstruction: 64 });
+  vectors.forEach((v, i) => index.insert(`c${i}`, `d${i % 10}`, v));
+  return index;
+}
+
+describe('HnswIndex', () => {
+  const vectors = randomVectors(500, 16);
+
+  it('finds an inserted vector first, with cosine similarity as the score', () => {
+    const index = build(vectors);
+    const [top] = index.search(vectors[42], 1);
+    expect(top.id).toBe('c42');
+    expect(top.documentId).toBe('d2');
+    expect(top.score).toBeCloseTo(1, 5);
+  });
+
+  it('agrees with exact search on most nearest neighbours', () => {
+    const index = build(vectors);
+    const queries = randomVectors(20, 16, 7);
+    let hits = 0;
+    for (const query of queries) {
+      const exact = vectors
+        .map((v, i) => ({ id: `c${i}`, score: cosine(query, v) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10)
+        .map((m) => m.id);
+      const found = new Set(index.search(query, 10).map((m) => m.id));
+      hits += exact.filter((id) => found.has(id)).length;
+    }
+    expect(hits / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('leaves removed vectors and documents out of results', () => {
+    const index = build(vectors);
+    expect(index.remove('c42')).toBe(true);
+    expect(index.remove('c42')).toBe(false);
+    expect(index.search(vectors[42], 5).map((m) => m.id)).not.toContain('c42');
+
+    expect(index.removeDocument('d3')).toBe(50);
+    expect(index.size).toBe(449);
+    expect(index.search(vectors[13], 20).some((m) => m.documentId === 'd3')).toBe(false);
+  });
+
+  it('replaces a vector inserted again under the same id', () => {
+    const index = build(vectors);
+    index.insert('c1', 'd1', vectors[2]);
+    expect(index.size).toBe(500);
+    const ids = index.search(vectors[2], 2).map((m) => m.id);
+    expect(ids.sort()).toEqual(['c1', 'c2']);
+  });
+
+  it('returns the same results after serializing and after compacting', () => {
+    const index = build(vectors);
+    index.removeDocument('d0');
+    const query = randomVectors(1, 16, 3)[0];
+    const expected = index.search(query, 5);
+
+    const restored = HnswIndex.deserialize(JSON.parse(JSON.stringify(index.serialize())));
+    expect(restored.size).toBe(index.size);
+    expect(restored.search(query, 5)).toEqual(expected);
+
+    const compacted = index.compact();
+    expect(compacted.tombstoneRatio).toBe(0);
+    expect(compacted.size).toBe(450);
+    expect(compacted.search(query, 1)[0].id).toBe(expected[0].id);
+  });
+
+  it('rejects vectors of the wrong dimension', () => {
+    const index = new HnswIndex(4);
+    expect(() => index.insert('a', 'd', [1, 2, 3])).toThrow(/dimension/);
+    expect(index.search([1, 0, 0, 0], 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * HNSW (Hierarchical Navigable Small World) approximate nearest-neighbour index
+ *
+ * Pure TypeScript, in-process, no native dependencies. Vectors are L2-normalised
+ * on insert so cosine similarity reduces to a dot product. Removals are
+ * tombstoned (the node stays in the graph for navigation but is never returned)
+ * and the index can be compacted once too many tombstones accumulate.
+ */
+
+export interface HnswOptions {
+  /** Max neighbours per node on upper layers (layer 0 keeps 2×M) */
+  m?: number;
+  efConstruction?: number;
+  efSearch?: number;
+}
+
+export interface HnswMatch {
+  id: string;
+  documentId: string;
+  score: number; // cosine similarity
+}
+
+interface HnswNode {
+  id: string;
+  documentId: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  dist: number;
+}
+
+export interface SerializedHnsw {
+  dimension: number;
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: { id: string; documentId: string; vector: string; level: number; neighbors: number[][]; deleted: boolean }[];
+}
+
+// ─── Binary heap ───────────────────────────────────────────
+
+class Heap {
+  private items: Candidate[] = [];
+
+  // `max` = true keeps the farthest candidate on top
+  constructor(private max: boolean) {}
+
+  get size() {
+    return this.items.length;
+  }
+
+  peek(): Candidate | undefined {
+    return this.items[0];
+  }
+
+  toArray(): Candidate[] {
+    return this.items.slice();
+  }
+
+  private before(a: Candidate, b: Candidate): boolean {
+    return this.max ? a.dist > b.dist : a.dist < b.dist;
+  }
+
+  push(item: Candidate) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): Candidate | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.before(items[left], items[best])) best = left;
+        if (right < items.length && this.before(items[right], items[best])) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+}
+
+// ─── Index ─────────────────────────────────────────────────
+
+export class HnswIndex {
+  readonly dimension: number;
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMult: number;
+
+  private nodes: HnswNode[] = [];
+  private idToNode = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  // Generation-stamped visit marks, reused across searches instead of a fresh Set
+  private visitMarks = new Uint32Array(0);
+  private visitGeneration = 0;
+
+  constructor(dimension: number, options: HnswOptions = {}) {
+    this.dimension = dimension;
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 128;
+    this.levelMult = 1 / Math.log(this.m);
+  }
+
+  get size(): number {
+    return this.nodes.length - this.deletedCount;
+  }
+
+  get tombstoneRatio(): number {
+    return this.nodes.length === 0 ? 0 : this.deletedCount / this.nodes.length;
+  }
+
+  has(id: string): boolean {
+    return this.idToNode.has(id);
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return 1 - dot;
+  }
+
+  private toVector(values: ArrayLike<number>): Float32Array {
+    if (values.length !== this.dimension) {
+      throw new Error(`Vector dimension ${values.length} does not match index dimension ${this.dimension}`);
+    }
+    const vector = Float32Array.from(values);
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+    norm = Math.sqrt(norm);
+    if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+    return vector;
+  }
+
+  private maxNeighbors(level: number): number {
+    return level === 0 ? this.m * 2 : this.m;
+  }
+
+  private searchLayer(query: Float32Array, entries: Candidate[], ef: number, level: number): Candidate[] {
+    if (this.visitMarks.length < this.nodes.length) {
+      this.visitMarks = new Uint32Array(Math.max(1024, this.nodes.length * 2));
+      this.visitGeneration = 0;
+    }
+    const marks = this.visitMarks;
+    const generation = ++this.visitGeneration;
+    for (const e of entries) marks[e.node] = generation;
+    const candidates = new Heap(false);
+    const results = new Heap(true);
+    for (const e of entries) {
+      candidates.push(e);
+      results.push(e);
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (results.size >= ef && current.dist > results.peek()!.dist) break;
+
+      for (const neighbor of this.nodes[current.node].neighbors[level] || []) {
+        if (marks[neighbor] === generation) continue;
+        marks[neighbor] = generation;
+        const dist = this.distance(query, this.nodes[neighbor].vector);
+        if (results.size < ef || dist < results.peek()!.dist) {
+          candidates.push({ node: neighbor, dist });
+          results.push({ node: neighbor, dist });
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.dist - b.dist);
+  }
+
+  // Neighbour selection heuristic: prefer candidates that are closer to the
+  // new node than to any already-selected neighbour, which keeps the graph navigable.
+  private selectNeighbors(candidates: Candidate[], count: number): number[] {
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+    for (const c of candidates) {
+      if (selected.length >= count) break;
+      const vector = this.nodes[c.node].vector;
+      const diverse = selected.every((s) => this.distance(vector, this.nodes[s.node].vector) > c.dist);
+      if (diverse) selected.push(c);
+      else pruned.push(c);
+    }
+    for (const c of pruned) {
+      if (selected.length >= count) break;
+      selected.push(c);
+    }
+    return selected.map((c) => c.node);
+  }
+
+  private greedyDescend(query: Float32Array, targetLevel: number): Candidate {
+    let current: Candidate = { node: this.entryPoint, dist: this.distance(query, this.nodes[this.entryPoint].vector) };
+    for (let level = this.maxLevel; level > targetLevel; level--) {
+      let improved = true;
+      while (improved) {
+        improved = false;
+        for (const neighbor of this.nodes[current.node].neighbors[level] || []) {
+          const dist = this.distance(query, this.nodes[neighbor].vector);
+          if (dist < current.dist) {
+            current = { node: neighbor, dist };
+            improved = true;
+          }
+        }
+      }
+    }
+    return current;
+  }
+
+  insert(id: string, documentId: string, values: ArrayLike<number>): void {
+    if (this.idToNode.has(id)) this.remove(id);
+
+    const vector = this.toVector(values);
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMult);
+    const index = this.nodes.length;
+    const node: HnswNode = {
+      id,
+      documentId,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.push(node);
+    this.idToNode.set(id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entries = [this.greedyDescend(vector, level)];
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(vector, entries, this.efConstruction, l);
+      const neighbors = this.selectNeighbors(found, this.m);
+      node.neighbors[l] = neighbors;
+
+      for (const neighbor of neighbors) {
+        const links = this.nodes[neighbor].neighbors[l];
+        links.push(index);
+        if (links.length > this.maxNeighbors(l)) {
+          const nVector = this.nodes[neighbor].vector;
+          // Overflowing neighbour lists keep their closest links (cheaper than
+          // re-running the diversity heuristic on every insert)
+          this.nodes[neighbor].neighbors[l] = links
+            .map((n) => ({ node: n, dist: this.distance(nVector, this.nodes[n].vector) }))
+            .sort((a, b) => a.dist - b.dist)
+            .slice(0, this.maxNeighbors(l))
+            .map((c) => c.node);
+        }
+      }
+      entries = found;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+    }
+  }
+
+  remove(id: string): boolean {
+    const index = this.idToNode.get(id);
+    if (index === undefined) return false;
+    this.nodes[index].deleted = true;
+    this.idToNode.delete(id);
+    this.deletedCount++;
+    return true;
+  }
+
+  hasDocument(documentId: string): boolean {
+    return this.nodes.some((node) => !node.deleted && node.documentId === documentId);
+  }
+
+  removeDocument(documentId: string): number {
+    let removed = 0;
+    for (const node of this.nodes) {
+      if (!node.deleted && node.documentId === documentId && this.remove(node.id)) removed++;
+    }
+    return removed;
+  }
+
+  search(values: ArrayLike<number>, k: number, ef = this.efSearch): HnswMatch[] {
+    if (this.entryPoint === -1 || this.size === 0) return [];
+    const query = this.toVector(values);
+    const entry = this.greedyDescend(query, 0);
+    // Widen the beam when tombstones would otherwise crowd out live results
+    const beam = Math.max(ef, k) + Math.ceil(Math.max(ef, k) * this.tombstoneRatio);
+
+    return this.searchLayer(query, [entry], beam, 0)
+      .filter((c) => !this.nodes[c.node].deleted)
+      .slice(0, k)
+      .map((c) => ({
+        id: this.nodes[c.node].id,
+        documentId: this.nodes[c.node].documentId,
+        score: 1 - c.dist,
+      }));
+  }
+
+  /** Rebuild the graph from live nodes only, dropping tombstones */
+  compact(): HnswIndex {
+    const fresh = new HnswIndex(this.dimension, {
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+    });
+    for (const node of this.nodes) {
+      if (!node.deleted) fresh.insert(node.id, node.documentId, node.vector);
+    }
+    return fresh;
+  }
+
+  // ─── Persistence ─────────────────────────────────────────
+
+  serialize(): SerializedHnsw {
+    return {
+      dimension: this.dimension,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes.map((n) => ({
+        id: n.id,
+        documentId: n.documentId,
+        vector: Buffer.from(n.vector.buffer, n.vector.byteOffset, n.vector.byteLength).toString('base64'),
+        level: n.level,
+        neighbors: n.neighbors,
+        deleted: n.deleted,
+      })),
+    };
+  }
+
+  static deserialize(data: SerializedHnsw): HnswIndex {
+    const index = new HnswIndex(data.dimension, {
+      m: data.m,
+      efConstruction: data.efConstruction,
+      efSearch: data.efSearch,
+    });
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    index.nodes = data.nodes.map((n) => {
+      const bytes = Buffer.from(n.vector, 'base64');
+      const vector = new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+      return { id: n.id, documentId: n.documentId, vector, level: n.level, neighbors: n.neighbors, deleted: n.deleted };
+    });
+    index.nodes.forEach((n, i) => {
+      if (n.deleted) index.deletedCount++;
+      else index.idToNode.set(n.id, i);
+    });
+    return index;
+  }
+}
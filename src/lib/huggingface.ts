@@ -1,21 +1,16 @@
 /**
  * HuggingFace Inference API Integration
  * 
- * Free-tier models used:
- * - mistralai/Mistral-7B-Instruct-v0.3  (chat/reasoning - cross-validation)
- * - HuggingFaceH4/zephyr-7b-beta         (chat fallback)
+ * Free-tier models used (chat goes through the huggingface provider in llm.ts):
  * - facebook/bart-large-cnn              (summarization - cross-validation)
  * - openai/whisper-large-v3              (audio/video transcription)
  */
 
+import type { TranscriptSegment } from './transcripts';
+
 const HF_API_URL = 'https://api-inference.huggingface.co';
 const HF_API_KEY = process.env.HUGGINGFACE_API_KEY;
 
-const HF_CHAT_MODELS = [
-  'mistralai/Mistral-7B-Instruct-v0.3',
-  'HuggingFaceH4/zephyr-7b-beta',
-];
-
 const HF_SUMMARIZATION_MODEL = 'facebook/bart-large-cnn';
 const HF_WHISPER_MODEL = 'openai/whisper-large-v3';
 
@@ -23,7 +18,7 @@ const HF_TIMEOUT = 60_000; // 60s — HF free tier models may need cold-start ti
 
 // ─── Helpers ───────────────────────────────────────────────
 
-async function hfFetchWithRetry(
+export async function hfFetchWithRetry(
   url: string,
   init: RequestInit,
   retries = 2,
@@ -60,67 +55,6 @@ async function hfFetchWithRetry(
   throw new Error('HF API: max retries exceeded');
 }
 
-// ─── Chat Completion ───────────────────────────────────────
-
-interface HFChatOptions {
-  messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
-  maxTokens?: number;
-  temperature?: number;
-  model?: string;
-}
-
-export async function hfChat(options: HFChatOptions): Promise<string> {
-  const { messages, maxTokens = 1024, temperature = 0.7, model } = options;
-
-  if (!HF_API_KEY) {
-    throw new Error('HUGGINGFACE_API_KEY is not configured');
-  }
-
-  const modelsToTry = model ? [model] : HF_CHAT_MODELS;
-  let lastError: Error | null = null;
-
-  for (const currentModel of modelsToTry) {
-    try {
-      const res = await hfFetchWithRetry(
-        `${HF_API_URL}/v1/chat/completions`,
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${HF_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: currentModel,
-            messages,
-            max_tokens: maxTokens,
-            temperature,
-            stream: false,
-          }),
-        }
-      );
-
-      if (!res.ok) {
-        const errText = await res.text();
-        console.error(`[HF] Chat error (${currentModel}): ${res.status}`, errText);
-        lastError = new Error(`HF API ${res.status}`);
-        continue;
-      }
-
-      const data = await res.json();
-      const content = data.choices?.[0]?.message?.content;
-      if (content) return content;
-      lastError = new Error('Empty HF response');
-      continue;
-    } catch (err: any) {
-      console.error(`[HF] Model ${currentModel} failed:`, err.message);
-      lastError = err;
-      continue;
-    }
-  }
-
-  throw lastError || new Error('All HF chat models failed');
-}
-
 // ─── Summarization (BART) ──────────────────────────────────
 
 export async function hfSummarize(text: string): Promise<string> {
@@ -164,24 +98,34 @@ export async function hfSummarize(text: string): Promise<string> {
 
 // ─── Audio/Video Transcription (Whisper) ───────────────────
 
+export interface WhisperTranscription {
+  text: string;
+  /** Whisper's timestamped chunks; empty if the model returned none */
+  segments: TranscriptSegment[];
+}
+
 export async function hfTranscribeAudio(
   buffer: Buffer,
   mimeType: string = 'audio/mpeg'
-): Promise<string> {
+): Promise<WhisperTranscription> {
   if (!HF_API_KEY) throw new Error('HUGGINGFACE_API_KEY not configured');
 
   console.log(`[HF Whisper] Transcribing ${(buffer.length / 1024 / 1024).toFixed(1)} MB of ${mimeType}...`);
 
   try {
+    // Timestamps are a generation parameter, so the audio goes base64-encoded in a JSON body
     const res = await hfFetchWithRetry(
       `${HF_API_URL}/models/${HF_WHISPER_MODEL}`,
       {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${HF_API_KEY}`,
-          'Content-Type': mimeType,
+          'Content-Type': 'application/json',
         },
-        body: new Uint8Array(buffer),
+        body: JSON.stringify({
+          inputs: buffer.toString('base64'),
+          parameters: { return_timestamps: true },
+        }),
       },
       3, // more retries for transcription (model often cold)
       120_000 // 2 min timeout — large files take time
@@ -190,16 +134,22 @@ export async function hfTranscribeAudio(
     if (!res.ok) {
       const errText = await res.text();
       console.error('[HF Whisper] Error:', res.status, errText);
-      return '';
+      return { text: '', segments: [] };
     }
 
     const data = await res.json();
-    const transcript = data?.text || '';
-    console.log(`[HF Whisper] ✅ Transcribed ${transcript.length} chars`);
-    return transcript;
+    const text: string = data?.text || '';
+    const segments: TranscriptSegment[] = (data?.chunks || [])
+      .map((chunk: { timestamp?: [number, number | null]; text?: string }) => {
+        const [start, end] = chunk.timestamp || [0, null];
+        return { start: start ?? 0, end: end ?? start ?? 0, text: (chunk.text || '').trim() };
+      })
+      .filter((segment: TranscriptSegment) => segment.text);
+    console.log(`[HF Whisper] ✅ Transcribed ${text.length} chars, ${segments.length} timed segments`);
+    return { text, segments };
   } catch (err: any) {
     console.error('[HF Whisper] Transcription failed:', err.message);
-    return '';
+    return { text: '', segments: [] };
   }
 }
 
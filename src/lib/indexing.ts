@@ -0,0 +1,214 @@
+/**
+ * Document Indexing
+ *
+ * Writes the retrieval-side representation of a document: its chunks, the
+ * embeddings of both the document and each chunk, and the vector and
+ * lexical (BM25) index entries. Shared by the ingest pipeline, the graph
+ * rebuild, document deletion and the re-embedding jobs.
+ */
+
+import prisma from './prisma';
+import { chunkText, findPageStarts } from './chunking';
+import { findTimeMarkers } from './transcripts';
+import { embedText, embedTexts, getEmbeddingProvider } from './embeddings';
+import { getVectorIndex } from './vector-index';
+import { replaceDocumentInLexicalIndex, removeDocumentFromLexicalIndex } from './lexical-index';
+
+const DOCUMENT_EMBEDDING_INPUT = 2000; // characters from the start of the document
+
+/**
+ * Embed the document as a whole (summary + opening text) and store
+ * the vector with the model id and dimension that produced it.
+ */
+export async function embedDocument(
+  docId: string,
+  content: string,
+  summary?: string | null
+): Promise<boolean> {
+  const input = [summary, content.slice(0, DOCUMENT_EMBEDDING_INPUT)].filter(Boolean).join('\n\n');
+  const result = await embedText(input, 'passage');
+  if (!result) return false;
+
+  await prisma.document.update({
+    where: { id: docId },
+    data: {
+      embedding: JSON.stringify(result.vector),
+      embeddingModel: result.model,
+      embeddingDim: result.dimension,
+    },
+  });
+  return true;
+}
+
+// Split the full extracted text into chunks and store one embedding per chunk,
+// replacing any chunks from a previous processing run. With `embed: false`
+// (local-only privacy and a hosted embedding API) chunks are stored unembedded
+// and only the lexical index is updated.
+export async function storeDocumentChunks(
+  docId: string,
+  content: string,
+  userId: string,
+  options: { embed?: boolean } = {}
+): Promise<number> {
+  const chunks = chunkText(content, {
+    pageStarts: findPageStarts(content),
+    timeMarkers: findTimeMarkers(content),
+  });
+  const embedded = options.embed === false ? null : await embedTexts(chunks.map((c) => c.content), 'passage');
+
+  await prisma.$transaction([
+    prisma.documentChunk.deleteMany({ where: { documentId: docId } }),
+    prisma.documentChunk.createMany({
+      data: chunks.map((chunk, i) => ({
+        documentId: docId,
+        userId,
+        chunkIndex: chunk.chunkIndex,
+        content: chunk.content,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+        pageNumber: chunk.pageNumber,
+        startSeconds: chunk.startSeconds,
+        embedding: embedded ? JSON.stringify(embedded.vectors[i]) : null,
+        embeddingModel: embedded?.model ?? null,
+        embeddingDim: embedded?.dimension ?? null,
+      })),
+    }),
+  ]);
+
+  // Keep the vector index in step: drop the old chunk ids, add the new ones
+  try {
+    const index = getVectorIndex();
+    await index.removeDocument(userId, docId);
+    if (embedded) {
+      const stored = await prisma.documentChunk.findMany({
+        where: { documentId: docId },
+        select: { id: true, chunkIndex: true },
+      });
+      await index.upsert(
+        userId,
+        embedded.model,
+        stored.map((row) => ({ id: row.id, documentId: docId, vector: embedded.vectors[row.chunkIndex] }))
+      );
+    }
+  } catch (err) {
+    console.error(`[Indexing] Failed to update vector index for document ${docId}:`, err);
+  }
+
+  try {
+    const [doc, stored] = await Promise.all([
+      prisma.document.findUnique({ where: { id: docId }, select: { title: true } }),
+      prisma.documentChunk.findMany({ where: { documentId: docId }, select: { id: true, content: true } }),
+    ]);
+    await replaceDocumentInLexicalIndex(
+      userId,
+      docId,
+      stored.map((row) => ({ id: row.id, documentId: docId, text: `${doc?.title || ''}\n${row.content}` }))
+    );
+  } catch (err) {
+    console.error(`[Indexing] Failed to update lexical index for document ${docId}:`, err);
+  }
+
+  return chunks.length;
+}
+
+/** Remove a deleted document from the vector and lexical indexes */
+export async function removeDocumentFromIndex(userId: string, docId: string): Promise<void> {
+  try {
+    await getVectorIndex().removeDocument(userId, docId);
+  } catch (err) {
+    console.error(`[Indexing] Failed to remove document ${docId} from vector index:`, err);
+  }
+  try {
+    await removeDocumentFromLexicalIndex(userId, docId);
+  } catch (err) {
+    console.error(`[Indexing] Failed to remove document ${docId} from lexical index:`, err);
+  }
+}
+
+// ─── Re-embedding ──────────────────────────────────────────
+
+export interface ReembedPlan {
+  model: string;
+  documentsChecked: number;
+  documentIds: string[];
+}
+
+// Placeholders for files without text have nothing to embed
+const hasEmbeddableContent = (content: string | null): content is string =>
+  Boolean(content && content.length >= 20 && !content.startsWith('[File:'));
+
+/**
+ * Find the user's documents whose vectors came from another model than the
+ * configured one (or the legacy hash embedding), and documents that were
+ * never chunked. Each is re-embedded by its own job.
+ */
+export async function findDocumentsToReembed(userId: string): Promise<ReembedPlan> {
+  const model = getEmbeddingProvider().id;
+  const [documents, chunkModels] = await Promise.all([
+    prisma.document.findMany({ where: { userId }, select: { id: true, content: true, embeddingModel: true } }),
+    prisma.documentChunk.groupBy({ by: ['documentId', 'embeddingModel'], where: { userId } }),
+  ]);
+
+  const chunked = new Set<string>();
+  const stale = new Set<string>();
+  for (const row of chunkModels) {
+    chunked.add(row.documentId);
+    if (row.embeddingModel !== model) stale.add(row.documentId);
+  }
+
+  const documentIds = documents
+    .filter((doc) => hasEmbeddableContent(doc.content))
+    .filter((doc) => doc.embeddingModel !== model || !chunked.has(doc.id) || stale.has(doc.id))
+    .map((doc) => doc.id);
+  return { model, documentsChecked: documents.length, documentIds };
+}
+
+/**
+ * Bring one document's vectors up to the configured embedding model: the
+ * document embedding and any stale chunk embeddings are replaced in place,
+ * and a document that was never chunked is chunked from its stored content.
+ * Returns how many chunks were embedded; throws when the provider fails.
+ */
+export async function reembedDocument(docId: string, userId: string): Promise<number> {
+  const model = getEmbeddingProvider().id;
+  const doc = await prisma.document.findUnique({
+    where: { id: docId },
+    select: { content: true, summary: true, embeddingModel: true },
+  });
+  if (!doc) throw new Error('Document no longer exists');
+  if (!hasEmbeddableContent(doc.content)) return 0;
+
+  if (doc.embeddingModel !== model && !(await embedDocument(docId, doc.content, doc.summary))) {
+    throw new Error(`Could not embed the document with ${model}`);
+  }
+
+  const chunks = await prisma.documentChunk.findMany({
+    where: { documentId: docId },
+    select: { id: true, content: true, embeddingModel: true },
+  });
+  if (chunks.length === 0) return storeDocumentChunks(docId, doc.content, userId);
+
+  const staleChunks = chunks.filter((c) => c.embeddingModel !== model);
+  if (staleChunks.length === 0) return 0;
+
+  const embedded = await embedTexts(staleChunks.map((c) => c.content), 'passage');
+  if (!embedded) throw new Error(`Could not embed the chunks with ${model}`);
+  await prisma.$transaction(
+    staleChunks.map((chunk, i) =>
+      prisma.documentChunk.update({
+        where: { id: chunk.id },
+        data: {
+          embedding: JSON.stringify(embedded.vectors[i]),
+          embeddingModel: embedded.model,
+          embeddingDim: embedded.dimension,
+        },
+      })
+    )
+  );
+  await getVectorIndex().upsert(
+    userId,
+    embedded.model,
+    staleChunks.map((chunk, i) => ({ id: chunk.id, documentId: docId, vector: embedded.vectors[i] }))
+  );
+  return staleChunks.length;
+}
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { drainIngestQueue, enqueueReembedJobs } from './ingest-jobs';
+
+const mocks = vi.hoisted(() => ({
+  prisma: {
+    ingestJob: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn(), updateMany: vi.fn(), update: vi.fn() },
+    document: { findUnique: vi.fn(), update: vi.fn() },
+    documentChunk: { count: vi.fn() },
+  },
+  extractTextFromFile: vi.fn(),
+  indexDocumentForSearch: vi.fn(),
+  findDocumentsToReembed: vi.fn(),
+  reembedDocument: vi.fn(),
+  canEmbed: vi.fn(),
+}));
+
+vi.mock('./prisma', () => ({ default: mocks.prisma }));
+vi.mock('./extraction', () => ({
+  extractTextFromFile: mocks.extractTextFromFile,
+  filePlaceholder: (name: string) => `[File: ${name}]`,
+  isTextFile: () => false,
+}));
+vi.mock('./enrichment', () => ({
+  addPeopleToGraph: vi.fn(),
+  enrichDocument: vi.fn(),
+  indexDocumentForSearch: mocks.indexDocumentForSearch,
+}));
+vi.mock('./indexing', () => ({
+  embedDocument: vi.fn(),
+  findDocumentsToReembed: mocks.findDocumentsToReembed,
+  reembedDocument: mocks.reembedDocument,
+}));
+vi.mock('./settings', () => ({
+  getUserSettings: async () => ({ aiProcessing: false }),
+  getChatProviderFor: () => null,
+  allowsExternalServices: () => true,
+  canEmbedFor: mocks.canEmbed,
+  LOCAL_EMBEDDING_MISSING: 'No local embedding model',
+}));
+
+const job = {
+  id: 'job1',
+  userId: 'u1',
+  documentId: 'doc1',
+  kind: 'ingest',
+  status: 'queued',
+  progress: 0,
+  message: null,
+  error: null,
+  attempts: 0,
+  maxAttempts: 3,
+  filename: 'lecture.mp3',
+  mimeType: 'audio/mpeg',
+  fileSize: 1000,
+  sourceUrl: 'https://blob.example/lecture.mp3',
+  sourcePath: null,
+  runAfter: new Date(0),
+  lockedAt: null,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+};
+
+// Heartbeats are the lock refreshes that come from neither a claim nor a stage change
+const heartbeats = () =>
+  mocks.prisma.ingestJob.updateMany.mock.calls.filter(([args]) => args.where.id === 'job1' && Object.keys(args.data).join() === 'lockedAt');
+
+describe('ingest worker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', async () => new Response('audio bytes'));
+    vi.clearAllMocks();
+    mocks.canEmbed.mockReturnValue(false);
+    mocks.prisma.ingestJob.findFirst.mockResolvedValueOnce(job).mockResolvedValue(null);
+    mocks.prisma.ingestJob.updateMany.mockResolvedValue({ count: 1 });
+    mocks.prisma.document.findUnique.mockResolvedValue({ id: 'doc1', title: 'lecture.mp3', content: '' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the lock fresh while a long stage runs, and stops once the job ends', async () => {
+    let finishTranscript!: (text: { text: string; ocr: [] }) => void;
+    mocks.extractTextFromFile.mockReturnValue(new Promise((resolve) => (finishTranscript = resolve)));
+
+    const drained = drainIngestQueue();
+    // A 45-minute transcription, longer than the lock timeout
+    await vi.advanceTimersByTimeAsync(45 * 60_000);
+    expect(heartbeats().length).toBeGreaterThanOrEqual(44);
+    expect(heartbeats()[0][0]).toMatchObject({ where: { status: { in: ['extracting', 'enriching', 'indexing'] } } });
+
+    finishTranscript({ text: 'Welcome to the lecture on thermodynamics. '.repeat(5), ocr: [] });
+    expect(await drained).toBe(1);
+    expect(mocks.indexDocumentForSearch).toHaveBeenCalled();
+    expect(mocks.prisma.ingestJob.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'done', lockedAt: null }) })
+    );
+
+    const count = heartbeats().length;
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(heartbeats()).toHaveLength(count);
+  });
+
+  it('stops the heartbeat when the job fails', async () => {
+    mocks.extractTextFromFile.mockRejectedValue(new Error('Whisper is unavailable'));
+
+    expect(await drainIngestQueue()).toBe(1);
+    expect(mocks.prisma.ingestJob.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'queued', error: 'Whisper is unavailable' }) })
+    );
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(heartbeats()).toHaveLength(0);
+  });
+
+  it('runs a re-embedding job without extracting or enriching again', async () => {
+    mocks.canEmbed.mockReturnValue(true);
+    mocks.prisma.ingestJob.findFirst.mockReset().mockResolvedValueOnce({ ...job, kind: 'reembed', sourceUrl: null }).mockResolvedValue(null);
+    mocks.reembedDocument.mockResolvedValue(12);
+
+    expect(await drainIngestQueue()).toBe(1);
+    expect(mocks.reembedDocument).toHaveBeenCalledWith('doc1', 'u1');
+    expect(mocks.extractTextFromFile).not.toHaveBeenCalled();
+    expect(mocks.indexDocumentForSearch).not.toHaveBeenCalled();
+    expect(mocks.prisma.ingestJob.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'done', message: 'Re-embedded (12 chunks)' }) })
+    );
+  });
+
+  it('fails a re-embedding job once the user has switched to local-only mode', async () => {
+    mocks.prisma.ingestJob.findFirst.mockReset().mockResolvedValueOnce({ ...job, kind: 'reembed', sourceUrl: null }).mockResolvedValue(null);
+
+    expect(await drainIngestQueue()).toBe(1);
+    expect(mocks.reembedDocument).not.toHaveBeenCalled();
+    expect(mocks.prisma.ingestJob.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'failed', error: 'No local embedding model' }) })
+    );
+  });
+});
+
+describe('enqueueReembedJobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('INGEST_WORKER', 'external');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('queues one job per stale document, skipping documents with a job in flight', async () => {
+    mocks.findDocumentsToReembed.mockResolvedValue({ model: 'openai:text-embedding-3-small', documentsChecked: 5, documentIds: ['d1', 'd2', 'd3'] });
+    mocks.prisma.ingestJob.findMany.mockResolvedValue([{ documentId: 'd2' }]);
+    mocks.prisma.ingestJob.create.mockImplementation(async ({ data }) => ({ ...job, ...data, id: `job-${data.documentId}` }));
+
+    const result = await enqueueReembedJobs('u1');
+
+    expect(result.model).toBe('openai:text-embedding-3-small');
+    expect(result.documentsChecked).toBe(5);
+    expect(result.jobs.map((j) => [j.documentId, j.kind, j.status])).toEqual([
+      ['d1', 'reembed', 'queued'],
+      ['d3', 'reembed', 'queued'],
+    ]);
+  });
+});
@@ -0,0 +1,486 @@
+/**
+ * Ingestion Job Queue
+ *
+ * Uploads are stored and acknowledged immediately; the slow work runs as an
+ * IngestJob outside the request:
+ *
+ *   queued → extracting → enriching → indexing → done
+ *                  (any stage) → failed after the last retry
+ *
+ * Re-embedding a library with a new embedding model runs through the same
+ * queue, one `reembed` job per document that goes straight to indexing.
+ *
+ * Jobs live in the database, so any process can run them: by default the
+ * Next.js server drains the queue in the background after each enqueue
+ * (INGEST_WORKER=inline), or `npm run worker:ingest` runs a dedicated worker
+ * (INGEST_WORKER=external). Production deployments on serverless hosts need
+ * the dedicated worker: a function is suspended once its response is sent,
+ * so an inline drain there may stop half-way (a warning is logged).
+ *
+ * Failed attempts are retried with exponential backoff. A running job's
+ * lockedAt is refreshed every minute, however long a stage (OCR,
+ * transcription) takes; jobs whose heartbeat stops are picked up again after
+ * a lock timeout.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import prisma from './prisma';
+import { extractTextFromFile, filePlaceholder, isTextFile, type ExtractedText } from './extraction';
+import { isSpreadsheetFile } from './spreadsheets';
+import { addPeopleToGraph, enrichDocument, indexDocumentForSearch } from './enrichment';
+import { embedDocument, findDocumentsToReembed, reembedDocument } from './indexing';
+import { getUserSettings, getChatProviderFor, allowsExternalServices, canEmbedFor, LOCAL_EMBEDDING_MISSING } from './settings';
+
+export type IngestJobStatus = 'queued' | 'extracting' | 'enriching' | 'indexing' | 'done' | 'failed';
+export type IngestJobKind = 'ingest' | 'reembed';
+
+export const ACTIVE_JOB_STATUSES: IngestJobStatus[] = ['queued', 'extracting', 'enriching', 'indexing'];
+const RUNNING_STATUSES: IngestJobStatus[] = ['extracting', 'enriching', 'indexing'];
+
+/** What the Vault page sees of a job */
+export interface IngestJobEvent {
+  id: string;
+  documentId: string;
+  kind: IngestJobKind;
+  status: IngestJobStatus;
+  progress: number;
+  message: string | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  updatedAt: string;
+}
+
+type IngestJobRow = NonNullable<Awaited<ReturnType<typeof prisma.ingestJob.findUnique>>>;
+type DocumentRow = NonNullable<Awaited<ReturnType<typeof prisma.document.findUnique>>>;
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = Number(process.env.INGEST_RETRY_DELAY_MS) || 10_000; // doubles per attempt
+const HEARTBEAT_INTERVAL = 60_000;
+const LOCK_TIMEOUT = 10 * 60_000; // a running job without a heartbeat this long is assumed dead
+const WORKER_POLL_INTERVAL = 2_000;
+const MAX_STORED_CONTENT = 50_000;
+const SPOOL_DIR = path.resolve(process.env.INGEST_SPOOL_DIR || '.ingest-spool');
+// Hosts that suspend or stop the process once a response is sent
+const SERVERLESS = Boolean(process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME || process.env.NETLIFY);
+
+export function toJobEvent(job: IngestJobRow): IngestJobEvent {
+  return {
+    id: job.id,
+    documentId: job.documentId,
+    kind: job.kind as IngestJobKind,
+    status: job.status as IngestJobStatus,
+    progress: job.progress,
+    message: job.message,
+    error: job.error,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
+
+// ─── Enqueue ───────────────────────────────────────────────
+
+/**
+ * Queue a document for processing. With a file, `sourceUrl` (blob storage)
+ * or `buffer` (spooled to local disk) is where the worker reads it from;
+ * without one the document's stored content is enriched and indexed.
+ * `text` is the full text of a document stored cut off at
+ * MAX_STORED_CONTENT; it is spooled so every part of it gets chunked.
+ * A `reembed` job only replaces the document's vectors.
+ */
+export async function enqueueIngestJob(input: {
+  userId: string;
+  documentId: string;
+  kind?: IngestJobKind;
+  filename?: string;
+  mimeType?: string;
+  fileSize?: number;
+  sourceUrl?: string | null;
+  buffer?: Buffer;
+  text?: string;
+}): Promise<IngestJobEvent> {
+  const fullText = !input.buffer && !input.sourceUrl && input.text && input.text.length > MAX_STORED_CONTENT;
+  const buffer = fullText ? Buffer.from(input.text!, 'utf-8') : input.buffer;
+
+  let sourcePath: string | null = null;
+  if (buffer && !input.sourceUrl) {
+    await fs.mkdir(SPOOL_DIR, { recursive: true });
+    sourcePath = path.join(SPOOL_DIR, randomUUID());
+    await fs.writeFile(sourcePath, buffer);
+  }
+
+  const job = await prisma.ingestJob.create({
+    data: {
+      userId: input.userId,
+      documentId: input.documentId,
+      kind: input.kind ?? 'ingest',
+      filename: fullText ? 'document.txt' : input.filename,
+      mimeType: fullText ? 'text/plain' : input.mimeType,
+      fileSize: fullText ? buffer!.length : input.fileSize,
+      sourceUrl: input.sourceUrl || null,
+      sourcePath,
+      maxAttempts: MAX_ATTEMPTS,
+      message: 'Waiting for a worker',
+    },
+  });
+
+  kickIngestWorker();
+  return toJobEvent(job);
+}
+
+/**
+ * Queue a re-embedding job for each of the user's documents with vectors
+ * from another embedding model. Documents with a job already queued or
+ * running are skipped: that job embeds with the current model anyway.
+ */
+export async function enqueueReembedJobs(userId: string): Promise<{ model: string; documentsChecked: number; jobs: IngestJobEvent[] }> {
+  const plan = await findDocumentsToReembed(userId);
+  const active = await prisma.ingestJob.findMany({
+    where: { documentId: { in: plan.documentIds }, status: { in: ACTIVE_JOB_STATUSES } },
+    select: { documentId: true },
+  });
+  const busy = new Set(active.map((job) => job.documentId));
+
+  const jobs: IngestJobEvent[] = [];
+  for (const documentId of plan.documentIds) {
+    if (!busy.has(documentId)) jobs.push(await enqueueIngestJob({ userId, documentId, kind: 'reembed' }));
+  }
+  console.log(`[Reembed] Queued ${jobs.length}/${plan.documentsChecked} documents for re-embedding with ${plan.model}`);
+  return { model: plan.model, documentsChecked: plan.documentsChecked, jobs };
+}
+
+/** The job currently queued or running for a document, if any */
+export async function findActiveJob(documentId: string): Promise<IngestJobEvent | null> {
+  const job = await prisma.ingestJob.findFirst({
+    where: { documentId, status: { in: ACTIVE_JOB_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  });
+  return job ? toJobEvent(job) : null;
+}
+
+// ─── Processing ────────────────────────────────────────────
+
+async function setStage(jobId: string, status: IngestJobStatus, progress: number, message: string) {
+  await prisma.ingestJob.update({
+    where: { id: jobId },
+    // lockedAt doubles as the worker heartbeat
+    data: { status, progress, message, lockedAt: new Date() },
+  });
+}
+
+async function readSource(job: IngestJobRow): Promise<Buffer> {
+  if (job.sourcePath) return fs.readFile(job.sourcePath);
+  const response = await fetch(job.sourceUrl!);
+  if (!response.ok) throw new Error(`Could not download the uploaded file (${response.status})`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+function extractionMessage(mimeType: string): string {
+  if (mimeType.startsWith('audio/') || mimeType.startsWith('video/')) return 'Transcribing audio';
+  if (mimeType.startsWith('image/')) return 'Reading text from image';
+  if (mimeType === 'application/pdf') return 'Extracting text (scanned pages are OCRed)';
+  if (isSpreadsheetFile('', mimeType)) return 'Reading sheets';
+  if (mimeType === 'message/rfc822' || mimeType === 'application/mbox') return 'Reading emails and attachments';
+  return 'Extracting text';
+}
+
+async function runReembedJob(job: IngestJobRow): Promise<void> {
+  // Local-only mode may have been switched on since the job was queued
+  if (!canEmbedFor(await getUserSettings(job.userId))) {
+    await finishJob(job, 'failed', 'Re-embedding skipped', LOCAL_EMBEDDING_MISSING);
+    return;
+  }
+  await setStage(job.id, 'indexing', 50, 'Re-embedding with the new model');
+  const chunks = await reembedDocument(job.documentId, job.userId);
+  await finishJob(job, 'done', `Re-embedded (${chunks} chunks)`);
+}
+
+async function runJob(job: IngestJobRow): Promise<void> {
+  if (job.kind === 'reembed') return runReembedJob(job);
+
+  const doc = await prisma.document.findUnique({ where: { id: job.documentId } });
+  if (!doc) throw new Error('Document no longer exists');
+
+  const settings = await getUserSettings(job.userId);
+  const provider = settings.aiProcessing ? getChatProviderFor(settings) : null;
+  const external = allowsExternalServices(settings);
+
+  // 1. Extract text from the uploaded file
+  let content = doc.content;
+  if (job.sourceUrl || job.sourcePath) {
+    const filename = job.filename || doc.title;
+    const mimeType = job.mimeType || '';
+    await setStage(job.id, 'extracting', 10, extractionMessage(mimeType));
+
+    const buffer = await readSource(job);
+    const extracted: ExtractedText = isTextFile(filename, mimeType)
+      ? { text: buffer.toString('utf-8'), ocr: [] }
+      : await extractTextFromFile(filename, buffer, mimeType, { external });
+    content = extracted.text.replace(/\x00/g, '').trim();
+
+    if (content.length < 20) {
+      console.log(`[Ingest] Text extraction yielded too little content for ${filename}`);
+      content = filePlaceholder(filename, mimeType, job.fileSize ?? buffer.length);
+    }
+
+    // Flag OCR-derived text and keep each page's confidence for the viewer
+    const ocrPages = extracted.ocr.map(({ page, confidence, engine, error }) => ({ page, confidence, engine, error }));
+    // A parsed title (an email subject) replaces the file name, not a title the user chose
+    const title = extracted.title && doc.title === filename ? extracted.title.slice(0, 190) : doc.title;
+    await prisma.document.update({
+      where: { id: doc.id },
+      data: {
+        title,
+        content: content.slice(0, MAX_STORED_CONTENT),
+        ocr: ocrPages.length > 0,
+        ocrPages: ocrPages.length > 0 ? JSON.stringify(ocrPages) : null,
+        ...(extracted.metadata ? { metadata: JSON.stringify(extracted.metadata) } : {}),
+      },
+    });
+
+    // Email senders and recipients join the graph whether or not AI processing is on
+    if (extracted.people?.length) await addPeopleToGraph(doc.id, title, job.userId, extracted.people);
+    if (extracted.documents?.length) await storeSplitDocuments(doc, job.userId, extracted.documents);
+
+    // Spreadsheets keep every row, typed, for the table expert to compute over
+    if (extracted.tables) {
+      await prisma.documentTable.deleteMany({ where: { documentId: doc.id } });
+      for (const table of extracted.tables) {
+        await prisma.documentTable.create({
+          data: {
+            documentId: doc.id,
+            userId: job.userId,
+            name: table.name,
+            columns: JSON.stringify(table.columns),
+            rows: JSON.stringify(table.rows),
+            rowCount: table.rows.length,
+          },
+        });
+      }
+    }
+  }
+
+  if (content.length <= 20 || content.startsWith('[File:')) {
+    await finishJob(job, 'done', 'No text could be extracted');
+    return;
+  }
+
+  // 2. Summaries, entities, key points and graph nodes
+  let summary: string | null = null;
+  if (provider) {
+    await setStage(job.id, 'enriching', 40, 'Summarizing and extracting entities');
+    summary = await enrichDocument(doc.id, content, job.userId, { provider, external });
+  } else {
+    console.log(`[Ingest] Skipping AI for document ${doc.id} (${settings.aiProcessing ? 'no local chat model' : 'disabled in settings'}), indexing only`);
+  }
+
+  // 3. Chunks, embeddings, vector and lexical indexes
+  await setStage(job.id, 'indexing', 75, 'Indexing for search');
+  const fromSource = Boolean(job.sourceUrl || job.sourcePath);
+  const existing =
+    !fromSource && content.length >= MAX_STORED_CONTENT ? await prisma.documentChunk.count({ where: { documentId: doc.id } }) : 0;
+  if (existing > 0) {
+    // The stored text stops at MAX_STORED_CONTENT: chunking it again would lose
+    // every chunk past that point, so the chunks from the full text are kept
+    if (canEmbedFor(settings)) await embedDocument(doc.id, content, summary);
+    console.log(`[Ingest] Kept ${existing} chunks of document ${doc.id}; its stored text is truncated`);
+    await finishJob(job, 'done', 'Processed (existing chunks kept)');
+    return;
+  }
+  await indexDocumentForSearch(doc.id, content, job.userId, { summary, embed: canEmbedFor(settings) });
+
+  await finishJob(job, 'done', provider ? 'Processed' : 'Indexed (AI processing off)');
+}
+
+/**
+ * Further documents found in the file (the other threads of a mailbox) are
+ * stored next to it and queued for enrichment and indexing of their own.
+ * Threads already split off by an earlier attempt are not stored twice.
+ */
+async function storeSplitDocuments(parent: DocumentRow, userId: string, parts: ExtractedText[]): Promise<void> {
+  for (const part of parts) {
+    const text = part.text.replace(/\x00/g, '').trim();
+    if (text.length <= 20) continue;
+
+    const threadId = part.metadata?.threadId;
+    if (typeof threadId === 'string') {
+      const existing = await prisma.document.findFirst({
+        where: { userId, metadata: { contains: JSON.stringify(threadId) } },
+        select: { id: true },
+      });
+      if (existing) continue;
+    }
+
+    const document = await prisma.document.create({
+      data: {
+        userId,
+        title: (part.title || parent.title).slice(0, 190),
+        content: text.slice(0, MAX_STORED_CONTENT),
+        contentType: parent.contentType,
+        domain: parent.domain,
+        fileUrl: parent.fileUrl,
+        fileType: parent.fileType,
+        metadata: part.metadata ? JSON.stringify(part.metadata) : null,
+      },
+    });
+    if (part.people?.length) await addPeopleToGraph(document.id, document.title, userId, part.people);
+    await enqueueIngestJob({ userId, documentId: document.id, text });
+  }
+  console.log(`[Ingest] Split ${parts.length} more documents out of ${parent.title}`);
+}
+
+async function finishJob(job: IngestJobRow, status: 'done' | 'failed', message: string, error?: string) {
+  await prisma.ingestJob.update({
+    where: { id: job.id },
+    data: { status, progress: status === 'done' ? 100 : job.progress, message, error: error ?? null, lockedAt: null },
+  });
+  if (job.sourcePath) await fs.rm(job.sourcePath, { force: true }).catch(() => {});
+}
+
+// Refresh the lock while a stage runs, so a long OCR or transcription is not taken for a dead worker
+function startHeartbeat(jobId: string): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    prisma.ingestJob
+      .updateMany({ where: { id: jobId, status: { in: RUNNING_STATUSES } }, data: { lockedAt: new Date() } })
+      .catch((err) => console.error(`[IngestJob] Heartbeat failed for ${jobId}:`, err?.message || err));
+  }, HEARTBEAT_INTERVAL);
+  timer.unref();
+  return timer;
+}
+
+async function runIngestJob(job: IngestJobRow): Promise<void> {
+  const start = Date.now();
+  const heartbeat = startHeartbeat(job.id);
+  try {
+    await runJob(job);
+    console.log(`[IngestJob] ✅ ${job.id} (document ${job.documentId}) done in ${Date.now() - start}ms`);
+  } catch (err: any) {
+    const error = err?.message || String(err);
+    console.error(`[IngestJob] ❌ ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed:`, error);
+    try {
+      if (job.attempts >= job.maxAttempts || error === 'Document no longer exists') {
+        await finishJob(job, 'failed', 'Processing failed', error);
+        return;
+      }
+      const delay = RETRY_BASE_DELAY * 2 ** (job.attempts - 1);
+      await prisma.ingestJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'queued',
+          error,
+          message: `Retrying in ${Math.round(delay / 1000)}s`,
+          runAfter: new Date(Date.now() + delay),
+          lockedAt: null,
+        },
+      });
+    } catch (updateErr) {
+      // The job row is gone with its document
+      console.error(`[IngestJob] Could not record failure for ${job.id}:`, updateErr);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// ─── Worker ────────────────────────────────────────────────
+
+/**
+ * Claim the oldest due job. Jobs stuck in a running stage past the lock
+ * timeout are requeued first (their worker died), or failed when they have
+ * no attempts left.
+ */
+async function claimNextJob(): Promise<IngestJobRow | null> {
+  const now = new Date();
+  await prisma.ingestJob.updateMany({
+    where: { status: { in: RUNNING_STATUSES }, lockedAt: { lt: new Date(now.getTime() - LOCK_TIMEOUT) } },
+    data: { status: 'queued', lockedAt: null, message: 'Worker stopped responding, requeued' },
+  });
+
+  for (;;) {
+    const candidate = await prisma.ingestJob.findFirst({
+      where: { status: 'queued', runAfter: { lte: now } },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!candidate) return null;
+
+    if (candidate.attempts >= candidate.maxAttempts) {
+      await finishJob(candidate, 'failed', 'Processing failed', candidate.error || 'Too many attempts');
+      continue;
+    }
+
+    // Conditional update: only one worker wins the job
+    const { count } = await prisma.ingestJob.updateMany({
+      where: { id: candidate.id, status: 'queued' },
+      data: { status: 'extracting', progress: 5, lockedAt: now, attempts: { increment: 1 }, message: 'Starting' },
+    });
+    if (count === 1) return { ...candidate, status: 'extracting', attempts: candidate.attempts + 1 };
+  }
+}
+
+/** Run due jobs one at a time until the queue is empty. Returns how many ran. */
+export async function drainIngestQueue(): Promise<number> {
+  let processed = 0;
+  for (let job = await claimNextJob(); job; job = await claimNextJob()) {
+    await runIngestJob(job);
+    processed++;
+  }
+  return processed;
+}
+
+let draining = false;
+let wakeTimer: NodeJS.Timeout | null = null;
+let warnedServerless = false;
+
+/**
+ * Start draining the queue in this process unless a dedicated worker is
+ * configured. Safe to call often: at most one drain loop runs at a time.
+ */
+export function kickIngestWorker(): void {
+  if ((process.env.INGEST_WORKER || 'inline').toLowerCase() === 'external' || draining) return;
+  if (SERVERLESS && !warnedServerless) {
+    warnedServerless = true;
+    console.warn(
+      '[IngestJob] Running jobs inline on a serverless host: they stall whenever the function is suspended. Set INGEST_WORKER=external and run `npm run worker:ingest` as a long-lived process.'
+    );
+  }
+  draining = true;
+
+  drainIngestQueue()
+    .then(scheduleNextRetry)
+    .catch((err) => console.error('[IngestJob] Worker error:', err))
+    .finally(() => {
+      draining = false;
+    });
+}
+
+// Jobs waiting out a retry backoff: wake up when the next one is due
+async function scheduleNextRetry(): Promise<void> {
+  const next = await prisma.ingestJob.findFirst({
+    where: { status: 'queued' },
+    orderBy: { runAfter: 'asc' },
+    select: { runAfter: true },
+  });
+  if (!next) return;
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    kickIngestWorker();
+  }, Math.max(0, next.runAfter.getTime() - Date.now()) + 100);
+}
+
+/** Long-running worker loop for `npm run worker:ingest` */
+export async function runIngestWorker(signal?: AbortSignal): Promise<void> {
+  console.log('[IngestJob] Worker started');
+  while (!signal?.aborted) {
+    try {
+      await drainIngestQueue();
+    } catch (err) {
+      console.error('[IngestJob] Worker error:', err);
+    }
+    await new Promise((resolve) => setTimeout(resolve, WORKER_POLL_INTERVAL));
+  }
+  console.log('[IngestJob] Worker stopped');
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import './experts';
+import { classifyIntent, parseRoutingResponse, routeQuery } from './intent-router';
+import { createMockChatProvider, type ChatProvider } from './llm';
+
+describe('parseRoutingResponse', () => {
+  it('reads the decision out of surrounding prose', () => {
+    const response = `Sure, here is the routing:
+{"experts": ["search", "table"], "queries": {"knowledge": " Q3 spend ", "search": "EUR USD rate", "table": "total spend Q3"}, "confidence": 0.8}`;
+    expect(parseRoutingResponse(response, 'small-model')).toEqual({
+      experts: ['knowledge', 'search', 'table'],
+      queries: { knowledge: 'Q3 spend', search: 'EUR USD rate', table: 'total spend Q3' },
+      confidence: 0.8,
+      method: 'llm',
+      model: 'small-model',
+    });
+  });
+
+  it('drops unknown and duplicate experts and their queries', () => {
+    const decision = parseRoutingResponse(
+      '{"experts": ["search", "weather", "search", 42], "queries": {"weather": "rain", "youtube": "not chosen"}}'
+    );
+    expect(decision?.experts).toEqual(['knowledge', 'search']);
+    expect(decision?.queries).toEqual({});
+  });
+
+  it('clamps the confidence and defaults it when missing', () => {
+    expect(parseRoutingResponse('{"experts": [], "confidence": 3}')?.confidence).toBe(1);
+    expect(parseRoutingResponse('{"experts": [], "confidence": -1}')?.confidence).toBe(0);
+    expect(parseRoutingResponse('{"experts": [], "confidence": "high"}')?.confidence).toBe(0.5);
+  });
+
+  it('truncates long rewritten queries', () => {
+    const decision = parseRoutingResponse(JSON.stringify({ experts: [], queries: { knowledge: 'x'.repeat(500) } }));
+    expect(decision?.queries.knowledge).toHaveLength(300);
+  });
+
+  it('returns null for anything that is not a decision', () => {
+    expect(parseRoutingResponse('I think you need a web search.')).toBeNull();
+    expect(parseRoutingResponse('{"experts": ["search",}')).toBeNull();
+    expect(parseRoutingResponse('{"experts": "search"}')).toBeNull();
+  });
+});
+
+describe('classifyIntent', () => {
+  it('always includes the knowledge expert', () => {
+    expect(classifyIntent('hello there')).toEqual(['knowledge']);
+  });
+
+  it('routes spreadsheet calculations to the table expert', () => {
+    expect(classifyIntent('total spend by category in my expenses sheet')).toContain('table');
+  });
+
+  it('routes video requests to the youtube expert', () => {
+    expect(classifyIntent('find a video about sourdough')).toContain('youtube');
+  });
+
+  it('routes summaries to the summarize expert', () => {
+    expect(classifyIntent('give me the key points of the board memo')).toContain('summarize');
+  });
+
+  it('adds web search to questions and leaves vault lookups alone', () => {
+    expect(classifyIntent('is pluto a planet?')).toEqual(['knowledge', 'search']);
+    expect(classifyIntent('pull up my notes on pluto')).toEqual(['knowledge']);
+  });
+});
+
+describe('routeQuery', () => {
+  it('uses the decision the chat model returns', async () => {
+    const provider: ChatProvider = {
+      ...createMockChatProvider(),
+      smallModel: 'mock-small',
+      chat: async () => '{"experts": ["table"], "queries": {"table": "Q3 total"}, "confidence": 0.9}',
+    };
+    expect(await routeQuery('what did we spend in Q3?', provider)).toEqual({
+      experts: ['knowledge', 'table'],
+      queries: { table: 'Q3 total' },
+      confidence: 0.9,
+      method: 'llm',
+      model: 'mock-small',
+    });
+  });
+
+  it('falls back to the rules when the mock provider answers in prose', async () => {
+    const decision = await routeQuery('find a video about sourdough', createMockChatProvider());
+    expect(decision.method).toBe('rules');
+    expect(decision.experts).toEqual(classifyIntent('find a video about sourdough'));
+  });
+
+  it('falls back to the rules when the chat model fails', async () => {
+    const provider: ChatProvider = {
+      ...createMockChatProvider(),
+      chat: async () => {
+        throw new Error('503 Service Unavailable');
+      },
+    };
+    expect((await routeQuery('hello', provider)).method).toBe('rules');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Intent Router
+ *
+ * Decides which experts a message needs. A small chat model returns a
+ * structured decision — the experts to run, a rewritten query for each one
+ * and a confidence — and the keyword/regex rules are used whenever the model
+ * is unavailable, slow or returns something unparseable.
+ *
+ * The knowledge expert always runs (vault retrieval is the basis of every
+ * answer), so routing only chooses between the registered experts that
+ * describe themselves to the router (search, youtube, summarize, table, ...).
+ */
+
+import { getChatProvider, type ChatProvider } from './llm';
+import { withTimeout } from './utils';
+import type { ExpertType } from './agents';
+import { getRoutableExperts } from './experts/registry';
+
+export interface RoutingDecision {
+  experts: ExpertType[];
+  /** Rewritten query per expert; experts without one use the original message */
+  queries: Partial<Record<ExpertType, string>>;
+  confidence: number;
+  method: 'llm' | 'rules';
+  model?: string;
+}
+
+const ROUTER_MODEL = process.env.ROUTER_MODEL;
+const ROUTER_TIMEOUT = 8_000;
+
+// ─── Rule-based classifier (fallback) ──────────────────────
+
+const SEARCH_PATTERNS = [
+  /\b(search|find|look up|google|what is|who is|latest|current|news|when did|where is|how to)\b/i,
+  /\b(tell me about|explain|define|meaning of|definition)\b/i,
+  /\?([\s]*$)/,
+];
+
+const YOUTUBE_PATTERNS = [
+  /\b(youtube|video|watch|tutorial|lecture|course|playlist)\b/i,
+  /\b(show me a video|find a video|video about|video on|video for)\b/i,
+  /\b(how to .+ video|learn .+ video)\b/i,
+];
+
+const SUMMARIZE_PATTERNS = [
+  /\b(summarize|summary|brief|overview|recap|tldr|tl;dr)\b/i,
+  /\b(what does .+ say|key points|main ideas|highlight)\b/i,
+];
+
+const TABLE_PATTERNS = [
+  /\b(total|sum|average|avg|mean|median|how many|how much|count|maximum|minimum|highest|lowest)\b/i,
+  /\b(spend|spent|revenue|sales|per (month|quarter|year|category)|by (month|quarter|year|category)|breakdown)\b/i,
+  /\b(spreadsheet|csv|excel|xlsx|sheet|column)\b/i,
+];
+
+const KNOWLEDGE_PATTERNS = [
+  /\b(my document|my notes|my file|uploaded|in my vault|knowledge base|my .+ says)\b/i,
+  /\b(from my|according to my|in my|remember when)\b/i,
+];
+
+export function classifyIntent(message: string): ExpertType[] {
+  const intents: ExpertType[] = [];
+  const lowerMsg = message.toLowerCase();
+
+  // Always include knowledge lookup
+  intents.push('knowledge');
+
+  // Check for YouTube intent
+  if (YOUTUBE_PATTERNS.some((p) => p.test(message))) {
+    intents.push('youtube');
+  }
+
+  // Check for web search intent
+  if (SEARCH_PATTERNS.some((p) => p.test(message))) {
+    intents.push('search');
+  }
+
+  // Check for summarization intent
+  if (SUMMARIZE_PATTERNS.some((p) => p.test(message))) {
+    intents.push('summarize');
+  }
+
+  // Check for calculations over spreadsheets
+  if (TABLE_PATTERNS.some((p) => p.test(message))) {
+    intents.push('table');
+  }
+
+  // If only knowledge was added and it's a general question, add search too
+  if (
+    intents.length === 1 &&
+    !KNOWLEDGE_PATTERNS.some((p) => p.test(message)) &&
+    lowerMsg.includes('?')
+  ) {
+    intents.push('search');
+  }
+
+  return Array.from(new Set(intents));
+}
+
+export function routeByRules(message: string): RoutingDecision {
+  return {
+    experts: classifyIntent(message),
+    queries: {},
+    confidence: 0.5,
+    method: 'rules',
+  };
+}
+
+// ─── LLM router ────────────────────────────────────────────
+
+function routerPrompt(): string {
+  const experts = getRoutableExperts()
+    .map((e) => `- "${e.id}": ${e.description}`)
+    .join('\n');
+
+  return `You route questions for a personal knowledge assistant. The user's own documents are always searched. Decide which EXTRA experts are needed:
+${experts}
+
+Use no extra experts for greetings, chit-chat, or simple lookups in the user's own notes/documents (calculations over their spreadsheets still need "table").
+For each expert you choose, rewrite the message into a short, self-contained query for that expert. Always include a "knowledge" query for the document search.
+
+Return ONLY JSON:
+{"experts": ["search"], "queries": {"knowledge": "...", "search": "..."}, "confidence": 0.0-1.0}`;
+}
+
+export function parseRoutingResponse(response: string, model?: string): RoutingDecision | null {
+  const match = response.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed?.experts)) return null;
+
+  const routable = getRoutableExperts().map((e) => e.id);
+  const experts = parsed.experts.filter((e: unknown): e is ExpertType =>
+    typeof e === 'string' && routable.includes(e)
+  );
+
+  const queries: Partial<Record<ExpertType, string>> = {};
+  for (const expert of ['knowledge', ...experts] as ExpertType[]) {
+    const query = parsed.queries?.[expert];
+    if (typeof query === 'string' && query.trim()) queries[expert] = query.trim().slice(0, 300);
+  }
+
+  const confidence = Number(parsed.confidence);
+  return {
+    experts: ['knowledge', ...Array.from(new Set<ExpertType>(experts))],
+    queries,
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+    method: 'llm',
+    model,
+  };
+}
+
+/**
+ * Route a message to experts. Uses the LLM router when ROUTER is not "rules"
+ * and a chat provider is configured, otherwise (or on any failure) the regex rules.
+ */
+export async function routeQuery(message: string, provider: ChatProvider = getChatProvider()): Promise<RoutingDecision> {
+  if ((process.env.ROUTER || 'llm').toLowerCase() === 'rules' || !provider.configured) {
+    return routeByRules(message);
+  }
+
+  // The provider's small model keeps routing fast; its default model otherwise
+  const model = ROUTER_MODEL || provider.smallModel;
+  try {
+    const response = await withTimeout(
+      provider.chat({
+        messages: [
+          { role: 'system', content: routerPrompt() },
+          { role: 'user', content: message.slice(0, 2000) },
+        ],
+        model,
+        maxTokens: 300,
+        temperature: 0,
+      }),
+      ROUTER_TIMEOUT,
+      'Router'
+    );
+    const decision = parseRoutingResponse(response, model || provider.id);
+    if (decision) return decision;
+    console.error('[Router] Unparseable routing response, using rules:', response.slice(0, 200));
+  } catch (err: any) {
+    console.error('[Router] LLM routing failed, using rules:', err?.message || err);
+  }
+  return routeByRules(message);
+}
@@ -0,0 +1,126 @@
+/**
+ * Lexical Index
+ *
+ * Per-user BM25 index (see ./bm25) over document chunks, plus whole documents
+ * that predate chunking. Persisted to LEXICAL_INDEX_DIR and rebuilt from the
+ * database on first use; the indexing pipeline keeps it in step at ingest
+ * and delete time. The in-memory copy is reloaded whenever the file changes,
+ * so writes from the ingest worker or another server instance show up.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import prisma from './prisma';
+import { Bm25Index, type Bm25Match, type SerializedBm25 } from './bm25';
+
+export interface LexicalRecord {
+  id: string;
+  documentId: string;
+  text: string;
+}
+
+const INDEX_DIR = process.env.LEXICAL_INDEX_DIR || path.join(process.cwd(), '.lexical-index');
+
+// Each loaded index with the version of the file it was read from
+const loaded = new Map<string, { index: Promise<Bm25Index>; version: string }>();
+
+function indexFile(userId: string): string {
+  return path.join(INDEX_DIR, `${userId}.json`);
+}
+
+// Modification time and size; empty when there is no file yet
+async function fileVersion(userId: string): Promise<string> {
+  try {
+    const stat = await fs.stat(indexFile(userId));
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return '';
+  }
+}
+
+async function bootstrapFromDatabase(userId: string): Promise<Bm25Index> {
+  const index = new Bm25Index();
+
+  const chunks = await prisma.documentChunk.findMany({
+    where: { userId },
+    select: { id: true, documentId: true, content: true, document: { select: { title: true } } },
+  });
+  for (const chunk of chunks) {
+    index.add(chunk.id, chunk.documentId, `${chunk.document.title}\n${chunk.content}`);
+  }
+
+  // Documents processed before chunking existed are indexed as a whole
+  const documents = await prisma.document.findMany({
+    where: { userId, chunks: { none: {} } },
+    select: { id: true, title: true, content: true, summary: true },
+  });
+  for (const doc of documents) {
+    index.add(doc.id, doc.id, [doc.title, doc.summary, doc.content].filter(Boolean).join('\n'));
+  }
+
+  console.log(`[LexicalIndex] Bootstrapped index for user ${userId} with ${index.size} entries`);
+  return index;
+}
+
+async function save(userId: string, index: Bm25Index) {
+  try {
+    const file = indexFile(userId);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(index.serialize()));
+    await fs.rename(tmp, file);
+    // Our own write is not a reason to reload
+    const cached = loaded.get(userId);
+    if (cached) cached.version = await fileVersion(userId);
+  } catch (err) {
+    // Persistence is an optimisation — the index can always be rebuilt from the database
+    console.error('[LexicalIndex] Failed to persist index:', err);
+  }
+}
+
+async function load(userId: string): Promise<Bm25Index> {
+  try {
+    const raw = await fs.readFile(indexFile(userId), 'utf-8');
+    return Bm25Index.deserialize(JSON.parse(raw) as SerializedBm25);
+  } catch {
+    const index = await bootstrapFromDatabase(userId);
+    await save(userId, index);
+    return index;
+  }
+}
+
+async function getIndex(userId: string): Promise<Bm25Index> {
+  const version = await fileVersion(userId);
+  const cached = loaded.get(userId);
+  if (cached && cached.version === version) return cached.index;
+
+  // First use, or another process saved a newer index
+  const index = load(userId).catch((err) => {
+    loaded.delete(userId);
+    throw err;
+  });
+  loaded.set(userId, { index, version });
+  return index;
+}
+
+/** Replace every entry of a document with the given records */
+export async function replaceDocumentInLexicalIndex(
+  userId: string,
+  documentId: string,
+  records: LexicalRecord[]
+): Promise<void> {
+  const index = await getIndex(userId);
+  index.removeDocument(documentId);
+  for (const record of records) index.add(record.id, record.documentId, record.text);
+  await save(userId, index);
+}
+
+export async function removeDocumentFromLexicalIndex(userId: string, documentId: string): Promise<void> {
+  const index = await getIndex(userId);
+  if (index.removeDocument(documentId) > 0) await save(userId, index);
+}
+
+export async function searchLexical(userId: string, query: string, k: number): Promise<Bm25Match[]> {
+  const index = await getIndex(userId);
+  return index.search(query, k);
+}
@@ -0,0 +1,449 @@
+/**
+ * Chat Providers
+ *
+ * Pluggable chat-completion backends behind one interface, selected with
+ * CHAT_PROVIDER:
+ * - nvidia      → NVIDIA NIM (llama-3.3-70b with fallbacks)
+ * - huggingface → HuggingFace Inference API (Mistral-7B, Zephyr fallback)
+ * - openai      → any OpenAI-compatible /v1/chat/completions endpoint
+ *                 (OpenAI, Ollama, vLLM, LM Studio...) — runs fully on-prem
+ * - mock        → deterministic canned answers, no network (offline tests)
+ *
+ * All hosted backends speak the OpenAI wire format, so they share one
+ * implementation of requests, timeouts, model fallback and SSE streaming.
+ */
+
+import { hfFetchWithRetry } from './huggingface';
+import { isPrivateUrl } from './utils';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  /** Preferred model; the provider's own models are tried after it */
+  model?: string;
+}
+
+// ─── Tool calling (OpenAI-style function calling) ──────────
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>; // JSON Schema
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type ToolChatMessage =
+  | ChatMessage
+  | { role: 'assistant'; content: string | null; tool_calls: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface ToolChatOptions {
+  messages: ToolChatMessage[];
+  tools: ToolDefinition[];
+  /** "none" forces a plain answer, e.g. once the step limit is reached */
+  toolChoice?: 'auto' | 'none';
+  maxTokens?: number;
+  temperature?: number;
+  model?: string;
+}
+
+export interface ChatProvider {
+  /** Provider name, e.g. "nvidia" or "openai" */
+  id: string;
+  /** Whether the credentials / endpoint this provider needs are set */
+  configured: boolean;
+  /** True when prompts never leave the machine or private network */
+  local: boolean;
+  /** Models tried in order when no model is requested */
+  models: string[];
+  /** Small, fast model for light tasks such as routing, if the provider has one */
+  smallModel?: string;
+  chat(options: ChatOptions): Promise<string>;
+  /** SSE stream of `data: {"content": "..."}` events terminated by `data: [DONE]` */
+  chatStream(options: ChatOptions): Promise<ReadableStream<Uint8Array>>;
+  chatWithTools(options: ToolChatOptions): Promise<{ content: string; toolCalls: ToolCall[] }>;
+}
+
+const REQUEST_TIMEOUT = 45_000; // 45 seconds
+
+// ─── OpenAI wire format ────────────────────────────────────
+
+type Fetcher = (url: string, init: RequestInit, timeoutMs: number) => Promise<Response>;
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+interface WireConfig {
+  id: string;
+  /** Label used in logs and errors, e.g. "NVIDIA API" */
+  label: string;
+  url: string;
+  apiKey?: string;
+  /** Requests fail fast with this message when set (missing credentials) */
+  missingConfig?: string;
+  models: string[];
+  smallModel?: string;
+  timeoutMs?: number;
+  local?: boolean;
+  fetcher?: Fetcher;
+}
+
+function createWireProvider(config: WireConfig): ChatProvider {
+  const { id, label, url, apiKey, missingConfig, models, smallModel } = config;
+  const timeoutMs = config.timeoutMs ?? REQUEST_TIMEOUT;
+  const fetcher = config.fetcher ?? fetchWithTimeout;
+
+  const headers = (accept: string) => ({
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    'Content-Type': 'application/json',
+    Accept: accept,
+  });
+
+  /** Try each model in turn until one returns a usable completion message */
+  async function complete(
+    body: Record<string, unknown>,
+    model: string | undefined,
+    accept: (message: any) => boolean
+  ): Promise<any> {
+    if (missingConfig) throw new Error(missingConfig);
+
+    const modelsToTry = model ? [model, ...models.filter((m) => m !== model)] : models;
+    let lastError: Error | null = null;
+
+    for (const currentModel of modelsToTry) {
+      try {
+        const response = await fetcher(
+          url,
+          {
+            method: 'POST',
+            headers: headers('application/json'),
+            body: JSON.stringify({ model: currentModel, ...body, stream: false }),
+          },
+          timeoutMs
+        );
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error(`[LLM] ${label} error (${currentModel}):`, response.status, error.slice(0, 500));
+          lastError = new Error(`${label} error: ${response.status}`);
+          continue; // try next model
+        }
+
+        const data = await response.json();
+        const message = data.choices?.[0]?.message;
+        if (!message || !accept(message)) {
+          lastError = new Error('Empty response from AI');
+          continue;
+        }
+        return message;
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error(`[LLM] Model ${currentModel} failed:`, msg);
+        lastError = err instanceof Error ? err : new Error(msg);
+        continue; // try next model
+      }
+    }
+
+    throw lastError || new Error('All AI models failed');
+  }
+
+  return {
+    id,
+    configured: !missingConfig,
+    local: config.local ?? false,
+    models,
+    smallModel,
+
+    async chat({ messages, maxTokens = 4096, temperature = 0.7, model }) {
+      const message = await complete(
+        { messages, max_tokens: maxTokens, temperature, top_p: 1.0 },
+        model,
+        (m) => !!m.content
+      );
+      return message.content;
+    },
+
+    async chatWithTools({ messages, tools, toolChoice = 'auto', maxTokens = 2048, temperature = 0.3, model }) {
+      const message = await complete(
+        { messages, tools, tool_choice: toolChoice, max_tokens: maxTokens, temperature, top_p: 1.0 },
+        model,
+        (m) => !!m.content || (m.tool_calls?.length ?? 0) > 0
+      );
+      return { content: message.content || '', toolCalls: message.tool_calls || [] };
+    },
+
+    async chatStream({ messages, maxTokens = 4096, temperature = 0.7, model }) {
+      if (missingConfig) throw new Error(missingConfig);
+
+      const response = await fetcher(
+        url,
+        {
+          method: 'POST',
+          headers: headers('text/event-stream'),
+          body: JSON.stringify({
+            model: model || models[0],
+            messages,
+            max_tokens: maxTokens,
+            temperature,
+            top_p: 1.0,
+            stream: true,
+          }),
+        },
+        timeoutMs
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`${label} stream error ${response.status}: ${error}`);
+      }
+      if (!response.body) {
+        throw new Error('No response body for streaming');
+      }
+      return reencodeStream(response.body);
+    },
+  };
+}
+
+/**
+ * Convert an upstream OpenAI-style SSE stream into the app's own
+ * `{content}` events, buffering lines that are split across reads.
+ */
+function reencodeStream(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffered = '';
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+          return;
+        }
+
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          const data = line.slice(6).trim();
+          if (data === '[DONE]') {
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            controller.close();
+            reader.cancel().catch(() => {});
+            return;
+          }
+          try {
+            const parsed = JSON.parse(data);
+            const content = parsed.choices?.[0]?.delta?.content;
+            if (content) {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`));
+            }
+          } catch {
+            // skip unparseable chunks
+          }
+        }
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    cancel() {
+      reader.cancel();
+    },
+  });
+}
+
+// ─── NVIDIA ────────────────────────────────────────────────
+
+export function createNvidiaChatProvider(): ChatProvider {
+  const apiKey = process.env.NVIDIA_API_KEY;
+  return createWireProvider({
+    id: 'nvidia',
+    label: 'NVIDIA API',
+    url: 'https://integrate.api.nvidia.com/v1/chat/completions',
+    apiKey,
+    missingConfig: apiKey ? undefined : 'NVIDIA_API_KEY is not configured',
+    // Primary model (fast, reliable) with fallbacks
+    models: [
+      'meta/llama-3.3-70b-instruct',
+      'meta/llama-3.1-70b-instruct',
+      'mistralai/mistral-large-2-instruct',
+    ],
+    smallModel: 'meta/llama-3.1-8b-instruct',
+  });
+}
+
+// ─── HuggingFace ───────────────────────────────────────────
+
+export function createHuggingFaceChatProvider(): ChatProvider {
+  const apiKey = process.env.HUGGINGFACE_API_KEY;
+  return createWireProvider({
+    id: 'huggingface',
+    label: 'HF API',
+    url: 'https://api-inference.huggingface.co/v1/chat/completions',
+    apiKey,
+    missingConfig: apiKey ? undefined : 'HUGGINGFACE_API_KEY is not configured',
+    models: ['mistralai/Mistral-7B-Instruct-v0.3', 'HuggingFaceH4/zephyr-7b-beta'],
+    timeoutMs: 60_000, // free tier models may need cold-start time
+    // HF returns 503 while a model is loading — wait and retry
+    fetcher: (url, init, timeoutMs) => hfFetchWithRetry(url, init, 2, timeoutMs),
+  });
+}
+
+// ─── OpenAI-compatible (Ollama, vLLM, LM Studio...) ────────
+
+export function createOpenAICompatibleChatProvider(): ChatProvider {
+  const baseUrl = (process.env.OPENAI_CHAT_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const apiKey = process.env.OPENAI_CHAT_API_KEY || process.env.OPENAI_API_KEY;
+  const models = (process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini')
+    .split(',')
+    .map((m) => m.trim())
+    .filter(Boolean);
+  return createWireProvider({
+    id: 'openai',
+    label: 'OpenAI-compatible API',
+    url: `${baseUrl}/chat/completions`,
+    apiKey,
+    // Local servers usually need no key; only the hosted default does
+    missingConfig:
+      apiKey || process.env.OPENAI_CHAT_BASE_URL ? undefined : 'OPENAI_CHAT_BASE_URL or OPENAI_API_KEY is not configured',
+    models,
+    smallModel: process.env.OPENAI_CHAT_SMALL_MODEL,
+    local: isPrivateUrl(baseUrl),
+    timeoutMs: Number(process.env.OPENAI_CHAT_TIMEOUT_MS) || 120_000, // local models on CPU are slow
+  });
+}
+
+// ─── Mock (deterministic, offline) ─────────────────────────
+
+/**
+ * Answer without any model: prompts asking for a JSON array get "[]", all
+ * others get an echo of the last user message. The same input always yields
+ * the same output, so offline runs and tests are reproducible.
+ */
+function mockAnswer(messages: { role: string; content?: string | null }[]): string {
+  const system = messages.find((m) => m.role === 'system')?.content || '';
+  if (/JSON array/i.test(system)) return '[]';
+
+  const lastUser = [...messages].reverse().find((m) => m.role === 'user')?.content || '';
+  const firstLine = lastUser.trim().split('\n')[0].slice(0, 200);
+  return `Mock response: ${firstLine}`;
+}
+
+export function createMockChatProvider(): ChatProvider {
+  return {
+    id: 'mock',
+    configured: true,
+    local: true,
+    models: ['mock'],
+
+    async chat({ messages }) {
+      return mockAnswer(messages);
+    },
+
+    async chatWithTools({ messages }) {
+      return { content: mockAnswer(messages), toolCalls: [] };
+    },
+
+    async chatStream({ messages }) {
+      const encoder = new TextEncoder();
+      const words = mockAnswer(messages).match(/\S+\s*/g) || [];
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const content of words) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`));
+          }
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        },
+      });
+    },
+  };
+}
+
+// ─── Provider selection ────────────────────────────────────
+
+const providers = new Map<string, ChatProvider>();
+
+function createChatProvider(name: string): ChatProvider {
+  switch (name) {
+    case 'huggingface':
+      return createHuggingFaceChatProvider();
+    case 'openai':
+      return createOpenAICompatibleChatProvider();
+    case 'mock':
+      return createMockChatProvider();
+    case 'nvidia':
+    default:
+      return createNvidiaChatProvider();
+  }
+}
+
+/**
+ * Resolve a chat provider by name, or the configured one from CHAT_PROVIDER
+ * (nvidia | huggingface | openai | mock). Without CHAT_PROVIDER the first
+ * backend with credentials wins: NVIDIA, then an OpenAI-compatible endpoint
+ * (OPENAI_CHAT_BASE_URL), then HuggingFace.
+ */
+export function getChatProvider(name?: string): ChatProvider {
+  const choice =
+    name ||
+    (process.env.CHAT_PROVIDER || '').toLowerCase() ||
+    (process.env.NVIDIA_API_KEY
+      ? 'nvidia'
+      : process.env.OPENAI_CHAT_BASE_URL
+        ? 'openai'
+        : process.env.HUGGINGFACE_API_KEY
+          ? 'huggingface'
+          : 'nvidia');
+
+  let provider = providers.get(choice);
+  if (!provider) {
+    provider = createChatProvider(choice);
+    providers.set(choice, provider);
+  }
+  return provider;
+}
+
+export function isChatConfigured(): boolean {
+  return getChatProvider().configured;
+}
+
+// ─── Convenience wrappers (configured provider) ────────────
+
+export function chat(options: ChatOptions): Promise<string> {
+  return getChatProvider().chat(options);
+}
+
+export function chatStream(options: ChatOptions): Promise<ReadableStream<Uint8Array>> {
+  return getChatProvider().chatStream(options);
+}
+
+export function chatWithTools(options: ToolChatOptions): Promise<{ content: string; toolCalls: ToolCall[] }> {
+  return getChatProvider().chatWithTools(options);
+}
@@ -0,0 +1,218 @@
+/**
+ * Media Splitting
+ *
+ * The hosted Whisper endpoint rejects large uploads, so long recordings are
+ * cut into parts before transcription, each tagged with the second it starts
+ * at so segment timestamps can be shifted back onto the full recording.
+ *
+ * - ffmpeg (if installed, or FFMPEG_PATH): any audio/video → 16kHz mono MP3
+ *   parts of WHISPER_SEGMENT_SECONDS each; also strips video tracks
+ * - WAV: PCM data split on sample-frame boundaries, header rewritten per part
+ * - MP3: split on frame boundaries; offsets from walking the frame headers
+ * - anything else is sent whole
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export interface MediaPart {
+  buffer: Buffer;
+  mimeType: string;
+  /** Second of the original recording this part starts at */
+  offsetSeconds: number;
+}
+
+const MAX_PART_BYTES = (Number(process.env.WHISPER_MAX_UPLOAD_MB) || 10) * 1024 * 1024;
+const SEGMENT_SECONDS = Number(process.env.WHISPER_SEGMENT_SECONDS) || 600;
+const FFMPEG_TIMEOUT = 5 * 60_000;
+
+// ─── ffmpeg ────────────────────────────────────────────────
+
+function runFfmpeg(args: string[]): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn(process.env.FFMPEG_PATH || 'ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+    let missing = false;
+    const timer = setTimeout(() => child.kill('SIGKILL'), FFMPEG_TIMEOUT);
+    child.stderr.on('data', (data) => (stderr += data.toString()));
+    child.on('error', () => {
+      // ENOENT — ffmpeg is not installed
+      missing = true;
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code !== 0 && !missing) console.error(`[Media] ffmpeg exited with ${code}: ${stderr.slice(-500)}`);
+      resolve(code === 0 && !missing);
+    });
+  });
+}
+
+async function splitWithFfmpeg(buffer: Buffer, extension: string): Promise<MediaPart[] | null> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+  try {
+    const input = path.join(dir, `input.${extension || 'bin'}`);
+    await fs.writeFile(input, buffer);
+    const ok = await runFfmpeg([
+      '-hide_banner', '-loglevel', 'error', '-i', input,
+      '-vn', '-ac', '1', '-ar', '16000', '-b:a', '48k',
+      '-f', 'segment', '-segment_time', String(SEGMENT_SECONDS), '-reset_timestamps', '1',
+      path.join(dir, 'part%04d.mp3'),
+    ]);
+    if (!ok) return null;
+
+    const names = (await fs.readdir(dir)).filter((name) => name.startsWith('part')).sort();
+    const parts: MediaPart[] = [];
+    for (let i = 0; i < names.length; i++) {
+      parts.push({
+        buffer: await fs.readFile(path.join(dir, names[i])),
+        mimeType: 'audio/mpeg',
+        offsetSeconds: i * SEGMENT_SECONDS,
+      });
+    }
+    return parts.length > 0 ? parts : null;
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+// ─── WAV ───────────────────────────────────────────────────
+
+function splitWav(buffer: Buffer): MediaPart[] | null {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') return null;
+
+  let fmt: Buffer | null = null;
+  let dataStart = -1;
+  let dataSize = 0;
+  for (let pos = 12; pos + 8 <= buffer.length; ) {
+    const id = buffer.toString('ascii', pos, pos + 4);
+    const size = buffer.readUInt32LE(pos + 4);
+    if (id === 'fmt ') fmt = buffer.subarray(pos, pos + 8 + size);
+    if (id === 'data') {
+      dataStart = pos + 8;
+      dataSize = Math.min(size, buffer.length - dataStart);
+      break;
+    }
+    pos += 8 + size + (size % 2);
+  }
+  if (!fmt || dataStart < 0) return null;
+
+  const byteRate = fmt.readUInt32LE(16);
+  const blockAlign = fmt.readUInt16LE(20) || 1;
+  if (!byteRate) return null;
+
+  const partData = Math.max(blockAlign, Math.floor((MAX_PART_BYTES - fmt.length - 20) / blockAlign) * blockAlign);
+  const parts: MediaPart[] = [];
+  for (let offset = 0; offset < dataSize; offset += partData) {
+    const data = buffer.subarray(dataStart + offset, dataStart + Math.min(offset + partData, dataSize));
+    const header = Buffer.alloc(12);
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(4 + fmt.length + 8 + data.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    const dataHeader = Buffer.alloc(8);
+    dataHeader.write('data', 0, 'ascii');
+    dataHeader.writeUInt32LE(data.length, 4);
+    parts.push({
+      buffer: Buffer.concat([header, fmt, dataHeader, data]),
+      mimeType: 'audio/wav',
+      offsetSeconds: offset / byteRate,
+    });
+  }
+  return parts;
+}
+
+// ─── MP3 ───────────────────────────────────────────────────
+
+const MP3_BITRATES = {
+  v1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+// Length and duration of the Layer III frame starting at pos, or null if there is none
+function readMp3Frame(buffer: Buffer, pos: number): { length: number; seconds: number } | null {
+  if (pos + 4 > buffer.length || buffer[pos] !== 0xff || (buffer[pos + 1] & 0xe0) !== 0xe0) return null;
+  const version = (buffer[pos + 1] >> 3) & 0x03;
+  const layer = (buffer[pos + 1] >> 1) & 0x03;
+  const bitrateIndex = buffer[pos + 2] >> 4;
+  const rateIndex = (buffer[pos + 2] >> 2) & 0x03;
+  const padding = (buffer[pos + 2] >> 1) & 0x01;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const bitrate = (version === 3 ? MP3_BITRATES.v1 : MP3_BITRATES.v2)[bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][rateIndex];
+  const samples = version === 3 ? 1152 : 576;
+  return {
+    length: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding,
+    seconds: samples / sampleRate,
+  };
+}
+
+function splitMp3(buffer: Buffer): MediaPart[] | null {
+  let pos = 0;
+  // Skip an ID3v2 tag (its size is a 28-bit syncsafe integer)
+  if (buffer.toString('ascii', 0, 3) === 'ID3' && buffer.length > 10) {
+    pos = 10 + ((buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9]);
+  }
+
+  const parts: MediaPart[] = [];
+  let partStart = pos;
+  let partOffset = 0;
+  let elapsed = 0;
+  while (pos < buffer.length) {
+    const frame = readMp3Frame(buffer, pos);
+    if (!frame) {
+      pos++; // resync on junk between frames
+      continue;
+    }
+    if (pos - partStart + frame.length > MAX_PART_BYTES && pos > partStart) {
+      parts.push({ buffer: buffer.subarray(partStart, pos), mimeType: 'audio/mpeg', offsetSeconds: partOffset });
+      partStart = pos;
+      partOffset = elapsed;
+    }
+    pos += frame.length;
+    elapsed += frame.seconds;
+  }
+  if (elapsed === 0) return null;
+  parts.push({ buffer: buffer.subarray(partStart, Math.min(pos, buffer.length)), mimeType: 'audio/mpeg', offsetSeconds: partOffset });
+  return parts;
+}
+
+// ─── Public API ────────────────────────────────────────────
+
+/** Cut a recording into parts small enough for the Whisper endpoint */
+export async function splitMediaForTranscription(
+  buffer: Buffer,
+  mimeType: string,
+  extension: string
+): Promise<MediaPart[]> {
+  const isVideo = mimeType.startsWith('video/');
+  // Video is worth transcoding even when small: the audio track alone is a fraction of the upload
+  if (buffer.length > MAX_PART_BYTES || isVideo) {
+    const parts = await splitWithFfmpeg(buffer, extension);
+    if (parts) {
+      console.log(`[Media] ffmpeg split ${(buffer.length / 1024 / 1024).toFixed(1)} MB into ${parts.length} parts`);
+      return parts;
+    }
+  }
+  if (buffer.length <= MAX_PART_BYTES) return [{ buffer, mimeType, offsetSeconds: 0 }];
+
+  const parts =
+    extension === 'wav' || mimeType === 'audio/wav' || mimeType === 'audio/x-wav'
+      ? splitWav(buffer)
+      : extension === 'mp3' || mimeType === 'audio/mpeg'
+        ? splitMp3(buffer)
+        : null;
+  if (parts) {
+    console.log(`[Media] Split ${(buffer.length / 1024 / 1024).toFixed(1)} MB into ${parts.length} parts`);
+    return parts;
+  }
+
+  console.warn(`[Media] Cannot split ${mimeType || extension} without ffmpeg; sending the whole file`);
+  return [{ buffer, mimeType, offsetSeconds: 0 }];
+}
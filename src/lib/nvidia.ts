@@ -1,28 +1,11 @@
+import { getChatProvider, type ChatProvider } from './llm';
+import { EXTRACTED_RELATIONS, isExtractedRelation } from './graph';
+
 const NVIDIA_API_URL = 'https://integrate.api.nvidia.com/v1/chat/completions';
 const NVIDIA_API_KEY = process.env.NVIDIA_API_KEY;
 
-// Primary model (fast, reliable) with fallbacks
-const MODELS = [
-  'meta/llama-3.3-70b-instruct',
-  'meta/llama-3.1-70b-instruct',
-  'mistralai/mistral-large-2-instruct',
-];
-
 const REQUEST_TIMEOUT = 45_000; // 45 seconds
 
-interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-interface ChatOptions {
-  messages: ChatMessage[];
-  maxTokens?: number;
-  temperature?: number;
-  stream?: boolean;
-  model?: string;
-}
-
 async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
@@ -34,163 +17,9 @@ async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: numbe
   }
 }
 
-export async function nvidiaChat(options: ChatOptions): Promise<string> {
-  const {
-    messages,
-    maxTokens = 4096,
-    temperature = 0.7,
-    model,
-  } = options;
-
-  if (!NVIDIA_API_KEY) {
-    throw new Error('NVIDIA_API_KEY is not configured');
-  }
-
-  const modelsToTry = model ? [model, ...MODELS] : MODELS;
-  let lastError: Error | null = null;
-
-  for (const currentModel of modelsToTry) {
-    try {
-      const response = await fetchWithTimeout(
-        NVIDIA_API_URL,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${NVIDIA_API_KEY}`,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          },
-          body: JSON.stringify({
-            model: currentModel,
-            messages,
-            max_tokens: maxTokens,
-            temperature,
-            top_p: 1.0,
-            stream: false,
-          }),
-        },
-        REQUEST_TIMEOUT,
-      );
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error(`NVIDIA API error (${currentModel}):`, response.status, error);
-        lastError = new Error(`NVIDIA API error: ${response.status}`);
-        continue; // try next model
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content;
-      if (!content) {
-        lastError = new Error('Empty response from AI');
-        continue;
-      }
-      return content;
-    } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : String(err);
-      console.error(`Model ${currentModel} failed:`, msg);
-      lastError = err instanceof Error ? err : new Error(msg);
-      continue; // try next model
-    }
-  }
-
-  throw lastError || new Error('All AI models failed');
-}
-
-// Streaming chat — returns a ReadableStream of SSE chunks
-export async function nvidiaChatStream(options: ChatOptions): Promise<ReadableStream<Uint8Array>> {
-  const {
-    messages,
-    maxTokens = 4096,
-    temperature = 0.7,
-    model,
-  } = options;
-
-  if (!NVIDIA_API_KEY) {
-    throw new Error('NVIDIA_API_KEY is not configured');
-  }
-
-  const currentModel = model || MODELS[0];
-
-  const response = await fetchWithTimeout(
-    NVIDIA_API_URL,
-    {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${NVIDIA_API_KEY}`,
-        'Content-Type': 'application/json',
-        'Accept': 'text/event-stream',
-      },
-      body: JSON.stringify({
-        model: currentModel,
-        messages,
-        max_tokens: maxTokens,
-        temperature,
-        top_p: 1.0,
-        stream: true,
-      }),
-    },
-    REQUEST_TIMEOUT,
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`NVIDIA API stream error ${response.status}: ${error}`);
-  }
-
-  if (!response.body) {
-    throw new Error('No response body for streaming');
-  }
-
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-  const reader = response.body.getReader();
-
-  return new ReadableStream<Uint8Array>({
-    async pull(controller) {
-      try {
-        const { done, value } = await reader.read();
-        if (done) {
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
-          return;
-        }
-
-        const text = decoder.decode(value, { stream: true });
-        const lines = text.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim();
-            if (data === '[DONE]') {
-              controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-              controller.close();
-              return;
-            }
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`));
-              }
-            } catch {
-              // skip unparseable chunks
-            }
-          }
-        }
-      } catch (err) {
-        controller.error(err);
-      }
-    },
-    cancel() {
-      reader.cancel();
-    },
-  });
-}
-
-export async function generateSummary(text: string): Promise<string> {
+export async function generateSummary(text: string, provider: ChatProvider = getChatProvider()): Promise<string> {
   const truncated = text.slice(0, 6000);
-  return nvidiaChat({
+  return provider.chat({
     messages: [
       {
         role: 'system',
@@ -208,15 +37,18 @@ export interface TypedEntity {
   type: 'concept' | 'entity' | 'idea';
 }
 
-export async function extractEntities(text: string): Promise<string[]> {
-  const typed = await extractEntitiesWithTypes(text);
+export async function extractEntities(text: string, provider?: ChatProvider): Promise<string[]> {
+  const typed = await extractEntitiesWithTypes(text, provider);
   return typed.map(e => e.name);
 }
 
-export async function extractEntitiesWithTypes(text: string): Promise<TypedEntity[]> {
+export async function extractEntitiesWithTypes(
+  text: string,
+  provider: ChatProvider = getChatProvider()
+): Promise<TypedEntity[]> {
   const truncated = text.slice(0, 4000);
   try {
-    const response = await nvidiaChat({
+    const response = await provider.chat({
       messages: [
         {
           role: 'system',
@@ -252,10 +84,70 @@ No explanations, no markdown.`,
   }
 }
 
-export async function extractKeyPoints(text: string): Promise<string[]> {
+export interface ExtractedRelation {
+  source: string;
+  target: string;
+  relation: string;
+}
+
+/**
+ * Relationships the text states between the given entities, typed with the
+ * graph's relation vocabulary. Names are matched back to the entity list, so
+ * every relation connects two known entities.
+ */
+export async function extractRelations(
+  text: string,
+  entities: { name: string }[],
+  provider: ChatProvider = getChatProvider()
+): Promise<ExtractedRelation[]> {
+  if (entities.length < 2) return [];
   const truncated = text.slice(0, 4000);
+  const names = new Map(entities.map((e) => [e.name.toLowerCase(), e.name]));
+  const relationTypes = Object.entries(EXTRACTED_RELATIONS).map(([type, meaning]) => `- "${type}": ${meaning}`).join('\n');
   try {
-    const response = await nvidiaChat({
+    const response = await provider.chat({
+      messages: [
+        {
+          role: 'system',
+          content: `Find the relationships the text states (or clearly implies) between these entities:
+${entities.map((e) => `- ${e.name}`).join('\n')}
+
+Use only these relation types, read as "source relation target":
+${relationTypes}
+
+Use the entity names exactly as listed. Only include relationships supported by the text.
+Return ONLY a JSON array of objects with "source", "relation" and "target" fields.
+Example: [{"source":"Next.js","relation":"uses","target":"React"}]
+No explanations, no markdown.`,
+        },
+        { role: 'user', content: truncated },
+      ],
+      maxTokens: 1024,
+      temperature: 0.1,
+    });
+
+    const cleaned = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    const parsed = JSON.parse(cleaned);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((r: any) => ({
+        source: names.get(String(r?.source || '').trim().toLowerCase()),
+        target: names.get(String(r?.target || '').trim().toLowerCase()),
+        relation: String(r?.relation || '').trim().toLowerCase().replace(/[\s-]+/g, '_'),
+      }))
+      .filter((r): r is ExtractedRelation =>
+        Boolean(r.source && r.target && r.source !== r.target && isExtractedRelation(r.relation))
+      )
+      .slice(0, 30);
+  } catch {
+    return [];
+  }
+}
+
+export async function extractKeyPoints(text: string, provider: ChatProvider = getChatProvider()): Promise<string[]> {
+  const truncated = text.slice(0, 4000);
+  try {
+    const response = await provider.chat({
       messages: [
         {
           role: 'system',
@@ -291,10 +183,16 @@ export function generateEmbeddingSimple(text: string): number[] {
   return norm > 0 ? embedding.map((v: number) => v / norm) : embedding;
 }
 
+export interface ImageText {
+  text: string;
+  /** The model's own 0–100 rating of how legible the image was, if it gave one */
+  confidence: number | null;
+}
+
 /**
  * Extract text from images using NVIDIA vision API (OCR)
  */
-export async function extractTextFromImage(buffer: Buffer, mimeType: string): Promise<string> {
+export async function extractTextFromImage(buffer: Buffer, mimeType: string): Promise<ImageText> {
   try {
     if (!NVIDIA_API_KEY) {
       throw new Error('NVIDIA_API_KEY is not configured');
@@ -320,7 +218,7 @@ export async function extractTextFromImage(buffer: Buffer, mimeType: string): Pr
               content: [
                 {
                   type: 'text',
-                  text: 'Extract all visible text from this image. Return ONLY the extracted text, no explanations or descriptions. If there is no text, return "No text found".',
+                  text: 'Extract all visible text from this image. Return ONLY the extracted text, no explanations or descriptions. If there is no text, return "No text found". Then, on a final line of its own, write "CONFIDENCE: N" where N (0-100) is how legible the text was and how sure you are of the transcription.',
                 },
                 {
                   type: 'image_url',
@@ -342,12 +240,15 @@ export async function extractTextFromImage(buffer: Buffer, mimeType: string): Pr
     }
 
     const data = await response.json();
-    const extractedText = data.choices?.[0]?.message?.content?.trim() || '';
+    const raw: string = data.choices?.[0]?.message?.content?.trim() || '';
+    const rating = raw.match(/\n?\s*CONFIDENCE:\s*(\d{1,3})\s*%?\s*$/i);
+    const extractedText = (rating ? raw.slice(0, rating.index) : raw).trim();
+    const confidence = rating ? Math.min(100, Number(rating[1])) : null;
 
-    console.log(`[Image OCR] Extracted ${extractedText.length} characters`);
-    return extractedText === 'No text found' ? '' : extractedText;
+    console.log(`[Image OCR] Extracted ${extractedText.length} characters (confidence ${confidence ?? 'n/a'})`);
+    return { text: extractedText === 'No text found' ? '' : extractedText, confidence };
   } catch (err: any) {
     console.error('[Image OCR] Error:', err?.message || err);
-    return '';
+    return { text: '', confidence: null };
   }
 }
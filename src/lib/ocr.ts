@@ -0,0 +1,160 @@
+/**
+ * OCR
+ *
+ * Reads text from images and from scanned PDF pages (rasterized with PDF.js
+ * on @napi-rs/canvas). Two engines:
+ * - vision    — NVIDIA vision model via extractTextFromImage; cloud mode only
+ * - tesseract — tesseract.js, runs in-process; used in local-only mode or
+ *               when OCR_ENGINE=tesseract. Set TESSERACT_LANG_PATH to a folder
+ *               of *.traineddata files for air-gapped installs.
+ *
+ * Every page reports a 0–100 confidence (Tesseract's mean word confidence,
+ * or the vision model's own rating) so OCR-derived text can be flagged.
+ */
+
+import { extractTextFromImage } from './nvidia';
+
+export type OcrEngine = 'vision' | 'tesseract';
+
+export interface OcrPage {
+  page: number;
+  text: string;
+  confidence: number | null;
+  engine: OcrEngine;
+  /** Why the page could not be read, when OCR failed */
+  error?: string;
+}
+
+interface Recognizer {
+  recognize(image: Buffer, mimeType: string): Promise<{ text: string; confidence: number | null }>;
+  close(): Promise<void>;
+}
+
+const RENDER_SCALE = 2; // ~144 dpi for a letter page; enough for body text
+const MAX_OCR_PAGES = Number(process.env.OCR_MAX_PAGES) || 50;
+const TESSERACT_LANGS = process.env.TESSERACT_LANGS || 'eng';
+
+/** Vision in cloud mode when NVIDIA is configured, Tesseract otherwise */
+export function getOcrEngine(external: boolean): OcrEngine {
+  if (!external) return 'tesseract';
+  const configured = process.env.OCR_ENGINE;
+  if (configured === 'vision' || configured === 'tesseract') return configured;
+  return process.env.NVIDIA_API_KEY ? 'vision' : 'tesseract';
+}
+
+// PDF.js 5 calls ArrayBuffer#transferToFixedLength (Node 21+) while rendering;
+// without it Node 20 draws every page blank. The polyfill is only installed
+// while pages are being rendered, and removed again afterwards.
+const NATIVE_TRANSFER = typeof (ArrayBuffer.prototype as any).transferToFixedLength === 'function';
+let transferShimUsers = 0;
+
+function transferToFixedLength(this: ArrayBuffer, length = this.byteLength): ArrayBuffer {
+  const copy = new ArrayBuffer(length);
+  new Uint8Array(copy).set(new Uint8Array(this, 0, Math.min(length, this.byteLength)));
+  return copy;
+}
+
+async function withTransferShim<T>(run: () => Promise<T>): Promise<T> {
+  if (NATIVE_TRANSFER) return run();
+  if (transferShimUsers++ === 0) {
+    Object.defineProperty(ArrayBuffer.prototype, 'transferToFixedLength', {
+      value: transferToFixedLength,
+      configurable: true,
+      writable: true,
+    });
+  }
+  try {
+    return await run();
+  } finally {
+    if (--transferShimUsers === 0) delete (ArrayBuffer.prototype as any).transferToFixedLength;
+  }
+}
+
+// ─── Engines ───────────────────────────────────────────────
+
+async function createRecognizer(engine: OcrEngine): Promise<Recognizer> {
+  if (engine === 'vision') {
+    return {
+      recognize: (image, mimeType) => extractTextFromImage(image, mimeType),
+      close: async () => {},
+    };
+  }
+
+  // One worker per document; loading the language model is the slow part.
+  // tesseract.js never settles createWorker when the language data fails to
+  // load (and without an errorHandler rethrows outside the promise), so the
+  // handler doubles as the load failure signal.
+  const { createWorker } = await import('tesseract.js');
+  let failLoad: (err: unknown) => void = () => {};
+  const loadFailed = new Promise<never>((_, reject) => (failLoad = reject));
+  const worker = await Promise.race([
+    createWorker(TESSERACT_LANGS, 1, {
+      ...(process.env.TESSERACT_LANG_PATH ? { langPath: process.env.TESSERACT_LANG_PATH, gzip: false } : {}),
+      cachePath: process.env.TESSERACT_CACHE_PATH || '.tesseract-cache',
+      errorHandler: (err: unknown) => failLoad(new Error(`Tesseract: ${err}`)),
+    }),
+    loadFailed,
+  ]);
+  return {
+    async recognize(image) {
+      const { data } = await worker.recognize(image);
+      return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+    },
+    close: async () => {
+      await worker.terminate();
+    },
+  };
+}
+
+// ─── Public API ────────────────────────────────────────────
+
+export async function ocrImage(image: Buffer, mimeType: string, engine: OcrEngine): Promise<OcrPage> {
+  const recognizer = await createRecognizer(engine);
+  try {
+    const { text, confidence } = await recognizer.recognize(image, mimeType);
+    return { page: 1, text, confidence, engine };
+  } finally {
+    await recognizer.close();
+  }
+}
+
+/** Rasterize the given 1-based pages of a PDF and OCR them one at a time */
+export function ocrPdfPages(buffer: Buffer, pageNumbers: number[], engine: OcrEngine): Promise<OcrPage[]> {
+  return withTransferShim(() => renderAndRecognize(buffer, pageNumbers, engine));
+}
+
+async function renderAndRecognize(buffer: Buffer, pageNumbers: number[], engine: OcrEngine): Promise<OcrPage[]> {
+  const { createIsomorphicCanvasFactory, getDocumentProxy, renderPageAsImage } = await import('unpdf');
+  const canvasImport = () => import('@napi-rs/canvas');
+  // The document needs the canvas factory too, or PDF.js can't draw the scanned images themselves
+  const CanvasFactory = await createIsomorphicCanvasFactory(canvasImport);
+  const pdf = await getDocumentProxy(new Uint8Array(buffer), { CanvasFactory });
+  const results: OcrPage[] = [];
+  let recognizer: Recognizer | null = null;
+
+  try {
+    recognizer = await createRecognizer(engine);
+    for (const page of pageNumbers.slice(0, MAX_OCR_PAGES)) {
+      try {
+        const png = await renderPageAsImage(pdf, page, {
+          canvasImport,
+          scale: RENDER_SCALE,
+        });
+        const { text, confidence } = await recognizer.recognize(Buffer.from(png), 'image/png');
+        console.log(`[OCR] Page ${page}: ${text.length} chars, confidence ${confidence ?? 'n/a'} (${engine})`);
+        results.push({ page, text, confidence, engine });
+      } catch (err: any) {
+        console.error(`[OCR] Page ${page} failed:`, err?.message || err);
+        results.push({ page, text: '', confidence: 0, engine, error: String(err?.message || err) });
+      }
+    }
+    if (pageNumbers.length > MAX_OCR_PAGES) {
+      console.warn(`[OCR] Stopped after ${MAX_OCR_PAGES} of ${pageNumbers.length} scanned pages (OCR_MAX_PAGES)`);
+    }
+  } finally {
+    await recognizer?.close();
+    await pdf.destroy();
+  }
+
+  return results;
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { emailParser, groupThreads, splitMbox, stripQuoted, type EmailMessage } from './email';
+
+const message = (overrides: Partial<EmailMessage>): EmailMessage => ({
+  messageId: null,
+  parents: [],
+  subject: '',
+  from: null,
+  to: [],
+  cc: [],
+  date: null,
+  body: '',
+  attachments: [],
+  ...overrides,
+});
+
+const subjects = (threads: EmailMessage[][]) => threads.map((thread) => thread.map((m) => m.subject));
+
+describe('splitMbox', () => {
+  it('splits on From separators and unescapes >From lines', () => {
+    const mbox = [
+      'From alice@example.com Wed Mar  6 10:00:00 2024',
+      'Subject: First',
+      '',
+      '>From the top.',
+      '>>From here on, quoted.',
+      '',
+      'From bob@example.com Thu Mar  7 09:15:00 2024',
+      'Subject: Second',
+      '',
+      'From now on this line stays.',
+      '',
+    ].join('\n');
+
+    const messages = splitMbox(Buffer.from(mbox, 'latin1')).map((b) => b.toString('latin1'));
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toBe('Subject: First\n\nFrom the top.\n>From here on, quoted.\n');
+    expect(messages[1]).toBe('Subject: Second\n\nFrom now on this line stays.\n');
+  });
+
+  it('keeps bytes of any charset intact', () => {
+    const body = Buffer.from('Subject: Caf\xe9\n\n\xff\xfe', 'latin1');
+    const mbox = Buffer.concat([Buffer.from('From a@example.com Mon Jan  1 00:00:00 2024\n', 'latin1'), body]);
+    expect(splitMbox(mbox)[0].equals(body)).toBe(true);
+  });
+});
+
+describe('groupThreads', () => {
+  it('threads replies by References and In-Reply-To, oldest first', () => {
+    const threads = groupThreads([
+      message({ messageId: '<3@x>', parents: ['<1@x>', '<2@x>'], subject: 'Re: Budget', date: new Date('2024-03-08') }),
+      message({ messageId: '<9@x>', subject: 'Offsite', date: new Date('2024-03-01') }),
+      message({ messageId: '<1@x>', subject: 'Budget', date: new Date('2024-03-06') }),
+      message({ messageId: '<2@x>', parents: ['<1@x>'], subject: 'Re: Budget', date: new Date('2024-03-07') }),
+    ]);
+    expect(subjects(threads)).toEqual([['Offsite'], ['Budget', 'Re: Budget', 'Re: Budget']]);
+  });
+
+  it('joins messages whose common parent is missing from the mailbox', () => {
+    const threads = groupThreads([
+      message({ messageId: '<2@x>', parents: ['<gone@x>'], subject: 'Re: Plan' }),
+      message({ messageId: '<3@x>', parents: ['<gone@x>'], subject: 'Re: Plan' }),
+    ]);
+    expect(threads).toHaveLength(1);
+  });
+
+  it('matches replies without threading headers by subject', () => {
+    const threads = groupThreads([
+      message({ messageId: '<1@x>', subject: 'Launch date', date: new Date('2024-01-01') }),
+      message({ messageId: '<2@y>', subject: 'RE: Fwd: launch  date', date: new Date('2024-01-02') }),
+      message({ messageId: '<3@z>', subject: 'Launch retro', date: new Date('2024-01-03') }),
+    ]);
+    expect(subjects(threads)).toEqual([['Launch date', 'RE: Fwd: launch  date'], ['Launch retro']]);
+  });
+
+  it('does not merge unrelated messages that share a subject', () => {
+    const threads = groupThreads([
+      message({ messageId: '<1@x>', subject: 'Weekly update' }),
+      message({ messageId: '<2@x>', subject: 'Weekly update' }),
+    ]);
+    expect(threads).toHaveLength(2);
+  });
+});
+
+describe('stripQuoted', () => {
+  it('drops quoted lines and their attribution', () => {
+    const body = ['Sounds good, ship it.', '', 'On Tue, Mar 5, 2024 Alice wrote:', '> Can we ship Friday?', '> Thanks'].join('\n');
+    expect(stripQuoted(body)).toBe('Sounds good, ship it.');
+  });
+
+  it('cuts at an Outlook original message marker', () => {
+    const body = ['Approved.', '', '-----Original Message-----', 'From: Bob', 'Please approve.'].join('\n');
+    expect(stripQuoted(body)).toBe('Approved.');
+  });
+
+  it('keeps "wrote:" lines that are not followed by a quote', () => {
+    expect(stripQuoted('She wrote:\nthe report is done.')).toBe('She wrote:\nthe report is done.');
+  });
+});
+
+describe('emailParser', () => {
+  it('turns an mbox into one document per thread', async () => {
+    const mbox = [
+      'From alice@example.com Wed Mar  6 10:00:00 2024',
+      'From: Alice <alice@example.com>',
+      'To: bob@example.com',
+      'Subject: Budget',
+      'Message-ID: <1@example.com>',
+      'Date: Wed, 6 Mar 2024 10:00:00 +0000',
+      '',
+      'Can we cut travel by 10%?',
+      '',
+      'From bob@example.com Thu Mar  7 09:15:00 2024',
+      'From: Bob <bob@example.com>',
+      'To: alice@example.com',
+      'Subject: Re: Budget',
+      'Message-ID: <2@example.com>',
+      'In-Reply-To: <1@example.com>',
+      'Date: Thu, 7 Mar 2024 09:15:00 +0000',
+      '',
+      'Yes, done.',
+      '',
+      'Alice wrote:',
+      '> Can we cut travel by 10%?',
+      '',
+      'From carol@example.com Fri Mar  8 12:00:00 2024',
+      'From: carol@example.com',
+      'Subject: Lunch',
+      'Message-ID: <3@example.com>',
+      'Date: Fri, 8 Mar 2024 12:00:00 +0000',
+      '',
+      'Tacos?',
+      '',
+    ].join('\n');
+
+    const result = await emailParser.parse({
+      buffer: Buffer.from(mbox),
+      filename: 'inbox.mbox',
+      extension: 'mbox',
+      mimeType: 'application/mbox',
+      external: false,
+    });
+
+    expect(result.title).toBe('Budget');
+    expect(result.metadata).toMatchObject({ threadId: '<1@example.com>', messageCount: 2 });
+    expect(result.text).toContain('## Bob <bob@example.com> — 2024-03-07 09:15 UTC');
+    expect(result.text.match(/Can we cut travel/g)).toHaveLength(1);
+    expect(result.people?.map((p) => p.email)).toEqual(['alice@example.com', 'bob@example.com']);
+    expect(result.documents?.map((d) => d.title)).toEqual(['Lunch']);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Email — .eml messages and .mbox mailboxes, one document per thread.
+ * Messages are grouped by Message-ID / In-Reply-To / References (replies
+ * without those headers by subject), ordered by date and written as one
+ * "## Sender — date" section per message. Attachments go back through
+ * extraction, so a PDF or a forwarded .eml in a thread is read like an
+ * upload of its own.
+ */
+
+import { htmlToMarkdown } from '../web-page';
+import { textResult, type ExtractedPerson, type ExtractedText, type FileParser } from './registry';
+
+interface EmailAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface EmailMessage {
+  messageId: string | null;
+  /** In-Reply-To and References, oldest first */
+  parents: string[];
+  subject: string;
+  from: ExtractedPerson | null;
+  to: ExtractedPerson[];
+  cc: ExtractedPerson[];
+  date: Date | null;
+  body: string;
+  attachments: EmailAttachment[];
+}
+
+const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+const MAX_ATTACHMENT_TEXT = 20_000;
+const REPLY_PREFIX = /^\s*((re|fw|fwd|aw|sv|wg)(\[\d+\])?\s*:\s*)+/i;
+// The "From " separator line of an mbox: "From sender@example.com Wed Mar  6 10:00:00 2024"
+const MBOX_SEPARATOR = /\r?\n(?=From \S+ [^\n]*\d\d:\d\d)/;
+
+function normalizeSubject(subject: string): string {
+  return subject.replace(REPLY_PREFIX, '').replace(/\s+/g, ' ').trim();
+}
+
+function formatPerson(person: ExtractedPerson): string {
+  return person.name && person.name !== person.email ? `${person.name} <${person.email}>` : person.email;
+}
+
+function formatDate(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// ─── Parsing ───────────────────────────────────────────────
+
+/** Split an mbox into raw messages, undoing ">From " escaping */
+export function splitMbox(buffer: Buffer): Buffer[] {
+  // latin1 round-trips every byte; each message's own charset is decoded by the MIME parser
+  return buffer
+    .toString('latin1')
+    .split(MBOX_SEPARATOR)
+    .map((chunk) => chunk.replace(/^\s*From [^\n]*\n/, '').replace(/^>(>*From )/gm, '$1'))
+    .filter((chunk) => chunk.trim())
+    .map((chunk) => Buffer.from(chunk, 'latin1'));
+}
+
+function people(addresses: any[] | undefined): ExtractedPerson[] {
+  const flat = (addresses || []).flatMap((a: any) => (a.group ? a.group : [a]));
+  return flat
+    .filter((a: any) => a.address)
+    .map((a: any) => ({ name: (a.name || '').trim() || a.address, email: String(a.address).toLowerCase() }));
+}
+
+function messageIds(value: string | undefined): string[] {
+  return (value || '').match(/<[^<>\s]+>/g) || [];
+}
+
+async function parseMessage(raw: Buffer): Promise<EmailMessage> {
+  const PostalMime = (await import('postal-mime')).default;
+  const email = await PostalMime.parse(raw, { rfc822Attachments: true, attachmentEncoding: 'arraybuffer' });
+
+  const body = email.text?.trim() || (email.html ? await htmlToMarkdown(email.html) : '');
+  const date = email.date ? new Date(email.date) : null;
+
+  return {
+    messageId: messageIds(email.messageId)[0] || null,
+    parents: Array.from(new Set([...messageIds(email.references), ...messageIds(email.inReplyTo)])),
+    subject: (email.subject || '').trim(),
+    from: people(email.from ? [email.from] : [])[0] || null,
+    to: people(email.to),
+    cc: people(email.cc),
+    date: date && !Number.isNaN(date.getTime()) ? date : null,
+    body,
+    attachments: email.attachments
+      // Inline parts referenced from the HTML are logos and signatures, not attachments
+      .filter((a) => (a.filename || a.mimeType === 'message/rfc822') && !a.related && a.disposition !== 'inline')
+      .map((a) => ({
+        filename: a.filename || 'forwarded.eml',
+        mimeType: a.mimeType,
+        content: Buffer.from(a.content as ArrayBuffer),
+      })),
+  };
+}
+
+// ─── Threading ─────────────────────────────────────────────
+
+/** Group messages into threads (union-find over message ids), oldest message first */
+export function groupThreads(messages: EmailMessage[]): EmailMessage[][] {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(key, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const [ra, rb] = [find(a), find(b)];
+    if (ra !== rb) parent.set(rb, ra);
+  };
+
+  // Replies whose client dropped the threading headers are matched by subject
+  const orphanReplies = new Set(
+    messages.filter((m) => m.parents.length === 0 && REPLY_PREFIX.test(m.subject)).map((m) => normalizeSubject(m.subject).toLowerCase())
+  );
+
+  messages.forEach((message, i) => {
+    const key = `#${i}`;
+    find(key);
+    for (const id of [message.messageId, ...message.parents]) {
+      if (id) union(key, id);
+    }
+    const subject = normalizeSubject(message.subject).toLowerCase();
+    if (message.parents.length === 0 && subject && orphanReplies.has(subject)) union(key, `subject:${subject}`);
+  });
+
+  const threads = new Map<string, EmailMessage[]>();
+  messages.forEach((message, i) => {
+    const root = find(`#${i}`);
+    threads.set(root, [...(threads.get(root) || []), message]);
+  });
+
+  const time = (m: EmailMessage) => m.date?.getTime() ?? 0;
+  return Array.from(threads.values())
+    .map((thread) => thread.sort((a, b) => time(a) - time(b)))
+    .sort((a, b) => time(a[0]) - time(b[0]));
+}
+
+// Earlier messages of a thread are already in it; drop their quoted copies
+export function stripQuoted(body: string): string {
+  const lines = body.split(/\r?\n/);
+  const kept: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^-{2,}\s*Original Message\s*-{2,}/i.test(line)) break;
+    if (/^\s*>/.test(line)) continue;
+    const next = lines.slice(i + 1).find((l) => l.trim());
+    if (/wrote:\s*$/.test(line) && next !== undefined && /^\s*>/.test(next)) continue;
+    kept.push(line);
+  }
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// ─── Output ────────────────────────────────────────────────
+
+async function attachmentText(attachment: EmailAttachment, external: boolean): Promise<string> {
+  if (attachment.content.length > MAX_ATTACHMENT_SIZE) return '';
+  try {
+    // Through extraction (not a parser directly), so any registered format works
+    const { extractTextFromFile } = await import('../extraction');
+    const extracted = await extractTextFromFile(attachment.filename, attachment.content, attachment.mimeType, { external });
+    return extracted.text.replace(/\x00/g, '').trim().slice(0, MAX_ATTACHMENT_TEXT);
+  } catch (err: any) {
+    console.error(`[Email] Could not read attachment ${attachment.filename}:`, err?.message || err);
+    return '';
+  }
+}
+
+async function threadDocument(thread: EmailMessage[], external: boolean): Promise<ExtractedText> {
+  const first = thread[0];
+  const subject = normalizeSubject(first.subject) || '(no subject)';
+
+  const participants = new Map<string, ExtractedPerson>();
+  for (const message of thread) {
+    for (const person of [message.from, ...message.to, ...message.cc]) {
+      if (person && !participants.has(person.email)) participants.set(person.email, person);
+    }
+  }
+
+  const dates = thread.map((m) => m.date).filter((d): d is Date => d !== null);
+  const sections: string[] = [];
+  for (const message of thread) {
+    const heading = [message.from ? formatPerson(message.from) : 'Unknown sender', message.date ? formatDate(message.date) : '']
+      .filter(Boolean)
+      .join(' — ');
+    const headers = [
+      message.to.length > 0 ? `To: ${message.to.map(formatPerson).join(', ')}` : '',
+      message.cc.length > 0 ? `Cc: ${message.cc.map(formatPerson).join(', ')}` : '',
+      normalizeSubject(message.subject) !== normalizeSubject(first.subject) ? `Subject: ${message.subject}` : '',
+    ].filter(Boolean);
+
+    const parts = [`## ${heading}`, headers.join('\n'), thread.length > 1 ? stripQuoted(message.body) : message.body];
+    for (const attachment of message.attachments) {
+      const text = await attachmentText(attachment, external);
+      parts.push(`### Attachment: ${attachment.filename}`, text || `(${attachment.mimeType}, no text extracted)`);
+    }
+    sections.push(parts.filter(Boolean).join('\n\n'));
+  }
+
+  const period = dates.length > 0
+    ? dates.length > 1 && formatDate(dates[0]) !== formatDate(dates[dates.length - 1])
+      ? `${formatDate(dates[0])} – ${formatDate(dates[dates.length - 1])}`
+      : formatDate(dates[0])
+    : '';
+  const header = [
+    `# ${subject}`,
+    [
+      `Participants: ${Array.from(participants.values()).map(formatPerson).join(', ') || 'unknown'}`,
+      `Messages: ${thread.length}${period ? ` (${period})` : ''}`,
+    ].join('\n'),
+  ].join('\n\n');
+
+  return {
+    ...textResult([header, ...sections].join('\n\n')),
+    title: subject,
+    metadata: {
+      threadId: first.messageId || first.parents[0] || null,
+      subject,
+      from: first.from ? formatPerson(first.from) : null,
+      to: first.to.map(formatPerson),
+      cc: first.cc.map(formatPerson),
+      date: dates[0]?.toISOString() ?? null,
+      lastDate: dates[dates.length - 1]?.toISOString() ?? null,
+      messageCount: thread.length,
+      attachments: thread.flatMap((m) => m.attachments.map((a) => a.filename)),
+    },
+    people: Array.from(participants.values()),
+  };
+}
+
+export const emailParser: FileParser = {
+  id: 'email',
+  extensions: ['eml', 'mbox'],
+  mimeTypes: ['message/rfc822', 'application/mbox'],
+
+  async parse({ buffer, filename, extension, mimeType, external }) {
+    try {
+      const raws = extension === 'mbox' || mimeType === 'application/mbox' ? splitMbox(buffer) : [buffer];
+      const messages: EmailMessage[] = [];
+      for (const raw of raws) {
+        try {
+          messages.push(await parseMessage(raw));
+        } catch (err: any) {
+          console.error(`[Email] Skipping unreadable message in ${filename}:`, err?.message || err);
+        }
+      }
+
+      const threads = groupThreads(messages);
+      console.log(`[Email] ${filename}: ${messages.length} messages in ${threads.length} threads`);
+      if (threads.length === 0) return textResult('');
+
+      // The upload becomes the first thread; the rest are split into documents of their own
+      // One at a time: attachments may need OCR or transcription
+      const documents: ExtractedText[] = [];
+      for (const thread of threads) documents.push(await threadDocument(thread, external));
+      const [first, ...rest] = documents;
+      return rest.length > 0 ? { ...first, documents: rest } : first;
+    } catch (err: any) {
+      console.error(`[Email] Parse error for ${filename}:`, err?.message || err);
+      return textResult('');
+    }
+  },
+};
@@ -0,0 +1,123 @@
+/**
+ * EPUB — e-books read chapter by chapter in spine (reading) order. Each
+ * chapter becomes a "## Chapter title" section, titled from the table of
+ * contents (EPUB 3 nav or EPUB 2 NCX) or the chapter's own first heading,
+ * so retrieved passages stay attributable to their chapter.
+ */
+
+import path from 'path';
+import { htmlToMarkdown } from '../web-page';
+import { textResult, type FileParser } from './registry';
+
+interface Chapter {
+  title: string;
+  markdown: string;
+}
+
+function resolveHref(base: string, href: string): string {
+  const target = decodeURIComponent(href.split('#')[0]);
+  return path.posix.normalize(path.posix.join(path.posix.dirname(base), target)).replace(/^\.\//, '');
+}
+
+// Table of contents: chapter file → label (first entry wins for files split by anchors)
+function readToc(doc: any, tocPath: string, isNav: boolean): Map<string, string> {
+  const labels = new Map<string, string>();
+  const entries: [string, string][] = isNav
+    ? (Array.from(doc.querySelectorAll('nav a[href]')) as any[]).map((a) => [a.getAttribute('href'), a.textContent])
+    : (Array.from(doc.querySelectorAll('navPoint')) as any[]).map((point) => [
+      point.querySelector('content')?.getAttribute('src') || '',
+      point.querySelector('navLabel')?.textContent || '',
+    ]);
+  for (const [href, label] of entries) {
+    const file = href ? resolveHref(tocPath, href) : '';
+    const text = (label || '').replace(/\s+/g, ' ').trim();
+    if (file && text && !labels.has(file)) labels.set(file, text);
+  }
+  return labels;
+}
+
+// Push the chapter's headings two levels down, under its "##" section (code blocks untouched)
+function nestHeadings(markdown: string): string {
+  let fenced = false;
+  return markdown
+    .split('\n')
+    .map((line) => {
+      if (/^(```|~~~)/.test(line)) fenced = !fenced;
+      if (fenced) return line;
+      return line.replace(/^(#{1,6}) /, (_, hashes: string) => `${'#'.repeat(Math.min(6, hashes.length + 2))} `);
+    })
+    .join('\n');
+}
+
+async function readChapters(buffer: Buffer): Promise<{ title: string; author: string; chapters: Chapter[] }> {
+  const [JSZip, { DOMParser, parseHTML }] = await Promise.all([import('jszip').then((m) => m.default), import('linkedom')]);
+  const zip = await JSZip.loadAsync(buffer);
+  const read = (file: string) => zip.file(file)?.async('text') ?? Promise.resolve('');
+  const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'text/xml');
+
+  const container = parseXml(await read('META-INF/container.xml'));
+  const opfPath = container.querySelector('rootfile')?.getAttribute('full-path');
+  if (!opfPath) throw new Error('No rootfile in META-INF/container.xml');
+  const opf = parseXml(await read(opfPath));
+
+  const title = opf.querySelector('dc\\:title')?.textContent?.trim() || '';
+  const author = opf.querySelector('dc\\:creator')?.textContent?.trim() || '';
+
+  const manifest = new Map<string, { href: string; type: string; properties: string }>();
+  for (const item of Array.from(opf.querySelectorAll('manifest item')) as any[]) {
+    manifest.set(item.getAttribute('id'), {
+      href: resolveHref(opfPath, item.getAttribute('href') || ''),
+      type: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || '',
+    });
+  }
+
+  const nav = Array.from(manifest.values()).find((item) => item.properties.split(/\s+/).includes('nav'));
+  const ncxId = opf.querySelector('spine')?.getAttribute('toc');
+  const ncx = ncxId ? manifest.get(ncxId) : Array.from(manifest.values()).find((item) => item.type === 'application/x-dtbncx+xml');
+  const toc = nav
+    ? readToc(parseHTML(await read(nav.href)).document, nav.href, true)
+    : ncx
+      ? readToc(parseXml(await read(ncx.href)), ncx.href, false)
+      : new Map<string, string>();
+
+  const chapters: Chapter[] = [];
+  for (const ref of Array.from(opf.querySelectorAll('spine itemref')) as any[]) {
+    const item = manifest.get(ref.getAttribute('idref'));
+    if (!item || item === nav || ref.getAttribute('linear') === 'no' || !/html/.test(item.type)) continue;
+
+    const { document } = parseHTML(await read(item.href));
+    let markdown = await htmlToMarkdown(document.querySelector('body')?.innerHTML || '');
+    if (!markdown) continue;
+
+    const firstHeading = markdown.match(/^#{1,3} (.+)$/m)?.[1]?.trim();
+    const chapterTitle = toc.get(item.href) || firstHeading || document.querySelector('title')?.textContent?.trim() || `Chapter ${chapters.length + 1}`;
+    // The chapter usually opens with its own title; don't repeat it under the section heading
+    const opening = markdown.match(/^#{1,6} (.+)\n*/);
+    if (opening && opening[1].trim().toLowerCase() === chapterTitle.toLowerCase()) markdown = markdown.slice(opening[0].length);
+    markdown = nestHeadings(markdown);
+
+    chapters.push({ title: chapterTitle, markdown: markdown.trim() });
+  }
+
+  return { title, author, chapters };
+}
+
+export const epubParser: FileParser = {
+  id: 'epub',
+  extensions: ['epub'],
+  mimeTypes: ['application/epub+zip'],
+
+  async parse({ buffer, filename }) {
+    try {
+      const { title, author, chapters } = await readChapters(buffer);
+      console.log(`[EPUB] ${filename}: "${title}", ${chapters.length} chapters`);
+      const header = [title && `# ${title}`, author && `By: ${author}`].filter(Boolean).join('\n\n');
+      const body = chapters.map((c) => `## ${c.title}\n\n${c.markdown}`).join('\n\n');
+      return textResult([header, body].filter(Boolean).join('\n\n'));
+    } catch (err: any) {
+      console.error(`[EPUB] Parse error for ${filename}:`, err?.message || err);
+      return textResult('');
+    }
+  },
+};
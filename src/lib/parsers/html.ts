@@ -0,0 +1,37 @@
+/**
+ * HTML files — the whole body as markdown (headings, lists, tables, links
+ * kept; scripts and styles dropped). Unlike saved web pages, no Readability
+ * pass: a local HTML file is usually the document itself, not an article
+ * wrapped in navigation.
+ */
+
+import { htmlToMarkdown } from '../web-page';
+import { textResult, type FileParser } from './registry';
+
+// Honour a <meta charset> for legacy files; UTF-8 otherwise
+function decodeHtml(buffer: Buffer): string {
+  const head = buffer.subarray(0, 2048).toString('latin1');
+  const charset = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1]?.toLowerCase();
+  if (!charset || charset === 'utf-8' || charset === 'utf8') return buffer.toString('utf-8');
+  try {
+    return new TextDecoder(charset).decode(buffer);
+  } catch {
+    return buffer.toString('utf-8');
+  }
+}
+
+export const htmlParser: FileParser = {
+  id: 'html',
+  extensions: ['html', 'htm', 'xhtml'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+
+  async parse({ buffer }) {
+    const { parseHTML } = await import('linkedom');
+    const { document } = parseHTML(decodeHtml(buffer));
+    const title = document.querySelector('title')?.textContent?.trim() || '';
+    const markdown = await htmlToMarkdown(document.querySelector('body')?.innerHTML || document.toString());
+    // Keep the page title unless the body already opens with it
+    const opensWithTitle = title && markdown.replace(/^#+\s*/, '').startsWith(title);
+    return textResult(title && !opensWithTitle ? `# ${title}\n\n${markdown}` : markdown);
+  },
+};
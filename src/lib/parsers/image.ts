@@ -0,0 +1,17 @@
+/**
+ * Images — OCR with the vision model, or Tesseract in local-only mode.
+ */
+
+import { getOcrEngine, ocrImage } from '../ocr';
+import type { FileParser } from './registry';
+
+export const imageParser: FileParser = {
+  id: 'image',
+  extensions: ['png', 'jpg', 'jpeg', 'gif', 'webp'],
+  mimeTypes: ['image/'],
+
+  async parse({ buffer, mimeType, extension, external }) {
+    const page = await ocrImage(buffer, mimeType || `image/${extension}`, getOcrEngine(external));
+    return { text: page.text, ocr: [page] };
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * Built-in file parsers. To support a new format, create a module exporting
+ * a `FileParser` and register it here — extraction and the upload route pick
+ * it up without further changes.
+ */
+
+import { registerParser } from './registry';
+import { pdfParser } from './pdf';
+import { docxParser, pptxParser } from './office';
+import { odtParser, odpParser } from './opendocument';
+import { epubParser } from './epub';
+import { rtfParser } from './rtf';
+import { htmlParser } from './html';
+import { emailParser } from './email';
+import { spreadsheetParser } from './spreadsheet';
+import { imageParser } from './image';
+import { audioParser, videoParser } from './media';
+
+registerParser(pdfParser);
+registerParser(docxParser);
+registerParser(pptxParser);
+registerParser(odtParser);
+registerParser(odpParser);
+registerParser(epubParser);
+registerParser(rtfParser);
+registerParser(htmlParser);
+registerParser(emailParser);
+registerParser(spreadsheetParser);
+registerParser(imageParser);
+registerParser(audioParser);
+registerParser(videoParser);
+
+export { registerParser, getParsers, findParser } from './registry';
+export type { ExtractedPerson, ExtractedText, FileParser, ParserInput } from './registry';
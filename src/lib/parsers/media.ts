@@ -0,0 +1,74 @@
+/**
+ * Audio and video — HuggingFace Whisper, split into parts for long
+ * recordings, as a "[m:ss]"-marked transcript.
+ */
+
+import { hfTranscribeAudio, isHuggingFaceConfigured } from '../huggingface';
+import { splitMediaForTranscription } from '../media-split';
+import { formatTranscript, type TranscriptSegment } from '../transcripts';
+import { textResult, type FileParser } from './registry';
+
+// Whisper each part of a recording and shift its timestamps onto the full
+// timeline; returns a "[m:ss]"-marked transcript, or plain text if the model
+// gave no timestamps
+async function transcribeMedia(buffer: Buffer, mimeType: string, ext: string): Promise<string> {
+  const parts = await splitMediaForTranscription(buffer, mimeType, ext);
+  const segments: TranscriptSegment[] = [];
+  // A part without Whisper timestamps still has a known start when the file was split
+  let timed = parts.length > 1;
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (parts.length > 1) console.log(`[Whisper] Part ${i + 1}/${parts.length} at ${Math.round(part.offsetSeconds)}s`);
+    const result = await hfTranscribeAudio(part.buffer, part.mimeType);
+    const text = result.text.trim();
+    const partSegments = result.segments.length > 0 ? result.segments : text ? [{ start: 0, end: 0, text }] : [];
+    timed ||= result.segments.length > 0;
+    segments.push(
+      ...partSegments.map((seg) => ({ ...seg, start: seg.start + part.offsetSeconds, end: seg.end + part.offsetSeconds }))
+    );
+  }
+
+  return timed ? formatTranscript(segments) : segments.map((seg) => seg.text).join('\n\n');
+}
+
+export const audioParser: FileParser = {
+  id: 'audio',
+  extensions: ['mp3', 'wav', 'm4a', 'ogg', 'flac', 'aac', 'wma'],
+  mimeTypes: ['audio/'],
+
+  async parse({ buffer, filename, mimeType, extension, external }) {
+    console.log(`[Audio] Transcribing ${filename} with Whisper...`);
+    if (external && isHuggingFaceConfigured()) {
+      const transcript = await transcribeMedia(buffer, mimeType || 'audio/mpeg', extension);
+      if (transcript.length > 10) {
+        console.log(`[Audio] ✅ Transcribed ${transcript.length} chars`);
+        return textResult(`[Meeting/Audio Transcript: ${filename}]\n\n${transcript}`);
+      }
+    }
+    console.log(`[Audio] Whisper not available or failed`);
+    return textResult('');
+  },
+};
+
+export const videoParser: FileParser = {
+  id: 'video',
+  extensions: ['mp4', 'webm', 'mkv', 'avi', 'mov', 'wmv', 'm4v'],
+  mimeTypes: ['video/'],
+
+  async parse({ buffer, filename, mimeType, extension, external }) {
+    console.log(`[Video] Processing ${filename} (${(buffer.length / 1024 / 1024).toFixed(1)} MB)...`);
+    if (external && isHuggingFaceConfigured()) {
+      // Whisper on HF servers can handle video containers (extracts audio internally)
+      const audioMime =
+        extension === 'mp4' ? 'video/mp4' : extension === 'webm' ? 'video/webm' : mimeType || 'video/mp4';
+      const transcript = await transcribeMedia(buffer, audioMime, extension);
+      if (transcript.length > 10) {
+        console.log(`[Video] ✅ Transcribed ${transcript.length} chars from video`);
+        return textResult(`[Meeting/Video Transcript: ${filename}]\n\n${transcript}`);
+      }
+    }
+    console.log(`[Video] Whisper not available or failed`);
+    return textResult('');
+  },
+};
@@ -0,0 +1,51 @@
+/**
+ * Microsoft Office — DOCX (mammoth) and PPTX (slide XML).
+ */
+
+import { textResult, type FileParser } from './registry';
+
+export const docxParser: FileParser = {
+  id: 'docx',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+
+  async parse({ buffer }) {
+    try {
+      const mammoth = await import('mammoth');
+      const result = await mammoth.extractRawText({ buffer });
+      return textResult(result.value || '');
+    } catch (err) {
+      console.error('DOCX parse error:', err);
+      return textResult('');
+    }
+  },
+};
+
+export const pptxParser: FileParser = {
+  id: 'pptx',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+
+  async parse({ buffer }) {
+    try {
+      const JSZip = (await import('jszip')).default;
+      const zip = await JSZip.loadAsync(buffer);
+      const texts: string[] = [];
+      const slideFiles = Object.keys(zip.files)
+        .filter((name) => /^ppt\/slides\/slide\d+\.xml$/i.test(name))
+        .sort();
+      for (const slidePath of slideFiles) {
+        const xml = await zip.files[slidePath].async('text');
+        const matches = xml.match(/<a:t[^>]*>([^<]*)<\/a:t>/g);
+        if (matches) {
+          const slideText = matches.map((m) => m.replace(/<[^>]+>/g, '')).join(' ');
+          texts.push(slideText);
+        }
+      }
+      return textResult(texts.join('\n\n') || '');
+    } catch (err) {
+      console.error('PPTX parse error:', err);
+      return textResult('');
+    }
+  },
+};
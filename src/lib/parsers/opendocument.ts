@@ -0,0 +1,130 @@
+/**
+ * OpenDocument — ODT text documents and ODP presentations (LibreOffice,
+ * Google Docs exports). Reads content.xml and keeps the structure: headings
+ * at their outline level, list items, tables as markdown, and one section
+ * per slide with its speaker notes.
+ */
+
+import { toMarkdownTable } from '../spreadsheets';
+import { textResult, type FileParser } from './registry';
+
+// Footnote bodies and comments would interrupt the sentence they are anchored in
+const SKIPPED = new Set(['office:annotation', 'text:note', 'text:tracked-changes', 'text:sequence-decls']);
+
+function inlineText(node: any): string {
+  let text = '';
+  for (const child of Array.from(node.childNodes) as any[]) {
+    if (child.nodeType === 3) text += child.textContent;
+    // Frames (text boxes, captions) are read as blocks of their own
+    else if (child.nodeType !== 1 || SKIPPED.has(child.nodeName) || child.nodeName === 'draw:frame') continue;
+    else if (child.nodeName === 'text:s') text += ' '.repeat(Number(child.getAttribute('text:c')) || 1);
+    else if (child.nodeName === 'text:tab') text += '\t';
+    else if (child.nodeName === 'text:line-break') text += '\n';
+    else text += inlineText(child);
+  }
+  return text;
+}
+
+function tableMarkdown(table: any): string {
+  const rows: string[][] = [];
+  for (const row of Array.from(table.querySelectorAll('table\\:table-row')) as any[]) {
+    const cells = (Array.from(row.childNodes) as any[])
+      .filter((cell) => cell.nodeName === 'table:table-cell')
+      .map((cell) => blocks(cell).join(' ').trim());
+    if (cells.some(Boolean)) rows.push(cells);
+  }
+  if (rows.length === 0) return '';
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => row[i] || '');
+  return toMarkdownTable(pad(rows[0]), rows.slice(1).map(pad));
+}
+
+function blocks(node: any, depth = 0): string[] {
+  const out: string[] = [];
+  for (const child of Array.from(node.childNodes) as any[]) {
+    if (child.nodeType !== 1 || SKIPPED.has(child.nodeName)) continue;
+    switch (child.nodeName) {
+      case 'text:h': {
+        const level = Math.min(6, Number(child.getAttribute('text:outline-level')) || 1);
+        const text = inlineText(child).trim();
+        if (text) out.push(`${'#'.repeat(level)} ${text}`);
+        break;
+      }
+      case 'text:p': {
+        const text = inlineText(child).trim();
+        if (text) out.push(text);
+        // Frames and text boxes anchored in a paragraph hold their own paragraphs
+        if (child.querySelector('draw\\:frame')) out.push(...blocks(child, depth));
+        break;
+      }
+      case 'text:list': {
+        // One block per list so items stay on consecutive lines
+        const items: string[] = [];
+        for (const item of (Array.from(child.childNodes) as any[]).filter((n) => n.nodeName === 'text:list-item')) {
+          const [first = '', ...rest] = blocks(item, depth + 1);
+          items.push(`${'  '.repeat(depth)}- ${first}`, ...rest);
+        }
+        if (items.length > 0) out.push(items.join('\n'));
+        break;
+      }
+      case 'table:table': {
+        const table = tableMarkdown(child);
+        if (table) out.push(table);
+        break;
+      }
+      case 'presentation:notes': {
+        const notes = blocks(child).join(' ');
+        if (notes) out.push(`Notes: ${notes}`);
+        break;
+      }
+      default:
+        out.push(...blocks(child, depth));
+    }
+  }
+  return out;
+}
+
+async function readContent(buffer: Buffer): Promise<any | null> {
+  const [JSZip, { DOMParser }] = await Promise.all([import('jszip').then((m) => m.default), import('linkedom')]);
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await zip.file('content.xml')?.async('text');
+  return xml ? new DOMParser().parseFromString(xml, 'text/xml') : null;
+}
+
+export const odtParser: FileParser = {
+  id: 'odt',
+  extensions: ['odt'],
+  mimeTypes: ['application/vnd.oasis.opendocument.text'],
+
+  async parse({ buffer, filename }) {
+    try {
+      const doc = await readContent(buffer);
+      const body = doc?.querySelector('office\\:text');
+      return textResult(body ? blocks(body).join('\n\n') : '');
+    } catch (err: any) {
+      console.error(`[ODT] Parse error for ${filename}:`, err?.message || err);
+      return textResult('');
+    }
+  },
+};
+
+export const odpParser: FileParser = {
+  id: 'odp',
+  extensions: ['odp'],
+  mimeTypes: ['application/vnd.oasis.opendocument.presentation'],
+
+  async parse({ buffer, filename }) {
+    try {
+      const doc = await readContent(buffer);
+      const slides = Array.from(doc?.querySelectorAll('draw\\:page') || []) as any[];
+      const sections = slides.map((slide, i) => {
+        const body = blocks(slide).join('\n\n');
+        return body ? `## Slide ${i + 1}\n\n${body}` : '';
+      });
+      return textResult(sections.filter(Boolean).join('\n\n'));
+    } catch (err: any) {
+      console.error(`[ODP] Parse error for ${filename}:`, err?.message || err);
+      return textResult('');
+    }
+  },
+};
@@ -0,0 +1,54 @@
+/**
+ * PDF — per-page text layer (tables as markdown), with OCR for scanned pages.
+ */
+
+import { PAGE_BREAK } from '../chunking';
+import { getOcrEngine, ocrPdfPages, type OcrPage } from '../ocr';
+import { extractPdfPages } from '../pdf-text';
+import type { FileParser } from './registry';
+
+const MIN_PAGE_TEXT = 20; // a PDF page with less text than this is treated as scanned
+
+export const pdfParser: FileParser = {
+  id: 'pdf',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+
+  async parse({ buffer, filename, external }) {
+    console.log(`[PDF] Starting extraction, buffer size: ${buffer.length} bytes, file: ${filename}`);
+    let pages: string[];
+    try {
+      // Text layer first, page by page so chunks keep their page numbers
+      const layout = await extractPdfPages(buffer);
+      pages = layout.pages;
+      console.log(`[PDF] Text layer: ${layout.totalPages} pages, ${pages.join('').length} chars`);
+    } catch (err: any) {
+      console.error('[PDF] ❌ ERROR:', err?.message || err);
+      return { text: '', ocr: [] };
+    }
+
+    // Pages without a usable text layer are scans: rasterize and OCR them
+    const scanned: number[] = [];
+    for (let i = 0; i < pages.length; i++) {
+      if (pages[i].trim().length < MIN_PAGE_TEXT) scanned.push(i + 1);
+    }
+    if (scanned.length === 0) return { text: pages.join(PAGE_BREAK), ocr: [] };
+
+    const engine = getOcrEngine(external);
+    console.log(`[PDF] ${scanned.length} of ${pages.length} pages have no text layer, running OCR (${engine})`);
+    let ocr: OcrPage[];
+    try {
+      ocr = await ocrPdfPages(buffer, scanned, engine);
+    } catch (err: any) {
+      // The OCR engine itself failed (e.g. Tesseract's language data would not
+      // load): keep the text-layer pages and flag the scanned ones as unread
+      const error = String(err?.message || err);
+      console.error(`[PDF] ❌ OCR failed, keeping the text layer only: ${error}`);
+      ocr = scanned.map((page) => ({ page, text: '', confidence: 0, engine, error }));
+    }
+    for (const page of ocr) {
+      if (page.text) pages[page.page - 1] = page.text;
+    }
+    return { text: pages.join(PAGE_BREAK), ocr };
+  },
+};
@@ -0,0 +1,81 @@
+/**
+ * Parser Registry
+ *
+ * File parsers turn an uploaded file into text for enrichment and retrieval.
+ * Each one declares the extensions and MIME types it handles; extraction looks
+ * the file up here instead of walking an if-chain, so supporting a new format
+ * means writing a parser and registering it from ./index.
+ *
+ * Lookup order: file extension, then exact MIME type, then MIME prefix
+ * ("audio/"). Extensions win because browsers report many formats as
+ * application/octet-stream or a generic zip/xml type.
+ */
+
+import type { OcrPage } from '../ocr';
+import type { SpreadsheetTable } from '../spreadsheets';
+
+export interface ExtractedPerson {
+  name: string;
+  email: string;
+}
+
+export interface ExtractedText {
+  text: string;
+  /** Pages (or the image) whose text came from OCR, with their confidence */
+  ocr: OcrPage[];
+  /** Sheets of a CSV or XLSX file, stored so they can be computed over */
+  tables?: SpreadsheetTable[];
+  /** A better title than the file name, e.g. an email thread's subject */
+  title?: string;
+  /** Stored as the document's metadata, e.g. sender, recipients and dates */
+  metadata?: Record<string, unknown>;
+  /** People named in the file (email correspondents), added to the knowledge graph */
+  people?: ExtractedPerson[];
+  /** Further documents split out of the same file, e.g. the other threads of a mailbox */
+  documents?: ExtractedText[];
+}
+
+export interface ParserInput {
+  filename: string;
+  buffer: Buffer;
+  mimeType: string;
+  /** Lower-case extension without the dot */
+  extension: string;
+  /** False in local-only privacy mode: no hosted OCR or transcription */
+  external: boolean;
+}
+
+export interface FileParser {
+  id: string;
+  extensions: string[];
+  /** Exact MIME types, or prefixes ending in "/" such as "audio/" */
+  mimeTypes: string[];
+  parse(input: ParserInput): Promise<ExtractedText>;
+}
+
+const parsers = new Map<string, FileParser>();
+
+/** Add a parser, replacing any registered parser with the same id */
+export function registerParser(parser: FileParser): void {
+  parsers.set(parser.id, parser);
+}
+
+export function getParsers(): FileParser[] {
+  return Array.from(parsers.values());
+}
+
+export function findParser(extension: string, mimeType: string): FileParser | null {
+  const all = getParsers();
+  const mime = mimeType.toLowerCase().split(';')[0].trim();
+  return (
+    (extension ? all.find((p) => p.extensions.includes(extension)) : undefined) ||
+    (mime ? all.find((p) => p.mimeTypes.includes(mime)) : undefined) ||
+    (mime ? all.find((p) => p.mimeTypes.some((m) => m.endsWith('/') && mime.startsWith(m))) : undefined) ||
+    null
+  );
+}
+
+/** Parsers that produce plain text only */
+export function textResult(text: string): ExtractedText {
+  return { text, ocr: [] };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { rtfToText } from './rtf';
+
+describe('rtfToText', () => {
+  it('keeps body text and drops font, colour and info tables', () => {
+    const rtf = String.raw`{\rtf1\ansi\deff0{\fonttbl{\f0 Times New Roman;}}{\colortbl;\red255\green0\blue0;}{\info{\title Secret title}{\author Someone}}
+\f0\fs24 Hello {\b bold} world.\par
+Second paragraph.}`;
+    expect(rtfToText(rtf)).toBe('Hello bold world.\n\nSecond paragraph.');
+  });
+
+  it('skips \\* destinations and field instructions but keeps field results', () => {
+    const rtf = String.raw`{\rtf1{\*\generator Writer;}See {\field{\*\fldinst HYPERLINK "https://example.com"}{\fldrslt the site}} now.}`;
+    expect(rtfToText(rtf)).toBe('See the site now.');
+  });
+
+  it("decodes \\'hh bytes in the document code page", () => {
+    expect(rtfToText(String.raw`{\rtf1\ansi\ansicpg1252 Caf\'e9 cr\'e8me}`)).toBe('Café crème');
+    expect(rtfToText(String.raw`{\rtf1\ansi\ansicpg1251 \'cf\'f0\'e8\'e2\'e5\'f2}`)).toBe('Привет');
+    // Multi-byte code pages decode escapes together
+    expect(rtfToText(String.raw`{\rtf1\ansi\ansicpg932 \'93\'fa\'96\'7b}`)).toBe('日本');
+  });
+
+  it('decodes \\uN escapes and skips their fallback characters', () => {
+    expect(rtfToText(String.raw`{\rtf1 caf\u233?s}`)).toBe('cafés');
+    expect(rtfToText(String.raw`{\rtf1\uc2 \u8364\'80\'80 5}`)).toBe('€ 5');
+    expect(rtfToText(String.raw`{\rtf1 \u-3913?}`)).toBe('');
+  });
+
+  it('turns control words and symbols into text', () => {
+    const rtf = String.raw`{\rtf1 a\tab b\line c\~d \{braces\} \\ \ldblquote q\rdblquote\emdash end}`;
+    expect(rtfToText(rtf)).toBe('a\tb\nc\u00a0d {braces} \\ “q”—end');
+  });
+
+  it('separates table cells and rows', () => {
+    const rtf = String.raw`{\rtf1\trowd\cellx1000\cellx2000 Name\cell Age\cell\row\trowd Ann\cell 31\cell\row}`;
+    expect(rtfToText(rtf)).toBe('Name | Age |\nAnn | 31 |');
+  });
+
+  it('collapses runs of blank lines and trims the result', () => {
+    expect(rtfToText(String.raw`{\rtf1 \par\par one\par\par\par\par two \par}`)).toBe('one\n\ntwo');
+  });
+});
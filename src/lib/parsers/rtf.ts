@@ -0,0 +1,166 @@
+/**
+ * RTF — a small tokenizer that keeps the document text and drops the rest:
+ * font/colour/style tables, metadata, pictures, field instructions and any
+ * "\*" destination. Handles \'hh bytes in the document's code page and \uN
+ * Unicode escapes (skipping their \ucN fallback characters).
+ */
+
+import { textResult, type FileParser } from './registry';
+
+// Destinations whose content is never document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl', 'generator',
+  'xmlnstbl', 'themedata', 'colorschememapping', 'datastore', 'latentstyles', 'fldinst', 'pntxta', 'pntxtb',
+  'filetbl', 'mmathPr', 'bkmkstart', 'bkmkend',
+]);
+
+const CONTROL_TEXT: Record<string, string> = {
+  par: '\n\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  tab: '\t',
+  cell: ' | ',
+  row: '\n',
+  bullet: '•',
+  emdash: '—',
+  endash: '–',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+// Windows code pages that TextDecoder knows by another name
+const CODEPAGE_LABELS: Record<number, string> = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  65001: 'utf-8',
+};
+
+function decodeBytes(bytes: number[], codepage: number): string {
+  try {
+    return new TextDecoder(CODEPAGE_LABELS[codepage] || `windows-${codepage}`).decode(new Uint8Array(bytes));
+  } catch {
+    return String.fromCharCode(...bytes);
+  }
+}
+
+export function rtfToText(rtf: string): string {
+  let out = '';
+  let bytes: number[] = []; // \'hh escapes waiting to be decoded together (multi-byte code pages)
+  let codepage = 1252;
+  let state = { skip: false, uc: 1 };
+  const stack: (typeof state)[] = [];
+  let groupStart = false; // the next control word names the group's destination
+  let fallbackChars = 0; // characters still to skip after a \uN escape
+
+  const flush = () => {
+    if (bytes.length > 0) out += decodeBytes(bytes, codepage);
+    bytes = [];
+  };
+  const emit = (text: string) => {
+    if (state.skip) return;
+    if (fallbackChars > 0) {
+      fallbackChars--;
+      return;
+    }
+    flush();
+    out += text;
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const ch = rtf[i];
+    if (ch === '{') {
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      continue;
+    }
+    if (ch === '}') {
+      flush();
+      state = stack.pop() || { skip: false, uc: 1 };
+      groupStart = false;
+      fallbackChars = 0;
+      continue;
+    }
+    if (ch === '\r' || ch === '\n') continue;
+    if (ch !== '\\') {
+      groupStart = false;
+      emit(ch);
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === "'") {
+      const byte = parseInt(rtf.substr(i + 2, 2), 16);
+      i += 3;
+      groupStart = false;
+      if (state.skip || Number.isNaN(byte)) continue;
+      if (fallbackChars > 0) fallbackChars--;
+      else bytes.push(byte);
+      continue;
+    }
+    if (next === '*') {
+      i++;
+      if (groupStart) state.skip = true;
+      continue;
+    }
+    if (next === '\\' || next === '{' || next === '}') {
+      i++;
+      groupStart = false;
+      emit(next);
+      continue;
+    }
+    if (next === '~' || next === '_' || next === '-' || next === '\n' || next === '\r') {
+      i++;
+      groupStart = false;
+      if (next === '~') emit(' ');
+      else if (next === '_') emit('-');
+      else if (next !== '-') emit('\n\n'); // a backslash before a line break is \par
+      continue;
+    }
+
+    const match = /^([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(rtf.slice(i + 1, i + 48));
+    if (!match) continue;
+    i += match[0].length;
+    const word = match[1];
+    const param = match[2] !== undefined ? Number(match[2]) : null;
+
+    if (groupStart && SKIPPED_DESTINATIONS.has(word)) state.skip = true;
+    groupStart = false;
+
+    if (word === 'u' && param !== null) {
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+      if (!state.skip) fallbackChars = state.uc;
+    } else if (word === 'uc' && param !== null) {
+      state.uc = param;
+    } else if (word === 'ansicpg' && param !== null) {
+      codepage = param;
+    } else if (CONTROL_TEXT[word]) {
+      emit(CONTROL_TEXT[word]);
+    }
+  }
+  flush();
+
+  return out
+    .split('\n')
+    .map((line) => line.replace(/[ \t ]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export const rtfParser: FileParser = {
+  id: 'rtf',
+  extensions: ['rtf'],
+  mimeTypes: ['application/rtf', 'text/rtf'],
+
+  async parse({ buffer }) {
+    // RTF is 7-bit; non-ASCII text arrives as escapes
+    return textResult(rtfToText(buffer.toString('latin1')));
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * Spreadsheets — CSV/TSV/XLSX as typed tables, stored for the table expert.
+ */
+
+import { formatSpreadsheetContent, parseCsv, parseXlsx, type SpreadsheetTable } from '../spreadsheets';
+import type { FileParser } from './registry';
+
+export const spreadsheetParser: FileParser = {
+  id: 'spreadsheet',
+  extensions: ['csv', 'tsv', 'xlsx'],
+  mimeTypes: [
+    'text/csv',
+    'text/tab-separated-values',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ],
+
+  async parse({ buffer, filename, extension, mimeType }) {
+    try {
+      const xlsx = extension === 'xlsx' || mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+      const tables = xlsx
+        ? await parseXlsx(buffer)
+        : [parseCsv(buffer.toString('utf-8'), filename)].filter((t): t is SpreadsheetTable => t !== null);
+      console.log(`[Spreadsheet] ${filename}: ${tables.map((t) => `${t.name} ${t.rows.length}×${t.columns.length}`).join(', ') || 'no data'}`);
+      return { text: tables.length ? formatSpreadsheetContent(filename, tables) : '', ocr: [], tables };
+    } catch (err: any) {
+      console.error('[Spreadsheet] Parse error:', err?.message || err);
+      return { text: '', ocr: [] };
+    }
+  },
+};
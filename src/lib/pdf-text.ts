@@ -0,0 +1,162 @@
+/**
+ * PDF Text Layout
+ *
+ * Reads a PDF's text layer page by page (via unpdf's PDF.js build) instead of
+ * as one merged string, so every chunk can carry the page it came from.
+ * Items are kept in content-stream order — which keeps multi-column papers
+ * readable — and grouped into lines by baseline. Wide horizontal gaps split a
+ * line into cells, and runs of multi-cell lines are written as markdown tables.
+ */
+
+export interface PdfPages {
+  pages: string[];
+  totalPages: number;
+}
+
+interface PositionedText {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number; // font size in PDF units
+}
+
+interface Line {
+  y: number;
+  size: number;
+  cells: string[];
+}
+
+const CELL_GAP_EM = 1.5; // a gap this many font sizes wide starts a new cell
+const WORD_GAP_EM = 0.15;
+const PARAGRAPH_GAP = 1.8; // vertical gap, in line heights, that starts a new paragraph
+const MIN_TABLE_ROWS = 2;
+
+// ─── Lines and cells ───────────────────────────────────────
+
+function toLines(items: PositionedText[]): Line[] {
+  const lines: Line[] = [];
+  let current: { y: number; size: number; items: PositionedText[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const cells: string[] = [];
+    let cell = '';
+    let prev: PositionedText | null = null;
+    for (const item of current.items) {
+      const gap = prev ? item.x - (prev.x + prev.width) : 0;
+      if (prev && gap > CELL_GAP_EM * current.size) {
+        cells.push(cell.trim());
+        cell = '';
+      } else if (prev && gap > WORD_GAP_EM * current.size && !/\s$/.test(cell) && !/^\s/.test(item.str)) {
+        cell += ' ';
+      }
+      cell += item.str;
+      prev = item;
+    }
+    cells.push(cell.trim());
+    const nonEmpty = cells.filter(Boolean);
+    if (nonEmpty.length > 0) lines.push({ y: current.y, size: current.size, cells: nonEmpty });
+    current = null;
+  };
+
+  for (const item of items) {
+    const sameLine =
+      current &&
+      Math.abs(item.y - current.y) <= Math.max(2, current.size * 0.5) &&
+      item.x >= current.items[current.items.length - 1].x; // moving left means a new line
+    if (!sameLine) {
+      flush();
+      current = { y: item.y, size: item.size, items: [] };
+    }
+    current!.items.push(item);
+    current!.size = Math.max(current!.size, item.size);
+  }
+  flush();
+  return lines;
+}
+
+function toMarkdownTable(rows: string[][]): string {
+  const columns = Math.max(...rows.map((row) => row.length));
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|');
+  const format = (row: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => escape(row[i] || '')).join(' | ')} |`;
+  return [format(rows[0]), `|${' --- |'.repeat(columns)}`, ...rows.slice(1).map(format)].join('\n');
+}
+
+function layoutPage(items: PositionedText[]): string {
+  const lines = toLines(items);
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let table: string[][] = [];
+  let prev: Line | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push(paragraph.join('\n'));
+    paragraph = [];
+  };
+  const flushTable = () => {
+    if (table.length >= MIN_TABLE_ROWS) {
+      flushParagraph();
+      blocks.push(toMarkdownTable(table));
+    } else {
+      paragraph.push(...table.map((row) => row.join(' ')));
+    }
+    table = [];
+  };
+
+  for (const line of lines) {
+    const gap = prev ? prev.y - line.y : 0;
+    const tableRow = line.cells.length >= 2;
+    const consistent = table.length === 0 || Math.abs(table[0].length - line.cells.length) <= 1;
+
+    if (table.length > 0 && !(tableRow && consistent)) flushTable();
+    if (prev && gap > PARAGRAPH_GAP * Math.max(prev.size, line.size)) {
+      flushTable();
+      flushParagraph();
+    }
+
+    if (tableRow) table.push(line.cells);
+    else paragraph.push(line.cells.join(' '));
+    prev = line;
+  }
+  flushTable();
+  flushParagraph();
+
+  return blocks.join('\n\n');
+}
+
+// ─── Public API ────────────────────────────────────────────
+
+/** Text of each page, with tables rebuilt as markdown where the layout allows */
+export async function extractPdfPages(buffer: Buffer): Promise<PdfPages> {
+  const { getDocumentProxy } = await import('unpdf');
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const totalPages = pdf.numPages;
+  const pages: string[] = [];
+
+  try {
+    for (let number = 1; number <= totalPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const items: PositionedText[] = [];
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        const [a, b, , d, x, y] = item.transform as number[];
+        items.push({
+          str: item.str,
+          x,
+          y,
+          width: item.width,
+          size: Math.abs(item.height) || Math.hypot(a, b) || Math.abs(d) || 10,
+        });
+      }
+      pages.push(layoutPage(items));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { pages, totalPages };
+}
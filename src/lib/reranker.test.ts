@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getRerankers, rerank } from './reranker';
+import { createMockChatProvider, type ChatOptions, type ChatProvider } from './llm';
+
+const passages = [{ id: 'a', text: 'Paris is in France' }, { id: 'b', text: 'The capital of Italy is Rome' }];
+
+function judge(scores: string): ChatProvider & { requests: ChatOptions[] } {
+  const requests: ChatOptions[] = [];
+  return {
+    ...createMockChatProvider(),
+    requests,
+    async chat(options) {
+      requests.push(options);
+      return scores;
+    },
+  };
+}
+
+describe('rerank', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('orders passages by the judge\'s scores, using the user\'s provider and model', async () => {
+    vi.stubEnv('RERANKER', 'llm');
+    const provider = judge('[2, 9]');
+
+    const result = await rerank('capital of Italy', passages, (p) => p.text, { provider, model: 'llama3.1:8b' });
+
+    expect(result).toEqual({
+      reranker: 'llm-judge',
+      results: [
+        { ...passages[1], rerankScore: 0.9 },
+        { ...passages[0], rerankScore: 0.2 },
+      ],
+    });
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].model).toBe('llama3.1:8b');
+  });
+
+  it('keeps the retrieval order when the judge answers in prose', async () => {
+    vi.stubEnv('RERANKER', 'llm');
+    expect(await rerank('capital of Italy', passages, (p) => p.text, { provider: judge('Rome, obviously') })).toBeNull();
+  });
+
+  it('never reranks in local-only mode', async () => {
+    vi.stubEnv('RERANKER', 'nvidia');
+    const provider = judge('[2, 9]');
+
+    expect(getRerankers({ provider, localOnly: true })).toEqual([]);
+    expect(await rerank('capital of Italy', passages, (p) => p.text, { provider, localOnly: true })).toBeNull();
+    expect(provider.requests).toHaveLength(0);
+  });
+});
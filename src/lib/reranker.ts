@@ -0,0 +1,166 @@
+/**
+ * Reranking
+ *
+ * Optional second stage after hybrid retrieval: the top candidates are scored
+ * against the query by a model that reads query and passage together, and
+ * reordered by that score. Selected with RERANKER:
+ * - nvidia → NVIDIA NIM reranking endpoint (llama-3.2-nv-rerankqa-1b-v2)
+ * - llm    → LLM-as-judge through the user's chat provider and model
+ * - none   → keep the retrieval order (default)
+ *
+ * Scores are normalised to 0–1. If the NVIDIA endpoint fails the LLM judge
+ * is tried, and if that fails too the retrieval order is kept. Nothing is
+ * reranked for users in local-only privacy mode.
+ */
+
+import { getChatProvider, type ChatProvider } from './llm';
+
+export interface Reranker {
+  id: string;
+  /** One relevance score (0–1) per passage, in input order */
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+export interface RerankOptions {
+  /** Chat provider allowed for this user; the judge never uses another one */
+  provider?: ChatProvider;
+  /** Preferred chat model from the user's settings */
+  model?: string;
+  /** Local-only privacy: no hosted reranking endpoint and no LLM judge */
+  localOnly?: boolean;
+}
+
+const RERANK_TIMEOUT = 20_000;
+const MAX_PASSAGE_CHARS = 2000;
+const JUDGE_PASSAGE_CHARS = 700;
+
+// ─── NVIDIA reranking endpoint ─────────────────────────────
+
+const NVIDIA_RERANK_MODEL = process.env.NVIDIA_RERANK_MODEL || 'nvidia/llama-3.2-nv-rerankqa-1b-v2';
+
+function nvidiaRerankUrl(model: string): string {
+  // e.g. nvidia/llama-3.2-nv-rerankqa-1b-v2 → .../retrieval/nvidia/llama-3_2-nv-rerankqa-1b-v2/reranking
+  return `https://ai.api.nvidia.com/v1/retrieval/${model.replace(/\./g, '_')}/reranking`;
+}
+
+export function createNvidiaReranker(): Reranker {
+  return {
+    id: `nvidia:${NVIDIA_RERANK_MODEL}`,
+    async score(query, passages) {
+      const apiKey = process.env.NVIDIA_API_KEY;
+      if (!apiKey) throw new Error('NVIDIA_API_KEY is not configured');
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), RERANK_TIMEOUT);
+      try {
+        const res = await fetch(process.env.NVIDIA_RERANK_URL || nvidiaRerankUrl(NVIDIA_RERANK_MODEL), {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+          },
+          body: JSON.stringify({
+            model: NVIDIA_RERANK_MODEL,
+            query: { text: query },
+            passages: passages.map((p) => ({ text: p.slice(0, MAX_PASSAGE_CHARS) })),
+            truncate: 'END',
+          }),
+          signal: controller.signal,
+        });
+        if (!res.ok) {
+          const errText = await res.text();
+          throw new Error(`Rerank API error ${res.status}: ${errText.slice(0, 200)}`);
+        }
+
+        const data = await res.json();
+        const scores = new Array<number>(passages.length).fill(0);
+        for (const ranking of (data?.rankings || []) as { index: number; logit: number }[]) {
+          // Logits are unbounded — squash to 0–1 so they read as relevance
+          scores[ranking.index] = 1 / (1 + Math.exp(-ranking.logit));
+        }
+        return scores;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+// ─── LLM-as-judge ──────────────────────────────────────────
+
+export function createLlmJudgeReranker(provider: ChatProvider = getChatProvider(), model?: string): Reranker {
+  return {
+    id: 'llm-judge',
+    async score(query, passages) {
+      const numbered = passages
+        .map((p, i) => `[${i + 1}] ${p.slice(0, JUDGE_PASSAGE_CHARS).replace(/\s+/g, ' ')}`)
+        .join('\n\n');
+
+      const response = await provider.chat({
+        messages: [
+          {
+            role: 'system',
+            content: `You rate how well each passage answers a question. Score every passage from 0 (irrelevant) to 10 (directly answers it). Return ONLY a JSON array of ${passages.length} numbers in passage order, e.g. [7, 0, 3]. No explanation.`,
+          },
+          { role: 'user', content: `Question: ${query}\n\nPassages:\n${numbered}` },
+        ],
+        model,
+        maxTokens: 200,
+        temperature: 0,
+      });
+
+      const match = response.match(/\[[\s\S]*?\]/);
+      if (!match) throw new Error('Judge returned no score array');
+      const parsed: unknown[] = JSON.parse(match[0]);
+      if (parsed.length !== passages.length) {
+        throw new Error(`Judge returned ${parsed.length} scores for ${passages.length} passages`);
+      }
+      return parsed.map((s) => Math.min(1, Math.max(0, Number(s) / 10 || 0)));
+    },
+  };
+}
+
+// ─── Selection ─────────────────────────────────────────────
+
+export function getRerankers(options: RerankOptions = {}): Reranker[] {
+  if (options.localOnly) return [];
+  switch ((process.env.RERANKER || 'none').toLowerCase()) {
+    case 'nvidia':
+      return [createNvidiaReranker(), createLlmJudgeReranker(options.provider, options.model)];
+    case 'llm':
+      return [createLlmJudgeReranker(options.provider, options.model)];
+    default:
+      return [];
+  }
+}
+
+export function isRerankingEnabled(options: RerankOptions = {}): boolean {
+  return getRerankers(options).length > 0;
+}
+
+/**
+ * Reorder items by reranker score, best first. Returns null when reranking is
+ * disabled or every configured reranker failed, so callers keep their order.
+ */
+export async function rerank<T>(
+  query: string,
+  items: T[],
+  toText: (item: T) => string,
+  options: RerankOptions = {}
+): Promise<{ reranker: string; results: (T & { rerankScore: number })[] } | null> {
+  if (items.length === 0) return null;
+
+  for (const reranker of getRerankers(options)) {
+    try {
+      const scores = await reranker.score(query, items.map(toText));
+      const results = items
+        .map((item, i) => ({ ...item, rerankScore: scores[i] ?? 0 }))
+        .sort((a, b) => b.rerankScore - a.rerankScore);
+      return { reranker: reranker.id, results };
+    } catch (err: any) {
+      console.error(`[Reranker] ${reranker.id} failed:`, err?.message || err);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { fuseRankings } from './retrieval';
+
+describe('fuseRankings', () => {
+  it('puts ids found by both rankings first', () => {
+    const fused = fuseRankings(
+      [
+        { ids: ['a', 'b', 'c'], weight: 0.5 },
+        { ids: ['d', 'c', 'a'], weight: 0.5 },
+      ],
+      10
+    );
+    expect(fused.map(([id]) => id)).toEqual(['a', 'c', 'd', 'b']);
+    expect(fused[0][1]).toBeCloseTo(0.5 / 61 + 0.5 / 63, 12);
+  });
+
+  it('follows the weights', () => {
+    const rankings = (vector: number) => [
+      { ids: ['v'], weight: vector },
+      { ids: ['l'], weight: 1 - vector },
+    ];
+    expect(fuseRankings(rankings(0.7), 10).map(([id]) => id)).toEqual(['v', 'l']);
+    expect(fuseRankings(rankings(0.3), 10).map(([id]) => id)).toEqual(['l', 'v']);
+    // A ranking with no weight contributes nothing
+    expect(fuseRankings(rankings(1), 10).map(([id]) => id)).toEqual(['v']);
+  });
+
+  it('keeps the best `limit` ids', () => {
+    const ids = Array.from({ length: 20 }, (_, i) => `c${i}`);
+    expect(fuseRankings([{ ids, weight: 1 }], 3).map(([id]) => id)).toEqual(['c0', 'c1', 'c2']);
+    expect(fuseRankings([], 3)).toEqual([]);
+  });
+});
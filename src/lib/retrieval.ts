@@ -0,0 +1,189 @@
+/**
+ * Vault Retrieval
+ *
+ * Hybrid search over a user's documents:
+ * 1. Vector ranking — embed the query and pull nearest neighbours from the vector index
+ * 2. Lexical ranking — BM25 over the user's inverted index (stemmed, stopwords removed)
+ * 3. Reciprocal rank fusion of both rankings, weighted by HYBRID_VECTOR_WEIGHT
+ *    (0 = lexical only, 1 = vector only, default 0.5)
+ *
+ * Documents processed before chunking existed are ranked as a whole.
+ */
+
+import prisma from './prisma';
+import { embedText, getEmbeddingProvider, HASH_EMBEDDING_MODEL } from './embeddings';
+import { getVectorIndex } from './vector-index';
+import { searchLexical } from './lexical-index';
+import { cosineSimilarity } from './utils';
+
+export interface DocumentForRAG {
+  id: string;
+  title: string;
+  content: string;
+  summary: string | null;
+  embedding: string | null;
+  embeddingModel: string | null;
+}
+
+export interface ChunkForRAG {
+  id: string;
+  documentId: string;
+  title: string;
+  content: string;
+  pageNumber: number | null;
+  /** Transcript chunks: second of the recording the passage starts at */
+  startSeconds: number | null;
+  /** The document's original file, page or video URL */
+  fileUrl: string | null;
+}
+
+export interface RetrievedChunk extends ChunkForRAG {
+  score: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  /** Share of the fused score given to the vector ranking (0–1) */
+  vectorWeight?: number;
+  /** Never send the query to a hosted embedding API; falls back to BM25 only */
+  localOnly?: boolean;
+}
+
+const CANDIDATES = 40; // per ranking, before fusion
+const RRF_K = 60;
+const LEGACY_PREVIEW_CHARS = 1500;
+
+function defaultVectorWeight(): number {
+  const configured = parseFloat(process.env.HYBRID_VECTOR_WEIGHT || '');
+  return Number.isFinite(configured) ? Math.min(1, Math.max(0, configured)) : 0.5;
+}
+
+// Nearest chunks from the ANN index, merged with whole-document vectors of unchunked documents
+async function vectorRanking(userId: string, query: string): Promise<string[]> {
+  const queryEmbedding = await embedText(query, 'query');
+  if (!queryEmbedding) return [];
+
+  const scored: { id: string; score: number }[] = [];
+  try {
+    const matches = await getVectorIndex().search(userId, queryEmbedding.model, queryEmbedding.vector, CANDIDATES);
+    scored.push(...matches);
+  } catch (err) {
+    console.error('[Retrieval] Vector search failed:', err);
+  }
+
+  const legacy = await prisma.document.findMany({
+    where: { userId, chunks: { none: {} }, embedding: { not: null } },
+    select: { id: true, embedding: true, embeddingModel: true },
+  });
+  for (const doc of legacy) {
+    if ((doc.embeddingModel || HASH_EMBEDDING_MODEL) !== queryEmbedding.model) continue;
+    try {
+      scored.push({ id: doc.id, score: cosineSimilarity(queryEmbedding.vector, JSON.parse(doc.embedding!)) });
+    } catch {}
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CANDIDATES)
+    .map((s) => s.id);
+}
+
+async function lexicalRanking(userId: string, query: string): Promise<string[]> {
+  try {
+    const matches = await searchLexical(userId, query, CANDIDATES);
+    return matches.map((m) => m.id);
+  } catch (err) {
+    console.error('[Retrieval] Lexical search failed:', err);
+    return [];
+  }
+}
+
+/**
+ * Reciprocal rank fusion: each ranking contributes weight / (k + rank) to
+ * the ids in it. The best `limit` ids with a positive score, best first.
+ */
+export function fuseRankings(rankings: { ids: string[]; weight: number }[], limit: number): [string, number][] {
+  const fused = new Map<string, number>();
+  for (const { ids, weight } of rankings) {
+    ids.forEach((id, rank) => fused.set(id, (fused.get(id) || 0) + weight / (RRF_K + rank + 1)));
+  }
+  return Array.from(fused.entries())
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit);
+}
+
+// Load chunk rows (or whole legacy documents) for the fused candidate ids
+async function hydrate(userId: string, ids: string[]): Promise<Map<string, ChunkForRAG>> {
+  const hydrated = new Map<string, ChunkForRAG>();
+
+  const chunks = await prisma.documentChunk.findMany({
+    where: { id: { in: ids }, userId },
+    select: {
+      id: true,
+      documentId: true,
+      content: true,
+      pageNumber: true,
+      startSeconds: true,
+      document: { select: { title: true, fileUrl: true } },
+    },
+  });
+  for (const row of chunks) {
+    hydrated.set(row.id, {
+      id: row.id,
+      documentId: row.documentId,
+      title: row.document.title,
+      content: row.content,
+      pageNumber: row.pageNumber,
+      startSeconds: row.startSeconds,
+      fileUrl: row.document.fileUrl,
+    });
+  }
+
+  const remaining = ids.filter((id) => !hydrated.has(id));
+  if (remaining.length > 0) {
+    const documents = await prisma.document.findMany({
+      where: { id: { in: remaining }, userId },
+      select: { id: true, title: true, content: true, summary: true, fileUrl: true },
+    });
+    for (const doc of documents) {
+      const preview = doc.content.slice(0, LEGACY_PREVIEW_CHARS);
+      hydrated.set(doc.id, {
+        id: doc.id,
+        documentId: doc.id,
+        title: doc.title,
+        content: doc.summary ? `${doc.summary}\n\n${preview}` : preview,
+        pageNumber: null,
+        startSeconds: null,
+        fileUrl: doc.fileUrl,
+      });
+    }
+  }
+
+  return hydrated;
+}
+
+export async function searchVault(userId: string, query: string, options: SearchOptions = {}): Promise<RetrievedChunk[]> {
+  const limit = options.limit ?? 6;
+  const vectorWeight =
+    options.localOnly && !getEmbeddingProvider().local ? 0 : options.vectorWeight ?? defaultVectorWeight();
+
+  const [vectorIds, lexicalIds] = await Promise.all([
+    vectorWeight > 0 ? vectorRanking(userId, query) : Promise.resolve([]),
+    vectorWeight < 1 ? lexicalRanking(userId, query) : Promise.resolve([]),
+  ]);
+
+  const ranked = fuseRankings(
+    [
+      { ids: vectorIds, weight: vectorWeight },
+      { ids: lexicalIds, weight: 1 - vectorWeight },
+    ],
+    limit
+  );
+  if (ranked.length === 0) return [];
+
+  const hydrated = await hydrate(userId, ranked.map(([id]) => id));
+  return ranked
+    .filter(([id]) => hydrated.has(id))
+    .map(([id, score]) => ({ ...hydrated.get(id)!, score }));
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseSettingsUpdate } from './settings';
+
+vi.mock('./prisma', () => ({ default: {} }));
+
+describe('parseSettingsUpdate', () => {
+  it('accepts every known setting', () => {
+    expect(
+      parseSettingsUpdate({
+        theme: 'midnight',
+        density: 'compact',
+        notifications: false,
+        aiProcessing: false,
+        privacyLevel: 'local',
+        chatModel: 'llama3.1:8b',
+      })
+    ).toEqual({
+      update: {
+        theme: 'midnight',
+        density: 'compact',
+        notifications: false,
+        aiProcessing: false,
+        privacyLevel: 'local',
+        chatModel: 'llama3.1:8b',
+      },
+    });
+  });
+
+  it('ignores unknown keys and keeps the update partial', () => {
+    expect(parseSettingsUpdate({ density: 'spacious', isAdmin: true })).toEqual({ update: { density: 'spacious' } });
+    expect(parseSettingsUpdate({})).toEqual({ update: {} });
+  });
+
+  it('rejects values outside the allowed sets', () => {
+    expect(parseSettingsUpdate({ theme: 'neon' })).toEqual({ error: 'theme must be one of dark, midnight, deep-space' });
+    expect(parseSettingsUpdate({ density: 'tiny' })).toHaveProperty('error');
+    expect(parseSettingsUpdate({ privacyLevel: 'offline' })).toEqual({ error: 'privacyLevel must be one of cloud, local' });
+  });
+
+  it('requires real booleans for toggles', () => {
+    expect(parseSettingsUpdate({ notifications: 'false' })).toEqual({ error: 'notifications must be a boolean' });
+    expect(parseSettingsUpdate({ aiProcessing: 0 })).toEqual({ error: 'aiProcessing must be a boolean' });
+  });
+
+  it('trims the chat model and clears it when empty', () => {
+    expect(parseSettingsUpdate({ chatModel: '  gpt-4o-mini ' })).toEqual({ update: { chatModel: 'gpt-4o-mini' } });
+    expect(parseSettingsUpdate({ chatModel: '   ' })).toEqual({ update: { chatModel: null } });
+    expect(parseSettingsUpdate({ chatModel: null })).toEqual({ update: { chatModel: null } });
+    expect(parseSettingsUpdate({ chatModel: 'm'.repeat(500) })).toEqual({ update: { chatModel: 'm'.repeat(200) } });
+    expect(parseSettingsUpdate({ chatModel: 42 })).toEqual({ error: 'chatModel must be a string' });
+  });
+
+  it('rejects a body that is not an object', () => {
+    expect(parseSettingsUpdate(null)).toEqual({ error: 'Invalid settings' });
+    expect(parseSettingsUpdate('dark')).toEqual({ error: 'Invalid settings' });
+  });
+});
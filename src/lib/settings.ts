@@ -0,0 +1,130 @@
+/**
+ * User Settings
+ *
+ * Per-user preferences from the Settings page, stored in UserSettings and
+ * honored server-side:
+ * - aiProcessing=false → uploads are indexed for search but not summarized
+ *   or mined for entities
+ * - privacyLevel='local' → no web/YouTube experts, no HuggingFace validation
+ *   or reranking, and only on-prem chat/embedding providers
+ * - chatModel → preferred model for conversations (provider default if null)
+ */
+
+import prisma from './prisma';
+import { getChatProvider, type ChatProvider } from './llm';
+import { getEmbeddingProvider } from './embeddings';
+
+export type PrivacyLevel = 'cloud' | 'local';
+
+export interface UserPreferences {
+  theme: string;
+  density: string;
+  notifications: boolean;
+  aiProcessing: boolean;
+  privacyLevel: PrivacyLevel;
+  chatModel: string | null;
+}
+
+export const DEFAULT_SETTINGS: UserPreferences = {
+  theme: 'dark',
+  density: 'comfortable',
+  notifications: true,
+  aiProcessing: true,
+  privacyLevel: 'cloud',
+  chatModel: null,
+};
+
+const THEMES = ['dark', 'midnight', 'deep-space'];
+const DENSITIES = ['compact', 'comfortable', 'spacious'];
+const PRIVACY_LEVELS: PrivacyLevel[] = ['cloud', 'local'];
+const MAX_MODEL_LENGTH = 200;
+
+// ─── Persistence ───────────────────────────────────────────
+
+export async function getUserSettings(userId: string): Promise<UserPreferences> {
+  const row = await prisma.userSettings.findUnique({ where: { userId } });
+  if (!row) return { ...DEFAULT_SETTINGS };
+  return {
+    theme: row.theme,
+    density: row.density,
+    notifications: row.notifications,
+    aiProcessing: row.aiProcessing,
+    privacyLevel: row.privacyLevel === 'local' ? 'local' : 'cloud',
+    chatModel: row.chatModel,
+  };
+}
+
+/**
+ * Validate a partial settings update from the client. Unknown keys are
+ * ignored; an invalid value returns an error message instead.
+ */
+export function parseSettingsUpdate(body: any): { update: Partial<UserPreferences> } | { error: string } {
+  const update: Partial<UserPreferences> = {};
+  if (!body || typeof body !== 'object') return { error: 'Invalid settings' };
+
+  if (body.theme !== undefined) {
+    if (!THEMES.includes(body.theme)) return { error: `theme must be one of ${THEMES.join(', ')}` };
+    update.theme = body.theme;
+  }
+  if (body.density !== undefined) {
+    if (!DENSITIES.includes(body.density)) return { error: `density must be one of ${DENSITIES.join(', ')}` };
+    update.density = body.density;
+  }
+  for (const key of ['notifications', 'aiProcessing'] as const) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== 'boolean') return { error: `${key} must be a boolean` };
+    update[key] = body[key];
+  }
+  if (body.privacyLevel !== undefined) {
+    if (!PRIVACY_LEVELS.includes(body.privacyLevel)) {
+      return { error: `privacyLevel must be one of ${PRIVACY_LEVELS.join(', ')}` };
+    }
+    update.privacyLevel = body.privacyLevel;
+  }
+  if (body.chatModel !== undefined) {
+    if (body.chatModel !== null && typeof body.chatModel !== 'string') return { error: 'chatModel must be a string' };
+    const model = (body.chatModel || '').trim().slice(0, MAX_MODEL_LENGTH);
+    update.chatModel = model || null;
+  }
+
+  return { update };
+}
+
+export async function updateUserSettings(userId: string, update: Partial<UserPreferences>): Promise<UserPreferences> {
+  await prisma.userSettings.upsert({
+    where: { userId },
+    create: { userId, ...update },
+    update,
+  });
+  return getUserSettings(userId);
+}
+
+// ─── Enforcement ───────────────────────────────────────────
+
+export function allowsExternalServices(settings: UserPreferences): boolean {
+  return settings.privacyLevel !== 'local';
+}
+
+/**
+ * The chat provider this user's prompts may go to: the configured one, or in
+ * local mode an on-prem OpenAI-compatible endpoint. Null when local mode is on
+ * and no local provider is available.
+ */
+export function getChatProviderFor(settings: UserPreferences): ChatProvider | null {
+  const provider = getChatProvider();
+  if (allowsExternalServices(settings) || provider.local) return provider;
+
+  const onPrem = getChatProvider('openai');
+  return onPrem.configured && onPrem.local ? onPrem : null;
+}
+
+/** Whether document text may be sent to the configured embedding provider */
+export function canEmbedFor(settings: UserPreferences): boolean {
+  return allowsExternalServices(settings) || getEmbeddingProvider().local;
+}
+
+export const LOCAL_EMBEDDING_MISSING =
+  'Local-only privacy is enabled but the embedding provider is hosted. Set EMBEDDING_PROVIDER to a local model, or switch privacy to cloud in Settings.';
+
+export const LOCAL_PROVIDER_MISSING =
+  'Local-only privacy is enabled but no on-prem chat model is configured. Set CHAT_PROVIDER=openai with OPENAI_CHAT_BASE_URL pointing at Ollama, vLLM or LM Studio, or switch privacy to cloud in Settings.';
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { parseCsv, parseDate, parseXlsx } from './spreadsheets';
+
+describe('parseDate', () => {
+  it.each([
+    ['2024-03-15', '2024-03-15'],
+    ['2024/3/15 09:30', '2024-03-15T09:30'],
+    ['2024-03-15T12:05:00.000Z', '2024-03-15T12:05'],
+    ['03/15/2024', '2024-03-15'],
+    ['15/03/2024', '2024-03-15'],
+    ['15.03.2024', '2024-03-15'],
+    ['15-03-24', '2024-03-15'],
+    ['Mar 15 2024', '2024-03-15'],
+    ['March 15th, 2024', '2024-03-15'],
+    ['Fri, Mar 15 2024', '2024-03-15'],
+    ['15 Mar 2024', '2024-03-15'],
+    ['15-Mar-99', '1999-03-15'],
+    ['Sept 1 2024 2:30 PM', '2024-09-01T14:30'],
+    ['Jan 5, 2024 12:15 am', '2024-01-05T00:15'],
+  ])('reads %s', (raw, expected) => {
+    expect(parseDate(raw)).toBe(expected);
+  });
+
+  it('reads ambiguous numeric dates month-first with slashes and day-first with dots', () => {
+    expect(parseDate('03/04/2024')).toBe('2024-03-04');
+    expect(parseDate('03.04.2024')).toBe('2024-04-03');
+  });
+
+  it('follows the column order when one is given', () => {
+    expect(parseDate('03/04/2024', 'dmy')).toBe('2024-04-03');
+    expect(parseDate('15/03/2024', 'mdy')).toBeNull();
+  });
+
+  it.each(['02/30/2024', '13/13/2024', '2024-00-10', 'Ma 1 2024', 'Smarch 3 2024', '12:30', '2024', '45366', '13:00 PM'])(
+    'rejects %s',
+    (raw) => {
+      expect(parseDate(raw)).toBeNull();
+    }
+  );
+});
+
+describe('parseCsv dates', () => {
+  it('settles a column\'s day/month order from its unambiguous values', () => {
+    const table = parseCsv('Date,Amount\n03/04/2024,10\n15/04/2024,20\n01/05/2024,5\n', 'eu.csv')!;
+    expect(table.columns[0]).toMatchObject({ type: 'date', stats: { min: '2024-04-03', max: '2024-05-01' } });
+    expect(table.rows.map((row) => row[0])).toEqual(['2024-04-03', '2024-04-15', '2024-05-01']);
+  });
+
+  it('reads Excel serial numbers in a column headed like a date', () => {
+    const table = parseCsv('Invoice Date,Day,Amount\n45366,5,12000\n45366.5,6,45000\n', 'serials.csv')!;
+    expect(table.columns.map((c) => c.type)).toEqual(['date', 'number', 'number']);
+    expect(table.rows.map((row) => row[0])).toEqual(['2024-03-15', '2024-03-15T12:00']);
+  });
+});
+
+describe('parseXlsx dates', () => {
+  it('reads date-formatted serials and ISO date cells', async () => {
+    const zip = new JSZip();
+    zip.file(
+      'xl/workbook.xml',
+      '<workbook><sheets><sheet name="Expenses" sheetId="1" r:id="rId1"/></sheets></workbook>'
+    );
+    zip.file(
+      'xl/_rels/workbook.xml.rels',
+      '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>'
+    );
+    zip.file(
+      'xl/styles.xml',
+      '<styleSheet><numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts>' +
+        '<cellXfs><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/></cellXfs></styleSheet>'
+    );
+    zip.file(
+      'xl/worksheets/sheet1.xml',
+      `<worksheet><sheetData>
+<row r="1"><c r="A1" t="inlineStr"><is><t>Date</t></is></c><c r="B1" t="inlineStr"><is><t>Amount</t></is></c></row>
+<row r="2"><c r="A2" s="1"><v>45366</v></c><c r="B2"><v>10</v></c></row>
+<row r="3"><c r="A3" s="2"><v>45367.25</v></c><c r="B3"><v>20</v></c></row>
+<row r="4"><c r="A4" t="d"><v>2024-03-18T00:00:00</v></c><c r="B4"><v>30</v></c></row>
+<row r="5"><c r="A5" t="inlineStr"><is><t>Mar 19 2024</t></is></c><c r="B5"><v>40</v></c></row>
+</sheetData></worksheet>`
+    );
+
+    const [table] = await parseXlsx(await zip.generateAsync({ type: 'nodebuffer' }));
+    expect(table.columns.map((c) => c.type)).toEqual(['date', 'number']);
+    expect(table.rows.map((row) => row[0])).toEqual(['2024-03-15', '2024-03-16T06:00', '2024-03-18', '2024-03-19']);
+  });
+});
@@ -0,0 +1,554 @@
+/**
+ * Spreadsheets
+ *
+ * Parses CSV and XLSX files into typed tables — one per sheet — so they can
+ * be stored with their schema and computed over, instead of being flattened
+ * into text that is truncated before anyone can add it up.
+ *
+ * - CSV: RFC 4180 quoting; the delimiter (, ; tab |) is sniffed from the header
+ * - XLSX: read straight from the workbook XML (JSZip), with shared strings,
+ *   inline strings, booleans, ISO date cells and date-formatted serial numbers
+ *
+ * Each column gets a type (number, date, boolean, text) from its values and
+ * summary statistics that are written into the document text, so summaries
+ * and retrieval see the shape of the data, not just its first rows. Dates
+ * are stored as ISO strings whether they were written "2024-03-15",
+ * "03/15/2024", "15.03.2024" or "Mar 15 2024", or as Excel serial numbers
+ * in a column headed like a date.
+ */
+
+export type CellValue = string | number | boolean | null;
+export type ColumnType = 'number' | 'date' | 'boolean' | 'text';
+
+export interface ColumnStats {
+  /** Non-empty cells */
+  count: number;
+  empty: number;
+  distinct: number;
+  min?: number | string;
+  max?: number | string;
+  sum?: number;
+  mean?: number;
+  /** Most frequent values of text columns */
+  top?: { value: string; count: number }[];
+}
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  stats: ColumnStats;
+}
+
+export interface SpreadsheetTable {
+  /** Sheet name; the file name for CSV */
+  name: string;
+  columns: ColumnSchema[];
+  /** Typed values: numbers as numbers, dates as ISO strings */
+  rows: CellValue[][];
+}
+
+const MAX_ROWS = Number(process.env.SPREADSHEET_MAX_ROWS) || 50_000;
+const PREVIEW_ROWS = 200; // rows written into the document text per sheet
+const TYPE_THRESHOLD = 0.9; // share of a column's values that must parse as a type
+const TOP_VALUES = 5;
+
+export function isSpreadsheetFile(filename: string, mimeType: string): boolean {
+  const ext = filename.split('.').pop()?.toLowerCase() || '';
+  return (
+    ext === 'csv' ||
+    ext === 'tsv' ||
+    ext === 'xlsx' ||
+    mimeType === 'text/csv' ||
+    mimeType === 'text/tab-separated-values' ||
+    mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+}
+
+// ─── Values ────────────────────────────────────────────────
+
+export type DateOrder = 'mdy' | 'dmy';
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+// What parseDate returns, and so what date cells hold
+const STORED_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+// "03/15/2024", "15.03.2024", "15-03-24"; which part is the month depends on the column
+const NUMERIC_DATE = /^(\d{1,2})([-/.])(\d{1,2})\2(\d{4}|\d{2})$/;
+// "Mar 15 2024", "March 15th, 2024"
+const MONTH_FIRST_DATE = /^([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i;
+// "15 Mar 2024", "15-Mar-24"
+const DAY_FIRST_DATE = /^(\d{1,2})(?:st|nd|rd|th)?[\s-]([a-z]{3,9})\.?,?[\s-](\d{4}|\d{2})$/i;
+const WEEKDAY = /^(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+/i;
+// Trailing time of day, with optional seconds, AM/PM and UTC offset (dropped)
+const TIME = /[\sT](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*([ap])?\.?(?:m\.?)?\s*(?:z|[+-]\d{2}:?\d{2})?$/i;
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Plausible Excel serial day numbers (1927–2119) in a column whose header names a date
+const SERIAL_RANGE = [10_000, 80_000];
+const DATE_HEADER = /\b(date|day|dated|time|timestamp|created|updated|modified|when)\b/i;
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/** "1,234.50", "$99", "(12.00)", "15%" → number; null if the text isn't one */
+export function parseNumber(raw: string): number | null {
+  let text = raw.trim();
+  if (!text) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+  const percent = text.endsWith('%');
+  if (percent) text = text.slice(0, -1).trim();
+  text = text.replace(/^([-+]?)\s*[$€£¥]\s*/, '$1').replace(/\s*(USD|EUR|GBP)$/i, '');
+  if (!/^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/.test(text) || !/\d/.test(text)) return null;
+  const value = Number(text.replace(/,/g, ''));
+  if (!Number.isFinite(value)) return null;
+  return (negative ? -value : value) / (percent ? 100 : 1);
+}
+
+function monthNumber(name: string): number {
+  const lower = name.toLowerCase();
+  return lower.length >= 3 ? MONTHS.findIndex((m) => m.startsWith(lower)) + 1 : 0;
+}
+
+function fullYear(year: string): number {
+  const value = Number(year);
+  return year.length === 2 ? (value < 50 ? 2000 + value : 1900 + value) : value;
+}
+
+// Slashes are month-first (US), dots and dashes day-first, unless the column shows otherwise
+function defaultOrder(separator: string): DateOrder {
+  return separator === '/' ? 'mdy' : 'dmy';
+}
+
+/**
+ * Dates as they appear in spreadsheets → "2024-03-15", or "2024-03-15T14:30"
+ * with a time: ISO ("2024-03-15", "2024/3/15 09:30"), numeric ("03/15/2024",
+ * "15.03.2024") and with month names ("Mar 15 2024", "15-Mar-24"). `order`
+ * decides whether "03/04/2024" is March or April; without it, slashes are
+ * read month-first and dots or dashes day-first, unless only the other
+ * reading is a valid date.
+ */
+export function parseDate(raw: string, order?: DateOrder): string | null {
+  let text = raw.trim().replace(WEEKDAY, '');
+  let time = '';
+  const timeMatch = text.match(TIME);
+  if (timeMatch) {
+    let hours = Number(timeMatch[1]);
+    const meridiem = timeMatch[3]?.toLowerCase();
+    if (meridiem && (hours < 1 || hours > 12)) return null;
+    if (meridiem === 'p' && hours < 12) hours += 12;
+    if (meridiem === 'a' && hours === 12) hours = 0;
+    if (hours > 23 || Number(timeMatch[2]) > 59) return null;
+    time = `T${pad(hours)}:${timeMatch[2]}`;
+    text = text.slice(0, timeMatch.index).trim();
+  }
+
+  let year: number;
+  let month: number;
+  let day: number;
+  let match: RegExpMatchArray | null;
+  if ((match = text.match(ISO_DATE))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(NUMERIC_DATE))) {
+    const [first, second] = [Number(match[1]), Number(match[3])];
+    year = fullYear(match[4]);
+    let dayFirst = (order || defaultOrder(match[2])) === 'dmy';
+    // Without the column's order, a number above 12 can only be the day
+    if (!order && (dayFirst ? first <= 12 && second > 12 : first > 12 && second <= 12)) dayFirst = !dayFirst;
+    [day, month] = dayFirst ? [first, second] : [second, first];
+  } else if ((match = text.match(MONTH_FIRST_DATE))) {
+    [year, month, day] = [Number(match[3]), monthNumber(match[1]), Number(match[2])];
+  } else if ((match = text.match(DAY_FIRST_DATE))) {
+    [year, month, day] = [fullYear(match[3]), monthNumber(match[2]), Number(match[1])];
+  } else {
+    return null;
+  }
+
+  // Rejects month 13, February 30 and the like
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}${time}`;
+}
+
+/** Month-first or day-first, from the numeric dates of a column that only read one way */
+export function inferDateOrder(values: CellValue[]): DateOrder | undefined {
+  let monthFirst = 0;
+  let dayFirst = 0;
+  for (const value of values) {
+    const match = typeof value === 'string' ? value.trim().replace(WEEKDAY, '').split(/[\sT]/)[0].match(NUMERIC_DATE) : null;
+    if (!match) continue;
+    if (Number(match[1]) > 12) dayFirst++;
+    else if (Number(match[3]) > 12) monthFirst++;
+  }
+  if (dayFirst === monthFirst) return undefined;
+  return dayFirst > monthFirst ? 'dmy' : 'mdy';
+}
+
+function parseBoolean(raw: string): boolean | null {
+  const text = raw.trim().toLowerCase();
+  if (text === 'true' || text === 'yes') return true;
+  if (text === 'false' || text === 'no') return false;
+  return null;
+}
+
+// Excel serial day numbers count from 1899-12-30 (or 1904-01-01 on old Macs)
+function excelSerialToIso(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * 86_400_000));
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  return Number.isInteger(serial) ? day : `${day}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+}
+
+// ─── Schema and statistics ─────────────────────────────────
+
+function numericValue(value: CellValue): number | null {
+  return typeof value === 'number' ? value : typeof value === 'string' ? parseNumber(value) : null;
+}
+
+function isSerialDate(value: number): boolean {
+  return value >= SERIAL_RANGE[0] && value <= SERIAL_RANGE[1];
+}
+
+function inferType(name: string, values: CellValue[]): ColumnType {
+  const present = values.filter((v) => v !== null && v !== '');
+  if (present.length === 0) return 'text';
+  const share = (test: (v: CellValue) => boolean) => present.filter(test).length / present.length;
+
+  if (share((v) => numericValue(v) !== null) >= TYPE_THRESHOLD) {
+    // Excel serial day numbers, e.g. a sheet saved to CSV without date formatting
+    const serials = DATE_HEADER.test(name) && present.every((v) => {
+      const n = numericValue(v);
+      return n === null || isSerialDate(n);
+    });
+    return serials ? 'date' : 'number';
+  }
+  if (share((v) => typeof v === 'string' && parseDate(v) !== null) >= TYPE_THRESHOLD) return 'date';
+  if (share((v) => typeof v === 'boolean' || (typeof v === 'string' && parseBoolean(v) !== null)) >= TYPE_THRESHOLD) {
+    return 'boolean';
+  }
+  return 'text';
+}
+
+// Values that don't fit the column type are kept as text (and skipped by aggregates)
+function coerce(value: CellValue, type: ColumnType, order?: DateOrder): CellValue {
+  if (value === null || value === '') return null;
+  if (type === 'date') {
+    const serial = numericValue(value);
+    if (serial !== null && isSerialDate(serial)) return excelSerialToIso(serial, false);
+  }
+  if (typeof value !== 'string') return value;
+  const parsed = type === 'number' ? parseNumber(value) : type === 'date' ? parseDate(value, order) : type === 'boolean' ? parseBoolean(value) : null;
+  return parsed ?? value.trim();
+}
+
+function computeStats(values: CellValue[], type: ColumnType): ColumnStats {
+  const present = values.filter((v) => v !== null && v !== '');
+  const stats: ColumnStats = {
+    count: present.length,
+    empty: values.length - present.length,
+    distinct: new Set(present.map(String)).size,
+  };
+
+  if (type === 'number') {
+    const numbers = present.filter((v): v is number => typeof v === 'number');
+    if (numbers.length > 0) {
+      const sum = numbers.reduce((a, b) => a + b, 0);
+      // reduce rather than spreading: sheets can have more rows than the argument limit
+      stats.min = numbers.reduce((a, b) => Math.min(a, b));
+      stats.max = numbers.reduce((a, b) => Math.max(a, b));
+      stats.sum = round(sum);
+      stats.mean = round(sum / numbers.length);
+    }
+  } else if (type === 'date') {
+    const dates = present.filter((v): v is string => typeof v === 'string' && STORED_DATE.test(v)).sort();
+    if (dates.length > 0) {
+      stats.min = dates[0];
+      stats.max = dates[dates.length - 1];
+    }
+  } else if (type === 'text') {
+    const counts = new Map<string, number>();
+    for (const v of present) counts.set(String(v), (counts.get(String(v)) || 0) + 1);
+    stats.top = Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_VALUES);
+  }
+  return stats;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/** Turn raw rows into a typed table; the first non-empty row is the header */
+export function buildTable(name: string, rawRows: CellValue[][]): SpreadsheetTable | null {
+  const rows = rawRows.filter((row) => row.some((v) => v !== null && String(v).trim() !== ''));
+  if (rows.length === 0) return null;
+
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const seen = new Map<string, number>();
+  const names = Array.from({ length: width }, (_, i) => {
+    const base = String(rows[0][i] ?? '').trim() || `Column ${i + 1}`;
+    const n = (seen.get(base) || 0) + 1;
+    seen.set(base, n);
+    return n > 1 ? `${base} (${n})` : base;
+  });
+
+  const body = rows.slice(1, MAX_ROWS + 1).map((row) => Array.from({ length: width }, (_, i) => row[i] ?? null));
+  if (rows.length - 1 > MAX_ROWS) {
+    console.warn(`[Spreadsheet] ${name}: kept ${MAX_ROWS} of ${rows.length - 1} rows (SPREADSHEET_MAX_ROWS)`);
+  }
+
+  const columns: ColumnSchema[] = names.map((columnName, i) => {
+    const values = body.map((row) => row[i]);
+    const type = inferType(columnName, values);
+    const order = type === 'date' ? inferDateOrder(values) : undefined;
+    for (const row of body) row[i] = coerce(row[i], type, order);
+    return { name: columnName, type, stats: computeStats(body.map((row) => row[i]), type) };
+  });
+
+  return { name, columns, rows: body };
+}
+
+// ─── CSV ───────────────────────────────────────────────────
+
+function sniffDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of [',', ';', '\t', '|']) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function parseCsv(text: string, name: string): SpreadsheetTable | null {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = sniffDelimiter(source);
+  const rows: CellValue[][] = [];
+  let row: CellValue[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return buildTable(name, rows);
+}
+
+// ─── XLSX ──────────────────────────────────────────────────
+
+// Built-in number formats that display a date or time
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function attr(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+// Text of every <t> inside an element, which covers rich-text runs
+function innerText(xml: string): string {
+  const parts = xml.match(/<t\b[^>]*>[\s\S]*?<\/t>/g) || [];
+  return decodeXml(parts.map((t) => t.replace(/<[^>]+>/g, '')).join(''));
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  let index = 0;
+  for (let i = 0; i < letters.length; i++) index = index * 26 + (letters.charCodeAt(i) - 64);
+  return index - 1;
+}
+
+// Style index → whether the cell's number format shows a date
+function readDateStyles(stylesXml: string): boolean[] {
+  const customDateFormats = new Set<number>();
+  const numFmts = stylesXml.match(/<numFmt\b[^>]*\/?>/g) || [];
+  for (const fmt of numFmts) {
+    const id = Number(attr(fmt, 'numFmtId'));
+    // Drop quoted literals and [colour]/[$-locale] sections before looking for date tokens
+    const code = (attr(fmt, 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    if (/[dmy]/i.test(code) && !/^[#0.,\s%]*$/.test(code)) customDateFormats.add(id);
+  }
+
+  const cellXfs = stylesXml.match(/<cellXfs\b[\s\S]*?<\/cellXfs>/)?.[0] || '';
+  return (cellXfs.match(/<xf\b[^>]*\/?>/g) || []).map((xf) => {
+    const id = Number(attr(xf, 'numFmtId') || 0);
+    return DATE_FORMAT_IDS.has(id) || customDateFormats.has(id);
+  });
+}
+
+function readSheet(xml: string, sharedStrings: string[], dateStyles: boolean[], date1904: boolean): CellValue[][] {
+  const rows: CellValue[][] = [];
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+  let rowMatch: RegExpExecArray | null;
+  let nextRow = 0;
+
+  while ((rowMatch = rowPattern.exec(xml))) {
+    const rowNumber = Number(attr(rowMatch[1], 'r')) || nextRow + 1;
+    nextRow = rowNumber;
+    const cells: CellValue[] = [];
+    let cellMatch: RegExpExecArray | null;
+    let nextColumn = 0;
+    cellPattern.lastIndex = 0;
+
+    while ((cellMatch = cellPattern.exec(rowMatch[2] || ''))) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const ref = attr(attributes, 'r');
+      const column = ref ? columnIndex(ref) : nextColumn;
+      nextColumn = column + 1;
+
+      const type = attr(attributes, 't');
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value: CellValue = null;
+      if (type === 's') value = raw !== undefined ? sharedStrings[Number(raw)] ?? null : null;
+      else if (type === 'inlineStr') value = innerText(body);
+      else if (type === 'str' || type === 'e') value = raw !== undefined ? decodeXml(raw) : null;
+      else if (type === 'b') value = raw === '1';
+      else if (type === 'd') {
+        // ISO 8601 date cells; a date without a time of day is stored as midnight
+        const text = raw !== undefined ? decodeXml(raw) : '';
+        value = text ? parseDate(text)?.replace(/T00:00$/, '') ?? text : null;
+      }
+      else if (raw !== undefined) {
+        const number = Number(raw);
+        const style = Number(attr(attributes, 's') || 0);
+        value = dateStyles[style] && Number.isFinite(number) ? excelSerialToIso(number, date1904) : number;
+      }
+      cells[column] = value;
+    }
+    rows[rowNumber - 1] = Array.from(cells, (v) => v ?? null);
+  }
+
+  return Array.from(rows, (row) => row || []);
+}
+
+export async function parseXlsx(buffer: Buffer): Promise<SpreadsheetTable[]> {
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(buffer);
+  const read = (path: string) => zip.file(path)?.async('text') ?? Promise.resolve('');
+
+  const [workbook, relsXml, sharedXml, stylesXml] = await Promise.all([
+    read('xl/workbook.xml'),
+    read('xl/_rels/workbook.xml.rels'),
+    read('xl/sharedStrings.xml'),
+    read('xl/styles.xml'),
+  ]);
+  if (!workbook) throw new Error('Not an XLSX workbook');
+
+  const date1904 = /<workbookPr\b[^>]*date1904="(1|true)"/.test(workbook);
+  const sharedStrings = (sharedXml.match(/<si\b[\s\S]*?<\/si>/g) || []).map(innerText);
+  const dateStyles = readDateStyles(stylesXml);
+
+  const targets = new Map<string, string>();
+  for (const rel of relsXml.match(/<Relationship\b[^>]*\/?>/g) || []) {
+    const id = attr(rel, 'Id');
+    const target = attr(rel, 'Target');
+    if (id && target) targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  const tables: SpreadsheetTable[] = [];
+  for (const sheet of workbook.match(/<sheet\b[^>]*\/?>/g) || []) {
+    const name = attr(sheet, 'name') || `Sheet ${tables.length + 1}`;
+    const path = targets.get(attr(sheet, 'r:id') || '');
+    const xml = path ? await read(path) : '';
+    if (!xml) continue;
+    const table = buildTable(name, readSheet(xml, sharedStrings, dateStyles, date1904));
+    if (table) tables.push(table);
+  }
+  return tables;
+}
+
+// ─── Document text ─────────────────────────────────────────
+
+export function formatValue(value: CellValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(round(value));
+  return String(value);
+}
+
+export function describeColumn(column: ColumnSchema): string {
+  const { stats } = column;
+  const parts = [`${stats.count} values`];
+  if (stats.empty > 0) parts.push(`${stats.empty} empty`);
+  if (column.type === 'number' && stats.sum !== undefined) {
+    parts.push(`min ${formatValue(stats.min)}`, `max ${formatValue(stats.max)}`, `sum ${formatValue(stats.sum)}`, `mean ${formatValue(stats.mean)}`);
+  } else if (column.type === 'date' && stats.min !== undefined) {
+    parts.push(`${stats.min} to ${stats.max}`);
+  } else if (column.type === 'text') {
+    parts.push(`${stats.distinct} distinct`);
+    if (stats.top && stats.top.length > 0 && stats.distinct < stats.count) {
+      parts.push(`most common: ${stats.top.map((t) => `${t.value} (${t.count})`).join(', ')}`);
+    }
+  }
+  return `- ${column.name} (${column.type}): ${parts.join(', ')}`;
+}
+
+/** Markdown table of rows, with pipes in cells escaped */
+export function toMarkdownTable(header: string[], rows: CellValue[][]): string {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const line = (cells: string[]) => `| ${cells.map(escape).join(' | ')} |`;
+  return [line(header), `|${' --- |'.repeat(header.length)}`, ...rows.map((row) => line(row.map(formatValue)))].join('\n');
+}
+
+/** Document text for a spreadsheet: per sheet its schema, column statistics and first rows */
+export function formatSpreadsheetContent(title: string, tables: SpreadsheetTable[]): string {
+  const sections = tables.map((table) => {
+    const preview = table.rows.slice(0, PREVIEW_ROWS);
+    const more = table.rows.length > preview.length ? `\n\n(First ${preview.length} of ${table.rows.length} rows)` : '';
+    return [
+      `## ${table.name} (${table.rows.length} rows × ${table.columns.length} columns)`,
+      `Columns:\n${table.columns.map(describeColumn).join('\n')}`,
+      toMarkdownTable(table.columns.map((c) => c.name), preview) + more,
+    ].join('\n\n');
+  });
+  return `[Spreadsheet: ${title}]\n\n${sections.join('\n\n')}`;
+}
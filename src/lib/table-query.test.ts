@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { parseTableQuery, runTableQuery, type TableQuery } from './table-query';
+import { parseCsv } from './spreadsheets';
+
+const table = parseCsv(
+  `Date,Category,Amount,Note
+2024-01-05,Groceries,42.50,weekly shop
+2024-01-20,Rent,1200,
+2024-02-03,Groceries,38.10,weekly shop
+2024-02-14,Dining,65.00,valentines
+2024-04-02,Groceries,51.40,
+2024-07-09,Travel,310.00,train tickets
+`,
+  'expenses.csv'
+)!;
+
+const query = (plan: Partial<TableQuery>): TableQuery => ({ filters: [], groupBy: null, aggregates: [], ...plan });
+const run = (plan: Partial<TableQuery>) => runTableQuery(table.columns, table.rows, query(plan));
+
+describe('parseTableQuery', () => {
+  it('keeps a well-formed plan', () => {
+    expect(
+      parseTableQuery({
+        filters: [{ column: 'Amount', op: 'between', value: 10, to: 100 }],
+        groupBy: { column: 'Date', bucket: 'month' },
+        aggregates: [{ fn: 'sum', column: 'Amount' }, { fn: 'count' }],
+        sort: 'desc',
+        limit: 5,
+      })
+    ).toEqual({
+      filters: [{ column: 'Amount', op: 'between', value: 10, to: 100 }],
+      groupBy: { column: 'Date', bucket: 'month' },
+      aggregates: [{ fn: 'sum', column: 'Amount' }, { fn: 'count' }],
+      sort: 'desc',
+      limit: 5,
+    });
+  });
+
+  it('drops unknown operators, functions and buckets', () => {
+    expect(
+      parseTableQuery({
+        filters: [{ column: 'Amount', op: 'like', value: 1 }, { op: 'eq', value: 1 }, { column: 'Note', op: 'contains', value: { x: 1 } }],
+        aggregates: [{ fn: 'stddev', column: 'Amount' }, { fn: 'max', column: 3 }, { fn: 'min', column: null }],
+        groupBy: { column: 'Date', bucket: 'week' },
+        sort: 'sideways',
+      })
+    ).toEqual({
+      filters: [{ column: 'Note', op: 'contains', value: null }],
+      groupBy: { column: 'Date' },
+      aggregates: [{ fn: 'min' }],
+    });
+  });
+
+  it('accepts a column name as groupBy and caps the limit', () => {
+    expect(parseTableQuery({ groupBy: 'Category', limit: '10000' })).toEqual({
+      filters: [],
+      groupBy: { column: 'Category' },
+      aggregates: [],
+      limit: 200,
+    });
+    expect(parseTableQuery({ limit: -3 })?.limit).toBeUndefined();
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(parseTableQuery(null)).toBeNull();
+    expect(parseTableQuery('sum the amounts')).toBeNull();
+  });
+});
+
+describe('runTableQuery', () => {
+  it('totals a column over the filtered rows', () => {
+    const result = run({
+      filters: [{ column: 'category', op: 'eq', value: 'groceries' }],
+      aggregates: [{ fn: 'sum', column: 'Amount' }, { fn: 'avg', column: 'Amount' }, { fn: 'count' }],
+    });
+    expect(result.header).toEqual(['sum(Amount)', 'avg(Amount)', 'count']);
+    expect(result.rows).toEqual([[132, 44, 3]]);
+    expect(result.matchedRows).toBe(3);
+    expect(result.totalRows).toBe(6);
+    expect(result.description).toBe('Computed sum(Amount), avg(Amount), count over rows where Category = groceries (3 of 6)');
+  });
+
+  it('compares dates at the precision of the filter value', () => {
+    const result = run({ filters: [{ column: 'Date', op: 'between', value: '2024-01', to: '2024-02' }], aggregates: [{ fn: 'count' }] });
+    expect(result.rows).toEqual([[4]]);
+    expect(run({ filters: [{ column: 'Date', op: 'gte', value: '2024-04' }] }).rows.map((r) => r[1])).toEqual(['Groceries', 'Travel']);
+  });
+
+  it('reads full date filter values in other formats', () => {
+    const result = run({ filters: [{ column: 'Date', op: 'between', value: '01/20/2024', to: 'Feb 3 2024' }], aggregates: [{ fn: 'count' }] });
+    expect(result.rows).toEqual([[2]]);
+  });
+
+  it('compares numbers as numbers, parsing string bounds', () => {
+    const result = run({ filters: [{ column: 'Amount', op: 'gt', value: '100' }], aggregates: [{ fn: 'min', column: 'Amount' }] });
+    expect(result.rows).toEqual([[310]]);
+  });
+
+  it('groups by a date bucket, in key order unless sorted', () => {
+    const byQuarter = run({ groupBy: { column: 'Date', bucket: 'quarter' }, aggregates: [{ fn: 'sum', column: 'Amount' }] });
+    expect(byQuarter.header).toEqual(['Date (quarter)', 'sum(Amount)']);
+    expect(byQuarter.rows).toEqual([
+      ['2024-Q1', 1345.6],
+      ['2024-Q2', 51.4],
+      ['2024-Q3', 310],
+    ]);
+
+    const top = run({ groupBy: { column: 'Category' }, aggregates: [{ fn: 'sum', column: 'Amount' }], sort: 'desc', limit: 2 });
+    expect(top.rows).toEqual([
+      ['Rent', 1200],
+      ['Travel', 310],
+    ]);
+    expect(top.description).toMatch(/top 2 of 4 groups$/);
+  });
+
+  it('counts rows per group when no aggregate is given', () => {
+    const result = run({ groupBy: { column: 'Category' } });
+    expect(result.header).toEqual(['Category', 'count']);
+    expect(result.rows).toContainEqual(['Groceries', 3]);
+  });
+
+  it('lists matching rows when there is nothing to compute', () => {
+    const result = run({ filters: [{ column: 'Note', op: 'contains', value: 'WEEKLY' }], limit: 1 });
+    expect(result.header).toEqual(['Date', 'Category', 'Amount', 'Note']);
+    expect(result.rows).toEqual([['2024-01-05', 'Groceries', 42.5, 'weekly shop']]);
+    expect(result.matchedRows).toBe(2);
+    expect(result.description).toBe('Listed 1 of rows where Note contains "WEEKLY" (2 of 6)');
+  });
+
+  it('names the columns when one does not exist', () => {
+    expect(() => run({ aggregates: [{ fn: 'sum', column: 'Price' }] })).toThrow(
+      'No column named "Price" (columns: Date, Category, Amount, Note)'
+    );
+  });
+
+  it('rejects aggregates other than count without a column', () => {
+    expect(() => run({ aggregates: [{ fn: 'sum' }] })).toThrow('sum needs a column (columns: Date, Category, Amount, Note)');
+    expect(() => run({ groupBy: { column: 'Category' }, aggregates: [{ fn: 'count' }, { fn: 'avg' }] })).toThrow('avg needs a column');
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Table Queries
+ *
+ * Answers aggregate questions over stored spreadsheet tables by computing on
+ * every row. The model never does the arithmetic: it picks a table and writes
+ * a small JSON query plan (filters, an optional group-by with date buckets,
+ * and aggregates), which is validated and run here.
+ *
+ *   { "filters": [{ "column": "Date", "op": "between", "value": "2024-07-01", "to": "2024-09-30" }],
+ *     "groupBy": { "column": "Category" },
+ *     "aggregates": [{ "fn": "sum", "column": "Amount" }],
+ *     "sort": "desc", "limit": 10 }
+ *
+ * Date cells are ISO strings, so a date filter value may be a prefix:
+ * "2024-07" matches the whole month.
+ */
+
+import prisma from './prisma';
+import { describeColumn, formatValue, parseDate, parseNumber, toMarkdownTable, type CellValue, type ColumnSchema } from './spreadsheets';
+
+export type FilterOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'between';
+export type AggregateFn = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export interface TableFilter {
+  column: string;
+  op: FilterOp;
+  value: CellValue;
+  /** Upper bound for "between" (inclusive) */
+  to?: CellValue;
+}
+
+export interface TableQuery {
+  filters: TableFilter[];
+  groupBy: { column: string; bucket?: 'month' | 'quarter' | 'year' } | null;
+  aggregates: { fn: AggregateFn; column?: string }[];
+  /** Order by the first aggregate; groups are otherwise in key order */
+  sort?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface TableQueryResult {
+  header: string[];
+  rows: CellValue[][];
+  matchedRows: number;
+  totalRows: number;
+  /** Plain-English account of what was computed, for the prompt and citations */
+  description: string;
+}
+
+/** A stored table without its rows */
+export interface TableInfo {
+  id: string;
+  documentId: string;
+  documentTitle: string;
+  name: string;
+  columns: ColumnSchema[];
+  rowCount: number;
+}
+
+const FILTER_OPS: FilterOp[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'between'];
+const AGGREGATE_FNS: AggregateFn[] = ['sum', 'avg', 'min', 'max', 'count'];
+const DEFAULT_ROW_LIMIT = 20;
+const DEFAULT_GROUP_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// ─── Stored tables ─────────────────────────────────────────
+
+/**
+ * The user's tables, most relevant to `query` first (by words shared with the
+ * document title, sheet name and column names), newest first otherwise.
+ */
+export async function listUserTables(userId: string, query = '', limit = 10): Promise<TableInfo[]> {
+  const stored = await prisma.documentTable.findMany({
+    where: { userId },
+    select: { id: true, documentId: true, name: true, columns: true, rowCount: true, document: { select: { title: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: 200,
+  });
+
+  const terms = query.toLowerCase().match(/[a-z0-9]{3,}/g) || [];
+  const tables = stored.map((t) => {
+    const info = toTableInfo(t);
+    const haystack = `${info.documentTitle} ${info.name} ${info.columns.map((c) => c.name).join(' ')}`.toLowerCase();
+    return { info, score: terms.filter((term) => haystack.includes(term)).length };
+  });
+
+  return tables
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((t) => t.info);
+}
+
+function toTableInfo(stored: {
+  id: string;
+  documentId: string;
+  name: string;
+  columns: string;
+  rowCount: number;
+  document: { title: string };
+}): TableInfo {
+  let columns: ColumnSchema[] = [];
+  try {
+    columns = JSON.parse(stored.columns);
+  } catch {}
+  return { id: stored.id, documentId: stored.documentId, documentTitle: stored.document.title, name: stored.name, columns, rowCount: stored.rowCount };
+}
+
+/** A table with all of its rows, or null if the user has no such table */
+export async function loadTable(userId: string, tableId: string): Promise<(TableInfo & { rows: CellValue[][] }) | null> {
+  const stored = await prisma.documentTable.findFirst({
+    where: { id: tableId, userId },
+    include: { document: { select: { title: true } } },
+  });
+  if (!stored) return null;
+  try {
+    return { ...toTableInfo(stored), rows: JSON.parse(stored.rows) };
+  } catch {
+    return null;
+  }
+}
+
+/** Schema of a table as shown to the model */
+export function describeTable(table: TableInfo, label: string): string {
+  return `[${label}] "${table.documentTitle}" › ${table.name} (${table.rowCount} rows)\n${table.columns.map(describeColumn).join('\n')}`;
+}
+
+// ─── Query plans ───────────────────────────────────────────
+
+function toCell(value: unknown): CellValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : null;
+}
+
+/** Validate a query plan written by the model; null if it isn't one */
+export function parseTableQuery(raw: unknown): TableQuery | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const plan = raw as Record<string, any>;
+
+  const filters: TableFilter[] = (Array.isArray(plan.filters) ? plan.filters : [])
+    .filter((f: any) => f && typeof f.column === 'string' && FILTER_OPS.includes(f.op))
+    .map((f: any) => ({ column: f.column, op: f.op, value: toCell(f.value), ...(f.to !== undefined ? { to: toCell(f.to) } : {}) }));
+
+  const aggregates = (Array.isArray(plan.aggregates) ? plan.aggregates : [])
+    .filter((a: any) => a && AGGREGATE_FNS.includes(a.fn) && (a.column === undefined || a.column === null || typeof a.column === 'string'))
+    .map((a: any) => ({ fn: a.fn as AggregateFn, ...(a.column ? { column: a.column as string } : {}) }));
+
+  const group = plan.groupBy;
+  const groupBy =
+    group && typeof group === 'object' && typeof group.column === 'string'
+      ? { column: group.column, ...(['month', 'quarter', 'year'].includes(group.bucket) ? { bucket: group.bucket } : {}) }
+      : typeof group === 'string' && group
+        ? { column: group }
+        : null;
+
+  const limit = Number(plan.limit);
+  return {
+    filters,
+    groupBy,
+    aggregates,
+    ...(plan.sort === 'asc' || plan.sort === 'desc' ? { sort: plan.sort } : {}),
+    ...(Number.isFinite(limit) && limit > 0 ? { limit: Math.min(MAX_LIMIT, Math.floor(limit)) } : {}),
+  };
+}
+
+// ─── Execution ─────────────────────────────────────────────
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function findColumn(columns: ColumnSchema[], name: string): number {
+  const exact = columns.findIndex((c) => c.name.toLowerCase() === name.trim().toLowerCase());
+  if (exact !== -1) return exact;
+  const loose = columns.findIndex((c) => normalizeName(c.name) === normalizeName(name));
+  if (loose !== -1) return loose;
+  throw new Error(`No column named "${name}" (columns: ${columns.map((c) => c.name).join(', ')})`);
+}
+
+// Negative, zero or positive like a comparator; null when the values can't be compared
+function compare(cell: CellValue, value: CellValue, column: ColumnSchema): number | null {
+  if (cell === null || value === null) return null;
+  if (column.type === 'number') {
+    const a = typeof cell === 'number' ? cell : null;
+    const b = typeof value === 'number' ? value : parseNumber(String(value));
+    return a === null || b === null ? null : a - b;
+  }
+  if (column.type === 'date') {
+    // Compare at the precision of the filter value, so "2024-07" covers the month;
+    // a full date in another format ("03/15/2024") is read like the cells were
+    const bound = parseDate(String(value)) ?? String(value).trim();
+    const a = String(cell).slice(0, bound.length);
+    return a < bound ? -1 : a > bound ? 1 : 0;
+  }
+  const a = String(cell).trim().toLowerCase();
+  const b = String(value).trim().toLowerCase();
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function matches(cell: CellValue, filter: TableFilter, column: ColumnSchema): boolean {
+  if (filter.op === 'contains') {
+    return cell !== null && String(cell).toLowerCase().includes(String(filter.value ?? '').toLowerCase());
+  }
+  if (filter.op === 'eq' || filter.op === 'neq') {
+    const equal = cell === null || filter.value === null ? cell === filter.value : compare(cell, filter.value, column) === 0;
+    return filter.op === 'eq' ? equal : !equal;
+  }
+
+  const order = compare(cell, filter.value, column);
+  if (order === null) return false;
+  switch (filter.op) {
+    case 'gt':
+      return order > 0;
+    case 'gte':
+      return order >= 0;
+    case 'lt':
+      return order < 0;
+    case 'lte':
+      return order <= 0;
+    case 'between': {
+      const upper = compare(cell, filter.to ?? null, column);
+      return order >= 0 && upper !== null && upper <= 0;
+    }
+  }
+  return false;
+}
+
+function groupKey(cell: CellValue, bucket?: 'month' | 'quarter' | 'year'): string {
+  const text = formatValue(cell);
+  if (!bucket || !/^\d{4}-\d{2}/.test(text)) return text;
+  if (bucket === 'year') return text.slice(0, 4);
+  if (bucket === 'month') return text.slice(0, 7);
+  return `${text.slice(0, 4)}-Q${Math.ceil(Number(text.slice(5, 7)) / 3)}`;
+}
+
+function aggregate(fn: AggregateFn, values: CellValue[]): CellValue {
+  const present = values.filter((v) => v !== null && v !== '');
+  if (fn === 'count') return present.length;
+  const numbers = present.filter((v): v is number => typeof v === 'number');
+  if (fn === 'sum') return round(numbers.reduce((a, b) => a + b, 0));
+  if (fn === 'avg') return numbers.length ? round(numbers.reduce((a, b) => a + b, 0) / numbers.length) : null;
+  // min/max also work on dates and text
+  const comparable: (number | string)[] = numbers.length ? numbers : present.map(String);
+  if (comparable.length === 0) return null;
+  return comparable.reduce((a, b) => ((fn === 'min' ? b < a : b > a) ? b : a));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function describeFilter(filter: TableFilter, column: ColumnSchema): string {
+  const value = formatValue(filter.value);
+  const words: Record<FilterOp, string> = {
+    eq: `= ${value}`,
+    neq: `≠ ${value}`,
+    gt: `> ${value}`,
+    gte: `≥ ${value}`,
+    lt: `< ${value}`,
+    lte: `≤ ${value}`,
+    contains: `contains "${value}"`,
+    between: `between ${value} and ${formatValue(filter.to ?? null)}`,
+  };
+  return `${column.name} ${words[filter.op]}`;
+}
+
+export function runTableQuery(columns: ColumnSchema[], rows: CellValue[][], query: TableQuery): TableQueryResult {
+  const filters = query.filters.map((filter) => ({ filter, index: findColumn(columns, filter.column) }));
+  const matched = rows.filter((row) => filters.every(({ filter, index }) => matches(row[index], filter, columns[index])));
+
+  const conditions = filters.map(({ filter, index }) => describeFilter(filter, columns[index]));
+  const scope = `${conditions.length ? `rows where ${conditions.join(' and ')}` : 'all rows'} (${matched.length} of ${rows.length})`;
+
+  const aggregates = query.aggregates.length > 0 || !query.groupBy ? query.aggregates : [{ fn: 'count' as const }];
+  const targets = aggregates.map((a) => {
+    if (a.column) return findColumn(columns, a.column);
+    // Only count works on rows; a sum or average of no column is not a count
+    if (a.fn !== 'count') throw new Error(`${a.fn} needs a column (columns: ${columns.map((c) => c.name).join(', ')})`);
+    return -1;
+  });
+  const labels = aggregates.map((a, i) => (targets[i] === -1 ? 'count' : `${a.fn}(${columns[targets[i]].name})`));
+  const valuesOf = (subset: CellValue[][], i: number) =>
+    targets[i] === -1 ? subset.map(() => 1) : subset.map((row) => row[targets[i]]);
+
+  // Plain listing of matching rows
+  if (aggregates.length === 0) {
+    const limit = query.limit ?? DEFAULT_ROW_LIMIT;
+    return {
+      header: columns.map((c) => c.name),
+      rows: matched.slice(0, limit),
+      matchedRows: matched.length,
+      totalRows: rows.length,
+      description: `Listed ${Math.min(limit, matched.length)} of ${scope}`,
+    };
+  }
+
+  // One row of totals
+  if (!query.groupBy) {
+    return {
+      header: labels,
+      rows: [aggregates.map((a, i) => aggregate(a.fn, valuesOf(matched, i)))],
+      matchedRows: matched.length,
+      totalRows: rows.length,
+      description: `Computed ${labels.join(', ')} over ${scope}`,
+    };
+  }
+
+  const groupIndex = findColumn(columns, query.groupBy.column);
+  const bucket = query.groupBy.bucket;
+  const groups = new Map<string, CellValue[][]>();
+  for (const row of matched) {
+    const key = groupKey(row[groupIndex], bucket);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  }
+
+  let grouped: CellValue[][] = Array.from(groups, ([key, subset]) => [
+    key || '(empty)',
+    ...aggregates.map((a, i) => aggregate(a.fn, valuesOf(subset, i))),
+  ]);
+  if (query.sort) {
+    const direction = query.sort === 'asc' ? 1 : -1;
+    grouped.sort((a, b) => direction * (Number(a[1] ?? 0) - Number(b[1] ?? 0)));
+  } else {
+    grouped.sort((a, b) => String(a[0]).localeCompare(String(b[0]), undefined, { numeric: true }));
+  }
+  const total = grouped.length;
+  grouped = grouped.slice(0, query.limit ?? DEFAULT_GROUP_LIMIT);
+
+  const groupLabel = bucket ? `${columns[groupIndex].name} (${bucket})` : columns[groupIndex].name;
+  return {
+    header: [groupLabel, ...labels],
+    rows: grouped,
+    matchedRows: matched.length,
+    totalRows: rows.length,
+    description: `Computed ${labels.join(', ')} per ${groupLabel} over ${scope}${total > grouped.length ? `; top ${grouped.length} of ${total} groups` : ''}`,
+  };
+}
+
+export function formatQueryResult(table: TableInfo, result: TableQueryResult): string {
+  return `From "${table.documentTitle}" › ${table.name}: ${result.description}.\n\n${toMarkdownTable(result.header, result.rows)}`;
+}
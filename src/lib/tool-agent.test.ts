@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockChatProvider, type ChatProvider, type ToolCall, type ToolChatOptions } from './llm';
+import { runToolAgent, type AgentStep } from './tool-agent';
+
+const searchVault = vi.hoisted(() => vi.fn());
+
+vi.mock('./prisma', () => ({ default: {} }));
+vi.mock('./retrieval', () => ({ searchVault }));
+
+const passage = {
+  id: 'c1',
+  documentId: 'doc1',
+  title: 'Q3 board memo',
+  content: 'Spend in Q3 came to 41,200.',
+  pageNumber: 3,
+  startSeconds: null,
+  fileUrl: 'https://blob.example/memo.pdf',
+  score: 1,
+};
+
+const call = (id: string, name: string, args: object): ToolCall => ({
+  id,
+  type: 'function',
+  function: { name, arguments: JSON.stringify(args) },
+});
+
+// The mock provider with its tool calls scripted turn by turn
+function scriptedProvider(turns: ToolCall[][]): ChatProvider & { requests: ToolChatOptions[] } {
+  const mock = createMockChatProvider();
+  const requests: ToolChatOptions[] = [];
+  return {
+    ...mock,
+    requests,
+    async chatWithTools(options) {
+      requests.push({ ...options, messages: [...options.messages] });
+      const { content } = await mock.chatWithTools(options);
+      return { content, toolCalls: turns[requests.length - 1] || [] };
+    },
+  };
+}
+
+const run = (provider: ChatProvider, extra: { localOnly?: boolean; maxSteps?: number; onStep?: (s: AgentStep) => void } = {}) =>
+  runToolAgent({ userId: 'u1', systemPrompt: 'You are a test agent.', history: [], message: 'What did we spend in Q3?', provider, ...extra });
+
+describe('runToolAgent', () => {
+  beforeEach(() => {
+    searchVault.mockReset();
+    searchVault.mockResolvedValue([passage]);
+  });
+
+  it('answers directly when the model calls no tools', async () => {
+    const result = await run(createMockChatProvider());
+    expect(result).toEqual({ answer: 'Mock response: What did we spend in Q3?', sources: [], steps: [] });
+    expect(searchVault).not.toHaveBeenCalled();
+  });
+
+  it('runs tool calls, feeds the results back and cites their sources', async () => {
+    const provider = scriptedProvider([[call('call1', 'search_vault', { query: 'Q3 spend', limit: 3 })]]);
+    const onStep = vi.fn();
+
+    const result = await run(provider, { onStep });
+
+    expect(searchVault).toHaveBeenCalledWith('u1', 'Q3 spend', { limit: 3, localOnly: false });
+    expect(result.answer).toBe('Mock response: What did we spend in Q3?');
+    expect(result.steps).toEqual([
+      { step: 1, tool: 'search_vault', args: { query: 'Q3 spend', limit: 3 }, status: 'done', summary: '1 passages from 1 documents' },
+    ]);
+    expect(result.sources).toEqual([
+      { type: 'document', title: 'Q3 board memo', id: 'doc1', page: 3, url: 'https://blob.example/memo.pdf#page=3' },
+    ]);
+    expect(onStep.mock.calls.map(([s]) => s.status)).toEqual(['running', 'done']);
+
+    const followUp = provider.requests[1].messages;
+    expect(followUp[followUp.length - 2]).toMatchObject({ role: 'assistant', tool_calls: [{ id: 'call1' }] });
+    expect(followUp[followUp.length - 1]).toMatchObject({ role: 'tool', tool_call_id: 'call1' });
+    expect(followUp[followUp.length - 1].content).toContain('Spend in Q3 came to 41,200.');
+  });
+
+  it('reports a failing tool to the model instead of throwing', async () => {
+    const provider = scriptedProvider([[call('call1', 'delete_everything', {})]]);
+    const result = await run(provider);
+
+    expect(result.steps[0]).toMatchObject({ tool: 'delete_everything', status: 'error' });
+    const followUp = provider.requests[1].messages;
+    expect(followUp[followUp.length - 1].content).toBe('Error: Unknown tool: delete_everything');
+  });
+
+  it('withholds web search in local-only mode', async () => {
+    const provider = scriptedProvider([[call('call1', 'web_search', { query: 'Q3' })]]);
+    const result = await run(provider, { localOnly: true });
+
+    expect(provider.requests[0].tools.map((t) => t.function.name)).not.toContain('web_search');
+    expect(result.steps[0]).toMatchObject({ tool: 'web_search', status: 'error' });
+  });
+
+  it('asks for a final answer without tools once the step limit is reached', async () => {
+    const search = [call('call', 'search_vault', { query: 'Q3' })];
+    const provider = scriptedProvider([search, search, search]);
+    const result = await run(provider, { maxSteps: 2 });
+
+    expect(result.steps).toHaveLength(2);
+    expect(provider.requests.map((r) => r.toolChoice)).toEqual(['auto', 'auto', 'none']);
+  });
+});
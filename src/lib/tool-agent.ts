@@ -0,0 +1,389 @@
+/**
+ * Tool-Calling Agent
+ *
+ * Agentic alternative to the fan-out expert pipeline: the primary model sees
+ * the question first and decides which tools to call (OpenAI-style function
+ * calling), reads the results and repeats until it produces a final answer or
+ * hits the step limit. Every tool call and result is reported through
+ * `onStep` so the UI can show the agent's work as it happens.
+ *
+ * Tools: search_vault, get_document, query_table, web_search, graph_neighbors. In local-only
+ * mode web_search is withheld and vault search never uses a hosted embedding API.
+ */
+
+import prisma from './prisma';
+import { getChatProvider, type ChatProvider, type ToolCall, type ToolChatMessage, type ToolDefinition } from './llm';
+import { searchVault } from './retrieval';
+import { describeRelation, getNeighbors } from './graph';
+import { webSearch } from './search';
+import { describeTable, formatQueryResult, listUserTables, loadTable, parseTableQuery, runTableQuery } from './table-query';
+import { formatTimestamp, pdfPageUrl, timestampUrl, withTimeout } from './utils';
+import type { AgentSource } from './agents';
+
+export interface AgentStep {
+  step: number;
+  tool: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'done' | 'error';
+  /** One-line description of the result, e.g. "4 passages from 2 documents" */
+  summary?: string;
+}
+
+export interface ToolAgentResult {
+  answer: string;
+  sources: AgentSource[];
+  steps: AgentStep[];
+}
+
+interface ToolOutput {
+  content: string;
+  summary: string;
+  sources: AgentSource[];
+}
+
+const MAX_STEPS = 6;
+const TOOL_TIMEOUT = 20_000;
+const MAX_TOOL_OUTPUT = 6000; // characters fed back to the model per call
+const DOCUMENT_EXCERPT = 5000;
+
+// ─── Tool definitions ──────────────────────────────────────
+
+const TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_vault',
+      description: "Search the user's own documents and notes. Returns the most relevant passages with their document ids.",
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'What to look for' },
+          limit: { type: 'integer', description: 'Number of passages (1-10)', default: 6 },
+        },
+        required: ['query'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_document',
+      description: "Read a document from the user's vault by id (ids come from search_vault results).",
+      parameters: {
+        type: 'object',
+        properties: { id: { type: 'string', description: 'Document id' } },
+        required: ['id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'query_table',
+      description:
+        "Compute totals, averages, counts, min/max or breakdowns over the user's spreadsheets (CSV/Excel) using every row. Call without `table` first to list the tables and their columns, then call again with a table id and a query.",
+      parameters: {
+        type: 'object',
+        properties: {
+          table: { type: 'string', description: 'Table id from the listing; omit to list tables' },
+          filters: {
+            type: 'array',
+            description: 'Row filters. Dates are ISO strings; a prefix like "2024-07" matches the whole month',
+            items: {
+              type: 'object',
+              properties: {
+                column: { type: 'string' },
+                op: { type: 'string', enum: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'between'] },
+                value: { description: 'String, number or boolean to compare with' },
+                to: { description: 'Upper bound for between (inclusive)' },
+              },
+              required: ['column', 'op', 'value'],
+            },
+          },
+          groupBy: {
+            type: 'object',
+            properties: {
+              column: { type: 'string' },
+              bucket: { type: 'string', enum: ['month', 'quarter', 'year'], description: 'For date columns' },
+            },
+            required: ['column'],
+          },
+          aggregates: {
+            type: 'array',
+            description: 'Leave empty to list matching rows',
+            items: {
+              type: 'object',
+              properties: {
+                fn: { type: 'string', enum: ['sum', 'avg', 'min', 'max', 'count'] },
+                column: { type: 'string', description: 'Required for every function but count' },
+              },
+              required: ['fn'],
+            },
+          },
+          sort: { type: 'string', enum: ['asc', 'desc'], description: 'Order groups by the first aggregate' },
+          limit: { type: 'integer', description: 'Rows or groups to return' },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'web_search',
+      description: 'Search the web for current or external information. Returns titles, URLs and snippets.',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string', description: 'Search query' } },
+        required: ['query'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'graph_neighbors',
+      description: "Look up a concept in the user's knowledge graph and list the concepts and documents connected to it and how they are related.",
+      parameters: {
+        type: 'object',
+        properties: { label: { type: 'string', description: 'Concept or entity name' } },
+        required: ['label'],
+      },
+    },
+  },
+];
+
+// ─── Tool implementations ──────────────────────────────────
+
+async function searchVaultTool(userId: string, args: Record<string, unknown>, localOnly: boolean): Promise<ToolOutput> {
+  const limit = Math.min(10, Math.max(1, Number(args.limit) || 6));
+  const chunks = await searchVault(userId, String(args.query || ''), { limit, localOnly });
+  // Best-ranked passage per document decides the cited page or timestamp
+  const documents = new Map<string, (typeof chunks)[number]>();
+  for (const c of chunks) if (!documents.has(c.documentId)) documents.set(c.documentId, c);
+
+  const locate = (c: (typeof chunks)[number]) =>
+    `${c.pageNumber ? ` (p. ${c.pageNumber})` : ''}${c.startSeconds !== null ? ` (at ${formatTimestamp(c.startSeconds)})` : ''}`;
+
+  return {
+    content: chunks.length
+      ? chunks
+        .map((c) => `[document ${c.documentId}] ${c.title}${locate(c)}\n${c.content}`)
+        .join('\n\n')
+      : 'No matching passages.',
+    summary: `${chunks.length} passages from ${documents.size} documents`,
+    sources: Array.from(documents.values()).map((c) => ({
+      type: 'document',
+      title: c.title,
+      id: c.documentId,
+      ...(c.pageNumber
+        ? { page: c.pageNumber, ...(c.fileUrl ? { url: pdfPageUrl(c.fileUrl, c.pageNumber) } : {}) }
+        : {}),
+      ...(c.startSeconds !== null
+        ? { timestamp: c.startSeconds, ...(c.fileUrl ? { url: timestampUrl(c.fileUrl, c.startSeconds) } : {}) }
+        : {}),
+    })),
+  };
+}
+
+async function getDocumentTool(userId: string, args: Record<string, unknown>): Promise<ToolOutput> {
+  const doc = await prisma.document.findFirst({
+    where: { id: String(args.id || ''), userId },
+    select: { id: true, title: true, summary: true, content: true },
+  });
+  if (!doc) return { content: 'Document not found.', summary: 'not found', sources: [] };
+
+  const excerpt = doc.content.slice(0, DOCUMENT_EXCERPT);
+  return {
+    content: [`# ${doc.title}`, doc.summary && `Summary: ${doc.summary}`, excerpt].filter(Boolean).join('\n\n'),
+    summary: doc.title,
+    sources: [{ type: 'document', title: doc.title, id: doc.id }],
+  };
+}
+
+async function queryTableTool(userId: string, args: Record<string, unknown>): Promise<ToolOutput> {
+  if (!args.table) {
+    const tables = await listUserTables(userId);
+    return {
+      content: tables.length ? tables.map((t) => describeTable(t, t.id)).join('\n\n') : 'No spreadsheets in the vault.',
+      summary: `${tables.length} tables`,
+      sources: [],
+    };
+  }
+
+  const table = await loadTable(userId, String(args.table));
+  if (!table) return { content: 'Table not found. Call query_table without `table` to list tables.', summary: 'not found', sources: [] };
+
+  const query = parseTableQuery(args)!;
+  const result = runTableQuery(table.columns, table.rows, query);
+  return {
+    content: formatQueryResult(table, result),
+    summary: `${result.rows.length} result rows from ${result.matchedRows} of ${result.totalRows} rows`,
+    sources: [{ type: 'document', title: table.documentTitle, id: table.documentId }],
+  };
+}
+
+async function webSearchTool(args: Record<string, unknown>): Promise<ToolOutput> {
+  const results = await webSearch(String(args.query || ''), 5);
+  return {
+    content: results.length
+      ? results.map((r, i) => `${i + 1}. ${r.title} — ${r.url}\n   ${r.snippet}`).join('\n')
+      : 'No results.',
+    summary: `${results.length} web results`,
+    sources: results.map((r) => ({ type: 'web', title: r.title, url: r.url })),
+  };
+}
+
+async function graphNeighborsTool(userId: string, args: Record<string, unknown>): Promise<ToolOutput> {
+  const label = String(args.label || '').trim();
+  const node =
+    (await prisma.knowledgeNode.findFirst({ where: { userId, label } })) ||
+    (await prisma.knowledgeNode.findFirst({ where: { userId, label: { contains: label } } }));
+  if (!node) return { content: `No concept named "${label}" in the knowledge graph.`, summary: 'not found', sources: [] };
+
+  const neighbors = await getNeighbors(userId, node.id, 50);
+
+  return {
+    content: neighbors.length
+      ? `${node.label} (${node.type}) is connected to:\n` +
+        neighbors.map((n) => `- ${describeRelation(n.relation, n.outgoing)} ${n.label} (${n.type})`).join('\n')
+      : `${node.label} (${node.type}) has no connections.`,
+    summary: `${neighbors.length} neighbours of ${node.label}`,
+    sources: [],
+  };
+}
+
+function executeTool(
+  userId: string,
+  name: string,
+  args: Record<string, unknown>,
+  localOnly: boolean
+): Promise<ToolOutput> {
+  if (localOnly && name === 'web_search') {
+    return Promise.reject(new Error('web_search is disabled in local-only mode'));
+  }
+  switch (name) {
+    case 'search_vault':
+      return searchVaultTool(userId, args, localOnly);
+    case 'get_document':
+      return getDocumentTool(userId, args);
+    case 'query_table':
+      return queryTableTool(userId, args);
+    case 'web_search':
+      return webSearchTool(args);
+    case 'graph_neighbors':
+      return graphNeighborsTool(userId, args);
+    default:
+      return Promise.reject(new Error(`Unknown tool: ${name}`));
+  }
+}
+
+function parseArgs(call: ToolCall): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(call.function.arguments || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// ─── Agent loop ────────────────────────────────────────────
+
+export function buildToolAgentSystemPrompt(crossConvoContext: string = ''): string {
+  return [
+    `You are Neural Cortex, an AI knowledge twin that helps users recall, connect, and build upon their knowledge. You can call tools to look things up before answering.`,
+    `## How to work:
+- Use search_vault first for anything that might be in the user's documents; use get_document to read a promising document in full
+- Use query_table for totals, averages, counts or breakdowns over the user's spreadsheets, and report its figures as given rather than adding up rows yourself
+- Use graph_neighbors to explore how concepts in the user's knowledge graph connect
+- Use web_search only for current or external information
+- Call tools as many times as you need, then answer. Do not call a tool again with the same arguments
+- Use markdown formatting; mention document titles and include URLs for web results
+- Cite pages as "Title, p. 47" when a passage shows a page number
+- For video or recording transcripts, cite the timestamp shown with the passage, e.g. "at 12:34"
+- Clearly distinguish between facts from the user's documents, web results, and your general knowledge`,
+    crossConvoContext,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export async function runToolAgent(options: {
+  userId: string;
+  systemPrompt: string;
+  history: { role: 'user' | 'assistant'; content: string }[];
+  message: string;
+  onStep?: (step: AgentStep) => void;
+  maxSteps?: number;
+  provider?: ChatProvider;
+  /** Preferred chat model from the user's settings */
+  model?: string;
+  /** Local-only privacy: no web search, no hosted embedding API */
+  localOnly?: boolean;
+}): Promise<ToolAgentResult> {
+  const {
+    userId,
+    systemPrompt,
+    history,
+    message,
+    onStep,
+    maxSteps = MAX_STEPS,
+    provider = getChatProvider(),
+    model,
+    localOnly = false,
+  } = options;
+  const tools = localOnly ? TOOLS.filter((t) => t.function.name !== 'web_search') : TOOLS;
+
+  const messages: ToolChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...history,
+    { role: 'user', content: message },
+  ];
+  const steps: AgentStep[] = [];
+  const sources = new Map<string, AgentSource>();
+
+  for (let turn = 0; turn <= maxSteps; turn++) {
+    // Out of steps: ask for a final answer with tools disabled
+    const { content, toolCalls } = await provider.chatWithTools({
+      messages,
+      tools,
+      model,
+      toolChoice: turn === maxSteps ? 'none' : 'auto',
+    });
+
+    if (toolCalls.length === 0 || turn === maxSteps) {
+      return { answer: content, sources: Array.from(sources.values()), steps };
+    }
+
+    messages.push({ role: 'assistant', content: content || null, tool_calls: toolCalls });
+
+    for (const call of toolCalls) {
+      const step: AgentStep = {
+        step: steps.length + 1,
+        tool: call.function.name,
+        args: parseArgs(call),
+        status: 'running',
+      };
+      steps.push(step);
+      onStep?.({ ...step });
+
+      let result: string;
+      try {
+        const output = await withTimeout(executeTool(userId, step.tool, step.args, localOnly), TOOL_TIMEOUT, `Tool ${step.tool}`);
+        for (const source of output.sources) sources.set(source.id || source.url || source.title, source);
+        result = output.content.slice(0, MAX_TOOL_OUTPUT);
+        step.status = 'done';
+        step.summary = output.summary;
+      } catch (err: any) {
+        console.error(`[ToolAgent] ${step.tool} failed:`, err?.message || err);
+        result = `Error: ${err?.message || 'tool failed'}`;
+        step.status = 'error';
+        step.summary = err?.message || 'failed';
+      }
+      onStep?.({ ...step });
+      messages.push({ role: 'tool', tool_call_id: call.id, content: result });
+    }
+  }
+
+  // Unreachable: the last turn always returns
+  return { answer: '', sources: Array.from(sources.values()), steps };
+}
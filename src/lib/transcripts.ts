@@ -0,0 +1,64 @@
+/**
+ * Transcripts
+ *
+ * Timed speech (YouTube captions, Whisper output) is stored as document
+ * text with a "[m:ss]" marker at the start of each paragraph. The markers
+ * keep the text readable, and indexing reads them back so every chunk knows
+ * the second it starts at — which is what lets answers cite "at 12:34".
+ */
+
+import { formatTimestamp } from './utils';
+
+export interface TranscriptSegment {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export interface TimeMarker {
+  offset: number; // character offset of the marker in the text
+  seconds: number;
+}
+
+const PARAGRAPH_SECONDS = 30;
+const PARAGRAPH_CHARS = 600;
+const MARKER_PATTERN = /^\[(?:(\d+):)?(\d{1,2}):(\d{2})\] /gm;
+
+/** Merge caption-sized segments into ~30s paragraphs, each starting with its timestamp */
+export function formatTranscript(segments: TranscriptSegment[]): string {
+  const paragraphs: string[] = [];
+  let start = 0;
+  let parts: string[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (parts.length > 0) paragraphs.push(`[${formatTimestamp(start)}] ${parts.join(' ')}`);
+    parts = [];
+    length = 0;
+  };
+
+  for (const segment of segments) {
+    const text = segment.text.replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+    if (parts.length > 0 && (segment.start - start >= PARAGRAPH_SECONDS || length >= PARAGRAPH_CHARS)) flush();
+    if (parts.length === 0) start = segment.start;
+    parts.push(text);
+    length += text.length + 1;
+  }
+  flush();
+
+  return paragraphs.join('\n\n');
+}
+
+/** Positions and times of the paragraph markers written by formatTranscript */
+export function findTimeMarkers(text: string): TimeMarker[] {
+  const markers: TimeMarker[] = [];
+  for (const match of Array.from(text.matchAll(MARKER_PATTERN))) {
+    const [, hours, minutes, seconds] = match;
+    markers.push({
+      offset: match.index ?? 0,
+      seconds: Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds),
+    });
+  }
+  return markers;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress, isPrivateUrl } from './utils';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '0.0.0.0',
+    '10.1.2.3',
+    '127.0.0.1',
+    '100.64.0.1',
+    '169.254.169.254',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '198.18.0.1',
+    '224.0.0.1',
+    '256.1.1.1',
+    '::',
+    '::1',
+    '[::1]',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1%eth0',
+    'ff02::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+    'example.com',
+  ])('%s is private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.15.0.1', '172.32.0.1', '100.128.0.1', '93.184.216.34', '2606:4700::1111', '::ffff:8.8.8.8'])(
+    '%s is public',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe('isPrivateUrl', () => {
+  it('flags local host names', () => {
+    expect(isPrivateUrl('http://localhost:11434')).toBe(true);
+    expect(isPrivateUrl('http://ollama:11434')).toBe(true);
+    expect(isPrivateUrl('http://printer.local/')).toBe(true);
+    expect(isPrivateUrl('http://[::1]/')).toBe(true);
+    expect(isPrivateUrl('https://example.com/')).toBe(false);
+  });
+});
@@ -47,3 +47,126 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   if (normA === 0 || normB === 0) return 0;
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
+
+export function withTimeout<T>(promise: Promise<T>, ms: number, label = 'Operation'): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+}
+
+/** True for loopback, private-network and .local hosts, i.e. endpoints that keep data on-prem */
+export function isPrivateUrl(url: string): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+  return (
+    host === 'localhost' ||
+    host === '::1' ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    /^127\./.test(host) ||
+    /^10\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host) ||
+    !host.includes('.') // bare container/service names, e.g. "ollama"
+  );
+}
+
+/**
+ * True for IP addresses a server-side fetch must not reach: unspecified,
+ * loopback, private, carrier-grade NAT, link-local (cloud metadata lives at
+ * 169.254.169.254), multicast and reserved ranges, IPv6 unique-local and
+ * link-local, and IPv4-mapped IPv6 forms of any of these. Anything that is
+ * not an IP address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  const v4 = ip.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (v4) {
+    const [a, b] = v4.slice(1, 3).map(Number);
+    if (v4.slice(1).some((part) => Number(part) > 255)) return true;
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  if (!ip.includes(':')) return true;
+  // IPv4-mapped, dotted ("::ffff:127.0.0.1") or hex ("::ffff:7f00:1")
+  const mapped = ip.match(/^(?:0*:)*:?ffff:(.+)$/);
+  if (mapped) {
+    if (mapped[1].includes('.')) return isPrivateAddress(mapped[1]);
+    const hex = mapped[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+      const high = parseInt(hex[1], 16);
+      const low = parseInt(hex[2], 16);
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+  }
+  const first = parseInt(ip.split(':')[0] || '0', 16);
+  return (
+    /^[0:]+$/.test(ip) || // ::
+    /^[0:]+1$/.test(ip) || // ::1
+    (first & 0xfe00) === 0xfc00 || // fc00::/7 unique-local
+    (first & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}
+
+/** Seconds → "m:ss" or "h:mm:ss", as used in transcripts and citations */
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** Link into a video or recording at a given second (YouTube ?t=, media fragment otherwise) */
+export function timestampUrl(url: string, seconds: number): string {
+  const t = Math.max(0, Math.floor(seconds));
+  try {
+    const parsed = new URL(url);
+    if (/(^|\.)(youtube\.com|youtu\.be)$/.test(parsed.hostname)) {
+      parsed.searchParams.set('t', `${t}s`);
+      return parsed.toString();
+    }
+    parsed.hash = `t=${t}`;
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/** Link to a page of a PDF (#page=N is honored by browser PDF viewers) */
+export function pdfPageUrl(url: string, page: number): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = `page=${page}`;
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
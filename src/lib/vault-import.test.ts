@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { convertLinks, parseFrontmatter, readVaultArchive } from './vault-import';
+
+vi.mock('./prisma', () => ({ default: {} }));
+
+describe('parseFrontmatter', () => {
+  it('reads the title and inline tags and strips the block', () => {
+    const note = '---\ntitle: "Weekly review"\ntags: [planning, "#review"]\naliases: wr\n---\n# Notes\nBody';
+    expect(parseFrontmatter(note)).toEqual({ body: '# Notes\nBody', title: 'Weekly review', tags: ['planning', 'review'] });
+  });
+
+  it('reads tags written as a list', () => {
+    const note = '---\r\ntags:\r\n  - project\r\n  - "#alpha"\r\naliases:\r\n  - not-a-tag\r\n---\r\nBody';
+    expect(parseFrontmatter(note)).toEqual({ body: 'Body', title: undefined, tags: ['project', 'alpha'] });
+  });
+
+  it('leaves notes without frontmatter alone', () => {
+    const note = 'Intro\n---\ntitle: not frontmatter\n---';
+    expect(parseFrontmatter(note)).toEqual({ body: note, tags: [] });
+  });
+});
+
+describe('convertLinks', () => {
+  it('rewrites wikilinks as their display text', () => {
+    const { content, links } = convertLinks('See [[Project Alpha]], [[Meetings/Kickoff|the kickoff]] and [[Budget#Q3]].');
+    expect(content).toBe('See Project Alpha, the kickoff and Budget.');
+    expect(links).toEqual([
+      { target: 'Project Alpha', kind: 'wiki' },
+      { target: 'Meetings/Kickoff', kind: 'wiki' },
+      { target: 'Budget', kind: 'wiki' },
+    ]);
+  });
+
+  it('drops embedded attachments but keeps embedded notes', () => {
+    const { content, links } = convertLinks('Diagram: ![[architecture.png]]\n![[Glossary]]');
+    expect(content).toBe('Diagram: \nGlossary');
+    expect(links).toEqual([{ target: 'Glossary', kind: 'wiki' }]);
+  });
+
+  it('keeps same-heading links as text without a link', () => {
+    expect(convertLinks('Jump to [[#Summary]]')).toEqual({ content: 'Jump to Summary', links: [] });
+  });
+
+  it('collects relative markdown links from Notion exports', () => {
+    const { content, links } = convertLinks(
+      'Owner: [Jane](People/Jane%20Doe%20a1b2c3d4e5f60718293a4b5c6d7e8f90.md), [](Specs/API%20spec.md)'
+    );
+    expect(content).toBe('Owner: Jane, API spec');
+    expect(links).toEqual([
+      { target: 'People/Jane Doe a1b2c3d4e5f60718293a4b5c6d7e8f90.md', kind: 'path' },
+      { target: 'Specs/API spec.md', kind: 'path' },
+    ]);
+  });
+
+  it('leaves web links, anchors, images and non-markdown files alone', () => {
+    const markdown = '[site](https://example.com/a.md) [top](#top) ![img](img/a.png) [sheet](data.csv)';
+    expect(convertLinks(markdown)).toEqual({ content: markdown, links: [] });
+  });
+
+  it('does not touch links inside code blocks', () => {
+    const markdown = '```\n[[Not a link]]\n```\n[[Real]]';
+    expect(convertLinks(markdown)).toEqual({ content: '```\n[[Not a link]]\n```\nReal', links: [{ target: 'Real', kind: 'wiki' }] });
+  });
+});
+
+describe('readVaultArchive', () => {
+  it('reads notes with their folders as collections and tags, skipping everything else', async () => {
+    const zip = new JSZip();
+    zip.file('My Vault/Projects/Alpha.md', '---\ntags: [active]\n---\nLinks to [[Kickoff]].');
+    zip.file('My Vault/Projects/Meetings a1b2c3d4e5f60718293a4b5c6d7e8f90/Kickoff.md', '\uFEFFFirst meeting.');
+    zip.file('My Vault/Home.md', '# Home');
+    zip.file('My Vault/.obsidian/workspace.json', '{}');
+    zip.file('My Vault/diagram.png', 'png');
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const { notes, skipped } = await readVaultArchive(buffer);
+
+    expect(notes.map(({ title, collection, tags, content, links }) => ({ title, collection, tags, content, links }))).toEqual([
+      { title: 'Alpha', collection: 'Projects', tags: ['Projects', 'active'], content: 'Links to Kickoff.', links: [{ target: 'Kickoff', kind: 'wiki' }] },
+      { title: 'Kickoff', collection: 'Projects/Meetings', tags: ['Projects', 'Meetings'], content: 'First meeting.', links: [] },
+      { title: 'Home', collection: null, tags: [], content: '# Home', links: [] },
+    ]);
+    expect(skipped).toEqual([{ path: 'My Vault/diagram.png', status: 'skipped', message: 'Not a markdown file' }]);
+  });
+});
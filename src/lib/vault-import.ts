@@ -0,0 +1,407 @@
+/**
+ * Vault Import
+ *
+ * Bulk import of an Obsidian vault or a Notion / plain Markdown export from a
+ * ZIP archive. Every markdown file becomes a Document, queued for enrichment
+ * and indexing like a single upload. Its folder path is kept as the
+ * document's collection and as tags, and links between pages — Obsidian
+ * [[wikilinks]] or Notion's relative "Page abc123….md" links — become
+ * "links_to" edges between the documents' knowledge-graph nodes.
+ */
+
+import path from 'path';
+import type JSZip from 'jszip';
+import prisma from './prisma';
+import { enqueueIngestJob } from './ingest-jobs';
+import { ensureDocumentNode } from './enrichment';
+import { upsertEdges } from './graph';
+
+export interface NoteLink {
+  /** Wikilink target ("Note", "Folder/Note") or a path relative to the note */
+  target: string;
+  kind: 'wiki' | 'path';
+}
+
+export interface ArchiveNote {
+  /** Path inside the archive */
+  path: string;
+  title: string;
+  /** Folder path with Notion ids removed, e.g. "Projects/Alpha"; null at the root */
+  collection: string | null;
+  tags: string[];
+  content: string;
+  links: NoteLink[];
+  size: number;
+}
+
+export interface ImportFileResult {
+  path: string;
+  status: 'imported' | 'skipped' | 'failed';
+  documentId?: string;
+  title?: string;
+  /** Links from this note that were connected in the knowledge graph */
+  links?: number;
+  message?: string;
+}
+
+export interface ImportReport {
+  imported: number;
+  skipped: number;
+  failed: number;
+  links: number;
+  files: ImportFileResult[];
+}
+
+export class VaultImportError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'VaultImportError';
+  }
+}
+
+export const MAX_IMPORT_FILES = Number(process.env.IMPORT_MAX_FILES) || 2000;
+// Inflated sizes, so a small zip bomb cannot exhaust memory
+const MAX_NOTE_BYTES = 5 * 1024 * 1024; // 5MB
+const MAX_UNCOMPRESSED_BYTES = Number(process.env.IMPORT_MAX_UNCOMPRESSED_BYTES) || 200 * 1024 * 1024; // 200MB
+const MAX_STORED_CONTENT = 50_000;
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown'];
+// Editor state, trash and OS metadata rather than notes
+const IGNORED_PATH = /(^|\/)(\.obsidian|\.trash|\.git|__MACOSX)\/|(^|\/)\.[^/]*$/;
+// Notion appends the page id to every exported file and folder name
+const NOTION_ID = /\s+[0-9a-f]{32}$/i;
+
+function cleanName(segment: string): string {
+  return segment.replace(NOTION_ID, '').trim();
+}
+
+function extensionOf(file: string): string {
+  return path.posix.extname(file).slice(1).toLowerCase();
+}
+
+function stripExtension(file: string): string {
+  return MARKDOWN_EXTENSIONS.includes(extensionOf(file)) ? file.slice(0, -(extensionOf(file).length + 1)) : file;
+}
+
+// ─── Markdown ──────────────────────────────────────────────
+
+function parseTagList(value: string): string[] {
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map((tag) => tag.trim().replace(/^["']|["']$/g, '').replace(/^#/, ''))
+    .filter(Boolean);
+}
+
+/** Split off YAML frontmatter, reading its title and tags (inline or "- item" lists) */
+export function parseFrontmatter(markdown: string): { body: string; title?: string; tags: string[] } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n|$)/);
+  if (!match) return { body: markdown, tags: [] };
+
+  let title: string | undefined;
+  const tags: string[] = [];
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.+)$/);
+    if (item && listKey) {
+      if (listKey === 'tags' || listKey === 'tag') tags.push(...parseTagList(item[1]));
+      continue;
+    }
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!field) continue;
+    const key = field[1].toLowerCase();
+    const value = field[2].trim();
+    listKey = value ? null : key;
+    if (key === 'title' && value) title = value.replace(/^["']|["']$/g, '');
+    if ((key === 'tags' || key === 'tag') && value) tags.push(...parseTagList(value));
+  }
+  return { body: markdown.slice(match[0].length), title, tags };
+}
+
+/**
+ * Collect links to other notes and rewrite them as their display text, so the
+ * stored content reads naturally. Embedded attachments (![[image.png]]) are
+ * dropped; links inside code blocks and to web pages are left alone.
+ */
+export function convertLinks(markdown: string): { content: string; links: NoteLink[] } {
+  const links: NoteLink[] = [];
+  let fenced = false;
+
+  const lines = markdown.split('\n').map((line) => {
+    if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+    if (fenced) return line;
+
+    return line
+      .replace(/(!?)\[\[([^\]\n]+?)\]\]/g, (_, embed: string, inner: string) => {
+        const [ref, alias] = inner.split('|');
+        const [target, heading] = ref.split('#');
+        const isNote = !extensionOf(target.trim()) || MARKDOWN_EXTENSIONS.includes(extensionOf(target.trim()));
+        if (embed && !isNote) return '';
+        if (target.trim()) links.push({ target: target.trim(), kind: 'wiki' });
+        return (alias || target || heading || '').trim();
+      })
+      .replace(/(!?)\[([^\]\n]*)\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g, (whole, embed: string, text: string, href: string) => {
+        if (embed || /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('#')) return whole;
+        let target: string;
+        try {
+          target = decodeURIComponent(href.split('#')[0]);
+        } catch {
+          return whole;
+        }
+        if (!MARKDOWN_EXTENSIONS.includes(extensionOf(target))) return whole;
+        links.push({ target, kind: 'path' });
+        return text || cleanName(stripExtension(path.posix.basename(target)));
+      });
+  });
+
+  return { content: lines.join('\n'), links };
+}
+
+// ─── Archive ───────────────────────────────────────────────
+
+// Uncompressed size recorded in the zip directory (JSZip keeps it on the entry)
+function declaredSize(entry: JSZip.JSZipObject): number {
+  return Number((entry as any)._data?.uncompressedSize) || 0;
+}
+
+/** Inflate an entry, giving up (null) as soon as it exceeds `limit` bytes */
+function readEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const parts: Buffer[] = [];
+    let size = 0;
+    let settled = false;
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      if (settled) return;
+      size += chunk.length;
+      if (size > limit) {
+        settled = true;
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      parts.push(chunk);
+    });
+    stream.on('error', (err: Error) => {
+      if (!settled) reject(err);
+      settled = true;
+    });
+    stream.on('end', () => {
+      if (!settled) resolve(Buffer.concat(parts));
+      settled = true;
+    });
+  });
+}
+
+/** Folder segments of a collection, used as tags */
+export function folderTags(collection: string | null): string[] {
+  return collection ? collection.split('/').filter(Boolean) : [];
+}
+
+/**
+ * Read every markdown note in the archive. Other files (attachments, Notion
+ * database CSVs) are reported as skipped. A single folder wrapping the whole
+ * archive — what zipping a vault folder produces — is not kept as a collection.
+ */
+export async function readVaultArchive(buffer: Buffer): Promise<{ notes: ArchiveNote[]; skipped: ImportFileResult[] }> {
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(buffer);
+
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir && !IGNORED_PATH.test(entry.name));
+  const markdown = entries.filter((entry) => MARKDOWN_EXTENSIONS.includes(extensionOf(entry.name)));
+  const skipped: ImportFileResult[] = entries
+    .filter((entry) => !markdown.includes(entry))
+    .map((entry) => ({ path: entry.name, status: 'skipped' as const, message: 'Not a markdown file' }));
+
+  const roots = new Set(markdown.map((entry) => (entry.name.includes('/') ? entry.name.split('/')[0] : '')));
+  const sharedRoot = roots.size === 1 && !roots.has('') ? `${Array.from(roots)[0]}/` : '';
+
+  // Sizes from the zip directory; readEntry enforces them too, in case they lie
+  const declared = markdown
+    .slice(0, MAX_IMPORT_FILES)
+    .reduce((sum, entry) => sum + Math.min(declaredSize(entry), MAX_NOTE_BYTES), 0);
+  if (declared > MAX_UNCOMPRESSED_BYTES) {
+    throw new VaultImportError(`The notes in this archive add up to more than ${MAX_UNCOMPRESSED_BYTES / 1024 / 1024}MB`, 413);
+  }
+
+  const notes: ArchiveNote[] = [];
+  let total = 0;
+  for (const entry of markdown.slice(0, MAX_IMPORT_FILES)) {
+    if (declaredSize(entry) > MAX_NOTE_BYTES) {
+      skipped.push({ path: entry.name, status: 'skipped', message: `Larger than ${MAX_NOTE_BYTES / 1024 / 1024}MB` });
+      continue;
+    }
+    const remaining = MAX_UNCOMPRESSED_BYTES - total;
+    const bytes = await readEntry(entry, Math.min(MAX_NOTE_BYTES, remaining));
+    if (!bytes) {
+      if (remaining < MAX_NOTE_BYTES) {
+        throw new VaultImportError(`The notes in this archive add up to more than ${MAX_UNCOMPRESSED_BYTES / 1024 / 1024}MB`, 413);
+      }
+      skipped.push({ path: entry.name, status: 'skipped', message: `Larger than ${MAX_NOTE_BYTES / 1024 / 1024}MB` });
+      continue;
+    }
+    total += bytes.length;
+    const raw = bytes.toString('utf-8').replace(/^\uFEFF/, '');
+    const { body, title, tags } = parseFrontmatter(raw);
+    const { content, links } = convertLinks(body);
+
+    const relative = entry.name.slice(sharedRoot.length);
+    const folders = path.posix.dirname(relative).split('/').filter((s) => s && s !== '.').map(cleanName);
+    const collection = folders.length > 0 ? folders.join('/').slice(0, 190) : null;
+
+    notes.push({
+      path: entry.name,
+      title: title || cleanName(stripExtension(path.posix.basename(entry.name))) || 'Untitled',
+      collection,
+      tags: Array.from(new Set([...folderTags(collection), ...tags])),
+      content: content.trim(),
+      links,
+      size: Buffer.byteLength(raw),
+    });
+  }
+  for (const entry of markdown.slice(MAX_IMPORT_FILES)) {
+    skipped.push({ path: entry.name, status: 'skipped', message: `More than ${MAX_IMPORT_FILES} notes in one import` });
+  }
+
+  return { notes, skipped };
+}
+
+// ─── Link resolution ───────────────────────────────────────
+
+type NoteIndex = { byPath: Map<string, ArchiveNote>; byName: Map<string, ArchiveNote[]> };
+
+function indexNotes(notes: ArchiveNote[]): NoteIndex {
+  const byPath = new Map<string, ArchiveNote>();
+  const byName = new Map<string, ArchiveNote[]>();
+  for (const note of notes) {
+    byPath.set(note.path.toLowerCase(), note);
+    const name = stripExtension(path.posix.basename(note.path)).toLowerCase();
+    for (const key of Array.from(new Set([name, cleanName(name), note.title.toLowerCase()]))) {
+      byName.set(key, [...(byName.get(key) || []), note]);
+    }
+  }
+  return { byPath, byName };
+}
+
+// Notion links are paths relative to the note; Obsidian wikilinks name a note
+// by file name, or by path when the name is ambiguous, preferring the same folder
+function resolveLink(from: ArchiveNote, link: NoteLink, index: NoteIndex): ArchiveNote | null {
+  const dir = path.posix.dirname(from.path);
+  if (link.kind === 'path') {
+    return index.byPath.get(path.posix.normalize(path.posix.join(dir, link.target)).toLowerCase()) || null;
+  }
+
+  const target = stripExtension(link.target).toLowerCase();
+  if (target.includes('/')) {
+    const suffix = `/${target}.`;
+    return Array.from(index.byPath.values()).find((note) => `/${note.path.toLowerCase()}`.includes(suffix)) || null;
+  }
+  const candidates = index.byName.get(target) || [];
+  return candidates.find((note) => path.posix.dirname(note.path) === dir) || candidates[0] || null;
+}
+
+// ─── Import ────────────────────────────────────────────────
+
+/**
+ * Import an archive for a user. Notes already in the vault (same title and
+ * collection) are skipped but still take part in linking, so re-importing an
+ * export only adds what's new. Links are written to the graph before the
+ * enrichment jobs are queued, which then add entities to the same nodes.
+ */
+export async function importVault(userId: string, buffer: Buffer, options: { domain?: string } = {}): Promise<ImportReport> {
+  const { notes, skipped } = await readVaultArchive(buffer);
+  console.log(`[Import] ${notes.length} notes, ${skipped.length} other files`);
+
+  const results = new Map<ArchiveNote, ImportFileResult>();
+  const documents = new Map<ArchiveNote, { id: string; title: string }>();
+  const created: { id: string; note: ArchiveNote }[] = [];
+
+  for (const note of notes) {
+    const title = note.title.slice(0, 190);
+    try {
+      const existing = await prisma.document.findFirst({
+        where: { userId, title, collection: note.collection },
+        select: { id: true },
+      });
+      if (existing) {
+        documents.set(note, { id: existing.id, title });
+        results.set(note, { path: note.path, status: 'skipped', documentId: existing.id, title, message: 'Already in your vault' });
+        continue;
+      }
+
+      const document = await prisma.document.create({
+        data: {
+          userId,
+          title,
+          content: note.content.slice(0, MAX_STORED_CONTENT),
+          contentType: 'markdown',
+          domain: options.domain || 'general',
+          fileType: 'text/markdown',
+          fileSize: note.size,
+          collection: note.collection,
+          tags: JSON.stringify(note.tags),
+        },
+      });
+      documents.set(note, { id: document.id, title });
+      created.push({ id: document.id, note });
+      results.set(note, { path: note.path, status: 'imported', documentId: document.id, title });
+    } catch (err: any) {
+      console.error(`[Import] Failed to import ${note.path}:`, err?.message || err);
+      results.set(note, { path: note.path, status: 'failed', title, message: err?.message || 'Could not save the note' });
+    }
+  }
+
+  // Links → "links_to" edges between document nodes
+  const index = indexNotes(notes);
+  let linkCount = 0;
+  for (const note of notes) {
+    const source = documents.get(note);
+    const result = results.get(note);
+    if (!source || !result || note.links.length === 0) continue;
+
+    const targets = new Map<string, { id: string; title: string }>();
+    for (const link of note.links) {
+      const resolved = resolveLink(note, link, index);
+      let target = resolved ? documents.get(resolved) : undefined;
+      // A wikilink to a note imported earlier, outside this archive
+      if (!resolved && link.kind === 'wiki') {
+        const title = path.posix.basename(stripExtension(link.target));
+        const existing = await prisma.document.findFirst({ where: { userId, title }, select: { id: true, title: true } });
+        if (existing) target = existing;
+      }
+      if (target && target.id !== source.id) targets.set(target.id, target);
+    }
+    if (targets.size === 0) continue;
+
+    try {
+      const sourceNode = await ensureDocumentNode(userId, source.title, source.id);
+      const targetNodes = [];
+      for (const target of Array.from(targets.values())) {
+        targetNodes.push(await ensureDocumentNode(userId, target.title, target.id));
+      }
+      await upsertEdges(
+        userId,
+        targetNodes.map((node) => ({ sourceId: sourceNode.id, targetId: node.id, relation: 'links_to', documentId: source.id }))
+      );
+      result.links = targets.size;
+      linkCount += targets.size;
+    } catch (err: any) {
+      console.error(`[Import] Failed to link ${note.path}:`, err?.message || err);
+    }
+  }
+
+  for (const { id, note } of created) {
+    if (note.content.length <= 20) continue;
+    try {
+      await enqueueIngestJob({ userId, documentId: id, text: note.content });
+    } catch (err: any) {
+      console.error(`[Import] Failed to queue ${note.path}:`, err?.message || err);
+    }
+  }
+
+  const all = [...Array.from(results.values()), ...skipped];
+  const count = (status: ImportFileResult['status']) => all.filter((f) => f.status === status).length;
+  const report = { imported: count('imported'), skipped: count('skipped'), failed: count('failed'), links: linkCount, files: all };
+  console.log(`[Import] ✅ ${report.imported} imported, ${report.skipped} skipped, ${report.failed} failed, ${linkCount} links`);
+  return report;
+}
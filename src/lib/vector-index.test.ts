@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+const dir = vi.hoisted(() => {
+  const dir = `${process.env.TMPDIR || '/tmp'}/vector-index-test-${process.pid}`;
+  process.env.VECTOR_INDEX_DIR = dir;
+  return dir;
+});
+
+vi.mock('./prisma', () => ({ default: { documentChunk: { findMany: async () => [] } } }));
+
+import { createHnswVectorIndex } from './vector-index';
+
+const vector = (i: number) => Array.from({ length: 8 }, (_, j) => Math.sin(i * 8 + j));
+const records = (from: number, to: number, documentId: string) =>
+  Array.from({ length: to - from }, (_, i) => ({ id: `c${from + i}`, documentId, vector: vector(from + i) }));
+
+describe('HNSW vector index persistence', () => {
+  afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('keeps the writes of two processes sharing the index files', async () => {
+    // Two instances stand in for the server and the ingest worker
+    const server = createHnswVectorIndex();
+    const worker = createHnswVectorIndex();
+
+    await Promise.all([
+      server.upsert('u1', 'model', records(0, 20, 'd1')),
+      worker.upsert('u1', 'model', records(20, 40, 'd2')),
+    ]);
+    await worker.upsert('u1', 'model', records(40, 60, 'd3'));
+
+    for (const index of [server, worker, createHnswVectorIndex()]) {
+      const ids = (await index.search('u1', 'model', vector(45), 60)).map((m) => m.id);
+      expect(ids).toHaveLength(60);
+      expect(ids[0]).toBe('c45');
+    }
+
+    await server.removeDocument('u1', 'd2');
+    const fresh = createHnswVectorIndex();
+    for (const index of [worker, fresh]) {
+      const matches = await index.search('u1', 'model', vector(25), 60);
+      expect(matches).toHaveLength(40);
+      expect(matches.some((m) => m.documentId === 'd2')).toBe(false);
+    }
+  });
+
+  it('appends changes to a log instead of rewriting the snapshot', async () => {
+    const index = createHnswVectorIndex();
+    await index.upsert('u2', 'model', records(0, 50, 'd1'));
+    const snapshot = path.join(dir, 'u2', 'model.json');
+    const before = await fs.stat(snapshot);
+
+    await index.upsert('u2', 'model', records(50, 51, 'd2'));
+    expect((await fs.stat(snapshot)).mtimeMs).toBe(before.mtimeMs);
+    expect((await fs.readFile(path.join(dir, 'u2', 'model.log'), 'utf-8')).trim().split('\n')).toHaveLength(1);
+    expect((await createHnswVectorIndex().search('u2', 'model', vector(50), 1))[0].id).toBe('c50');
+  });
+
+  it('takes over a lock left behind by a crashed process', async () => {
+    const lock = path.join(dir, 'u3', 'model.json.lock');
+    await fs.mkdir(path.dirname(lock), { recursive: true });
+    await fs.writeFile(lock, '');
+    const old = new Date(Date.now() - 120_000);
+    await fs.utimes(lock, old, old);
+
+    await createHnswVectorIndex().upsert('u3', 'model', records(0, 1, 'd1'));
+    await expect(fs.stat(lock)).rejects.toThrow();
+  });
+});
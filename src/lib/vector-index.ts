@@ -0,0 +1,376 @@
+/**
+ * Vector Index
+ *
+ * ANN index over document-chunk embeddings, partitioned by user and embedding
+ * model (vectors from different models are never mixed). Selected with
+ * VECTOR_INDEX:
+ * - hnsw  → in-process HNSW graph (see ./hnsw), persisted to VECTOR_INDEX_DIR
+ *           and rebuilt from the database on first use (default)
+ * - mysql → nearest-neighbour SQL against the DocumentChunk table using
+ *           TiDB / MySQL vector functions; rows are the index, so writes are no-ops
+ *
+ * The index is updated incrementally by the indexing pipeline at ingest time
+ * and when documents are deleted. HNSW writes go to an append-only log under a
+ * lock file, so the ingest worker and every server instance see each other's
+ * writes and none is lost.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import prisma from './prisma';
+import { HnswIndex, type SerializedHnsw } from './hnsw';
+import { HASH_EMBEDDING_MODEL } from './embeddings';
+
+export interface VectorRecord {
+  id: string;
+  documentId: string;
+  vector: number[];
+}
+
+export interface VectorMatch {
+  id: string;
+  documentId: string;
+  score: number; // cosine similarity
+}
+
+export interface VectorIndex {
+  name: string;
+  upsert(userId: string, model: string, records: VectorRecord[]): Promise<void>;
+  removeDocument(userId: string, documentId: string): Promise<void>;
+  search(userId: string, model: string, vector: number[], k: number): Promise<VectorMatch[]>;
+}
+
+// ─── HNSW (in-process, persisted) ──────────────────────────
+
+const INDEX_DIR = process.env.VECTOR_INDEX_DIR || path.join(process.cwd(), '.vector-index');
+const MAX_TOMBSTONE_RATIO = 0.25;
+// The op log is folded into a new snapshot once it outgrows half the snapshot
+const MIN_COMPACT_LOG_BYTES = 1024 * 1024;
+const LOCK_STALE_MS = 60_000;
+const LOCK_WAIT_MS = 30_000;
+
+type LogEntry =
+  | { op: 'upsert'; records: { id: string; documentId: string; vector: string }[] }
+  | { op: 'remove'; documentId: string };
+
+/** An index as loaded: the snapshot version it came from and how far into the log it has read */
+interface LoadedIndex {
+  index: HnswIndex | null;
+  snapshot: string;
+  logSize: number;
+}
+
+function indexFile(userId: string, model: string): string {
+  return path.join(INDEX_DIR, userId, `${encodeURIComponent(model)}.json`);
+}
+
+function logFile(userId: string, model: string): string {
+  return path.join(INDEX_DIR, userId, `${encodeURIComponent(model)}.log`);
+}
+
+const encodeVector = (values: number[]) => Buffer.from(Float32Array.from(values).buffer).toString('base64');
+
+function decodeVector(data: string): Float32Array {
+  const bytes = Buffer.from(data, 'base64');
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+function applyEntry(index: HnswIndex | null, entry: LogEntry): HnswIndex | null {
+  if (entry.op === 'remove') {
+    index?.removeDocument(entry.documentId);
+    return index;
+  }
+  for (const record of entry.records) {
+    const vector = decodeVector(record.vector);
+    index = index || new HnswIndex(vector.length);
+    if (vector.length === index.dimension) index.insert(record.id, record.documentId, vector);
+  }
+  return index;
+}
+
+// Modification time and size; empty when there is no file yet
+async function fileVersion(file: string): Promise<string> {
+  try {
+    const stat = await fs.stat(file);
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return '';
+  }
+}
+
+// The whole lines of the log from byte `from` on (a write may be under way),
+// and the offset they end at; a size below `from` means the log was compacted
+async function readLog(file: string, from: number): Promise<{ entries: LogEntry[]; size: number }> {
+  const handle = await fs.open(file, 'r').catch(() => null);
+  if (!handle) return { entries: [], size: 0 };
+  try {
+    const { size } = await handle.stat();
+    if (size <= from) return { entries: [], size };
+    const buffer = Buffer.alloc(size - from);
+    await handle.read(buffer, 0, buffer.length, from);
+    const end = buffer.lastIndexOf(10) + 1;
+    const lines = buffer.subarray(0, end).toString('utf-8').split('\n').filter(Boolean);
+    return { entries: lines.map((line) => JSON.parse(line) as LogEntry), size: from + end };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Run `write` holding the index's lock file, so the ingest worker and server
+ * instances take turns. A lock left behind by a crashed process is taken
+ * over once it is LOCK_STALE_MS old.
+ */
+async function withFileLock<T>(file: string, write: () => Promise<T>): Promise<T> {
+  const lock = `${file}.lock`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  for (;;) {
+    try {
+      await (await fs.open(lock, 'wx')).close();
+      break;
+    } catch (err: any) {
+      if (err?.code !== 'EEXIST') throw err;
+      const stat = await fs.stat(lock).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lock, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error(`Timed out waiting for ${lock}`);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+  try {
+    return await write();
+  } finally {
+    await fs.rm(lock, { force: true }).catch(() => {});
+  }
+}
+
+// Build an index for one user/model from the embeddings already in the database
+async function bootstrapFromDatabase(userId: string, model: string): Promise<HnswIndex | null> {
+  const rows = await prisma.documentChunk.findMany({
+    where: {
+      userId,
+      embedding: { not: null },
+      // Rows without a recorded model predate providers and used the hash
+      ...(model === HASH_EMBEDDING_MODEL
+        ? { OR: [{ embeddingModel: model }, { embeddingModel: null }] }
+        : { embeddingModel: model }),
+    },
+    select: { id: true, documentId: true, embedding: true },
+  });
+
+  let index: HnswIndex | null = null;
+  for (const row of rows) {
+    try {
+      const vector: number[] = JSON.parse(row.embedding!);
+      index = index || new HnswIndex(vector.length);
+      if (vector.length === index.dimension) index.insert(row.id, row.documentId, vector);
+    } catch {}
+  }
+
+  console.log(`[VectorIndex] Bootstrapped ${model} index for user ${userId} with ${index?.size || 0} vectors`);
+  return index;
+}
+
+/**
+ * Each user/model index is a snapshot file plus an append-only log of the
+ * upserts and removals since. Writes append to the log under a lock file
+ * after catching up with it, so they cost the size of the change and no
+ * process overwrites another's; the log is folded into a new snapshot once
+ * it grows. Readers replay new log lines and reload when the snapshot
+ * changes.
+ */
+export function createHnswVectorIndex(): VectorIndex {
+  const loaded = new Map<string, LoadedIndex>();
+  // Operations on one index run one at a time within this process
+  const queues = new Map<string, Promise<unknown>>();
+  const key = (userId: string, model: string) => `${userId}::${model}`;
+
+  function serial<T>(userId: string, model: string, run: () => Promise<T>): Promise<T> {
+    const k = key(userId, model);
+    const result = (queues.get(k) || Promise.resolve()).then(run, run);
+    queues.set(k, result.catch(() => {}));
+    return result;
+  }
+
+  async function writeSnapshot(userId: string, model: string, state: LoadedIndex) {
+    const file = indexFile(userId, model);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(state.index!.serialize()));
+    await fs.rename(tmp, file);
+    await fs.writeFile(logFile(userId, model), '');
+    state.snapshot = await fileVersion(file);
+    state.logSize = 0;
+  }
+
+  // With the lock held: a fresh index from the database, unless another process just saved one
+  async function rebuild(userId: string, model: string): Promise<LoadedIndex> {
+    if (await fileVersion(indexFile(userId, model))) {
+      try {
+        return await read(userId, model);
+      } catch (err) {
+        console.error('[VectorIndex] Unreadable index, rebuilding:', err);
+      }
+    }
+    const state: LoadedIndex = { index: await bootstrapFromDatabase(userId, model), snapshot: '', logSize: 0 };
+    if (state.index) await writeSnapshot(userId, model, state);
+    else await fs.rm(logFile(userId, model), { force: true });
+    return state;
+  }
+
+  async function read(userId: string, model: string): Promise<LoadedIndex> {
+    const file = indexFile(userId, model);
+    const snapshot = await fileVersion(file);
+    const raw = await fs.readFile(file, 'utf-8');
+    const state: LoadedIndex = { index: HnswIndex.deserialize(JSON.parse(raw) as SerializedHnsw), snapshot, logSize: 0 };
+    await catchUp(userId, model, state);
+    return state;
+  }
+
+  async function catchUp(userId: string, model: string, state: LoadedIndex) {
+    const { entries, size } = await readLog(logFile(userId, model), state.logSize);
+    if (size < state.logSize) throw new Error('Vector index log was compacted');
+    for (const entry of entries) state.index = applyEntry(state.index, entry);
+    state.logSize = size;
+  }
+
+  /** The index with every write so far applied; `locked` when the caller holds the lock */
+  async function current(userId: string, model: string, locked: boolean): Promise<LoadedIndex> {
+    const k = key(userId, model);
+    const cached = loaded.get(k);
+    if (cached && cached.snapshot === (await fileVersion(indexFile(userId, model)))) {
+      try {
+        await catchUp(userId, model, cached);
+        return cached;
+      } catch {}
+    }
+
+    // First use, or another process wrote a new snapshot
+    loaded.delete(k);
+    let state: LoadedIndex;
+    try {
+      state = await read(userId, model);
+    } catch {
+      const file = indexFile(userId, model);
+      state = await (locked ? rebuild(userId, model) : withFileLock(file, () => rebuild(userId, model)));
+    }
+    loaded.set(k, state);
+    return state;
+  }
+
+  // Append an entry to the log, catching up first so nothing another process wrote is lost
+  function write(userId: string, model: string, entry: (state: LoadedIndex) => LogEntry | null): Promise<void> {
+    return serial(userId, model, () =>
+      withFileLock(indexFile(userId, model), async () => {
+        const state = await current(userId, model, true);
+        const next = entry(state);
+        if (!next) return;
+        try {
+          const line = `${JSON.stringify(next)}\n`;
+          await fs.appendFile(logFile(userId, model), line);
+          state.logSize += Buffer.byteLength(line);
+          state.index = applyEntry(state.index, next);
+
+          const snapshotSize = Number(state.snapshot.split(':')[1]) || 0;
+          const compact = state.index && state.index.tombstoneRatio > MAX_TOMBSTONE_RATIO;
+          if (compact) state.index = state.index!.compact();
+          if (state.index && (compact || !state.snapshot || state.logSize > Math.max(MIN_COMPACT_LOG_BYTES, snapshotSize / 2))) {
+            await writeSnapshot(userId, model, state);
+          }
+        } catch (err) {
+          // Reload from disk next time rather than trust a half-applied write
+          loaded.delete(key(userId, model));
+          throw err;
+        }
+      })
+    );
+  }
+
+  async function persistedModels(userId: string): Promise<string[]> {
+    try {
+      const files = await fs.readdir(path.join(INDEX_DIR, userId));
+      return files.filter((f) => f.endsWith('.json')).map((f) => decodeURIComponent(f.slice(0, -'.json'.length)));
+    } catch {
+      return [];
+    }
+  }
+
+  return {
+    name: 'hnsw',
+
+    async upsert(userId, model, records) {
+      if (records.length === 0) return;
+      await write(userId, model, () => ({
+        op: 'upsert',
+        records: records.map((r) => ({ id: r.id, documentId: r.documentId, vector: encodeVector(r.vector) })),
+      }));
+    },
+
+    async removeDocument(userId, documentId) {
+      // Touch every index this user has, loaded in memory or only on disk
+      const models = new Set(await persistedModels(userId));
+      const prefix = `${userId}::`;
+      for (const k of Array.from(loaded.keys())) {
+        if (k.startsWith(prefix)) models.add(k.slice(prefix.length));
+      }
+
+      for (const model of Array.from(models)) {
+        await write(userId, model, ({ index }) => (index?.hasDocument(documentId) ? { op: 'remove', documentId } : null));
+      }
+    },
+
+    async search(userId, model, vector, k) {
+      const { index } = await serial(userId, model, () => current(userId, model, false));
+      if (!index || index.dimension !== vector.length) return [];
+      return index.search(vector, k);
+    },
+  };
+}
+
+// ─── MySQL / TiDB vector functions ─────────────────────────
+
+/**
+ * Uses TiDB's VEC_COSINE_DISTANCE over the JSON-array embeddings already
+ * stored in DocumentChunk.embedding (the same text format TiDB vectors use).
+ * For large vaults add a fixed-dimension VECTOR column with a vector index
+ * and point the query at it.
+ */
+export function createMySqlVectorIndex(): VectorIndex {
+  return {
+    name: 'mysql',
+
+    async upsert() {
+      // Chunk rows are written by the indexing pipeline — nothing else to do
+    },
+
+    async removeDocument() {
+      // Chunk rows cascade with their document
+    },
+
+    async search(userId, model, vector, k) {
+      const rows = await prisma.$queryRaw<{ id: string; documentId: string; distance: number }[]>`
+        SELECT id, documentId,
+               VEC_COSINE_DISTANCE(VEC_FROM_TEXT(embedding), VEC_FROM_TEXT(${JSON.stringify(vector)})) AS distance
+        FROM DocumentChunk
+        WHERE userId = ${userId} AND embeddingModel = ${model} AND embedding IS NOT NULL
+        ORDER BY distance ASC
+        LIMIT ${k}`;
+      return rows.map((r) => ({ id: r.id, documentId: r.documentId, score: 1 - Number(r.distance) }));
+    },
+  };
+}
+
+// ─── Index selection ───────────────────────────────────────
+
+let activeIndex: VectorIndex | null = null;
+
+export function getVectorIndex(): VectorIndex {
+  if (!activeIndex) {
+    activeIndex = (process.env.VECTOR_INDEX || 'hnsw').toLowerCase() === 'mysql'
+      ? createMySqlVectorIndex()
+      : createHnswVectorIndex();
+  }
+  return activeIndex;
+}
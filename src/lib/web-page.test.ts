@@ -0,0 +1,107 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import zlib from 'zlib';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// "public.test" stands in for a public site, served from this machine;
+// "rebind.test" answers with the metadata service address
+vi.mock('dns', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('dns')>();
+  const lookup = (hostname: string, options: any, callback: any) => {
+    const address = hostname === 'public.test' ? '127.0.0.1' : hostname === 'rebind.test' ? '169.254.169.254' : null;
+    if (!address) return callback(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+    callback(null, [{ address, family: 4 }]);
+  };
+  return { ...dns, default: { ...dns, lookup }, lookup };
+});
+vi.mock('./utils', async (importOriginal) => {
+  const utils = await importOriginal<typeof import('./utils')>();
+  return { ...utils, isPrivateAddress: (address: string) => address !== '127.0.0.1' && utils.isPrivateAddress(address) };
+});
+
+import { fetchWebPage, normalizeUrl } from './web-page';
+
+const article = `<html><head><title>Test page</title></head><body><article><h1>Heading</h1>${'<p>Some readable article text that goes on for a while. </p>'.repeat(20)}</article></body></html>`;
+
+let server: http.Server;
+let base: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === '/article') {
+      res.setHeader('content-type', 'text/html');
+      res.end(article);
+    } else if (req.url === '/gzip') {
+      res.setHeader('content-type', 'text/html');
+      res.setHeader('content-encoding', 'gzip');
+      res.end(zlib.gzipSync(article));
+    } else if (req.url === '/endless') {
+      // Chunked, with no Content-Length to refuse it up front
+      res.setHeader('content-type', 'text/html');
+      const chunk = '<p>' + 'x'.repeat(64 * 1024) + '</p>';
+      const write = () => {
+        while (res.write(chunk)) if (res.destroyed) return;
+        res.once('drain', write);
+      };
+      res.on('close', () => res.removeAllListeners('drain'));
+      write();
+    } else if (req.url === '/to-metadata') {
+      res.writeHead(302, { location: 'http://169.254.169.254/latest/meta-data/' }).end();
+    } else if (req.url === '/to-rebind') {
+      res.writeHead(302, { location: `http://rebind.test:${(server.address() as AddressInfo).port}/article` }).end();
+    } else if (req.url === '/pdf') {
+      res.setHeader('content-type', 'application/pdf');
+      res.end('%PDF-1.4');
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://public.test:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe('fetchWebPage', () => {
+  it('fetches and extracts an article', async () => {
+    const page = await fetchWebPage(`${base}/article`);
+    expect(page.title).toBe('Test page');
+    expect(page.markdown).toContain('Some readable article text');
+  });
+
+  it('decompresses gzip bodies', async () => {
+    expect((await fetchWebPage(`${base}/gzip`)).markdown).toContain('Some readable article text');
+  });
+
+  it('stops reading a body without a length once it passes 5MB', async () => {
+    await expect(fetchWebPage(`${base}/endless`)).rejects.toMatchObject({ status: 413 });
+  });
+
+  it('refuses private addresses, by IP, by name and after a redirect', async () => {
+    await expect(fetchWebPage('http://169.254.169.254/latest/meta-data/')).rejects.toMatchObject({ status: 400 });
+    await expect(fetchWebPage('http://localhost:3000/')).rejects.toMatchObject({ status: 400 });
+    await expect(fetchWebPage(`${base}/to-metadata`)).rejects.toMatchObject({ status: 400 });
+    await expect(fetchWebPage(`${base}/to-rebind`)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('reports unresolvable hosts, error statuses and other content types', async () => {
+    await expect(fetchWebPage('http://nowhere.test/')).rejects.toMatchObject({ status: 502 });
+    await expect(fetchWebPage(`${base}/missing`)).rejects.toMatchObject({ status: 502, message: 'The page returned HTTP 404' });
+    await expect(fetchWebPage(`${base}/pdf`)).rejects.toMatchObject({ status: 415 });
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('drops the fragment, tracking parameters and a trailing slash', () => {
+    expect(normalizeUrl(' https://Example.com/post/?utm_source=x&b=2&a=1&fbclid=y#comments ')).toBe(
+      'https://example.com/post?a=1&b=2'
+    );
+    expect(normalizeUrl('https://example.com/')).toBe('https://example.com/');
+  });
+
+  it('rejects anything but http(s) URLs', () => {
+    expect(normalizeUrl('ftp://example.com/file')).toBeNull();
+    expect(normalizeUrl('javascript:alert(1)')).toBeNull();
+    expect(normalizeUrl('not a url')).toBeNull();
+  });
+});
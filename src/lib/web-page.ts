@@ -0,0 +1,263 @@
+/**
+ * Web Page Ingestion
+ *
+ * Fetches an article by URL and reduces it to its main content with
+ * Mozilla Readability (on a linkedom DOM), then converts that to markdown
+ * with Turndown so headings, links and images survive. The page's canonical
+ * URL is used to de-duplicate saves of the same article.
+ */
+
+import dns from 'dns';
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { isIP, type LookupFunction } from 'net';
+import zlib from 'zlib';
+import { isPrivateAddress, isPrivateUrl } from './utils';
+
+export interface WebPage {
+  url: string; // canonical URL, or the final URL after redirects
+  title: string;
+  markdown: string;
+  byline: string | null;
+  siteName: string | null;
+  htmlSize: number;
+}
+
+export class WebPageError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'WebPageError';
+  }
+}
+
+const FETCH_TIMEOUT = 15_000;
+const MAX_HTML_SIZE = 5 * 1024 * 1024; // 5MB
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref_src)$/i;
+
+// ─── URLs ──────────────────────────────────────────────────
+
+/**
+ * Normalize a URL for de-duplication: drops the fragment, tracking
+ * parameters and a trailing slash. Returns null for non-http(s) input.
+ */
+export function normalizeUrl(input: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  url.hash = '';
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+  }
+  url.searchParams.sort();
+  if (url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, '');
+  return url.toString();
+}
+
+function resolveUrl(value: string, base: string): string | null {
+  try {
+    return new URL(value, base).toString();
+  } catch {
+    return null;
+  }
+}
+
+// ─── Fetch ─────────────────────────────────────────────────
+
+const MAX_REDIRECTS = 5;
+
+const blocked = () => new WebPageError('URLs on private networks cannot be saved', 400);
+
+/**
+ * dns.lookup that refuses names resolving to loopback, private or
+ * link-local addresses (the cloud metadata service included). It is the
+ * connection's own lookup, so the address checked is the address connected
+ * to and a second, rebound answer never gets used.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(new WebPageError(`Could not resolve ${hostname}`, 502), '', 0);
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) return callback(blocked(), '', 0);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function request(url: string, signal: AbortSignal): Promise<IncomingMessage> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  // IP literals are connected to without a lookup
+  if (isPrivateUrl(url) || (isIP(host) && isPrivateAddress(host))) return Promise.reject(blocked());
+
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    const req = client.get(
+      url,
+      {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; NeuralCortex/1.0; +https://github.com/neural-cortex)',
+          Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+          'Accept-Encoding': 'gzip, deflate, br',
+        },
+        lookup: publicLookup,
+        signal,
+      },
+      resolve
+    );
+    req.on('error', (err: any) => {
+      if (err instanceof WebPageError) return reject(err);
+      const reason = signal.aborted ? 'timed out' : 'failed';
+      reject(new WebPageError(`Fetching ${url} ${reason}`, 502));
+    });
+  });
+}
+
+// The decoded body, refused as soon as it passes MAX_HTML_SIZE (compressed or not)
+function readBody(res: IncomingMessage, signal: AbortSignal): Promise<string> {
+  const encoding = String(res.headers['content-encoding'] || '').toLowerCase();
+  const body =
+    encoding === 'gzip' || encoding === 'x-gzip'
+      ? res.pipe(zlib.createGunzip())
+      : encoding === 'deflate'
+        ? res.pipe(zlib.createInflate())
+        : encoding === 'br'
+          ? res.pipe(zlib.createBrotliDecompress())
+          : res;
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const fail = (err: Error) => {
+      res.destroy();
+      body.destroy();
+      reject(err);
+    };
+    body.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_HTML_SIZE) fail(new WebPageError('Page is too large to save', 413));
+      else chunks.push(chunk);
+    });
+    body.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    const broken = () =>
+      fail(new WebPageError(signal.aborted ? 'Fetching the page timed out' : 'The page could not be read', 502));
+    body.on('error', broken);
+    if (body !== res) res.on('error', broken);
+  });
+}
+
+async function fetchHtml(url: string): Promise<{ html: string; finalUrl: string }> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT);
+
+  // Redirects are followed by hand so that every hop is checked before it is requested
+  let res: IncomingMessage | null = null;
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    res = await request(current, signal);
+    const status = res.statusCode || 0;
+    const location = status >= 300 && status < 400 ? res.headers.location : undefined;
+    if (!location) break;
+    res.destroy();
+    res = null;
+    const next = resolveUrl(location, current);
+    if (!next || !/^https?:/i.test(next)) throw new WebPageError('The page redirected to an unsupported URL', 502);
+    current = next;
+  }
+
+  if (!res) throw new WebPageError('The page redirected too many times', 502);
+  const status = res.statusCode || 0;
+  const type = res.headers['content-type'] || '';
+  const fail = (message: string, code: number) => {
+    res!.destroy();
+    return new WebPageError(message, code);
+  };
+  if (status < 200 || status >= 300) throw fail(`The page returned HTTP ${status}`, 502);
+  if (type && !/html|xml|text\/plain/i.test(type)) {
+    throw fail(`Unsupported content type: ${type.split(';')[0]}`, 415);
+  }
+  if (Number(res.headers['content-length']) > MAX_HTML_SIZE) throw fail('Page is too large to save', 413);
+
+  return { html: await readBody(res, signal), finalUrl: current };
+}
+
+// ─── Extraction ────────────────────────────────────────────
+
+/** HTML fragment → markdown with ATX headings, fenced code and "-" bullets */
+export async function htmlToMarkdown(html: string): Promise<string> {
+  const { default: TurndownService } = await import('turndown');
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '_',
+  });
+  turndown.remove(['script', 'style', 'noscript', 'iframe', 'form']);
+  return turndown
+    .turndown(html)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Extract the readable article from a page's HTML as markdown */
+export async function extractArticle(html: string, pageUrl: string): Promise<WebPage> {
+  const [{ parseHTML }, { Readability }] = await Promise.all([import('linkedom'), import('@mozilla/readability')]);
+  const { document } = parseHTML(html);
+
+  const canonicalHref =
+    document.querySelector('link[rel="canonical"]')?.getAttribute('href') ||
+    document.querySelector('meta[property="og:url"]')?.getAttribute('content');
+  const canonical = canonicalHref ? normalizeUrl(resolveUrl(canonicalHref, pageUrl) || '') : null;
+
+  // Readability needs a base URI to fix relative links; linkedom has none, so do it up front
+  for (const [selector, attr] of [['a[href]', 'href'], ['img[src]', 'src']] as const) {
+    for (const el of Array.from(document.querySelectorAll(selector))) {
+      const absolute = resolveUrl(el.getAttribute(attr) || '', pageUrl);
+      if (absolute) el.setAttribute(attr, absolute);
+    }
+  }
+  // Lazy-loaded images often keep the real source in data-src
+  for (const img of Array.from(document.querySelectorAll('img[data-src]'))) {
+    const absolute = resolveUrl(img.getAttribute('data-src') || '', pageUrl);
+    if (absolute) img.setAttribute('src', absolute);
+  }
+
+  const fallbackTitle = document.querySelector('title')?.textContent?.trim() || '';
+  const article = new Readability(document as unknown as Document, { charThreshold: 200 }).parse();
+
+  const bodyHtml = article?.content || document.querySelector('body')?.innerHTML || '';
+  const markdown = await htmlToMarkdown(bodyHtml);
+
+  return {
+    url: canonical || normalizeUrl(pageUrl) || pageUrl,
+    title: article?.title?.trim() || fallbackTitle || new URL(pageUrl).hostname,
+    markdown,
+    byline: article?.byline?.trim() || null,
+    siteName: article?.siteName?.trim() || null,
+    htmlSize: html.length,
+  };
+}
+
+/** Fetch a URL and extract its article; throws WebPageError with an HTTP status */
+export async function fetchWebPage(input: string): Promise<WebPage> {
+  const url = normalizeUrl(input);
+  if (!url) throw new WebPageError('A valid http(s) URL is required', 400);
+
+  const { html, finalUrl } = await fetchHtml(url);
+  const page = await extractArticle(html, finalUrl);
+  if (!page.markdown) throw new WebPageError('No readable content found on the page', 422);
+
+  console.log(`[WebPage] ${page.url}: "${page.title}" → ${page.markdown.length} chars markdown`);
+  return page;
+}
+
+/** Markdown stored as the document content, with a source header for the reader */
+export function formatWebPageContent(page: WebPage): string {
+  const meta = [
+    `Source: ${page.url}`,
+    page.byline ? `By: ${page.byline}` : null,
+    page.siteName ? `Site: ${page.siteName}` : null,
+  ].filter(Boolean);
+  return `# ${page.title}\n\n${meta.join('  \n')}\n\n${page.markdown}`;
+}
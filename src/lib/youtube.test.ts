@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchYouTubeTranscript, parseJson3, parseXml } from './youtube';
+import { WebPageError } from './web-page';
+
+describe('parseJson3', () => {
+  it('joins each event\'s segments into a timed segment', () => {
+    const body = JSON.stringify({
+      events: [
+        { tStartMs: 0, dDurationMs: 1500, segs: [{ utf8: 'Hello' }, { utf8: ' world' }] },
+        { tStartMs: 1500, dDurationMs: 500 },
+        { tStartMs: 2000, dDurationMs: 1000, segs: [{ utf8: '\n' }] },
+        { tStartMs: 3250, segs: [{ utf8: 'again' }] },
+      ],
+    });
+    expect(parseJson3(body)).toEqual([
+      { start: 0, end: 1.5, text: 'Hello world' },
+      { start: 3.25, end: 3.25, text: 'again' },
+    ]);
+  });
+
+  it('returns nothing for a track without events', () => {
+    expect(parseJson3('{}')).toEqual([]);
+  });
+});
+
+describe('parseXml', () => {
+  it('reads timed text, drops escaped markup and decodes double-escaped entities', () => {
+    const body = `<?xml version="1.0" encoding="utf-8" ?><transcript>
+<text start="0.5" dur="2.1">Tom &amp;amp; Jerry</text>
+<text start="2.6" dur="1">it&amp;#39;s &lt;font color=&quot;#fff&quot;&gt;fine&lt;/font&gt; &amp;lt;3</text>
+<text start="4">no duration</text>
+<text start="5" dur="1">   </text>
+</transcript>`;
+    expect(parseXml(body)).toEqual([
+      { start: 0.5, end: 2.6, text: 'Tom & Jerry' },
+      { start: 2.6, end: 3.6, text: "it's fine <3" },
+      { start: 4, end: 4, text: 'no duration' },
+    ]);
+  });
+});
+
+describe('fetchYouTubeTranscript', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const watchPage = (player: object) =>
+    `<html><script>var ytInitialPlayerResponse = ${JSON.stringify(player)};var meta = {};</script></html>`;
+
+  function stubYouTube(player: object, captions: string) {
+    const fetch = vi.fn(async (url: string) =>
+      new Response(url.includes('/watch?') ? watchPage(player) : captions, { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  it('prefers written captions in the requested language over auto-generated ones', async () => {
+    const fetch = stubYouTube(
+      {
+        videoDetails: { title: 'Sourdough basics', author: 'Bakery', lengthSeconds: '600' },
+        captions: {
+          playerCaptionsTracklistRenderer: {
+            captionTracks: [
+              { baseUrl: 'https://www.youtube.com/api/timedtext?v=abc&lang=en&kind=asr', languageCode: 'en', kind: 'asr' },
+              { baseUrl: 'https://www.youtube.com/api/timedtext?v=abc&lang=de', languageCode: 'de' },
+              { baseUrl: 'https://www.youtube.com/api/timedtext?v=abc&lang=en-GB', languageCode: 'en-GB' },
+            ],
+          },
+        },
+      },
+      '<transcript><text start="1" dur="2">Feed the starter.</text></transcript>'
+    );
+
+    const video = await fetchYouTubeTranscript('abc');
+
+    expect(fetch.mock.calls[1][0]).toBe('https://www.youtube.com/api/timedtext?v=abc&lang=en-GB&fmt=json3');
+    expect(video).toEqual({
+      videoId: 'abc',
+      url: 'https://www.youtube.com/watch?v=abc',
+      title: 'Sourdough basics',
+      channel: 'Bakery',
+      durationSeconds: 600,
+      language: 'en-GB',
+      autoGenerated: false,
+      segments: [{ start: 1, end: 3, text: 'Feed the starter.' }],
+    });
+  });
+
+  it('rejects videos without captions', async () => {
+    stubYouTube({ captions: { playerCaptionsTracklistRenderer: { captionTracks: [] } } }, '');
+    await expect(fetchYouTubeTranscript('abc')).rejects.toMatchObject({ status: 422 });
+  });
+
+  it('reports unplayable videos with YouTube\'s reason', async () => {
+    stubYouTube({ playabilityStatus: { status: 'ERROR', reason: 'Video unavailable' } }, '');
+    const error = await fetchYouTubeTranscript('abc').catch((err) => err);
+    expect(error).toBeInstanceOf(WebPageError);
+    expect(error).toMatchObject({ message: 'Video unavailable', status: 422 });
+  });
+});
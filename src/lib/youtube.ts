@@ -0,0 +1,168 @@
+/**
+ * YouTube Transcripts
+ *
+ * Saves a video to the vault from its captions instead of downloading and
+ * transcribing the media: the watch page's player response lists the
+ * caption tracks, and the chosen track is fetched as timed segments.
+ * Manually written captions are preferred over auto-generated ones.
+ */
+
+import { formatTranscript, type TranscriptSegment } from './transcripts';
+import { WebPageError } from './web-page';
+
+export interface YouTubeTranscript {
+  videoId: string;
+  url: string;
+  title: string;
+  channel: string | null;
+  durationSeconds: number | null;
+  language: string;
+  autoGenerated: boolean;
+  segments: TranscriptSegment[];
+}
+
+interface CaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  kind?: string; // "asr" for auto-generated
+}
+
+const FETCH_TIMEOUT = 15_000;
+const HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+  'Accept-Language': 'en-US,en;q=0.9',
+  // Skips the EU consent interstitial that otherwise replaces the watch page
+  Cookie: 'CONSENT=YES+1',
+};
+
+export function youtubeWatchUrl(videoId: string): string {
+  return `https://www.youtube.com/watch?v=${videoId}`;
+}
+
+// ─── Player response ───────────────────────────────────────
+
+async function fetchPlayerResponse(videoId: string): Promise<any> {
+  let html: string;
+  try {
+    const res = await fetch(youtubeWatchUrl(videoId), { headers: HEADERS, signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+    if (!res.ok) throw new WebPageError(`YouTube returned HTTP ${res.status}`, 502);
+    html = await res.text();
+  } catch (err) {
+    if (err instanceof WebPageError) throw err;
+    throw new WebPageError('Could not reach YouTube', 502);
+  }
+
+  const match = html.match(/ytInitialPlayerResponse\s*=\s*(\{[\s\S]+?\})\s*;\s*(?:var\s|<\/script)/);
+  if (!match) throw new WebPageError('Could not read the YouTube video page', 502);
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    throw new WebPageError('Could not read the YouTube video page', 502);
+  }
+}
+
+function pickTrack(tracks: CaptionTrack[], preferredLanguage: string): CaptionTrack | null {
+  const language = (t: CaptionTrack) => t.languageCode.split('-')[0];
+  const ranked = [
+    (t: CaptionTrack) => language(t) === preferredLanguage && t.kind !== 'asr',
+    (t: CaptionTrack) => language(t) === preferredLanguage,
+    (t: CaptionTrack) => t.kind !== 'asr',
+    () => true,
+  ];
+  for (const matches of ranked) {
+    const track = tracks.find(matches);
+    if (track) return track;
+  }
+  return null;
+}
+
+// ─── Caption parsing ───────────────────────────────────────
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+}
+
+// json3: { events: [{ tStartMs, dDurationMs, segs: [{ utf8 }] }] }
+export function parseJson3(body: string): TranscriptSegment[] {
+  const data = JSON.parse(body);
+  const segments: TranscriptSegment[] = [];
+  for (const event of data.events || []) {
+    if (!event.segs) continue;
+    const text = event.segs.map((s: { utf8?: string }) => s.utf8 || '').join('').trim();
+    if (!text) continue;
+    const start = (event.tStartMs || 0) / 1000;
+    segments.push({ start, end: start + (event.dDurationMs || 0) / 1000, text });
+  }
+  return segments;
+}
+
+// Legacy XML: <text start="1.2" dur="3.4">...</text>
+export function parseXml(body: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const pattern = /<text start="([\d.]+)"(?: dur="([\d.]+)")?[^>]*>([\s\S]*?)<\/text>/g;
+  let match;
+  while ((match = pattern.exec(body)) !== null) {
+    const text = decodeEntities(decodeEntities(match[3]).replace(/<[^>]*>/g, '')).trim();
+    if (!text) continue;
+    const start = parseFloat(match[1]);
+    segments.push({ start, end: start + parseFloat(match[2] || '0'), text });
+  }
+  return segments;
+}
+
+async function fetchCaptions(track: CaptionTrack): Promise<TranscriptSegment[]> {
+  const res = await fetch(`${track.baseUrl}&fmt=json3`, { headers: HEADERS, signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+  if (!res.ok) throw new WebPageError(`YouTube captions returned HTTP ${res.status}`, 502);
+  const body = (await res.text()).trim();
+  if (!body) return [];
+  return body.startsWith('{') ? parseJson3(body) : parseXml(body);
+}
+
+// ─── Public API ────────────────────────────────────────────
+
+/** Captions of a video as timed segments; throws WebPageError with an HTTP status */
+export async function fetchYouTubeTranscript(videoId: string, preferredLanguage = 'en'): Promise<YouTubeTranscript> {
+  const player = await fetchPlayerResponse(videoId);
+  const status = player?.playabilityStatus?.status;
+  if (status && status !== 'OK') {
+    throw new WebPageError(player.playabilityStatus.reason || 'This video is unavailable', 422);
+  }
+
+  const tracks: CaptionTrack[] = player?.captions?.playerCaptionsTracklistRenderer?.captionTracks || [];
+  const track = pickTrack(tracks, preferredLanguage);
+  if (!track) {
+    throw new WebPageError('This video has no captions. Upload the video file to transcribe it instead.', 422);
+  }
+
+  const segments = await fetchCaptions(track);
+  if (segments.length === 0) throw new WebPageError('The caption track for this video is empty', 422);
+
+  const details = player.videoDetails || {};
+  console.log(`[YouTube] ${videoId}: ${segments.length} caption segments (${track.languageCode}${track.kind === 'asr' ? ', auto' : ''})`);
+  return {
+    videoId,
+    url: youtubeWatchUrl(videoId),
+    title: details.title || `YouTube video ${videoId}`,
+    channel: details.author || null,
+    durationSeconds: Number(details.lengthSeconds) || null,
+    language: track.languageCode,
+    autoGenerated: track.kind === 'asr',
+    segments,
+  };
+}
+
+/** Document text for a video: a short header, then the timestamped transcript */
+export function formatYouTubeContent(video: YouTubeTranscript): string {
+  const meta = [
+    `Source: ${video.url}`,
+    video.channel ? `Channel: ${video.channel}` : null,
+    `Transcript: ${video.language}${video.autoGenerated ? ' (auto-generated captions)' : ''}`,
+  ].filter(Boolean);
+  return `# ${video.title}\n\n${meta.join('  \n')}\n\n${formatTranscript(video.segments)}`;
+}
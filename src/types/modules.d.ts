@@ -31,6 +31,12 @@ declare module 'react-force-graph-2d' {
 
 declare module 'unpdf' {
   export function extractText(data: Uint8Array, options?: { mergePages?: boolean }): Promise<{ text: string; totalPages: number }>;
-  export function getDocumentProxy(data: Uint8Array): Promise<any>;
+  export function getDocumentProxy(data: Uint8Array, options?: Record<string, any>): Promise<any>;
   export function getMeta(data: Uint8Array): Promise<any>;
+  export function createIsomorphicCanvasFactory(canvasImport?: () => Promise<any>): Promise<any>;
+  export function renderPageAsImage(
+    data: Uint8Array | any,
+    pageNumber: number,
+    options?: { canvasImport?: () => Promise<any>; scale?: number; width?: number; height?: number }
+  ): Promise<ArrayBuffer>;
 }